@@ -199,7 +199,7 @@ export const runAuthInit = async (
       logger.info('Authentication initialization completed.');
 
       // Clean up
-      userService.destroy();
+      await userService.destroy();
     } catch (error: any) {
       rl.close();
       throw error;
@@ -18,6 +18,7 @@ import {
   LogLevel,
   AuthMode,
   DuplicatePackagePolicy,
+  DeletePackagePolicy,
   MissingPackageResponseMode,
 } from './types';
 import {
@@ -99,6 +100,14 @@ const getDuplicatePackagePolicyFromEnv = ():
   return undefined;
 };
 
+const getDeletePackagePolicyFromEnv = (): DeletePackagePolicy | undefined => {
+  const policy = process.env.NUGET_SERVER_DELETE_PACKAGE_POLICY;
+  if (policy === 'unlist' || policy === 'delete') {
+    return policy;
+  }
+  return undefined;
+};
+
 const getMaxUploadSizeMbFromEnv = (): number | undefined => {
   const value = process.env.NUGET_SERVER_MAX_UPLOAD_SIZE_MB;
   if (value) {
@@ -238,6 +247,10 @@ program
       getDuplicatePackagePolicyFromEnv() ||
       configFile.duplicatePackagePolicy ||
       'ignore';
+    const deletePackagePolicy =
+      getDeletePackagePolicyFromEnv() ||
+      configFile.deletePackagePolicy ||
+      'unlist';
     const maxUploadSizeMb =
       options.maxUploadSizeMb !== undefined
         ? parseInt(options.maxUploadSizeMb, 10)
@@ -328,10 +341,19 @@ program
     logger.info(`Authentication mode: ${authMode}`);
     logger.info(`Log level: ${logLevel}`);
     logger.info(`Max upload size: ${maxUploadSizeMb}MB`);
+    logger.info(`Delete package policy: ${deletePackagePolicy}`);
     logger.info(`Missing package response: ${missingPackageResponse}`);
     if (trustedProxies && trustedProxies.length > 0) {
       logger.info(`Trusted proxies: ${trustedProxies.join(', ')}`);
     }
+    if (configFile.publishValidation) {
+      const ruleNames = Object.entries(configFile.publishValidation)
+        .filter(([, rule]) => rule !== undefined)
+        .map(([name]) => name);
+      logger.info(
+        `Publish validation rules: ${ruleNames.join(', ') || 'none'}`
+      );
+    }
     if (configFile && Object.keys(configFile).length > 0) {
       logger.info(`Configuration loaded from ${configFilePath}`);
     }
@@ -350,9 +372,11 @@ program
       passwordMinScore,
       passwordStrengthCheck,
       duplicatePackagePolicy: duplicatePackagePolicy as DuplicatePackagePolicy,
+      deletePackagePolicy: deletePackagePolicy as DeletePackagePolicy,
       maxUploadSizeMb,
       missingPackageResponse:
         missingPackageResponse as MissingPackageResponseMode,
+      publishValidation: configFile.publishValidation,
     };
 
     // Handle auth-init mode
@@ -473,6 +473,13 @@ export const messages = {
     key: "AUTHORS_LABEL", 
     fallback: "Authors:" 
   } as SimpleMessageItem,
+  /**
+   * OWNERS_LABEL ==> "Owners:"
+   */
+  OWNERS_LABEL: { 
+    key: "OWNERS_LABEL", 
+    fallback: "Owners:" 
+  } as SimpleMessageItem,
   /**
    * TAGS ==> "Tags"
    */
@@ -1180,6 +1187,83 @@ export const messages = {
     key: "TABLE_DELETE", 
     fallback: "Delete" 
   } as SimpleMessageItem,
+  /**
+   * TABLE_LAST_USED ==> "Last used"
+   */
+  TABLE_LAST_USED: { 
+    key: "TABLE_LAST_USED", 
+    fallback: "Last used" 
+  } as SimpleMessageItem,
+  /**
+   * NEVER_USED ==> "Never"
+   */
+  NEVER_USED: { 
+    key: "NEVER_USED", 
+    fallback: "Never" 
+  } as SimpleMessageItem,
+  /**
+   * API_PASSWORD_SCOPES ==> "Scopes"
+   */
+  API_PASSWORD_SCOPES: { 
+    key: "API_PASSWORD_SCOPES", 
+    fallback: "Scopes" 
+  } as SimpleMessageItem,
+  /**
+   * SCOPE_READ ==> "Read"
+   */
+  SCOPE_READ: { 
+    key: "SCOPE_READ", 
+    fallback: "Read" 
+  } as SimpleMessageItem,
+  /**
+   * SCOPE_PUSH ==> "Push"
+   */
+  SCOPE_PUSH: { 
+    key: "SCOPE_PUSH", 
+    fallback: "Push" 
+  } as SimpleMessageItem,
+  /**
+   * SCOPE_DELETE ==> "Delete"
+   */
+  SCOPE_DELETE: { 
+    key: "SCOPE_DELETE", 
+    fallback: "Delete" 
+  } as SimpleMessageItem,
+  /**
+   * API_PASSWORD_PACKAGE_PATTERNS ==> "Package ID patterns"
+   */
+  API_PASSWORD_PACKAGE_PATTERNS: { 
+    key: "API_PASSWORD_PACKAGE_PATTERNS", 
+    fallback: "Package ID patterns" 
+  } as SimpleMessageItem,
+  /**
+   * API_PASSWORD_PACKAGE_PATTERNS_HELPER ==> "Comma separated globs allowed to push and delete, e.g. Contoso.\* (empty for all packages)"
+   */
+  API_PASSWORD_PACKAGE_PATTERNS_HELPER: { 
+    key: "API_PASSWORD_PACKAGE_PATTERNS_HELPER", 
+    fallback: "Comma separated globs allowed to push and delete, e.g. Contoso.* (empty for all packages)" 
+  } as SimpleMessageItem,
+  /**
+   * API_PASSWORD_EXPIRES_AT ==> "Expiration date"
+   */
+  API_PASSWORD_EXPIRES_AT: { 
+    key: "API_PASSWORD_EXPIRES_AT", 
+    fallback: "Expiration date" 
+  } as SimpleMessageItem,
+  /**
+   * API_PASSWORD_EXPIRES ==> "Expires: {date}"
+   */
+  API_PASSWORD_EXPIRES: { 
+    key: "API_PASSWORD_EXPIRES", 
+    fallback: "Expires: {date}" 
+  } as MessageItem<{ date: string }>,
+  /**
+   * API_PASSWORD_EXPIRED ==> "Expired"
+   */
+  API_PASSWORD_EXPIRED: { 
+    key: "API_PASSWORD_EXPIRED", 
+    fallback: "Expired" 
+  } as SimpleMessageItem,
   /**
    * MAX_API_PASSWORDS ==> "Maximum of 10 API passwords reached. Delete existing passwords to add new ones."
    */
@@ -1431,6 +1515,496 @@ export const messages = {
   NUGET_SERVER: { 
     key: "NUGET_SERVER", 
     fallback: "NuGet Server" 
+  } as SimpleMessageItem,
+  /**
+   * MANAGE_DEPRECATION ==> "Manage deprecation"
+   */
+  MANAGE_DEPRECATION: { 
+    key: "MANAGE_DEPRECATION", 
+    fallback: "Manage deprecation" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_INSTRUCTION ==> "Select a version to deprecate. Clients show the reasons and the message as a warning when the version is used."
+   */
+  DEPRECATION_INSTRUCTION: { 
+    key: "DEPRECATION_INSTRUCTION", 
+    fallback: "Select a version to deprecate. Clients show the reasons and the message as a warning when the version is used." 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_VERSION ==> "Version"
+   */
+  DEPRECATION_VERSION: { 
+    key: "DEPRECATION_VERSION", 
+    fallback: "Version" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_REASONS ==> "Reasons"
+   */
+  DEPRECATION_REASONS: { 
+    key: "DEPRECATION_REASONS", 
+    fallback: "Reasons" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_REASON_LEGACY ==> "Legacy (no longer maintained)"
+   */
+  DEPRECATION_REASON_LEGACY: { 
+    key: "DEPRECATION_REASON_LEGACY", 
+    fallback: "Legacy (no longer maintained)" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_REASON_CRITICAL_BUGS ==> "Critical bugs"
+   */
+  DEPRECATION_REASON_CRITICAL_BUGS: { 
+    key: "DEPRECATION_REASON_CRITICAL_BUGS", 
+    fallback: "Critical bugs" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_REASON_OTHER ==> "Other"
+   */
+  DEPRECATION_REASON_OTHER: { 
+    key: "DEPRECATION_REASON_OTHER", 
+    fallback: "Other" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_MESSAGE ==> "Message"
+   */
+  DEPRECATION_MESSAGE: { 
+    key: "DEPRECATION_MESSAGE", 
+    fallback: "Message" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_ALTERNATE_ID ==> "Alternate package ID"
+   */
+  DEPRECATION_ALTERNATE_ID: { 
+    key: "DEPRECATION_ALTERNATE_ID", 
+    fallback: "Alternate package ID" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_ALTERNATE_RANGE ==> "Alternate version range"
+   */
+  DEPRECATION_ALTERNATE_RANGE: { 
+    key: "DEPRECATION_ALTERNATE_RANGE", 
+    fallback: "Alternate version range" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_ALTERNATE_RANGE_HELP ==> "Empty means any version (\*)"
+   */
+  DEPRECATION_ALTERNATE_RANGE_HELP: { 
+    key: "DEPRECATION_ALTERNATE_RANGE_HELP", 
+    fallback: "Empty means any version (*)" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_STATE_DEPRECATED ==> "This version is deprecated."
+   */
+  DEPRECATION_STATE_DEPRECATED: { 
+    key: "DEPRECATION_STATE_DEPRECATED", 
+    fallback: "This version is deprecated." 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_STATE_NOT_DEPRECATED ==> "This version is not deprecated."
+   */
+  DEPRECATION_STATE_NOT_DEPRECATED: { 
+    key: "DEPRECATION_STATE_NOT_DEPRECATED", 
+    fallback: "This version is not deprecated." 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATE ==> "Deprecate"
+   */
+  DEPRECATE: { 
+    key: "DEPRECATE", 
+    fallback: "Deprecate" 
+  } as SimpleMessageItem,
+  /**
+   * UNDEPRECATE ==> "Remove deprecation"
+   */
+  UNDEPRECATE: { 
+    key: "UNDEPRECATE", 
+    fallback: "Remove deprecation" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_SAVED ==> "Deprecation saved"
+   */
+  DEPRECATION_SAVED: { 
+    key: "DEPRECATION_SAVED", 
+    fallback: "Deprecation saved" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_REMOVED ==> "Deprecation removed"
+   */
+  DEPRECATION_REMOVED: { 
+    key: "DEPRECATION_REMOVED", 
+    fallback: "Deprecation removed" 
+  } as SimpleMessageItem,
+  /**
+   * DEPRECATION_FAILED ==> "Failed to update deprecation"
+   */
+  DEPRECATION_FAILED: { 
+    key: "DEPRECATION_FAILED", 
+    fallback: "Failed to update deprecation" 
+  } as SimpleMessageItem,
+  /**
+   * SECURITY_ADVISORIES ==> "Security advisories"
+   */
+  SECURITY_ADVISORIES: { 
+    key: "SECURITY_ADVISORIES", 
+    fallback: "Security advisories" 
+  } as SimpleMessageItem,
+  /**
+   * ADVISORY_INSTRUCTION ==> "Advisories are reported by NuGet audit (dotnet restore) for the affected versions."
+   */
+  ADVISORY_INSTRUCTION: { 
+    key: "ADVISORY_INSTRUCTION", 
+    fallback: "Advisories are reported by NuGet audit (dotnet restore) for the affected versions." 
+  } as SimpleMessageItem,
+  /**
+   * ADVISORY_PACKAGE_ID ==> "Package ID"
+   */
+  ADVISORY_PACKAGE_ID: { 
+    key: "ADVISORY_PACKAGE_ID", 
+    fallback: "Package ID" 
+  } as SimpleMessageItem,
+  /**
+   * ADVISORY_VERSION_RANGE ==> "Affected version range"
+   */
+  ADVISORY_VERSION_RANGE: { 
+    key: "ADVISORY_VERSION_RANGE", 
+    fallback: "Affected version range" 
+  } as SimpleMessageItem,
+  /**
+   * ADVISORY_VERSION_RANGE_HELP ==> "NuGet version range, e.g. [1.0.0,1.2.3)"
+   */
+  ADVISORY_VERSION_RANGE_HELP: { 
+    key: "ADVISORY_VERSION_RANGE_HELP", 
+    fallback: "NuGet version range, e.g. [1.0.0,1.2.3)" 
+  } as SimpleMessageItem,
+  /**
+   * ADVISORY_SEVERITY ==> "Severity"
+   */
+  ADVISORY_SEVERITY: { 
+    key: "ADVISORY_SEVERITY", 
+    fallback: "Severity" 
+  } as SimpleMessageItem,
+  /**
+   * ADVISORY_URL ==> "Advisory URL"
+   */
+  ADVISORY_URL: { 
+    key: "ADVISORY_URL", 
+    fallback: "Advisory URL" 
+  } as SimpleMessageItem,
+  /**
+   * SEVERITY_LOW ==> "Low"
+   */
+  SEVERITY_LOW: { 
+    key: "SEVERITY_LOW", 
+    fallback: "Low" 
+  } as SimpleMessageItem,
+  /**
+   * SEVERITY_MODERATE ==> "Moderate"
+   */
+  SEVERITY_MODERATE: { 
+    key: "SEVERITY_MODERATE", 
+    fallback: "Moderate" 
+  } as SimpleMessageItem,
+  /**
+   * SEVERITY_HIGH ==> "High"
+   */
+  SEVERITY_HIGH: { 
+    key: "SEVERITY_HIGH", 
+    fallback: "High" 
+  } as SimpleMessageItem,
+  /**
+   * SEVERITY_CRITICAL ==> "Critical"
+   */
+  SEVERITY_CRITICAL: { 
+    key: "SEVERITY_CRITICAL", 
+    fallback: "Critical" 
+  } as SimpleMessageItem,
+  /**
+   * ADD_ADVISORY ==> "Add advisory"
+   */
+  ADD_ADVISORY: { 
+    key: "ADD_ADVISORY", 
+    fallback: "Add advisory" 
+  } as SimpleMessageItem,
+  /**
+   * UPDATE_ADVISORY ==> "Update advisory"
+   */
+  UPDATE_ADVISORY: { 
+    key: "UPDATE_ADVISORY", 
+    fallback: "Update advisory" 
+  } as SimpleMessageItem,
+  /**
+   * NEW_ADVISORY ==> "New advisory"
+   */
+  NEW_ADVISORY: { 
+    key: "NEW_ADVISORY", 
+    fallback: "New advisory" 
+  } as SimpleMessageItem,
+  /**
+   * NO_ADVISORIES ==> "No advisories registered"
+   */
+  NO_ADVISORIES: { 
+    key: "NO_ADVISORIES", 
+    fallback: "No advisories registered" 
+  } as SimpleMessageItem,
+  /**
+   * ADVISORY_SAVED ==> "Advisory saved"
+   */
+  ADVISORY_SAVED: { 
+    key: "ADVISORY_SAVED", 
+    fallback: "Advisory saved" 
+  } as SimpleMessageItem,
+  /**
+   * ADVISORY_DELETED ==> "Advisory deleted"
+   */
+  ADVISORY_DELETED: { 
+    key: "ADVISORY_DELETED", 
+    fallback: "Advisory deleted" 
+  } as SimpleMessageItem,
+  /**
+   * ADVISORY_FAILED ==> "Failed to update advisories"
+   */
+  ADVISORY_FAILED: { 
+    key: "ADVISORY_FAILED", 
+    fallback: "Failed to update advisories" 
+  } as SimpleMessageItem,
+  /**
+   * VULNERABLE_VERSION ==> "Known {severity} severity vulnerability"
+   */
+  VULNERABLE_VERSION: { 
+    key: "VULNERABLE_VERSION", 
+    fallback: "Known {severity} severity vulnerability" 
+  } as MessageItem<{ severity: string }>,
+  /**
+   * PACKAGE_OWNERSHIP ==> "Package ownership"
+   */
+  PACKAGE_OWNERSHIP: { 
+    key: "PACKAGE_OWNERSHIP", 
+    fallback: "Package ownership" 
+  } as SimpleMessageItem,
+  /**
+   * OWNERSHIP_INSTRUCTION ==> "Only owners and administrators can push, delete, unlist or deprecate a package. The first user pushing a package becomes its owner."
+   */
+  OWNERSHIP_INSTRUCTION: { 
+    key: "OWNERSHIP_INSTRUCTION", 
+    fallback: "Only owners and administrators can push, delete, unlist or deprecate a package. The first user pushing a package becomes its owner." 
+  } as SimpleMessageItem,
+  /**
+   * TRANSFER_OWNERSHIP ==> "Transfer ownership"
+   */
+  TRANSFER_OWNERSHIP: { 
+    key: "TRANSFER_OWNERSHIP", 
+    fallback: "Transfer ownership" 
+  } as SimpleMessageItem,
+  /**
+   * OWNERSHIP_PACKAGE_ID ==> "Package ID"
+   */
+  OWNERSHIP_PACKAGE_ID: { 
+    key: "OWNERSHIP_PACKAGE_ID", 
+    fallback: "Package ID" 
+  } as SimpleMessageItem,
+  /**
+   * OWNER_USER_NAMES ==> "Owners"
+   */
+  OWNER_USER_NAMES: { 
+    key: "OWNER_USER_NAMES", 
+    fallback: "Owners" 
+  } as SimpleMessageItem,
+  /**
+   * OWNERS_HELP ==> "Comma separated user names, and group names prefixed with @ (e.g. alice, @payments)"
+   */
+  OWNERS_HELP: { 
+    key: "OWNERS_HELP", 
+    fallback: "Comma separated user names, and group names prefixed with @ (e.g. alice, @payments)" 
+  } as SimpleMessageItem,
+  /**
+   * PREFIX_RESERVATIONS ==> "Reserved ID prefixes"
+   */
+  PREFIX_RESERVATIONS: { 
+    key: "PREFIX_RESERVATIONS", 
+    fallback: "Reserved ID prefixes" 
+  } as SimpleMessageItem,
+  /**
+   * RESERVATION_PREFIX ==> "Package ID prefix"
+   */
+  RESERVATION_PREFIX: { 
+    key: "RESERVATION_PREFIX", 
+    fallback: "Package ID prefix" 
+  } as SimpleMessageItem,
+  /**
+   * RESERVATION_PREFIX_HELP ==> "e.g. Contoso.Payments.\* (an ID without \* reserves that ID only)"
+   */
+  RESERVATION_PREFIX_HELP: { 
+    key: "RESERVATION_PREFIX_HELP", 
+    fallback: "e.g. Contoso.Payments.* (an ID without * reserves that ID only)" 
+  } as SimpleMessageItem,
+  /**
+   * ADD_RESERVATION ==> "Add reservation"
+   */
+  ADD_RESERVATION: { 
+    key: "ADD_RESERVATION", 
+    fallback: "Add reservation" 
+  } as SimpleMessageItem,
+  /**
+   * UPDATE_RESERVATION ==> "Update reservation"
+   */
+  UPDATE_RESERVATION: { 
+    key: "UPDATE_RESERVATION", 
+    fallback: "Update reservation" 
+  } as SimpleMessageItem,
+  /**
+   * NEW_RESERVATION ==> "New reservation"
+   */
+  NEW_RESERVATION: { 
+    key: "NEW_RESERVATION", 
+    fallback: "New reservation" 
+  } as SimpleMessageItem,
+  /**
+   * NO_RESERVATIONS ==> "No reserved prefixes"
+   */
+  NO_RESERVATIONS: { 
+    key: "NO_RESERVATIONS", 
+    fallback: "No reserved prefixes" 
+  } as SimpleMessageItem,
+  /**
+   * USER_GROUPS ==> "User groups"
+   */
+  USER_GROUPS: { 
+    key: "USER_GROUPS", 
+    fallback: "User groups" 
+  } as SimpleMessageItem,
+  /**
+   * GROUP_NAME ==> "Group name"
+   */
+  GROUP_NAME: { 
+    key: "GROUP_NAME", 
+    fallback: "Group name" 
+  } as SimpleMessageItem,
+  /**
+   * GROUP_MEMBERS ==> "Members"
+   */
+  GROUP_MEMBERS: { 
+    key: "GROUP_MEMBERS", 
+    fallback: "Members" 
+  } as SimpleMessageItem,
+  /**
+   * GROUP_MEMBERS_HELP ==> "Comma separated user names"
+   */
+  GROUP_MEMBERS_HELP: { 
+    key: "GROUP_MEMBERS_HELP", 
+    fallback: "Comma separated user names" 
+  } as SimpleMessageItem,
+  /**
+   * ADD_GROUP ==> "Add group"
+   */
+  ADD_GROUP: { 
+    key: "ADD_GROUP", 
+    fallback: "Add group" 
+  } as SimpleMessageItem,
+  /**
+   * UPDATE_GROUP ==> "Update group"
+   */
+  UPDATE_GROUP: { 
+    key: "UPDATE_GROUP", 
+    fallback: "Update group" 
+  } as SimpleMessageItem,
+  /**
+   * NEW_GROUP ==> "New group"
+   */
+  NEW_GROUP: { 
+    key: "NEW_GROUP", 
+    fallback: "New group" 
+  } as SimpleMessageItem,
+  /**
+   * NO_GROUPS ==> "No user groups"
+   */
+  NO_GROUPS: { 
+    key: "NO_GROUPS", 
+    fallback: "No user groups" 
+  } as SimpleMessageItem,
+  /**
+   * GROUP_SAVED ==> "Group saved"
+   */
+  GROUP_SAVED: { 
+    key: "GROUP_SAVED", 
+    fallback: "Group saved" 
+  } as SimpleMessageItem,
+  /**
+   * GROUP_DELETED ==> "Group deleted"
+   */
+  GROUP_DELETED: { 
+    key: "GROUP_DELETED", 
+    fallback: "Group deleted" 
+  } as SimpleMessageItem,
+  /**
+   * OWNED_PACKAGES ==> "Package owners"
+   */
+  OWNED_PACKAGES: { 
+    key: "OWNED_PACKAGES", 
+    fallback: "Package owners" 
+  } as SimpleMessageItem,
+  /**
+   * NO_OWNED_PACKAGES ==> "No owned packages"
+   */
+  NO_OWNED_PACKAGES: { 
+    key: "NO_OWNED_PACKAGES", 
+    fallback: "No owned packages" 
+  } as SimpleMessageItem,
+  /**
+   * OWNERSHIP_TRANSFERRED ==> "Ownership transferred"
+   */
+  OWNERSHIP_TRANSFERRED: { 
+    key: "OWNERSHIP_TRANSFERRED", 
+    fallback: "Ownership transferred" 
+  } as SimpleMessageItem,
+  /**
+   * RESERVATION_SAVED ==> "Reservation saved"
+   */
+  RESERVATION_SAVED: { 
+    key: "RESERVATION_SAVED", 
+    fallback: "Reservation saved" 
+  } as SimpleMessageItem,
+  /**
+   * RESERVATION_DELETED ==> "Reservation deleted"
+   */
+  RESERVATION_DELETED: { 
+    key: "RESERVATION_DELETED", 
+    fallback: "Reservation deleted" 
+  } as SimpleMessageItem,
+  /**
+   * OWNERSHIP_FAILED ==> "Failed to update package ownership"
+   */
+  OWNERSHIP_FAILED: { 
+    key: "OWNERSHIP_FAILED", 
+    fallback: "Failed to update package ownership" 
+  } as SimpleMessageItem,
+  /**
+   * README_TITLE ==> "README"
+   */
+  README_TITLE: { 
+    key: "README_TITLE", 
+    fallback: "README" 
+  } as SimpleMessageItem,
+  /**
+   * README_NOT_FOUND ==> "This package does not contain a README."
+   */
+  README_NOT_FOUND: { 
+    key: "README_NOT_FOUND", 
+    fallback: "This package does not contain a README." 
+  } as SimpleMessageItem,
+  /**
+   * README_FAILED ==> "Failed to load README"
+   */
+  README_FAILED: { 
+    key: "README_FAILED", 
+    fallback: "Failed to load README" 
+  } as SimpleMessageItem,
+  /**
+   * README_TRUNCATED ==> "The README is too large and is shown only partially."
+   */
+  README_TRUNCATED: { 
+    key: "README_TRUNCATED", 
+    fallback: "The README is too large and is shown only partially." 
   } as SimpleMessageItem
 } as const;
 
@@ -6,7 +6,12 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { Strategy as LocalStrategy } from 'passport-local';
 import { BasicStrategy } from 'passport-http';
 import { Logger } from '../types';
-import { UserService } from '../services/userService';
+import {
+  ApiPasswordMatch,
+  ApiPasswordScope,
+  matchesPackagePattern,
+  UserService,
+} from '../services/userService';
 import { SessionService } from '../services/sessionService';
 import { AuthFailureTracker } from '../services/authFailureTracker';
 
@@ -28,9 +33,57 @@ export interface AuthenticatedFastifyRequest extends FastifyRequest {
   user?: {
     username: string;
     role: string;
+    apiPasswordLabel?: string; // Set when authenticated by a labeled API password
+    apiPasswordScopes?: ApiPasswordScope[]; // Set when the API password is restricted to scopes
+    apiPasswordPackagePatterns?: string[]; // Set when the API password is restricted to packages
   };
 }
 
+/**
+ * Checks whether the API password authenticating a request grants an operation
+ * @param request - Authenticated Fastify request
+ * @param scope - Required API password scope
+ * @param packageId - Package ID to operate on, omitted when the operation is not bound to a package
+ * @returns Reason why the operation is not granted, or undefined when granted
+ * @remarks Sessions and unrestricted API passwords are granted everything the user's role grants.
+ */
+export const checkApiPasswordScope = (
+  request: AuthenticatedFastifyRequest,
+  scope: ApiPasswordScope,
+  packageId?: string
+): string | undefined => {
+  const user = request.user;
+  if (!user) {
+    return undefined;
+  }
+  if (user.apiPasswordScopes && !user.apiPasswordScopes.includes(scope)) {
+    return `API password does not grant the ${scope} scope`;
+  }
+  if (
+    packageId !== undefined &&
+    user.apiPasswordPackagePatterns &&
+    !user.apiPasswordPackagePatterns.some((pattern) =>
+      matchesPackagePattern(pattern, packageId)
+    )
+  ) {
+    return `API password does not grant access to package ${packageId}`;
+  }
+  return undefined;
+};
+
+/**
+ * Creates the request user from a matched API password
+ * @param match - Matched API password
+ * @returns Request user carrying the API password restrictions
+ */
+const toApiPasswordUser = (match: ApiPasswordMatch) => ({
+  username: match.user.username,
+  role: match.user.role,
+  apiPasswordLabel: match.label,
+  apiPasswordScopes: match.scopes,
+  apiPasswordPackagePatterns: match.packagePatterns,
+});
+
 /**
  * Checks if the request is from a UI (browser) based on Accept header
  * @param request - Fastify request
@@ -226,11 +279,12 @@ export const createHybridAuthMiddleware = (config: FastifyAuthConfig) => {
               'Empty Basic auth credentials received - returning 401 Unauthorized'
             );
           } else {
-            const user = await userService.validateApiPassword(
+            const match = await userService.matchApiPassword(
               credentials.username,
               credentials.password
             );
-            if (user) {
+            if (match) {
+              const { user } = match;
               logger.debug(`Basic auth successful for user: ${user.username}`);
 
               // Clear failures on successful authentication
@@ -238,10 +292,21 @@ export const createHybridAuthMiddleware = (config: FastifyAuthConfig) => {
                 authFailureTracker.clearFailures(request, credentials.username);
               }
 
-              request.user = {
-                username: user.username,
-                role: user.role,
-              };
+              request.user = toApiPasswordUser(match);
+
+              // Reading requests are restricted here, other operations are restricted by the routes
+              if (request.method === 'GET' || request.method === 'HEAD') {
+                const scopeError = checkApiPasswordScope(request, 'read');
+                if (scopeError) {
+                  logger.warn(
+                    `Basic auth rejected for user: ${user.username}: ${scopeError}`
+                  );
+                  return reply.status(403).send({
+                    error: 'Insufficient permissions',
+                    message: scopeError,
+                  });
+                }
+              }
               return;
             } else {
               logger.info(
@@ -325,6 +390,57 @@ export const createConditionalHybridAuthMiddleware = (
   return createHybridAuthMiddleware(config);
 };
 
+/**
+ * Creates NuGet API key authentication middleware (for `dotnet nuget push` and friends)
+ * @param config - Authentication configuration
+ * @returns Fastify hook function
+ * @remarks The `X-NuGet-ApiKey` header is matched against the users' API passwords.
+ * When the header is missing or invalid, the hybrid authentication (session and Basic) is used instead.
+ */
+export const createApiKeyAuthMiddleware = (config: FastifyAuthConfig) => {
+  const { userService, authFailureTracker, logger } = config;
+  const hybridAuth = createHybridAuthMiddleware(config);
+
+  return async (request: AuthenticatedFastifyRequest, reply: FastifyReply) => {
+    const apiKey = request.headers['x-nuget-apikey'];
+    if (typeof apiKey === 'string' && apiKey.length > 0) {
+      logger.debug('Checking NuGet API key authentication');
+      try {
+        const match = await userService.validateApiKey(apiKey);
+        if (match) {
+          const { user } = match;
+          logger.debug(`API key auth successful for user: ${user.username}`);
+
+          // Clear failures on successful authentication
+          if (authFailureTracker) {
+            authFailureTracker.clearFailures(request, user.username);
+          }
+
+          request.user = toApiPasswordUser(match);
+          return;
+        }
+
+        logger.info('Invalid NuGet API key received');
+
+        // Record failure and apply delay before falling back
+        if (authFailureTracker) {
+          authFailureTracker.recordFailure(request);
+          await authFailureTracker.applyDelay(request);
+        }
+      } catch (error) {
+        logger.error(`API key auth error: ${error}`);
+        return reply.status(500).send({
+          error: 'Authentication error',
+          message: 'Internal server error during authentication',
+        });
+      }
+    }
+
+    // Fall back to session or Basic authentication
+    return hybridAuth(request, reply);
+  };
+};
+
 /**
  * Creates Session-only authentication middleware (for UI APIs)
  * @param config - Authentication configuration
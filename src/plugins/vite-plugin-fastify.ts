@@ -148,8 +148,11 @@ export const fastifyHost = (config: ServerConfig): Plugin => {
               await fastify.close();
               const userService = (fastify as any).userService;
               const sessionService = (fastify as any).sessionService;
-              if (userService) userService.destroy();
+              const downloadStatsService = (fastify as any)
+                .downloadStatsService;
+              if (userService) await userService.destroy();
               if (sessionService) await sessionService.destroy();
+              if (downloadStatsService) await downloadStatsService.destroy();
             } catch (error) {
               logger.error(`Error closing Fastify: ${error}`);
             } finally {
@@ -178,8 +181,10 @@ export const fastifyHost = (config: ServerConfig): Plugin => {
           await fastify.close();
           const userService = (fastify as any).userService;
           const sessionService = (fastify as any).sessionService;
-          if (userService) userService.destroy();
+          const downloadStatsService = (fastify as any).downloadStatsService;
+          if (userService) await userService.destroy();
           if (sessionService) await sessionService.destroy();
+          if (downloadStatsService) await downloadStatsService.destroy();
           logger.info('Fastify instance closed');
         } catch (error) {
           logger.error(`Error closing Fastify: ${error}`);
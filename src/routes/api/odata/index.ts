@@ -0,0 +1,804 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import xml2js from 'xml2js';
+import { Logger } from '../../../types';
+import {
+  MetadataService,
+  PackageMetadata,
+} from '../../../services/metadataService';
+import { AuthService } from '../../../services/authService';
+import { DownloadStatsService } from '../../../services/downloadStatsService';
+import {
+  createConditionalHybridAuthMiddleware,
+  FastifyAuthConfig,
+} from '../../../middleware/fastifyAuth';
+import { createUrlResolver } from '../../../utils/urlResolver';
+import {
+  compareVersions,
+  isPrereleaseVersion,
+  normalizeVersion,
+  parseNuGetVersion,
+  satisfiesVersionRange,
+} from '../../../utils/semver';
+import { isSemVer2Package } from '../../../services/searchIndex';
+import { parseSearchQuery } from '../../../utils/searchQuery';
+import {
+  compareODataValues,
+  evaluateODataExpression,
+  formatODataString,
+  ODataExpression,
+  ODataOrderBy,
+  ODataValue,
+  parseODataFilter,
+  parseODataOrderBy,
+  parseODataString,
+} from '../../../utils/odata';
+
+/**
+ * Configuration for V2 OData feed routes
+ */
+export interface ODataRoutesConfig {
+  metadataService: MetadataService;
+  downloadStatsService: DownloadStatsService;
+  authService: AuthService;
+  authConfig: FastifyAuthConfig;
+  logger: Logger;
+  urlResolver: ReturnType<typeof createUrlResolver>;
+}
+
+/**
+ * EDM types of the V2FeedPackage properties
+ */
+type EdmType =
+  | 'Edm.String'
+  | 'Edm.Boolean'
+  | 'Edm.DateTime'
+  | 'Edm.Int32'
+  | 'Edm.Int64';
+
+/**
+ * Package version exposed by the V2 feed
+ */
+interface FeedPackage {
+  metadata: PackageMetadata;
+  properties: Record<string, ODataValue>;
+}
+
+/**
+ * Query options of a V2 feed request
+ */
+interface FeedQueryOptions {
+  filter?: ODataExpression;
+  orderBy: ODataOrderBy[];
+  skip: number;
+  top?: number;
+  inlineCount: boolean;
+}
+
+/**
+ * Properties of the V2FeedPackage entity, in the order of nuget.org
+ */
+const packageProperties: ReadonlyArray<readonly [string, EdmType]> = [
+  ['Id', 'Edm.String'],
+  ['Version', 'Edm.String'],
+  ['NormalizedVersion', 'Edm.String'],
+  ['Authors', 'Edm.String'],
+  ['Copyright', 'Edm.String'],
+  ['Created', 'Edm.DateTime'],
+  ['Dependencies', 'Edm.String'],
+  ['Description', 'Edm.String'],
+  ['DownloadCount', 'Edm.Int32'],
+  ['IconUrl', 'Edm.String'],
+  ['IsLatestVersion', 'Edm.Boolean'],
+  ['IsAbsoluteLatestVersion', 'Edm.Boolean'],
+  ['IsPrerelease', 'Edm.Boolean'],
+  ['Language', 'Edm.String'],
+  ['LastUpdated', 'Edm.DateTime'],
+  ['Published', 'Edm.DateTime'],
+  ['PackageHash', 'Edm.String'],
+  ['PackageHashAlgorithm', 'Edm.String'],
+  ['PackageSize', 'Edm.Int64'],
+  ['ProjectUrl', 'Edm.String'],
+  ['ReleaseNotes', 'Edm.String'],
+  ['RequireLicenseAcceptance', 'Edm.Boolean'],
+  ['Summary', 'Edm.String'],
+  ['Tags', 'Edm.String'],
+  ['Title', 'Edm.String'],
+  ['VersionDownloadCount', 'Edm.Int32'],
+  ['MinClientVersion', 'Edm.String'],
+  ['LicenseUrl', 'Edm.String'],
+  ['LicenseNames', 'Edm.String'],
+  ['Listed', 'Edm.Boolean'],
+];
+
+const packagePropertyNames = packageProperties.map(([name]) => name);
+
+/**
+ * Maximum number of entries in a feed page, the rest is reached with the `next` link
+ */
+const feedPageSize = 100;
+
+/**
+ * Published date of unlisted versions, which V2 clients treat as unlisted
+ */
+const unlistedPublished = new Date('1900-01-01T00:00:00Z');
+
+const atomNamespace = 'http://www.w3.org/2005/Atom';
+const dataNamespace = 'http://schemas.microsoft.com/ado/2007/08/dataservices';
+const metadataNamespace =
+  'http://schemas.microsoft.com/ado/2007/08/dataservices/metadata';
+
+/**
+ * Formats dependency groups in the V2 `id:range:targetFramework|...` form
+ */
+const formatDependencies = (metadata: PackageMetadata): string =>
+  (metadata.dependencies || [])
+    .flatMap((group) => {
+      const targetFramework = group.targetFramework || '';
+      return group.dependencies.length === 0
+        ? [`::${targetFramework}`]
+        : group.dependencies.map(
+            (dependency) =>
+              `${dependency.id}:${dependency.version || ''}:${targetFramework}`
+          );
+    })
+    .join('|');
+
+/**
+ * Creates V2 feed packages for all versions of a package
+ * @param versions - Versions in descending order (newest first)
+ * @param downloadStats - Download statistics
+ * @returns Feed packages in descending order
+ */
+const createFeedPackages = (
+  versions: PackageMetadata[],
+  downloadStats: DownloadStatsService
+): FeedPackage[] => {
+  // Latest flags are computed over listed versions only
+  const listed = versions.filter((v) => v.listed);
+  const absoluteLatest = listed[0];
+  const latest = listed.find((v) => !isPrereleaseVersion(v.version));
+
+  return versions.map((metadata) => ({
+    metadata,
+    properties: {
+      Id: metadata.id,
+      Version: metadata.version,
+      NormalizedVersion: normalizeVersion(metadata.version),
+      Authors: metadata.authors || '',
+      Copyright: metadata.copyright ?? null,
+      Created: metadata.published,
+      Dependencies: formatDependencies(metadata),
+      Description: metadata.description || '',
+      DownloadCount: downloadStats.getPackageDownloads(metadata.id),
+      IconUrl: metadata.iconUrl ?? null,
+      IsLatestVersion: metadata === latest,
+      IsAbsoluteLatestVersion: metadata === absoluteLatest,
+      IsPrerelease: isPrereleaseVersion(metadata.version),
+      Language: metadata.language ?? null,
+      LastUpdated: metadata.published,
+      Published: metadata.listed ? metadata.published : unlistedPublished,
+      PackageHash: metadata.packageHash ?? null,
+      PackageHashAlgorithm: metadata.packageHash ? 'SHA512' : null,
+      PackageSize: metadata.packageSize ?? null,
+      ProjectUrl: metadata.projectUrl ?? null,
+      ReleaseNotes: metadata.releaseNotes ?? null,
+      RequireLicenseAcceptance: metadata.requireLicenseAcceptance ?? false,
+      Summary: metadata.summary ?? null,
+      Tags:
+        metadata.tags && metadata.tags.length > 0
+          ? ` ${metadata.tags.join(' ')} `
+          : null,
+      Title: metadata.title ?? null,
+      VersionDownloadCount: downloadStats.getVersionDownloads(
+        metadata.id,
+        metadata.version
+      ),
+      MinClientVersion: metadata.minClientVersion ?? null,
+      LicenseUrl: metadata.licenseUrl ?? null,
+      LicenseNames: metadata.licenseExpression ?? null,
+      Listed: metadata.listed,
+    },
+  }));
+};
+
+/**
+ * Formats a property value for the Atom XML output
+ */
+const formatPropertyValue = (value: ODataValue): string =>
+  value instanceof Date ? value.toISOString().replace(/Z$/, '') : String(value);
+
+/**
+ * Gets the OData feed URL from the server base URL
+ */
+const toFeedUrl = (baseUrl: string): string => `${baseUrl}/api/v2`;
+
+/**
+ * Gets the package content URL of a package version (PackageBaseAddress resource)
+ */
+const getPackageContentUrl = (
+  baseUrl: string,
+  metadata: PackageMetadata
+): string => {
+  const lowerId = metadata.id.toLowerCase();
+  const lowerVersion = normalizeVersion(metadata.version).toLowerCase();
+  return `${baseUrl}/v3/package/${lowerId}/${lowerVersion}/${lowerId}.${lowerVersion}.nupkg`;
+};
+
+/**
+ * Gets the entry URL of a package version
+ */
+const getEntryUrl = (feedUrl: string, metadata: PackageMetadata): string =>
+  `${feedUrl}/Packages(Id=${formatODataString(metadata.id)},Version=${formatODataString(metadata.version)})`;
+
+/**
+ * Creates an Atom entry object of a package version for the XML builder
+ * @param baseUrl - Server base URL resolved from the request
+ * @param feedPackage - Package version with its feed properties
+ */
+const createAtomEntry = (baseUrl: string, feedPackage: FeedPackage) => {
+  const { metadata, properties } = feedPackage;
+  const entryUrl = getEntryUrl(toFeedUrl(baseUrl), metadata);
+  const updated = formatPropertyValue(metadata.published);
+
+  const dataProperties: Record<string, unknown> = {};
+  for (const [name, type] of packageProperties) {
+    const value = properties[name] ?? null;
+    const attributes: Record<string, string> =
+      type === 'Edm.String' ? {} : { 'm:type': type };
+    dataProperties[`d:${name}`] =
+      value === null
+        ? { $: { ...attributes, 'm:null': 'true' } }
+        : { _: formatPropertyValue(value), $: attributes };
+  }
+
+  return {
+    id: entryUrl,
+    category: {
+      $: {
+        term: 'NuGetGallery.OData.V2FeedPackage',
+        scheme: 'http://schemas.microsoft.com/ado/2007/08/dataservices/scheme',
+      },
+    },
+    link: [
+      { $: { rel: 'edit', title: 'V2FeedPackage', href: entryUrl } },
+      { $: { rel: 'self', title: 'V2FeedPackage', href: entryUrl } },
+    ],
+    title: { _: metadata.id, $: { type: 'text' } },
+    summary: { _: metadata.summary || '', $: { type: 'text' } },
+    updated,
+    author: { name: metadata.authors || '' },
+    content: {
+      $: {
+        type: 'application/zip',
+        src: getPackageContentUrl(baseUrl, metadata),
+      },
+    },
+    'm:properties': dataProperties,
+  };
+};
+
+/**
+ * Namespace declarations of Atom documents
+ */
+const createNamespaces = (feedUrl: string) => ({
+  'xml:base': `${feedUrl}/`,
+  xmlns: atomNamespace,
+  'xmlns:d': dataNamespace,
+  'xmlns:m': metadataNamespace,
+});
+
+/**
+ * Creates the `$metadata` (EDMX) document of the V2 feed
+ */
+const createMetadataDocument = (): string => {
+  const propertyElements = packageProperties
+    .map(
+      ([name, type]) =>
+        `<Property Name="${name}" Type="${type}" Nullable="${type === 'Edm.String' && name !== 'Id' && name !== 'Version' ? 'true' : 'false'}"/>`
+    )
+    .join('');
+  const functionImport = (name: string, parameters: [string, EdmType][]) =>
+    `<FunctionImport Name="${name}" ReturnType="Collection(NuGetGallery.OData.V2FeedPackage)" EntitySet="Packages" m:HttpMethod="GET">` +
+    parameters
+      .map(
+        ([parameter, type]) =>
+          `<Parameter Name="${parameter}" Type="${type}" Mode="In"/>`
+      )
+      .join('') +
+    '</FunctionImport>';
+
+  return (
+    '<?xml version="1.0" encoding="utf-8"?>' +
+    '<edmx:Edmx Version="1.0" xmlns:edmx="http://schemas.microsoft.com/ado/2007/06/edmx">' +
+    `<edmx:DataServices m:DataServiceVersion="2.0" m:MaxDataServiceVersion="2.0" xmlns:m="${metadataNamespace}">` +
+    '<Schema Namespace="NuGetGallery.OData" xmlns="http://schemas.microsoft.com/ado/2006/04/edm">' +
+    '<EntityType Name="V2FeedPackage" m:HasStream="true">' +
+    '<Key><PropertyRef Name="Id"/><PropertyRef Name="Version"/></Key>' +
+    propertyElements +
+    '</EntityType>' +
+    '</Schema>' +
+    '<Schema Namespace="NuGetGallery" xmlns="http://schemas.microsoft.com/ado/2006/04/edm">' +
+    '<EntityContainer Name="V2FeedContext" m:IsDefaultEntityContainer="true">' +
+    '<EntitySet Name="Packages" EntityType="NuGetGallery.OData.V2FeedPackage"/>' +
+    functionImport('Search', [
+      ['searchTerm', 'Edm.String'],
+      ['targetFramework', 'Edm.String'],
+      ['includePrerelease', 'Edm.Boolean'],
+    ]) +
+    functionImport('FindPackagesById', [['id', 'Edm.String']]) +
+    functionImport('GetUpdates', [
+      ['packageIds', 'Edm.String'],
+      ['versions', 'Edm.String'],
+      ['includePrerelease', 'Edm.Boolean'],
+      ['includeAllVersions', 'Edm.Boolean'],
+      ['targetFrameworks', 'Edm.String'],
+      ['versionConstraints', 'Edm.String'],
+    ]) +
+    '</EntityContainer>' +
+    '</Schema>' +
+    '</edmx:DataServices>' +
+    '</edmx:Edmx>'
+  );
+};
+
+/**
+ * Parses OData query options of a request
+ * @throws Error if `$filter`, `$orderby`, `$skip` or `$top` is invalid
+ */
+const parseFeedQueryOptions = (
+  query: Record<string, any>
+): FeedQueryOptions => {
+  const parseCount = (name: string): number | undefined => {
+    const value = query[name] as string | undefined;
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`Invalid ${name} value '${value}'`);
+    }
+    return count;
+  };
+
+  const filterText = query.$filter as string | undefined;
+  const orderByText = query.$orderby as string | undefined;
+  return {
+    filter: filterText
+      ? parseODataFilter(filterText, packagePropertyNames)
+      : undefined,
+    orderBy: orderByText
+      ? parseODataOrderBy(orderByText, packagePropertyNames)
+      : [],
+    skip: parseCount('$skip') ?? 0,
+    top: parseCount('$top'),
+    inlineCount:
+      ((query.$inlinecount as string) || '').toLowerCase() === 'allpages',
+  };
+};
+
+/**
+ * Applies `$filter` and `$orderby` to feed packages
+ * @remarks Versions are ordered by NuGet version precedence, not as strings.
+ */
+const filterAndSort = (
+  packages: FeedPackage[],
+  options: FeedQueryOptions
+): FeedPackage[] => {
+  const { filter } = options;
+  const filtered = filter
+    ? packages.filter((p) => !!evaluateODataExpression(filter, p.properties))
+    : packages;
+  if (options.orderBy.length === 0) {
+    return filtered;
+  }
+  return [...filtered].sort((a, b) => {
+    for (const { property, descending } of options.orderBy) {
+      const result =
+        property === 'Version' || property === 'NormalizedVersion'
+          ? compareVersions(a.metadata.version, b.metadata.version)
+          : (compareODataValues(
+              a.properties[property] ?? null,
+              b.properties[property] ?? null
+            ) ?? 0);
+      if (result !== 0) {
+        return descending ? -result : result;
+      }
+    }
+    return 0;
+  });
+};
+
+/**
+ * Registers NuGet V2 OData feed routes with Fastify instance
+ * @remarks The feed is read-only and answered from the metadata service, for clients that do not speak V3.
+ */
+export const registerODataRoutes = async (
+  fastify: FastifyInstance,
+  config: ODataRoutesConfig
+) => {
+  const {
+    metadataService,
+    downloadStatsService,
+    authService,
+    authConfig,
+    logger,
+    urlResolver,
+  } = config;
+
+  // Helper to create conditional auth middleware based on authMode
+  const createAuthHandler = () => {
+    const authMode = authService.getAuthMode();
+    if (authMode === 'full') {
+      // For full auth mode, require hybrid authentication
+      return createConditionalHybridAuthMiddleware(authConfig);
+    }
+    // For 'none' and 'publish' modes, no authentication required for V2 read APIs (same as V3)
+    return null;
+  };
+
+  const authHandler = createAuthHandler();
+
+  // Apply authentication middleware conditionally
+  const authPreHandler = authHandler ? ([authHandler] as any) : [];
+
+  const toFeedPackages = (versions: PackageMetadata[]): FeedPackage[] =>
+    createFeedPackages(versions, downloadStatsService);
+
+  const getBaseUrl = (request: FastifyRequest): string =>
+    urlResolver.resolveUrl(request).baseUrl;
+
+  /**
+   * Checks whether SemVer 2.0 packages are requested with `semVerLevel`
+   */
+  const isSemVer2Requested = (query: Record<string, any>): boolean => {
+    const semVerLevel = parseNuGetVersion(
+      parseODataString(query.semVerLevel as string | undefined) || '1.0.0'
+    );
+    return semVerLevel !== undefined && semVerLevel.major >= 2;
+  };
+
+  /**
+   * Gets the versions of a package visible to the client (version descending)
+   * @remarks SemVer 2.0 versions are hidden unless `semVerLevel` is 2.0.0 or higher,
+   * and latest flags are computed over the visible versions, so legacy clients always see a latest version.
+   */
+  const getVisibleFeedPackages = (
+    packageId: string,
+    semVer2: boolean
+  ): FeedPackage[] =>
+    toFeedPackages(
+      metadataService
+        .getPackageMetadata(packageId)
+        .filter((v) => semVer2 || !isSemVer2Package(v))
+    );
+
+  /**
+   * Gets all versions of all packages (Id ascending, then version ascending)
+   */
+  const getAllFeedPackages = (query: Record<string, any>): FeedPackage[] => {
+    const semVer2 = isSemVer2Requested(query);
+    return metadataService
+      .getAllPackageIds()
+      .flatMap((packageId) =>
+        getVisibleFeedPackages(packageId, semVer2).reverse()
+      );
+  };
+
+  /**
+   * Gets packages of `Search()`
+   * @remarks Listed versions of the packages matching `searchTerm`, in relevance order.
+   */
+  const getSearchPackages = (query: Record<string, any>): FeedPackage[] => {
+    const searchTerm = parseODataString(query.searchTerm as string) || '';
+    const includePrerelease =
+      (
+        parseODataString(query.includePrerelease as string) || ''
+      ).toLowerCase() === 'true';
+    const semVer2 = isSemVer2Requested(query);
+    const { hits } = metadataService.searchPackages({
+      terms: parseSearchQuery(searchTerm),
+      filter: {
+        prerelease: includePrerelease,
+        semVer2,
+      },
+      skip: 0,
+      take: Number.MAX_SAFE_INTEGER,
+    });
+    return hits.flatMap((hit) => {
+      const visible = new Set(hit.versions);
+      return getVisibleFeedPackages(hit.packageId, semVer2).filter((p) =>
+        visible.has(p.metadata)
+      );
+    });
+  };
+
+  /**
+   * Gets packages of `FindPackagesById()`
+   * @remarks Includes unlisted versions, since clients restore them by exact version.
+   */
+  const getPackagesById = (query: Record<string, any>): FeedPackage[] => {
+    const packageId = parseODataString(query.id as string | undefined);
+    if (!packageId) {
+      return [];
+    }
+    return getVisibleFeedPackages(
+      packageId,
+      isSemVer2Requested(query)
+    ).reverse();
+  };
+
+  /**
+   * Gets packages of `GetUpdates()`
+   * @remarks Newer listed versions of each package, the latest one only unless `includeAllVersions` is true.
+   */
+  const getUpdatePackages = (query: Record<string, any>): FeedPackage[] => {
+    const split = (name: string) =>
+      (parseODataString(query[name] as string | undefined) || '').split('|');
+    const isTrue = (name: string) =>
+      (
+        parseODataString(query[name] as string | undefined) || ''
+      ).toLowerCase() === 'true';
+
+    const packageIds = split('packageIds');
+    const versions = split('versions');
+    const versionConstraints = split('versionConstraints');
+    const includePrerelease = isTrue('includePrerelease');
+    const includeAllVersions = isTrue('includeAllVersions');
+    const semVer2 = isSemVer2Requested(query);
+
+    return packageIds.flatMap((packageId, index) => {
+      const currentVersion = versions[index];
+      if (!packageId || !currentVersion) {
+        return [];
+      }
+      const constraint = versionConstraints[index];
+      const updates = getVisibleFeedPackages(packageId, semVer2).filter(
+        (p) =>
+          p.metadata.listed &&
+          (includePrerelease || !isPrereleaseVersion(p.metadata.version)) &&
+          compareVersions(p.metadata.version, currentVersion) > 0 &&
+          (!constraint || satisfiesVersionRange(p.metadata.version, constraint))
+      );
+      return includeAllVersions ? updates.reverse() : updates.slice(0, 1);
+    });
+  };
+
+  /**
+   * Sends feed packages as an Atom feed (or its count for `/$count`)
+   */
+  const sendFeed = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    title: string,
+    packages: FeedPackage[],
+    options: FeedQueryOptions,
+    countOnly: boolean
+  ) => {
+    const baseUrl = getBaseUrl(request);
+    const feedUrl = toFeedUrl(baseUrl);
+    const matched = filterAndSort(packages, options);
+
+    const requested = matched.slice(
+      options.skip,
+      options.top === undefined ? undefined : options.skip + options.top
+    );
+    if (countOnly) {
+      return reply
+        .type('text/plain; charset=utf-8')
+        .header('DataServiceVersion', '2.0;')
+        .send(String(requested.length));
+    }
+
+    // Large results are split into pages linked with `next`
+    const page = requested.slice(0, feedPageSize);
+    const links: unknown[] = [{ $: { rel: 'self', title, href: title } }];
+    if (page.length < requested.length) {
+      const nextQuery = new URLSearchParams(
+        request.query as Record<string, string>
+      );
+      nextQuery.set('$skip', String(options.skip + page.length));
+      if (options.top !== undefined) {
+        nextQuery.set('$top', String(options.top - page.length));
+      }
+      const path = request.url.split('?')[0]!.replace(/^.*\/api\/v2\//, '');
+      links.push({
+        $: { rel: 'next', href: `${feedUrl}/${path}?${nextQuery.toString()}` },
+      });
+    }
+
+    const builder = new xml2js.Builder({
+      xmldec: { version: '1.0', encoding: 'utf-8' },
+      renderOpts: { pretty: false },
+    });
+    const xml = builder.buildObject({
+      feed: {
+        $: createNamespaces(feedUrl),
+        id: `${feedUrl}/${title}`,
+        title: { _: title, $: { type: 'text' } },
+        updated: formatPropertyValue(new Date()),
+        link: links,
+        ...(options.inlineCount ? { 'm:count': String(matched.length) } : {}),
+        entry: page.map((p) => createAtomEntry(baseUrl, p)),
+      },
+    });
+    return reply
+      .type('application/atom+xml;type=feed;charset=utf-8')
+      .header('DataServiceVersion', '2.0;')
+      .send(xml);
+  };
+
+  // Service document - GET /api/v2 and /api/v2/
+  for (const url of ['/v2', '/v2/']) {
+    fastify.get(
+      url,
+      {
+        preHandler: authPreHandler,
+      },
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        const baseUrl = getBaseUrl(request);
+        const feedUrl = toFeedUrl(baseUrl);
+        const builder = new xml2js.Builder({
+          xmldec: { version: '1.0', encoding: 'utf-8' },
+          renderOpts: { pretty: false },
+        });
+        const xml = builder.buildObject({
+          service: {
+            $: {
+              'xml:base': `${feedUrl}/`,
+              xmlns: 'http://www.w3.org/2007/app',
+              'xmlns:atom': atomNamespace,
+            },
+            workspace: {
+              'atom:title': 'Default',
+              collection: {
+                $: { href: 'Packages' },
+                'atom:title': 'Packages',
+              },
+            },
+          },
+        });
+        return reply
+          .type('application/xml;charset=utf-8')
+          .header('DataServiceVersion', '1.0;')
+          .send(xml);
+      }
+    );
+  }
+
+  // OData resources - GET /api/v2/{resource}
+  // Resource paths contain parentheses and quotes (e.g. `Packages(Id='x',Version='y')`), so they are dispatched here.
+  fastify.get(
+    '/v2/*',
+    {
+      preHandler: authPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const rawPath = (request.params as Record<string, string>)['*'] || '';
+      let resourcePath: string;
+      try {
+        resourcePath = decodeURIComponent(rawPath);
+      } catch {
+        resourcePath = rawPath;
+      }
+      const query = request.query as Record<string, any>;
+
+      try {
+        if (resourcePath === '$metadata') {
+          return reply
+            .type('application/xml;charset=utf-8')
+            .header('DataServiceVersion', '2.0;')
+            .send(createMetadataDocument());
+        }
+
+        // Single package version - Packages(Id='x',Version='y')
+        const keyMatch =
+          /^Packages\(\s*Id\s*=\s*'((?:[^']|'')*)'\s*,\s*Version\s*=\s*'((?:[^']|'')*)'\s*\)$/i.exec(
+            resourcePath
+          );
+        if (keyMatch) {
+          const packageId = keyMatch[1]!.replace(/''/g, "'");
+          const version = keyMatch[2]!.replace(/''/g, "'");
+          const metadata = metadataService.getPackageVersion(
+            packageId,
+            version
+          );
+          if (!metadata) {
+            return reply.status(404).send({ error: 'Package not found' });
+          }
+          const feedPackage = toFeedPackages(
+            metadataService.getPackageMetadata(packageId)
+          ).find((p) => p.metadata === metadata)!;
+
+          const baseUrl = getBaseUrl(request);
+          const feedUrl = toFeedUrl(baseUrl);
+          const builder = new xml2js.Builder({
+            xmldec: { version: '1.0', encoding: 'utf-8' },
+            renderOpts: { pretty: false },
+          });
+          const xml = builder.buildObject({
+            entry: {
+              $: createNamespaces(feedUrl),
+              ...createAtomEntry(baseUrl, feedPackage),
+            },
+          });
+          return reply
+            .type('application/atom+xml;type=entry;charset=utf-8')
+            .header('DataServiceVersion', '2.0;')
+            .send(xml);
+        }
+
+        // Collections and service operations, optionally with `/$count`
+        const collectionMatch =
+          /^(Packages|Search|FindPackagesById|GetUpdates)(?:\(\))?(\/\$count)?$/i.exec(
+            resourcePath
+          );
+        if (!collectionMatch) {
+          return reply.status(404).send({ error: 'Resource not found' });
+        }
+
+        let options: FeedQueryOptions;
+        try {
+          options = parseFeedQueryOptions(query);
+        } catch (error) {
+          return reply
+            .status(400)
+            .send({ error: `Invalid query: ${(error as Error).message}` });
+        }
+
+        const operation = collectionMatch[1]!.toLowerCase();
+        const countOnly = collectionMatch[2] !== undefined;
+        logger.debug(
+          `V2 feed request - ${resourcePath}, Query params: ${JSON.stringify(query)}`
+        );
+
+        switch (operation) {
+          case 'search':
+            return sendFeed(
+              request,
+              reply,
+              'Search',
+              getSearchPackages(query),
+              options,
+              countOnly
+            );
+          case 'findpackagesbyid':
+            return sendFeed(
+              request,
+              reply,
+              'FindPackagesById',
+              getPackagesById(query),
+              options,
+              countOnly
+            );
+          case 'getupdates':
+            return sendFeed(
+              request,
+              reply,
+              'GetUpdates',
+              getUpdatePackages(query),
+              options,
+              countOnly
+            );
+          default:
+            return sendFeed(
+              request,
+              reply,
+              'Packages',
+              getAllFeedPackages(query),
+              options,
+              countOnly
+            );
+        }
+      } catch (error) {
+        logger.error(`Error in V2 feed endpoint for ${resourcePath}: ${error}`);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  logger.info('V2 OData feed routes registered successfully');
+};
@@ -4,24 +4,58 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { join } from 'path';
-import { mkdir, unlink, writeFile, copyFile } from 'fs/promises';
-import { tmpdir } from 'os';
-import { randomUUID } from 'crypto';
+import { rename, rm, writeFile } from 'fs/promises';
+import { Readable } from 'stream';
 import xml2js from 'xml2js';
-import AdmZip from 'adm-zip';
-import { PackageMetadata } from '../../../services/metadataService';
-import { Logger, DuplicatePackagePolicy } from '../../../types';
+import {
+  PackageAddHooks,
+  PackageEntry,
+  PackageMetadata,
+} from '../../../services/metadataService';
+import {
+  Logger,
+  DuplicatePackagePolicy,
+  DeletePackagePolicy,
+  PublishValidationRules,
+} from '../../../types';
 import { AuthService } from '../../../services/authService';
+import { OwnershipService } from '../../../services/ownershipService';
+import { ApiPasswordScope } from '../../../services/userService';
 import {
+  checkApiPasswordScope,
+  createApiKeyAuthMiddleware,
   createConditionalHybridAuthMiddleware,
   FastifyAuthConfig,
   AuthenticatedFastifyRequest,
 } from '../../../middleware/fastifyAuth';
 import { createUrlResolver } from '../../../utils/urlResolver';
+import { getMultipartBoundary } from '../../../utils/multipart';
+import { receivePackageUpload } from '../../../utils/packageUpload';
+import { openZipArchive, ZipArchive } from '../../../utils/zipArchive';
+import { extractNuspecMetadata } from '../../../utils/nuspec';
+import {
+  findPackageFileEntry,
+  storePackageReadme,
+} from '../../../utils/readme';
+import { writePackageHash } from '../../../utils/packageHash';
+import { createStagingDirectory } from '../../../utils/packageStaging';
+import { validatePublishRules } from '../../../utils/publishValidation';
+import { normalizeVersion } from '../../../utils/semver';
+import {
+  PublishRecord,
+  writePublishRecord,
+} from '../../../utils/publishRecord';
 import {
-  extractNuspecTargetFrameworks,
-  parseNuspecTags,
-} from '../../../utils/nuspec';
+  SymbolPackageValidation,
+  SymbolRecord,
+  symbolsPackageType,
+  validateSymbolPackage,
+  writeSymbolRecord,
+} from '../../../utils/symbols';
+import {
+  PackageDeprecation,
+  validateDeprecation,
+} from '../../../utils/deprecation';
 
 /**
  * Service interface for handling package uploads
@@ -29,11 +63,30 @@ import {
 export interface PackageUploadService {
   addPackage(
     metadata: PackageMetadata,
-    policy?: DuplicatePackagePolicy
+    stagingPath: string,
+    policy?: DuplicatePackagePolicy,
+    hooks?: PackageAddHooks
   ): Promise<{
-    action: 'added' | 'overwritten' | 'ignored' | 'error';
+    action: 'added' | 'overwritten' | 'ignored' | 'error' | 'forbidden';
     message?: string;
   }>;
+  removePackage(packageId: string, version: string): Promise<boolean>;
+  setPackageListed(
+    packageId: string,
+    version: string,
+    listed: boolean
+  ): Promise<boolean>;
+  setPackageDeprecation(
+    packageId: string,
+    version: string,
+    deprecation: PackageDeprecation | undefined
+  ): Promise<boolean>;
+  getPackageEntry(packageId: string, version: string): PackageEntry | undefined;
+  setSymbolPackage(
+    entry: PackageEntry,
+    symbols: SymbolRecord,
+    stagingPath: string
+  ): Promise<boolean>;
 }
 
 /**
@@ -46,6 +99,10 @@ export interface PublishRoutesConfig {
   logger: Logger;
   urlResolver: ReturnType<typeof createUrlResolver>;
   duplicatePackagePolicy?: DuplicatePackagePolicy;
+  deletePackagePolicy?: DeletePackagePolicy;
+  maxUploadSizeMb?: number;
+  publishValidation?: PublishValidationRules;
+  ownershipService: OwnershipService;
 }
 
 /**
@@ -57,6 +114,20 @@ export interface PublishResponse {
   version: string;
 }
 
+/**
+ * Kind of upload handled by the package upload handler
+ * - publish: Publishes a package or a symbol package
+ * - symbols: Publishes a symbol package only
+ * - validate: Validates a package without publishing it (dry-run)
+ */
+type PackageUploadMode = 'publish' | 'symbols' | 'validate';
+
+/**
+ * Maximum size of the nuspec, readme and icon entries read from an uploaded package
+ * @remarks Entry sizes are declared by the uploader, so larger entries are rejected before reading them.
+ */
+const maxMetadataEntrySize = 4 * 1024 * 1024;
+
 /**
  * Registers package publish API routes with Fastify instance
  */
@@ -71,8 +142,15 @@ export const registerPublishRoutes = async (
     logger,
     urlResolver,
     duplicatePackagePolicy = 'ignore',
+    deletePackagePolicy = 'unlist',
+    maxUploadSizeMb = 100,
+    publishValidation = {},
+    ownershipService,
   } = config;
 
+  // Uploads are streamed to temporary files, so the size limit is checked here instead of by `bodyLimit`
+  const maxUploadSize = 1024 * 1024 * maxUploadSizeMb;
+
   let packageUploadService: PackageUploadService | null = null;
 
   const setPackageUploadService = (service: PackageUploadService) => {
@@ -90,200 +168,790 @@ export const registerPublishRoutes = async (
     return createConditionalHybridAuthMiddleware(authConfig);
   };
 
-  const authHandler = createAuthHandler();
+  // Helper to create NuGet API key auth middleware based on authMode
+  const createApiKeyAuthHandler = () => {
+    const authMode = authService.getAuthMode();
+    if (authMode === 'none') {
+      // No authentication required for publish
+      return null;
+    }
+    // For 'publish' and 'full' modes, accept X-NuGet-ApiKey in addition to hybrid authentication
+    return createApiKeyAuthMiddleware(authConfig);
+  };
 
-  // Apply authentication middleware conditionally
-  const authPreHandler = authHandler ? [authHandler] : [];
+  // Check role permissions for non-none auth modes
+  const publishRoleHandler = async (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) => {
+    const authRequest = request as AuthenticatedFastifyRequest;
+    if (authService.getAuthMode() !== 'none') {
+      if (
+        !authRequest.user ||
+        !['publish', 'admin'].includes(authRequest.user.role)
+      ) {
+        return reply.status(403).send({ error: 'Publish permission required' });
+      }
+    }
+  };
 
-  // POST /api/publish - Package upload endpoint
-  fastify.post(
-    '/publish',
-    {
-      preHandler:
-        authPreHandler.length > 0
-          ? ([
-              ...authPreHandler,
-              async (request: FastifyRequest, reply: FastifyReply) => {
-                // Check role permissions for non-none auth modes
-                const authRequest = request as AuthenticatedFastifyRequest;
-                if (authService.getAuthMode() !== 'none') {
-                  if (
-                    !authRequest.user ||
-                    !['publish', 'admin'].includes(authRequest.user.role)
-                  ) {
-                    return reply
-                      .status(403)
-                      .send({ error: 'Publish permission required' });
-                  }
-                }
-              },
-            ] as any)
-          : [],
-    },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      let tempFilePath: string | null = null;
+  // Build preHandler chain: authentication followed by role check
+  const createPreHandler = (authHandler: unknown) =>
+    authHandler ? ([authHandler, publishRoleHandler] as any) : [];
 
-      try {
-        if (!packageUploadService) {
-          return reply
-            .status(500)
-            .send({ error: 'Package upload service not initialized' });
-        }
+  const authPreHandler = createPreHandler(createAuthHandler());
+  const apiKeyAuthPreHandler = createPreHandler(createApiKeyAuthHandler());
 
-        // Get the parsed buffer body
-        const packageData = request.body as Buffer;
+  // Upload bodies are left unread when rejected early (authentication, size limit),
+  // so the connection is closed instead of being reused while the client is still sending
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    if (request.body instanceof Readable && !request.body.readableEnded) {
+      reply.header('Connection', 'close');
+    }
+    return payload;
+  });
+
+  /**
+   * Rejects API passwords without the scope for an operation, and users who do not own a package ID
+   * @param request - Fastify request
+   * @param reply - Fastify reply
+   * @param packageId - Package ID to push or modify
+   * @param scope - API password scope required by the operation
+   * @returns The sent 403 reply, or undefined when the user can push or modify the package
+   * @remarks Nothing is enforced without authentication (authMode "none").
+   */
+  const checkPackagePermission = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    packageId: string,
+    scope: ApiPasswordScope
+  ) => {
+    const authRequest = request as AuthenticatedFastifyRequest;
+    const user = authRequest.user;
+    if (!user) {
+      return undefined;
+    }
+    const scopeError = checkApiPasswordScope(authRequest, scope, packageId);
+    if (scopeError) {
+      logger.warn(
+        `Package ${packageId} rejected for user ${user.username}: ${scopeError}`
+      );
+      return reply.status(403).send({ error: scopeError });
+    }
+    const access = ownershipService.checkPackageAccess(packageId, user);
+    if (!access.allowed) {
+      logger.warn(
+        `Package ${packageId} rejected for user ${user.username}: ${access.error}`
+      );
+      return reply.status(403).send({ error: access.error });
+    }
+    return undefined;
+  };
 
-        if (!packageData || packageData.length === 0) {
-          return reply.status(400).send({ error: 'No package data received' });
-        }
+  /**
+   * Stores an uploaded symbol package next to its primary package version
+   * @param reply - Fastify reply
+   * @param uploadService - Package upload service
+   * @param symbolArchive - Uploaded symbol package
+   * @param symbolMetadata - Metadata parsed from the symbol package nuspec
+   * @param stagingPath - Staging directory holding the uploaded symbol package
+   * @param tempFilePath - Temporary file holding the uploaded symbol package
+   */
+  const handleSymbolPackageUpload = async (
+    reply: FastifyReply,
+    uploadService: PackageUploadService,
+    symbolArchive: ZipArchive,
+    symbolMetadata: PackageMetadata,
+    stagingPath: string,
+    tempFilePath: string
+  ) => {
+    const { id: packageId, version } = symbolMetadata;
+
+    const entry = uploadService.getPackageEntry(packageId, version);
+    if (!entry) {
+      return reply.status(404).send({
+        error: `Package ${packageId} version ${version} not found - push the package before its symbols`,
+      });
+    }
 
-        // Create temporary file for the package data
-        tempFilePath = join(tmpdir(), `nuget-upload_${randomUUID()}.tmp`);
-        await writeFile(tempFilePath, packageData);
+    const versionPath = join(
+      packagesRoot,
+      entry.storage.dirName,
+      entry.metadata.version
+    );
+    let packageArchive: ZipArchive;
+    try {
+      packageArchive = await openZipArchive(
+        join(versionPath, entry.storage.fileName)
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to open package ${packageId} ${version} for symbol validation: ${error}`
+      );
+      return reply.status(500).send({ error: 'Failed to read the package' });
+    }
 
-        // Validate package format by opening ZIP file directly
-        let zip: AdmZip;
-        try {
-          zip = new AdmZip(tempFilePath);
-        } catch (error) {
-          return reply
-            .status(400)
-            .send({ error: 'Invalid package format - not a valid ZIP file' });
-        }
+    // PDBs must match the DLLs in the primary package
+    let validation: SymbolPackageValidation;
+    try {
+      validation = await validateSymbolPackage(
+        symbolArchive,
+        packageArchive,
+        maxUploadSize
+      );
+    } catch (error) {
+      return reply.status(400).send({
+        error: 'Failed to read the symbol package: ' + (error as Error).message,
+      });
+    } finally {
+      await packageArchive.close();
+    }
+    if (!validation.valid) {
+      return reply.status(400).send({ error: validation.error });
+    }
 
-        // Extract nuspec file
-        const nuspecEntry = zip
-          .getEntries()
-          .find((entry) => entry.entryName.endsWith('.nuspec'));
-        if (!nuspecEntry) {
-          return reply
-            .status(400)
-            .send({ error: 'Package does not contain a .nuspec file' });
-        }
+    const symbolRecord: SymbolRecord = {
+      fileName: `${entry.storage.dirName}.${entry.metadata.version}.snupkg`,
+      files: validation.files,
+    };
+    await rename(tempFilePath, join(stagingPath, symbolRecord.fileName));
+    await writeSymbolRecord(stagingPath, symbolRecord);
+    if (
+      !(await uploadService.setSymbolPackage(entry, symbolRecord, stagingPath))
+    ) {
+      return reply.status(409).send({
+        error: `Package ${packageId} version ${version} was changed while uploading its symbols - push the symbols again`,
+      });
+    }
 
-        // Parse nuspec
-        const nuspecContent = nuspecEntry.getData().toString('utf8');
-        let packageMetadata: PackageMetadata;
+    const response: PublishResponse = {
+      message: 'Symbol package uploaded successfully',
+      id: entry.metadata.id,
+      version: entry.metadata.version,
+    };
+    logger.info(
+      `Symbol package uploaded successfully: ${entry.metadata.id} ${entry.metadata.version}`
+    );
+    return reply.status(201).send(response);
+  };
 
-        try {
-          packageMetadata = await parseNuspec(nuspecContent);
-        } catch (error) {
+  /**
+   * Stores an uploaded package and registers it to the metadata service
+   * @param request - Fastify request
+   * @param reply - Fastify reply
+   * @param boundary - Multipart boundary when the package is sent as multipart/form-data
+   * @param mode - Kind of upload
+   * @remarks The request body is streamed to a temporary file, and only the entries needed are read from it.
+   * All files of the version are written to a staging directory first and moved into place by the metadata service,
+   * so a failed or interrupted publish never leaves a partially written version.
+   */
+  const handlePackageUpload = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    boundary: string | undefined,
+    mode: PackageUploadMode = 'publish'
+  ) => {
+    let stagingPath: string | undefined = undefined;
+    let zip: ZipArchive | undefined = undefined;
+
+    try {
+      if (!packageUploadService) {
+        return reply
+          .status(500)
+          .send({ error: 'Package upload service not initialized' });
+      }
+
+      // Reject oversized packages before reading the body
+      const contentLength = Number(request.headers['content-length']);
+      if (contentLength > maxUploadSize) {
+        return reply.status(413).send({
+          error: `Package exceeds the maximum upload size of ${maxUploadSize} bytes`,
+        });
+      }
+
+      // Stream the body into a temporary file in the staging directory, hashing it on the fly
+      stagingPath = await createStagingDirectory(packagesRoot);
+      const tempFilePath = join(stagingPath, 'upload.tmp');
+      const upload = await receivePackageUpload(
+        request.body as Readable | undefined,
+        tempFilePath,
+        { maxSize: maxUploadSize, boundary }
+      );
+      if (!upload.valid) {
+        return reply.status(upload.statusCode).send({ error: upload.error });
+      }
+
+      // Validate package format by reading the ZIP central directory
+      try {
+        zip = await openZipArchive(tempFilePath);
+      } catch (error) {
+        return reply
+          .status(400)
+          .send({ error: 'Invalid package format - not a valid ZIP file' });
+      }
+
+      // Extract nuspec file
+      const nuspecEntry = zip.entries.find((entry) =>
+        entry.entryName.endsWith('.nuspec')
+      );
+      if (!nuspecEntry) {
+        return reply
+          .status(400)
+          .send({ error: 'Package does not contain a .nuspec file' });
+      }
+
+      // Parse nuspec
+      let nuspecContent: string;
+      try {
+        nuspecContent = (
+          await zip.readEntry(nuspecEntry, maxMetadataEntrySize)
+        ).toString('utf8');
+      } catch (error) {
+        return reply.status(400).send({
+          error: 'Failed to read .nuspec file: ' + (error as Error).message,
+        });
+      }
+      let packageMetadata: PackageMetadata;
+
+      try {
+        packageMetadata = await parseNuspec(nuspecContent);
+      } catch (error) {
+        return reply.status(400).send({
+          error: 'Failed to parse .nuspec file: ' + (error as Error).message,
+        });
+      }
+
+      // Only the owners can push to a package ID
+      const permissionCheck = checkPackagePermission(
+        request,
+        reply,
+        packageMetadata.id,
+        'push'
+      );
+      if (permissionCheck) return permissionCheck;
+
+      // Symbol packages (.snupkg) declare the SymbolsPackage package type
+      const isSymbolPackage = (packageMetadata.packageTypes || []).some(
+        (packageType) =>
+          packageType.name.toLowerCase() === symbolsPackageType.toLowerCase()
+      );
+      if (isSymbolPackage) {
+        if (mode === 'validate') {
           return reply.status(400).send({
-            error: 'Failed to parse .nuspec file: ' + (error as Error).message,
+            error:
+              'Symbol packages (.snupkg) are not subject to publish validation',
           });
         }
+        return await handleSymbolPackageUpload(
+          reply,
+          packageUploadService,
+          zip,
+          packageMetadata,
+          stagingPath,
+          tempFilePath
+        );
+      }
+      if (mode === 'symbols') {
+        return reply
+          .status(400)
+          .send({ error: 'Package is not a symbol package (.snupkg)' });
+      }
 
-        // Create package directory structure
-        const packageId = packageMetadata.id;
-        const version = packageMetadata.version;
-        const packageDir = join(packagesRoot, packageId, version);
+      const packageId = packageMetadata.id;
+      const version = packageMetadata.version;
+      const authUser = (request as AuthenticatedFastifyRequest).user;
 
-        try {
-          // Update package content URL using urlResolver
-          const baseUrl = urlResolver.resolveUrl(request).baseUrl;
-          packageMetadata.packageContentUrl = `${baseUrl}/v3/package/${packageId.toLowerCase()}/${version}/${packageId.toLowerCase()}.${version}.nupkg`;
-
-          // Check with metadata service first to handle duplicate policy
-          const result = await packageUploadService.addPackage(
-            packageMetadata,
-            duplicatePackagePolicy
-          );
+      // Enforce the publish validation rules, reporting every violated rule at once
+      const violations = validatePublishRules(publishValidation, {
+        ...packageMetadata,
+        size: upload.size,
+        entryNames: zip.entries.map((entry) => entry.entryName),
+        username: authUser?.username,
+      });
+      if (violations.length > 0) {
+        logger.warn(
+          `Package ${packageId} ${version} violates publish validation rules: ${violations.map((violation) => violation.rule).join(', ')}`
+        );
+        return reply.status(400).send({
+          error: `Package violates publish validation rules: ${violations.map((violation) => violation.message).join('; ')}`,
+          violations,
+        });
+      }
+
+      if (mode === 'validate') {
+        const response: PublishResponse = {
+          message: 'Package passed validation',
+          id: packageId,
+          version: version,
+        };
+        return reply.status(200).send(response);
+      }
 
-          // Handle the result based on the action
-          if (result.action === 'error') {
-            // For "error" policy, return 409 Conflict
-            return reply.status(409).send({
-              error:
-                result.message ||
-                `Package ${packageId} version ${version} already exists`,
-            });
+      try {
+        // Update package content URL using urlResolver
+        const baseUrl = urlResolver.resolveUrl(request).baseUrl;
+        const lowerId = packageId.toLowerCase();
+        const urlVersion = normalizeVersion(version).toLowerCase();
+        packageMetadata.packageContentUrl = `${baseUrl}/v3/package/${lowerId}/${urlVersion}/${lowerId}.${urlVersion}.nupkg`;
+
+        // Publish record persisted next to the package (see writePublishRecord below)
+        const publishRecord: PublishRecord = {
+          publishedAt: new Date().toISOString(),
+          publisher: authUser
+            ? {
+                username: authUser.username,
+                apiPasswordLabel: authUser.apiPasswordLabel,
+              }
+            : undefined,
+          sourceIp: request.ip,
+          size: upload.size,
+          sha512: upload.sha512,
+        };
+        packageMetadata.published = new Date(publishRecord.publishedAt);
+        packageMetadata.publisher = publishRecord.publisher;
+        packageMetadata.packageSize = publishRecord.size;
+        packageMetadata.packageHash = publishRecord.sha512;
+
+        // Stage the version directory: the staging directory becomes the version directory as a whole
+        const nupkgPath = join(stagingPath, `${packageId}.${version}.nupkg`);
+        await rename(tempFilePath, nupkgPath);
+        await writePackageHash(nupkgPath, publishRecord.sha512);
+
+        // Save nuspec file
+        const nuspecPath = join(stagingPath, `${packageId}.nuspec`);
+        await writeFile(nuspecPath, nuspecContent);
+
+        // Save publish record
+        await writePublishRecord(stagingPath, publishRecord);
+
+        // Extract icon if present
+        if (packageMetadata.icon) {
+          try {
+            const iconEntry = zip.entries.find(
+              (entry) => entry.entryName === packageMetadata.icon
+            );
+            if (iconEntry) {
+              const iconData = await zip.readEntry(
+                iconEntry,
+                maxMetadataEntrySize
+              );
+              const iconExtension =
+                packageMetadata.icon.split('.').pop()?.toLowerCase() || 'png';
+              const iconFileName = `icon.${iconExtension}`;
+              const iconPath = join(stagingPath, iconFileName);
+              await writeFile(iconPath, iconData);
+              logger.info(
+                `Extracted icon: ${iconFileName} for package ${packageId} ${version}`
+              );
+            } else {
+              logger.warn(
+                `Icon file ${packageMetadata.icon} specified in nuspec but not found in package ${packageId} ${version}`
+              );
+            }
+          } catch (error) {
+            logger.error(
+              `Failed to extract icon for package ${packageId} ${version}: ${error}`
+            );
           }
+        }
 
-          if (result.action === 'ignored') {
-            // For "ignore" policy, return 200 OK without saving files
-            const response: PublishResponse = {
-              message: 'Package already exists and was ignored',
-              id: packageId,
-              version: version,
-            };
+        // Extract README if present
+        try {
+          const readmeEntry = packageMetadata.readme
+            ? findPackageFileEntry(zip.entries, packageMetadata.readme)
+            : undefined;
+          const readmeStored = await storePackageReadme(
+            stagingPath,
+            readmeEntry &&
+              (await zip.readEntry(readmeEntry, maxMetadataEntrySize))
+          );
+          if (readmeStored) {
             logger.info(
-              `Package already exists, ignored: ${packageId} ${version}`
+              `Extracted README: ${packageMetadata.readme} for package ${packageId} ${version}`
+            );
+          } else if (packageMetadata.readme) {
+            logger.warn(
+              `README file ${packageMetadata.readme} specified in nuspec but not found in package ${packageId} ${version}`
             );
-            return reply.status(200).send(response);
           }
+        } catch (error) {
+          logger.error(
+            `Failed to extract README for package ${packageId} ${version}: ${error}`
+          );
+        }
 
-          // For "added" or "overwritten", save the files
-          await mkdir(packageDir, { recursive: true });
-
-          // Save nupkg file by copying from temp file
-          const nupkgPath = join(packageDir, `${packageId}.${version}.nupkg`);
-          await copyFile(tempFilePath, nupkgPath);
-
-          // Save nuspec file
-          const nuspecPath = join(packageDir, `${packageId}.nuspec`);
-          await writeFile(nuspecPath, nuspecContent);
-
-          // Extract icon if present
-          if (packageMetadata.icon) {
-            try {
-              const iconEntry = zip
-                .getEntries()
-                .find((entry) => entry.entryName === packageMetadata.icon);
-              if (iconEntry) {
-                const iconData = iconEntry.getData();
-                const iconExtension =
-                  packageMetadata.icon.split('.').pop()?.toLowerCase() || 'png';
-                const iconFileName = `icon.${iconExtension}`;
-                const iconPath = join(packageDir, iconFileName);
-                await writeFile(iconPath, iconData);
-                logger.info(
-                  `Extracted icon: ${iconFileName} for package ${packageId} ${version}`
-                );
-              } else {
-                logger.warn(
-                  `Icon file ${packageMetadata.icon} specified in nuspec but not found in package ${packageId} ${version}`
-                );
+        // Apply the duplicate policy and move the staged version into place.
+        // Ownership is checked again and claimed under the metadata lock,
+        // so only the first pusher of a new package ID becomes its owner.
+        const result = await packageUploadService.addPackage(
+          packageMetadata,
+          stagingPath,
+          duplicatePackagePolicy,
+          authUser
+            ? {
+                authorize: () => {
+                  const access = ownershipService.checkPackageAccess(
+                    packageId,
+                    authUser
+                  );
+                  return access.allowed ? undefined : access.error;
+                },
+                added: async (isNewPackage) => {
+                  if (!isNewPackage) {
+                    return;
+                  }
+                  try {
+                    await ownershipService.claimPackage(
+                      packageId,
+                      authUser.username
+                    );
+                  } catch (error) {
+                    logger.error(
+                      `Failed to assign the owner of package ${packageId}: ${error}`
+                    );
+                  }
+                },
               }
-            } catch (error) {
-              logger.error(
-                `Failed to extract icon for package ${packageId} ${version}: ${error}`
-              );
-            }
-          }
+            : undefined
+        );
+
+        // Handle the result based on the action
+        if (result.action === 'forbidden') {
+          return reply.status(403).send({ error: result.message });
+        }
+        if (result.action === 'error') {
+          // For "error" policy, return 409 Conflict
+          return reply.status(409).send({
+            error:
+              result.message ||
+              `Package ${packageId} version ${version} already exists`,
+          });
+        }
 
-          // Prepare response based on action
+        if (result.action === 'ignored') {
+          // For "ignore" policy, return 200 OK and discard the staged files
           const response: PublishResponse = {
-            message:
-              result.action === 'overwritten'
-                ? 'Package uploaded successfully (replaced existing version)'
-                : 'Package uploaded successfully',
+            message: 'Package already exists and was ignored',
             id: packageId,
             version: version,
           };
-
           logger.info(
-            `Package ${result.action === 'overwritten' ? 'overwritten' : 'uploaded'} successfully: ${packageId} ${version}`
+            `Package already exists, ignored: ${packageId} ${version}`
           );
-          return reply.status(201).send(response);
+          return reply.status(200).send(response);
+        }
+
+        // Prepare response based on action
+        const response: PublishResponse = {
+          message:
+            result.action === 'overwritten'
+              ? 'Package uploaded successfully (replaced existing version)'
+              : 'Package uploaded successfully',
+          id: packageId,
+          version: version,
+        };
+
+        logger.info(
+          `Package ${result.action === 'overwritten' ? 'overwritten' : 'uploaded'} successfully: ${packageId} ${version}`
+        );
+        return reply.status(201).send(response);
+      } catch (error) {
+        logger.error(
+          `Failed to save package ${packageId} ${version}: ${error}`
+        );
+        return reply.status(500).send({
+          error: 'Failed to save package: ' + (error as Error).message,
+        });
+      }
+    } catch (error) {
+      logger.error(`Package upload error: ${error}`);
+      return reply.status(500).send({ error: 'Internal server error' });
+    } finally {
+      await zip?.close();
+
+      // Clean up the staging directory (already moved into place when the package was added)
+      if (stagingPath) {
+        try {
+          await rm(stagingPath, { recursive: true, force: true });
         } catch (error) {
-          return reply.status(500).send({
-            error: 'Failed to save package: ' + (error as Error).message,
-          });
+          logger.error(
+            `Failed to clean up staging directory: ${stagingPath} - ${error}`
+          );
+        }
+      }
+    }
+  };
+
+  // POST /api/publish - Package upload endpoint
+  fastify.post(
+    '/publish',
+    {
+      preHandler: authPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handlePackageUpload(request, reply, undefined);
+    }
+  );
+
+  // POST /api/publish/validate - Validates a package against the publish validation rules without publishing it
+  // Accepts the same bodies as the NuGet push endpoint, so CI can send the package it is about to push.
+  fastify.post(
+    '/publish/validate',
+    {
+      preHandler: apiKeyAuthPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const boundary = getMultipartBoundary(request.headers['content-type']);
+      return handlePackageUpload(request, reply, boundary, 'validate');
+    }
+  );
+
+  /**
+   * Handles NuGet PackagePublish/2.0.0 uploads
+   * @remarks NuGet clients send the package as multipart/form-data,
+   * but a raw binary body is accepted as well.
+   */
+  const handleNuGetPush = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    mode: PackageUploadMode = 'publish'
+  ) => {
+    const boundary = getMultipartBoundary(request.headers['content-type']);
+    return handlePackageUpload(request, reply, boundary, mode);
+  };
+
+  // PUT /api/v2/package - NuGet PackagePublish/2.0.0 endpoint (`dotnet nuget push`)
+  // The dotnet CLI appends a trailing slash to the resource URL, so both forms are served.
+  for (const url of ['/v2/package', '/v2/package/']) {
+    fastify.put(
+      url,
+      {
+        preHandler: apiKeyAuthPreHandler,
+      },
+      (request: FastifyRequest, reply: FastifyReply) =>
+        handleNuGetPush(request, reply)
+    );
+  }
+
+  // PUT /api/v2/symbolpackage - NuGet SymbolPackagePublish/4.9.0 endpoint (`dotnet nuget push *.snupkg`)
+  for (const url of ['/v2/symbolpackage', '/v2/symbolpackage/']) {
+    fastify.put(
+      url,
+      {
+        preHandler: apiKeyAuthPreHandler,
+      },
+      (request: FastifyRequest, reply: FastifyReply) =>
+        handleNuGetPush(request, reply, 'symbols')
+    );
+  }
+
+  // DELETE /api/v2/package/{id}/{version} - Delete or unlist a package (`dotnet nuget delete`)
+  fastify.delete(
+    '/v2/package/:id/:version',
+    {
+      preHandler: apiKeyAuthPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id: packageId, version } = request.params as {
+        id: string;
+        version: string;
+      };
+
+      try {
+        if (!packageUploadService) {
+          return reply
+            .status(500)
+            .send({ error: 'Package upload service not initialized' });
+        }
+
+        const permissionCheck = checkPackagePermission(
+          request,
+          reply,
+          packageId,
+          'delete'
+        );
+        if (permissionCheck) return permissionCheck;
+
+        const found =
+          deletePackagePolicy === 'delete'
+            ? await packageUploadService.removePackage(packageId, version)
+            : await packageUploadService.setPackageListed(
+                packageId,
+                version,
+                false
+              );
+        if (!found) {
+          return reply.status(404).send({ error: 'Package not found' });
         }
+
+        const response: PublishResponse = {
+          message:
+            deletePackagePolicy === 'delete'
+              ? 'Package deleted successfully'
+              : 'Package unlisted successfully',
+          id: packageId,
+          version: version,
+        };
+        return reply.status(200).send(response);
       } catch (error) {
-        logger.error(`Package upload error: ${error}`);
+        logger.error(`Package delete error: ${packageId} ${version}: ${error}`);
         return reply.status(500).send({ error: 'Internal server error' });
-      } finally {
-        // Clean up temporary file
-        if (tempFilePath) {
-          try {
-            await unlink(tempFilePath);
-          } catch (error) {
-            logger.error(
-              `Failed to clean up temporary file: ${tempFilePath} - ${error}`
-            );
-          }
+      }
+    }
+  );
+
+  // POST /api/v2/package/{id}/{version} - Relist an unlisted package
+  fastify.post(
+    '/v2/package/:id/:version',
+    {
+      preHandler: apiKeyAuthPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id: packageId, version } = request.params as {
+        id: string;
+        version: string;
+      };
+
+      try {
+        if (!packageUploadService) {
+          return reply
+            .status(500)
+            .send({ error: 'Package upload service not initialized' });
+        }
+
+        const permissionCheck = checkPackagePermission(
+          request,
+          reply,
+          packageId,
+          'delete'
+        );
+        if (permissionCheck) return permissionCheck;
+
+        const found = await packageUploadService.setPackageListed(
+          packageId,
+          version,
+          true
+        );
+        if (!found) {
+          return reply.status(404).send({ error: 'Package not found' });
         }
+
+        const response: PublishResponse = {
+          message: 'Package relisted successfully',
+          id: packageId,
+          version: version,
+        };
+        return reply.status(200).send(response);
+      } catch (error) {
+        logger.error(`Package relist error: ${packageId} ${version}: ${error}`);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // PUT /api/v2/package/{id}/{version}/deprecation - Deprecate a package version
+  fastify.put(
+    '/v2/package/:id/:version/deprecation',
+    {
+      preHandler: apiKeyAuthPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id: packageId, version } = request.params as {
+        id: string;
+        version: string;
+      };
+
+      try {
+        if (!packageUploadService) {
+          return reply
+            .status(500)
+            .send({ error: 'Package upload service not initialized' });
+        }
+
+        const permissionCheck = checkPackagePermission(
+          request,
+          reply,
+          packageId,
+          'push'
+        );
+        if (permissionCheck) return permissionCheck;
+
+        const validation = validateDeprecation(request.body);
+        if (!validation.valid) {
+          return reply.status(400).send({ error: validation.error });
+        }
+
+        const found = await packageUploadService.setPackageDeprecation(
+          packageId,
+          version,
+          validation.deprecation
+        );
+        if (!found) {
+          return reply.status(404).send({ error: 'Package not found' });
+        }
+
+        const response: PublishResponse = {
+          message: 'Package deprecated successfully',
+          id: packageId,
+          version: version,
+        };
+        return reply.status(200).send(response);
+      } catch (error) {
+        logger.error(
+          `Package deprecation error: ${packageId} ${version}: ${error}`
+        );
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // DELETE /api/v2/package/{id}/{version}/deprecation - Remove the deprecation of a package version
+  fastify.delete(
+    '/v2/package/:id/:version/deprecation',
+    {
+      preHandler: apiKeyAuthPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id: packageId, version } = request.params as {
+        id: string;
+        version: string;
+      };
+
+      try {
+        if (!packageUploadService) {
+          return reply
+            .status(500)
+            .send({ error: 'Package upload service not initialized' });
+        }
+
+        const permissionCheck = checkPackagePermission(
+          request,
+          reply,
+          packageId,
+          'push'
+        );
+        if (permissionCheck) return permissionCheck;
+
+        const found = await packageUploadService.setPackageDeprecation(
+          packageId,
+          version,
+          undefined
+        );
+        if (!found) {
+          return reply.status(404).send({ error: 'Package not found' });
+        }
+
+        const response: PublishResponse = {
+          message: 'Package undeprecated successfully',
+          id: packageId,
+          version: version,
+        };
+        return reply.status(200).send(response);
+      } catch (error) {
+        logger.error(
+          `Package undeprecation error: ${packageId} ${version}: ${error}`
+        );
+        return reply.status(500).send({ error: 'Internal server error' });
       }
     }
   );
@@ -308,102 +976,17 @@ const parseNuspec = async (nuspecContent: string): Promise<PackageMetadata> => {
     throw new Error('Invalid nuspec format - missing metadata section');
   }
 
-  if (!metadata.id || !metadata.version) {
+  const nuspecMetadata = extractNuspecMetadata(metadata);
+  if (!nuspecMetadata.id || !nuspecMetadata.version) {
     throw new Error('Invalid nuspec format - missing id or version');
   }
 
-  // Extract dependencies
-  const dependencies = extractDependencies(metadata.dependencies);
-
-  // Extract tags
-  const tags = metadata.tags
-    ? typeof metadata.tags === 'string'
-      ? parseNuspecTags(metadata.tags)
-      : []
-    : [];
-  const targetFrameworks = extractNuspecTargetFrameworks(metadata);
-
   return {
-    id: metadata.id,
-    version: metadata.version,
-    authors: metadata.authors,
-    description: metadata.description,
-    licenseUrl: metadata.licenseUrl,
-    licenseExpression:
-      typeof metadata.license === 'object'
-        ? metadata.license._
-        : metadata.license,
-    projectUrl: metadata.projectUrl,
-    iconUrl: metadata.iconUrl,
-    icon: metadata.icon,
-    tags,
-    targetFrameworks,
-    dependencies,
+    ...nuspecMetadata,
+    id: nuspecMetadata.id,
+    version: nuspecMetadata.version,
     published: new Date(),
     listed: true,
     packageContentUrl: '', // Will be set later
   };
 };
-
-/**
- * Extracts dependency information from nuspec XML structure
- * @param deps - Raw dependency data from XML parser
- * @returns Array of dependency groups
- */
-const extractDependencies = (deps: any): any[] => {
-  if (!deps) return [];
-
-  const groups: any[] = [];
-
-  if (deps.group) {
-    const groupArray = Array.isArray(deps.group) ? deps.group : [deps.group];
-
-    for (const group of groupArray) {
-      const targetFramework = group.$ ? group.$.targetFramework : undefined;
-      const dependencies: any[] = [];
-
-      if (group.dependency) {
-        const depArray = Array.isArray(group.dependency)
-          ? group.dependency
-          : [group.dependency];
-
-        for (const dep of depArray) {
-          if (dep.$) {
-            dependencies.push({
-              id: dep.$.id,
-              version: dep.$.version,
-              exclude: dep.$.exclude,
-            });
-          }
-        }
-      }
-
-      groups.push({
-        targetFramework,
-        dependencies,
-      });
-    }
-  } else if (deps.dependency) {
-    // Dependencies without groups
-    const depArray = Array.isArray(deps.dependency)
-      ? deps.dependency
-      : [deps.dependency];
-    const dependencies: any[] = [];
-
-    for (const dep of depArray) {
-      if (dep.$) {
-        dependencies.push({
-          id: dep.$.id,
-          version: dep.$.version,
-          exclude: dep.$.exclude,
-        });
-      }
-    }
-
-    if (dependencies.length > 0) {
-      groups.push({ dependencies });
-    }
-  }
-
-  return groups;
-};
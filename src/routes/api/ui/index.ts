@@ -3,14 +3,32 @@
 // License under MIT.
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { promises as fs } from 'fs';
 import { join } from 'path';
 import { ReaderWriterLock } from 'async-primitives';
 import { Logger } from '../../../types';
-import { UserService } from '../../../services/userService';
+import { ApiPasswordOptions, UserService } from '../../../services/userService';
 import { SessionService } from '../../../services/sessionService';
 import { AuthService } from '../../../services/authService';
 import { MetadataService } from '../../../services/metadataService';
+import {
+  DownloadStatistics,
+  DownloadStatsService,
+} from '../../../services/downloadStatsService';
+import {
+  Advisory,
+  AdvisoryService,
+  validateAdvisoryInput,
+} from '../../../services/advisoryService';
+import {
+  groupOwnerPrefix,
+  OwnershipService,
+  PackageOwnership,
+  PrefixReservation,
+  UserGroup,
+  validateOwners,
+  validatePrefixReservationInput,
+  validateUserGroupInput,
+} from '../../../services/ownershipService';
 import { AuthenticatedFastifyRequest } from '../../../middleware/fastifyAuth';
 import {
   name as packageName,
@@ -18,6 +36,8 @@ import {
   git_commit_hash,
 } from '../../../generated/packageMetadata';
 import { streamFile } from '../../../utils/fileStreaming';
+import { isSameVersion } from '../../../utils/semver';
+import { findPackageIcon } from '../../../utils/packageIcon';
 
 /**
  * Configuration for UI routes
@@ -35,6 +55,9 @@ export interface UiRoutesConfig {
     isHttps: boolean;
   };
   metadataService: MetadataService;
+  downloadStatsService: DownloadStatsService;
+  advisoryService: AdvisoryService;
+  ownershipService: OwnershipService;
 }
 
 /**
@@ -146,6 +169,121 @@ export interface PasswordChangeResponse {
   message: string;
 }
 
+/**
+ * Download statistics request
+ */
+export interface StatsRequest {
+  days?: number; // Period in days including today (default: 30, max: 366)
+  top?: number; // Number of top packages (default: 10, max: 100)
+  packageId?: string; // Limits the daily trend and versions to a package
+}
+
+/**
+ * Download statistics response
+ */
+export type StatsResponse = DownloadStatistics;
+
+/**
+ * POST /api/ui/advisories request body for security advisory management
+ */
+export interface AdvisoryManagementRequest {
+  action: 'list' | 'create' | 'update' | 'delete';
+  id?: string; // Required for update and delete
+  packageId?: string;
+  versionRange?: string;
+  severity?: string;
+  url?: string;
+}
+
+/**
+ * Advisory list response
+ */
+export interface AdvisoryListResponse {
+  advisories: Advisory[];
+}
+
+/**
+ * Advisory creation and update response
+ */
+export interface AdvisoryResponse {
+  advisory: Advisory;
+}
+
+/**
+ * Advisory deletion response
+ */
+export interface AdvisoryDeleteResponse {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * POST /api/ui/owners request body for package ownership management
+ */
+export interface OwnershipManagementRequest {
+  action:
+    | 'list'
+    | 'transfer'
+    | 'createReservation'
+    | 'updateReservation'
+    | 'deleteReservation'
+    | 'createGroup'
+    | 'updateGroup'
+    | 'deleteGroup';
+  packageId?: string; // Required for transfer
+  id?: string; // Reservation ID, required for updateReservation and deleteReservation
+  prefix?: string;
+  owners?: string[];
+  name?: string; // Group name, required for createGroup, updateGroup and deleteGroup
+  members?: string[];
+}
+
+/**
+ * Package owners, prefix reservations and user groups list response
+ */
+export interface OwnershipListResponse {
+  packages: PackageOwnership[];
+  reservations: PrefixReservation[];
+  groups: UserGroup[];
+}
+
+/**
+ * Ownership transfer response
+ */
+export interface OwnershipTransferResponse {
+  package: PackageOwnership;
+}
+
+/**
+ * Prefix reservation creation and update response
+ */
+export interface PrefixReservationResponse {
+  reservation: PrefixReservation;
+}
+
+/**
+ * Prefix reservation deletion response
+ */
+export interface PrefixReservationDeleteResponse {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * User group creation and update response
+ */
+export interface UserGroupResponse {
+  group: UserGroup;
+}
+
+/**
+ * User group deletion response
+ */
+export interface UserGroupDeleteResponse {
+  success: boolean;
+  message: string;
+}
+
 /**
  * Session-only authentication middleware
  */
@@ -211,6 +349,9 @@ export const registerUiRoutes = async (
     realm,
     serverUrl,
     metadataService,
+    downloadStatsService,
+    advisoryService,
+    ownershipService,
   } = config;
 
   // Create session-only auth middleware
@@ -490,7 +631,7 @@ export const registerUiRoutes = async (
     async (request: FastifyRequest, reply: FastifyReply) => {
       const authRequest = request as AuthenticatedFastifyRequest;
       try {
-        const body = request.body as {
+        const body = request.body as ApiPasswordOptions & {
           action: 'list' | 'add' | 'delete';
           label?: string;
         };
@@ -526,7 +667,12 @@ export const registerUiRoutes = async (
             try {
               const result = await userService.addApiPassword(
                 username,
-                body.label
+                body.label,
+                {
+                  scopes: body.scopes,
+                  packagePatterns: body.packagePatterns,
+                  expiresAt: body.expiresAt,
+                }
               );
               if (!result) {
                 return reply.status(404).send({ error: 'User not found' });
@@ -672,6 +818,348 @@ export const registerUiRoutes = async (
     }
   );
 
+  // POST /api/ui/stats - Download statistics (admin permission required when admin auth is enabled)
+  fastify.post(
+    '/stats',
+    {
+      preHandler: async (request: FastifyRequest, reply: FastifyReply) => {
+        if (authService.isAuthRequired('admin')) {
+          return sessionOnlyAuth(request, reply);
+        }
+        // For 'none' mode, no authentication required
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const authRequest = request as AuthenticatedFastifyRequest;
+      try {
+        if (authService.isAuthRequired('admin')) {
+          const roleCheck = requireRole(authRequest, reply, ['admin']);
+          if (roleCheck) return roleCheck;
+        }
+
+        const body = (request.body as StatsRequest | undefined) ?? {};
+        const days = body.days ?? 30;
+        const top = body.top ?? 10;
+        if (!Number.isInteger(days) || days < 1 || days > 366) {
+          return reply
+            .status(400)
+            .send({ error: 'days must be an integer from 1 to 366' });
+        }
+        if (!Number.isInteger(top) || top < 1 || top > 100) {
+          return reply
+            .status(400)
+            .send({ error: 'top must be an integer from 1 to 100' });
+        }
+
+        const response: StatsResponse = downloadStatsService.getStatistics({
+          days,
+          top,
+          packageId: body.packageId || undefined,
+        });
+        return reply.send(response);
+      } catch (error: any) {
+        if (error.statusCode) {
+          throw error; // Re-throw HTTP errors
+        }
+        logger.error(`Error in /api/ui/stats: ${error}`);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // POST /api/ui/advisories - Security advisory management (admin permission required)
+  fastify.post(
+    '/advisories',
+    {
+      preHandler: async (request: FastifyRequest, reply: FastifyReply) => {
+        if (authService.isAuthRequired('admin')) {
+          return sessionOnlyAuth(request, reply);
+        }
+        // For 'none' mode, no authentication required
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const authRequest = request as AuthenticatedFastifyRequest;
+      try {
+        if (authService.isAuthRequired('admin')) {
+          const roleCheck = requireRole(authRequest, reply, ['admin']);
+          if (roleCheck) return roleCheck;
+        }
+
+        const body = request.body as AdvisoryManagementRequest;
+
+        switch (body.action) {
+          case 'list': {
+            const response: AdvisoryListResponse = {
+              advisories: advisoryService.getAdvisories(),
+            };
+            return reply.send(response);
+          }
+
+          case 'create':
+          case 'update': {
+            if (body.action === 'update' && !body.id) {
+              return reply
+                .status(400)
+                .send({ error: 'Advisory ID is required' });
+            }
+            const validation = validateAdvisoryInput(body);
+            if (!validation.valid) {
+              return reply.status(400).send({ error: validation.error });
+            }
+
+            const advisory =
+              body.action === 'create'
+                ? await advisoryService.addAdvisory(validation.input)
+                : await advisoryService.updateAdvisory(
+                    body.id!,
+                    validation.input
+                  );
+            if (!advisory) {
+              return reply.status(404).send({ error: 'Advisory not found' });
+            }
+
+            const response: AdvisoryResponse = { advisory };
+            return reply
+              .status(body.action === 'create' ? 201 : 200)
+              .send(response);
+          }
+
+          case 'delete': {
+            if (!body.id) {
+              return reply
+                .status(400)
+                .send({ error: 'Advisory ID is required' });
+            }
+
+            const deleted = await advisoryService.deleteAdvisory(body.id);
+            if (!deleted) {
+              return reply.status(404).send({ error: 'Advisory not found' });
+            }
+
+            const response: AdvisoryDeleteResponse = {
+              success: true,
+              message: 'Advisory deleted successfully',
+            };
+            return reply.send(response);
+          }
+
+          default:
+            return reply
+              .status(400)
+              .send({ error: `Unknown action: ${body.action}` });
+        }
+      } catch (error: any) {
+        if (error.statusCode) {
+          throw error; // Re-throw HTTP errors
+        }
+        logger.error(`Error in /api/ui/advisories: ${error}`);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // POST /api/ui/owners - Package ownership management (admin permission required)
+  fastify.post(
+    '/owners',
+    {
+      preHandler: async (request: FastifyRequest, reply: FastifyReply) => {
+        if (authService.isAuthRequired('admin')) {
+          return sessionOnlyAuth(request, reply);
+        }
+        // For 'none' mode, no authentication required
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const authRequest = request as AuthenticatedFastifyRequest;
+      try {
+        if (authService.isAuthRequired('admin')) {
+          const roleCheck = requireRole(authRequest, reply, ['admin']);
+          if (roleCheck) return roleCheck;
+        }
+
+        const body = request.body as OwnershipManagementRequest;
+
+        // Owners must be registered users or existing groups
+        const findUnknownOwner = async (owners: string[]) => {
+          for (const owner of owners) {
+            if (owner.startsWith(groupOwnerPrefix)) {
+              if (
+                !ownershipService.getGroup(owner.slice(groupOwnerPrefix.length))
+              ) {
+                return `Group not found: ${owner}`;
+              }
+            } else if (!(await userService.getUser(owner))) {
+              return `User not found: ${owner}`;
+            }
+          }
+          return undefined;
+        };
+
+        switch (body.action) {
+          case 'list': {
+            const response: OwnershipListResponse = {
+              packages: ownershipService.getPackageOwnerships(),
+              reservations: ownershipService.getReservations(),
+              groups: ownershipService.getGroups(),
+            };
+            return reply.send(response);
+          }
+
+          case 'transfer': {
+            const latestEntry = body.packageId
+              ? metadataService.getLatestPackageEntry(body.packageId)
+              : undefined;
+            if (!latestEntry) {
+              return reply.status(404).send({ error: 'Package not found' });
+            }
+            const owners = validateOwners(body.owners);
+            if (!owners) {
+              return reply
+                .status(400)
+                .send({ error: 'At least one owner is required' });
+            }
+            const unknownOwner = await findUnknownOwner(owners);
+            if (unknownOwner) {
+              return reply.status(400).send({ error: unknownOwner });
+            }
+
+            const response: OwnershipTransferResponse = {
+              package: await ownershipService.setOwners(
+                latestEntry.metadata.id,
+                owners
+              ),
+            };
+            return reply.send(response);
+          }
+
+          case 'createReservation':
+          case 'updateReservation': {
+            if (body.action === 'updateReservation' && !body.id) {
+              return reply
+                .status(400)
+                .send({ error: 'Reservation ID is required' });
+            }
+            const validation = validatePrefixReservationInput(body);
+            if (!validation.valid) {
+              return reply.status(400).send({ error: validation.error });
+            }
+            const unknownOwner = await findUnknownOwner(
+              validation.input.owners
+            );
+            if (unknownOwner) {
+              return reply.status(400).send({ error: unknownOwner });
+            }
+
+            const reservation =
+              body.action === 'createReservation'
+                ? await ownershipService.addReservation(validation.input)
+                : await ownershipService.updateReservation(
+                    body.id!,
+                    validation.input
+                  );
+            if (!reservation) {
+              return reply.status(404).send({ error: 'Reservation not found' });
+            }
+
+            const response: PrefixReservationResponse = { reservation };
+            return reply
+              .status(body.action === 'createReservation' ? 201 : 200)
+              .send(response);
+          }
+
+          case 'deleteReservation': {
+            if (!body.id) {
+              return reply
+                .status(400)
+                .send({ error: 'Reservation ID is required' });
+            }
+
+            const deleted = await ownershipService.deleteReservation(body.id);
+            if (!deleted) {
+              return reply.status(404).send({ error: 'Reservation not found' });
+            }
+
+            const response: PrefixReservationDeleteResponse = {
+              success: true,
+              message: 'Reservation deleted successfully',
+            };
+            return reply.send(response);
+          }
+
+          case 'createGroup':
+          case 'updateGroup': {
+            const validation = validateUserGroupInput(body);
+            if (!validation.valid) {
+              return reply.status(400).send({ error: validation.error });
+            }
+            // Members are users only, groups are rejected by the validation
+            const unknownMember = await findUnknownOwner(
+              validation.input.members
+            );
+            if (unknownMember) {
+              return reply.status(400).send({ error: unknownMember });
+            }
+
+            if (body.action === 'createGroup') {
+              const group = await ownershipService.addGroup(validation.input);
+              if (!group) {
+                return reply.status(409).send({
+                  error: `Group already exists: ${validation.input.name}`,
+                });
+              }
+              const response: UserGroupResponse = { group };
+              return reply.status(201).send(response);
+            }
+            const group = await ownershipService.updateGroup(validation.input);
+            if (!group) {
+              return reply.status(404).send({ error: 'Group not found' });
+            }
+            const response: UserGroupResponse = { group };
+            return reply.send(response);
+          }
+
+          case 'deleteGroup': {
+            if (!body.name) {
+              return reply
+                .status(400)
+                .send({ error: 'Group name is required' });
+            }
+
+            // Groups still owning packages or reservations cannot be deleted
+            const references = ownershipService.getGroupReferences(body.name);
+            if (references.length > 0) {
+              return reply.status(409).send({
+                error: `Group ${body.name} is an owner of ${references.join(', ')}`,
+              });
+            }
+            const deleted = await ownershipService.deleteGroup(body.name);
+            if (!deleted) {
+              return reply.status(404).send({ error: 'Group not found' });
+            }
+
+            const response: UserGroupDeleteResponse = {
+              success: true,
+              message: 'Group deleted successfully',
+            };
+            return reply.send(response);
+          }
+
+          default:
+            return reply
+              .status(400)
+              .send({ error: `Unknown action: ${body.action}` });
+        }
+      } catch (error: any) {
+        if (error.statusCode) {
+          throw error; // Re-throw HTTP errors
+        }
+        logger.error(`Error in /api/ui/owners: ${error}`);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
   // GET /api/ui/icon/{id}/{version} - Package icon (auth requirements based on authMode)
   fastify.get(
     '/icon/:id/:version',
@@ -694,85 +1182,53 @@ export const registerUiRoutes = async (
       try {
         logger.info(`Serving icon for package: ${packageId} ${version}`);
 
-        // Try to get icon from package metadata or storage
-        const lowerVersion = version.toLowerCase();
-
-        // Look for icon file in package directory (preserve original packageId case)
-        const packageDir = join(packagesRoot, packageId, lowerVersion);
-        const iconExtensions = ['png', 'jpg', 'jpeg', 'gif', 'svg'];
-
-        for (const ext of iconExtensions) {
-          try {
-            const iconPath = join(packageDir, `icon.${ext}`);
-            await fs.access(iconPath); // Check if file exists
-
-            // Use streamFile with appropriate content type and cache control
-            const contentType =
-              ext === 'svg' ? 'image/svg+xml' : `image/${ext}`;
-            logger.info(`Icon served successfully: ${packageId} ${version}`);
-
-            await streamFile(
-              logger,
-              locker,
-              iconPath,
-              reply,
-              {
-                contentType,
-                cacheControl: 'public, max-age=3600',
-              },
-              request.abortSignal
-            );
-            return;
-          } catch (error: any) {
-            // Continue to next extension
-          }
-        }
+        // Resolve the stored version directory (the requested version may be normalized)
+        const entry = metadataService.getPackageEntry(packageId, version);
+        const packageDir = entry
+          ? join(packagesRoot, entry.storage.dirName, entry.metadata.version)
+          : join(packagesRoot, packageId, version.toLowerCase());
+        let icon = await findPackageIcon(packageDir);
 
-        // Icon not found in specified version, try latest version as fallback
-        logger.info(
-          `Icon not found in version ${version}, trying latest version for package: ${packageId}`
-        );
-
-        const latestEntry = metadataService.getLatestPackageEntry(packageId);
-        if (latestEntry && latestEntry.metadata.version !== version) {
+        if (!icon) {
+          // Icon not found in specified version, try latest version as fallback
           logger.info(
-            `Trying fallback to latest version: ${latestEntry.metadata.version}`
+            `Icon not found in version ${version}, trying latest version for package: ${packageId}`
           );
 
-          const latestPackageDir = join(
-            packagesRoot,
-            latestEntry.storage.dirName,
-            latestEntry.metadata.version
-          );
-
-          for (const ext of iconExtensions) {
-            try {
-              const iconPath = join(latestPackageDir, `icon.${ext}`);
-              await fs.access(iconPath); // Check if file exists
+          const latestEntry = metadataService.getLatestPackageEntry(packageId);
+          if (
+            latestEntry &&
+            !isSameVersion(latestEntry.metadata.version, version)
+          ) {
+            logger.info(
+              `Trying fallback to latest version: ${latestEntry.metadata.version}`
+            );
+            icon = await findPackageIcon(
+              join(
+                packagesRoot,
+                latestEntry.storage.dirName,
+                latestEntry.metadata.version
+              )
+            );
+          }
+        }
 
-              // Use streamFile with appropriate content type and cache control
-              const contentType =
-                ext === 'svg' ? 'image/svg+xml' : `image/${ext}`;
-              logger.info(
-                `Icon served from latest version: ${packageId} ${latestEntry.metadata.version} (requested: ${version})`
-              );
+        if (icon) {
+          logger.info(`Icon served successfully: ${packageId} ${version}`);
 
-              await streamFile(
-                logger,
-                locker,
-                iconPath,
-                reply,
-                {
-                  contentType,
-                  cacheControl: 'public, max-age=3600',
-                },
-                request.abortSignal
-              );
-              return;
-            } catch (error: any) {
-              // Continue to next extension
-            }
-          }
+          // Use streamFile with appropriate content type and cache control
+          await streamFile(
+            logger,
+            locker,
+            icon.path,
+            reply,
+            {
+              contentType: icon.contentType,
+              cacheControl: 'public, max-age=3600',
+            },
+            request.abortSignal
+          );
+          return;
         }
 
         // Icon not found in both specified version and latest version
@@ -0,0 +1,141 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { join, posix } from 'path';
+import { ReaderWriterLock } from 'async-primitives';
+import { Logger } from '../../types';
+import { MetadataService } from '../../services/metadataService';
+import { openZipArchive } from '../../utils/zipArchive';
+import { AuthService } from '../../services/authService';
+import {
+  createConditionalHybridAuthMiddleware,
+  FastifyAuthConfig,
+} from '../../middleware/fastifyAuth';
+
+/**
+ * Configuration for symbol server routes
+ */
+export interface SymbolRoutesConfig {
+  metadataService: MetadataService;
+  authService: AuthService;
+  authConfig: FastifyAuthConfig;
+  packagesRoot: string;
+  maxUploadSizeMb?: number;
+  logger: Logger;
+}
+
+/**
+ * Registers Simple Symbol Query Protocol routes with Fastify instance
+ * @remarks PDB files are served from the symbol packages (.snupkg) stored next to their package versions.
+ */
+export const registerSymbolRoutes = async (
+  fastify: FastifyInstance,
+  config: SymbolRoutesConfig,
+  locker: ReaderWriterLock
+) => {
+  const {
+    metadataService,
+    authService,
+    authConfig,
+    packagesRoot,
+    maxUploadSizeMb = 100,
+    logger,
+  } = config;
+  // PDBs were accepted up to the upload size, so larger entries are not read into memory
+  const maxSymbolFileSize = 1024 * 1024 * maxUploadSizeMb;
+
+  // Helper to create conditional auth middleware based on authMode
+  const createAuthHandler = () => {
+    const authMode = authService.getAuthMode();
+    if (authMode === 'full') {
+      // For full auth mode, require hybrid authentication
+      return createConditionalHybridAuthMiddleware(authConfig);
+    }
+    // For 'none' and 'publish' modes, no authentication required for symbol downloads
+    return null;
+  };
+
+  const authHandler = createAuthHandler();
+
+  // Apply authentication middleware conditionally
+  const authPreHandler = authHandler ? ([authHandler] as any) : [];
+
+  // Symbol file - GET /symbols/{file}/{signature-age}/{file}
+  fastify.get(
+    '/symbols/:file/:signature/:file2',
+    {
+      preHandler: authPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { file, signature, file2 } = request.params as {
+        file: string;
+        signature: string;
+        file2: string;
+      };
+      const key = `${file}/${signature}/${file2}`;
+
+      try {
+        const location =
+          file.toLowerCase() === file2.toLowerCase()
+            ? metadataService.getSymbolFile(key)
+            : undefined;
+        const symbols = location?.entry.storage.symbols;
+        if (!location || !symbols) {
+          logger.debug(`Symbol file not found: ${key}`);
+          return reply.status(404).send({ error: 'Symbol file not found' });
+        }
+
+        const { entry, symbolFile } = location;
+        const symbolPackagePath = join(
+          packagesRoot,
+          entry.storage.dirName,
+          entry.metadata.version,
+          symbols.fileName
+        );
+
+        // Read only the PDB entry under the reader lock, like other file downloads
+        const handle = await locker.readLock(request.abortSignal);
+        let data: Buffer | undefined;
+        try {
+          const archive = await openZipArchive(symbolPackagePath);
+          try {
+            const pdbEntry = archive.entries.find(
+              (e) => e.entryName === symbolFile.path
+            );
+            data = pdbEntry
+              ? await archive.readEntry(pdbEntry, maxSymbolFileSize)
+              : undefined;
+          } finally {
+            await archive.close();
+          }
+        } finally {
+          handle.release();
+        }
+        if (!data) {
+          logger.warn(
+            `Symbol file ${symbolFile.path} is missing in ${symbolPackagePath}`
+          );
+          return reply.status(404).send({ error: 'Symbol file not found' });
+        }
+
+        logger.debug(
+          `Symbol file served: ${key} from ${entry.metadata.id} ${entry.metadata.version}`
+        );
+        return reply
+          .type('application/octet-stream')
+          .header(
+            'Content-Disposition',
+            `attachment; filename="${posix.basename(symbolFile.path)}"`
+          )
+          .send(data);
+      } catch (error) {
+        logger.error(`Error in symbol file endpoint for ${key}: ${error}`);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  logger.info('Symbol server routes registered successfully');
+};
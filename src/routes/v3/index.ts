@@ -3,13 +3,22 @@
 // License under MIT.
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { join } from 'path';
 import { ReaderWriterLock } from 'async-primitives';
 import { Logger, MissingPackageResponseMode } from '../../types';
 import {
+  DependencyGroup,
   MetadataService,
   PackageMetadata,
+  PackageRepository,
 } from '../../services/metadataService';
 import { AuthService } from '../../services/authService';
+import { DownloadStatsService } from '../../services/downloadStatsService';
+import {
+  AdvisoryService,
+  advisorySeverities,
+} from '../../services/advisoryService';
+import { OwnershipService } from '../../services/ownershipService';
 import {
   createConditionalHybridAuthMiddleware,
   FastifyAuthConfig,
@@ -17,6 +26,23 @@ import {
 import { createPackageService } from '../../services/packageService';
 import { createUrlResolver } from '../../utils/urlResolver';
 import { streamFile } from '../../utils/fileStreaming';
+import {
+  isSameVersion,
+  normalizeVersion,
+  parseNuGetVersion,
+} from '../../utils/semver';
+import { parseSearchQuery } from '../../utils/searchQuery';
+import { PackageDeprecation } from '../../utils/deprecation';
+import { readmeDocumentName, readmeFileName } from '../../utils/readme';
+import { findPackageIcon, iconDocumentName } from '../../utils/packageIcon';
+import {
+  formatReprDigest,
+  packageHashAlgorithm,
+} from '../../utils/packageHash';
+import {
+  getPackageTypes,
+  SearchFilterOptions,
+} from '../../services/searchIndex';
 
 /**
  * Service Index Resource interface for NuGet V3 API
@@ -62,6 +88,7 @@ export interface SearchResult {
   projectUrl?: string;
   tags: string[];
   authors: string[];
+  owners: string[];
   targetFrameworks: string[];
   totalDownloads: number;
   verified: boolean;
@@ -85,6 +112,17 @@ export interface SearchResponse {
   data: SearchResult[];
 }
 
+/**
+ * Autocomplete response structure (package IDs or versions)
+ */
+export interface AutocompleteResponse {
+  '@context': {
+    '@vocab': string;
+  };
+  totalHits: number;
+  data: string[];
+}
+
 /**
  * Registration index response for a package
  */
@@ -106,9 +144,10 @@ export interface RegistrationPage {
   commitId?: string;
   commitTimeStamp?: string;
   count: number;
-  items: RegistrationLeaf[];
+  items?: RegistrationLeaf[]; // Omitted when the page is not inlined
   lower?: string;
   upper?: string;
+  parent?: string;
 }
 
 /**
@@ -124,6 +163,61 @@ export interface RegistrationLeaf {
   registration: string;
 }
 
+/**
+ * Registration leaf document served for an individual package version
+ */
+export interface RegistrationLeafDocument {
+  '@id': string;
+  '@type': string[];
+  catalogEntry: string;
+  listed: boolean;
+  packageContent: string;
+  packageHash?: string; // Base64 encoded (not in the nuget.org registration leaves)
+  packageHashAlgorithm?: string;
+  published: string;
+  registration: string;
+}
+
+/**
+ * Package dependency in a catalog entry dependency group
+ */
+export interface CatalogDependency {
+  '@id': string;
+  '@type': string;
+  id: string;
+  range: string;
+  registration: string;
+}
+
+/**
+ * Dependency group for a target framework in a catalog entry
+ */
+export interface CatalogDependencyGroup {
+  '@id': string;
+  '@type': string;
+  targetFramework?: string;
+  dependencies?: CatalogDependency[];
+}
+
+/**
+ * Alternate package recommended by a catalog entry deprecation
+ */
+export interface CatalogAlternatePackage {
+  '@id': string;
+  id: string;
+  range: string;
+}
+
+/**
+ * Deprecation of a catalog entry
+ */
+export interface CatalogDeprecation {
+  '@id': string;
+  reasons: string[];
+  message?: string;
+  alternatePackage?: CatalogAlternatePackage;
+}
+
 /**
  * Catalog entry with package metadata
  */
@@ -131,7 +225,11 @@ export interface CatalogEntry {
   '@id': string;
   '@type': string;
   authors: string;
+  copyright?: string;
+  dependencyGroups: CatalogDependencyGroup[];
+  deprecation?: CatalogDeprecation;
   description?: string;
+  downloads: number; // Downloads of this version (not in the nuget.org catalog)
   iconUrl?: string;
   icon?: string;
   id: string;
@@ -141,8 +239,13 @@ export interface CatalogEntry {
   listed?: boolean;
   minClientVersion?: string;
   packageContent: string;
+  packageHash?: string; // Base64 encoded
+  packageHashAlgorithm?: string;
   projectUrl?: string;
   published: string;
+  readme?: string;
+  releaseNotes?: string;
+  repository?: PackageRepository;
   requireLicenseAcceptance?: boolean;
   summary?: string;
   tags?: string[];
@@ -150,11 +253,38 @@ export interface CatalogEntry {
   version: string;
 }
 
+/**
+ * Page listed in the vulnerability index
+ */
+export interface VulnerabilityIndexPage {
+  '@name': string;
+  '@id': string;
+  '@updated': string;
+  comment: string;
+}
+
+/**
+ * Vulnerability of a package in a vulnerability page
+ */
+export interface VulnerabilityEntry {
+  severity: number; // 0: low, 1: moderate, 2: high, 3: critical
+  url: string;
+  versions: string; // Affected version range
+}
+
+/**
+ * Vulnerability page, keyed by lower-cased package ID
+ */
+export type VulnerabilityPage = Record<string, VulnerabilityEntry[]>;
+
 /**
  * Configuration for V3 API routes
  */
 export interface V3RoutesConfig {
   metadataService: MetadataService;
+  downloadStatsService: DownloadStatsService;
+  advisoryService: AdvisoryService;
+  ownershipService: OwnershipService;
   authService: AuthService;
   authConfig: FastifyAuthConfig;
   packagesRoot: string;
@@ -163,6 +293,38 @@ export interface V3RoutesConfig {
   missingPackageResponse: MissingPackageResponseMode;
 }
 
+/**
+ * Maximum number of versions in a registration page
+ */
+const registrationPageSize = 64;
+
+/**
+ * Registration pages are inlined into the index up to this number of versions
+ */
+const registrationInlineThreshold = 128;
+
+/**
+ * Formats a version for use in URLs (normalized and lower-cased, as NuGet clients request it)
+ */
+const toUrlVersion = (version: string): string =>
+  normalizeVersion(version).toLowerCase();
+
+/**
+ * Gets the icon URL of a package version
+ * @remarks Embedded icons (nuspec `<icon>`) are served from the PackageBaseAddress resource,
+ * otherwise the deprecated nuspec `<iconUrl>` is used.
+ */
+const getIconUrl = (
+  baseUrl: string,
+  metadata: PackageMetadata
+): string | undefined => {
+  if (!metadata.icon) {
+    return metadata.iconUrl;
+  }
+  const lowerId = metadata.id.toLowerCase();
+  return `${baseUrl}/v3/package/${lowerId}/${toUrlVersion(metadata.version)}/${iconDocumentName}`;
+};
+
 /**
  * Creates a service index configuration for the given base URL
  */
@@ -194,17 +356,85 @@ const createServiceIndex = (baseUrl: string): ServiceIndex => {
         ],
         comment: 'Query endpoint of NuGet Search service',
       },
+      {
+        '@id': `${baseUrl}/v3/autocomplete`,
+        '@type': [
+          'SearchAutocompleteService',
+          'SearchAutocompleteService/3.0.0-rc',
+          'SearchAutocompleteService/3.0.0-beta',
+          'SearchAutocompleteService/3.5.0',
+        ],
+        comment: 'Autocomplete endpoint of NuGet Search service',
+      },
+      {
+        '@id': `${baseUrl}/api/v2/package`,
+        '@type': 'PackagePublish/2.0.0',
+        comment: 'Endpoint for pushing packages (dotnet nuget push)',
+      },
+      {
+        '@id': `${baseUrl}/api/v2/symbolpackage`,
+        '@type': 'SymbolPackagePublish/4.9.0',
+        comment:
+          'Endpoint for pushing symbol packages (dotnet nuget push *.snupkg)',
+      },
+      {
+        '@id': `${baseUrl}/v3/vulnerabilities/index.json`,
+        '@type': 'VulnerabilityInfo/6.7.0',
+        comment: 'Vulnerability information of packages (NuGet audit)',
+      },
+      {
+        '@id': `${baseUrl}/v3/package/{lower_id}/{lower_version}/${readmeDocumentName}`,
+        '@type': 'ReadmeUriTemplate/6.13.0',
+        comment: 'URI template of package READMEs',
+      },
     ],
   };
 };
 
+/**
+ * Creates the vulnerability page from security advisories
+ */
+const createVulnerabilityPage = (
+  advisoryService: AdvisoryService
+): VulnerabilityPage => {
+  const page: VulnerabilityPage = {};
+  for (const advisory of advisoryService.getAdvisories()) {
+    const entries = (page[advisory.packageId.toLowerCase()] ??= []);
+    entries.push({
+      severity: advisorySeverities.indexOf(advisory.severity),
+      url: advisory.url,
+      versions: advisory.versionRange,
+    });
+  }
+  return page;
+};
+
+/**
+ * Parses version filter options from search query parameters
+ * @remarks Prerelease and SemVer 2.0 versions are hidden unless requested.
+ */
+const parseSearchFilterOptions = (
+  query: Record<string, any>
+): SearchFilterOptions => {
+  const semVerLevel = parseNuGetVersion(
+    (query.semVerLevel as string) || '1.0.0'
+  );
+  return {
+    prerelease: ((query.prerelease as string) || '').toLowerCase() === 'true',
+    semVer2: semVerLevel !== undefined && semVerLevel.major >= 2,
+    packageType: (query.packageType as string) || undefined,
+  };
+};
+
 /**
  * Converts package metadata to search result format
  */
 const createSearchResult = (
   baseUrl: string,
   packageId: string,
-  versions: PackageMetadata[]
+  versions: PackageMetadata[],
+  downloadStats: DownloadStatsService,
+  ownershipService: OwnershipService
 ): SearchResult => {
   if (versions.length === 0) {
     throw new Error('No versions provided for package');
@@ -216,8 +446,8 @@ const createSearchResult = (
   // Create version entries
   const versionEntries: SearchResultVersion[] = versions.map((version) => ({
     version: version.version,
-    downloads: 0, // Not tracked in this implementation
-    '@id': `${baseUrl}/v3/registrations/${packageId.toLowerCase()}/${version.version}.json`,
+    downloads: downloadStats.getVersionDownloads(packageId, version.version),
+    '@id': `${baseUrl}/v3/registrations/${packageId.toLowerCase()}/${toUrlVersion(version.version)}.json`,
   }));
 
   return {
@@ -226,9 +456,9 @@ const createSearchResult = (
     id: packageId,
     version: latestVersion.version,
     description: latestVersion.description || '',
-    summary: latestVersion.description || '',
-    title: latestVersion.id,
-    iconUrl: latestVersion.iconUrl,
+    summary: latestVersion.summary || latestVersion.description || '',
+    title: latestVersion.title || latestVersion.id,
+    iconUrl: getIconUrl(baseUrl, latestVersion),
     licenseUrl: latestVersion.licenseUrl,
     license: latestVersion.licenseExpression,
     projectUrl: latestVersion.projectUrl,
@@ -236,51 +466,246 @@ const createSearchResult = (
     authors: latestVersion.authors
       ? latestVersion.authors.split(',').map((a) => a.trim())
       : [],
+    owners: ownershipService.getOwners(packageId),
     targetFrameworks: latestVersion.targetFrameworks || [],
-    totalDownloads: 0, // Not tracked in this implementation
-    verified: false, // Not implemented
-    packageTypes: [
-      {
-        name: 'Dependency',
-      },
-    ],
+    totalDownloads: downloadStats.getPackageDownloads(packageId),
+    verified: ownershipService.getReservation(packageId) !== undefined, // Package ID is in a reserved prefix
+
+    packageTypes: getPackageTypes(latestVersion).map((packageType) => ({
+      name: packageType.name,
+    })),
     versions: versionEntries,
   };
 };
 
+/**
+ * Converts a nuspec dependency version to a NuGet version range string
+ * @remarks A plain version in nuspec means "this version or higher".
+ */
+const toDependencyRange = (version: string | undefined): string => {
+  const trimmed = version?.trim();
+  if (!trimmed) {
+    return '(, )';
+  }
+  if (/^[[(]/.test(trimmed)) {
+    return trimmed;
+  }
+  return `[${trimmed}, )`;
+};
+
+/**
+ * Creates catalog dependency groups from package dependency groups
+ */
+const createCatalogDependencyGroups = (
+  baseUrl: string,
+  catalogEntryUrl: string,
+  dependencyGroups: DependencyGroup[]
+): CatalogDependencyGroup[] =>
+  dependencyGroups.map((group) => {
+    const groupUrl = `${catalogEntryUrl}#dependencygroup${group.targetFramework ? `/${group.targetFramework.toLowerCase()}` : ''}`;
+    return {
+      '@id': groupUrl,
+      '@type': 'PackageDependencyGroup',
+      targetFramework: group.targetFramework,
+      dependencies:
+        group.dependencies.length > 0
+          ? group.dependencies.map((dependency) => ({
+              '@id': `${groupUrl}/${dependency.id.toLowerCase()}`,
+              '@type': 'PackageDependency',
+              id: dependency.id,
+              range: toDependencyRange(dependency.version),
+              registration: `${baseUrl}/v3/registrations/${dependency.id.toLowerCase()}/index.json`,
+            }))
+          : undefined,
+    };
+  });
+
+/**
+ * Creates catalog entry deprecation from a package deprecation
+ */
+const createCatalogDeprecation = (
+  baseUrl: string,
+  catalogEntryUrl: string,
+  deprecation: PackageDeprecation
+): CatalogDeprecation => ({
+  '@id': `${catalogEntryUrl}#deprecation`,
+  reasons: deprecation.reasons,
+  message: deprecation.message,
+  alternatePackage: deprecation.alternatePackage
+    ? {
+        '@id': `${baseUrl}/v3/registrations/${deprecation.alternatePackage.id.toLowerCase()}/index.json`,
+        id: deprecation.alternatePackage.id,
+        range: deprecation.alternatePackage.range,
+      }
+    : undefined,
+});
+
 /**
  * Creates catalog entry from package metadata
  */
 const createCatalogEntry = (
   baseUrl: string,
-  metadata: PackageMetadata
+  metadata: PackageMetadata,
+  downloadStats: DownloadStatsService
 ): CatalogEntry => {
+  const lowerId = metadata.id.toLowerCase();
+  const urlVersion = toUrlVersion(metadata.version);
+  const catalogEntryUrl = `${baseUrl}/v3/catalog/entries/${lowerId}/${urlVersion}.json`;
   return {
-    '@id': `${baseUrl}/v3/catalog/entries/${metadata.id.toLowerCase()}/${metadata.version}.json`,
+    '@id': catalogEntryUrl,
     '@type': 'PackageDetails',
     authors: metadata.authors || metadata.id,
+    copyright: metadata.copyright,
+    dependencyGroups: createCatalogDependencyGroups(
+      baseUrl,
+      catalogEntryUrl,
+      metadata.dependencies || []
+    ),
+    deprecation: metadata.deprecation
+      ? createCatalogDeprecation(baseUrl, catalogEntryUrl, metadata.deprecation)
+      : undefined,
     description: metadata.description,
-    iconUrl: metadata.iconUrl,
-    icon: metadata.iconUrl,
+    downloads: downloadStats.getVersionDownloads(metadata.id, metadata.version),
+    iconUrl: getIconUrl(baseUrl, metadata),
+    icon: getIconUrl(baseUrl, metadata),
     id: metadata.id,
-    language: undefined, // Not available in PackageMetadata
+    language: metadata.language,
     licenseExpression: metadata.licenseExpression,
     licenseUrl: metadata.licenseUrl,
     listed: metadata.listed,
-    minClientVersion: undefined, // Not available in PackageMetadata
-    packageContent: `${baseUrl}/v3/package/${metadata.id.toLowerCase()}/${metadata.version}/${metadata.id.toLowerCase()}.${metadata.version}.nupkg`,
+    minClientVersion: metadata.minClientVersion,
+    packageContent: `${baseUrl}/v3/package/${lowerId}/${urlVersion}/${lowerId}.${urlVersion}.nupkg`,
+    packageHash: metadata.packageHash,
+    packageHashAlgorithm: metadata.packageHash
+      ? packageHashAlgorithm
+      : undefined,
     projectUrl: metadata.projectUrl,
     published: metadata.published
       ? metadata.published.toISOString()
       : new Date().toISOString(),
-    requireLicenseAcceptance: false, // Not available in PackageMetadata
-    summary: metadata.description, // Use description as summary
+    readme: metadata.readme,
+    releaseNotes: metadata.releaseNotes,
+    repository: metadata.repository,
+    requireLicenseAcceptance: metadata.requireLicenseAcceptance ?? false,
+    summary: metadata.summary || metadata.description,
     tags: metadata.tags || [],
-    title: metadata.id, // Use ID as title
+    title: metadata.title || metadata.id,
     version: metadata.version,
   };
 };
 
+/**
+ * Creates registration leaf (as an item of a registration page) from package metadata
+ */
+const createRegistrationLeaf = (
+  baseUrl: string,
+  metadata: PackageMetadata,
+  downloadStats: DownloadStatsService
+): RegistrationLeaf => {
+  const lowerId = metadata.id.toLowerCase();
+  const urlVersion = toUrlVersion(metadata.version);
+  return {
+    '@id': `${baseUrl}/v3/registrations/${lowerId}/${urlVersion}.json`,
+    '@type': 'Package',
+    catalogEntry: createCatalogEntry(baseUrl, metadata, downloadStats),
+    packageContent: `${baseUrl}/v3/package/${lowerId}/${urlVersion}/${lowerId}.${urlVersion}.nupkg`,
+    registration: `${baseUrl}/v3/registrations/${lowerId}/index.json`,
+  };
+};
+
+/**
+ * Splits versions into registration page chunks
+ * @param versions - Package versions sorted in descending order (newest first)
+ * @returns Chunks of versions in ascending order, each chunk has at most registrationPageSize versions
+ */
+const chunkRegistrationVersions = (
+  versions: PackageMetadata[]
+): PackageMetadata[][] => {
+  const ascending = [...versions].reverse();
+  const chunks: PackageMetadata[][] = [];
+  for (let index = 0; index < ascending.length; index += registrationPageSize) {
+    chunks.push(ascending.slice(index, index + registrationPageSize));
+  }
+  return chunks;
+};
+
+/**
+ * Creates registration page from a chunk of versions
+ * @param baseUrl - Base URL
+ * @param lowerId - Lower-cased package ID
+ * @param chunk - Versions in ascending order
+ * @param kind - `inlined`: embedded into the index with leaves,
+ * `reference`: listed in the index without leaves,
+ * `document`: served from its own URL with leaves
+ * @param downloadStats - Download statistics for the leaves
+ */
+const createRegistrationPage = (
+  baseUrl: string,
+  lowerId: string,
+  chunk: PackageMetadata[],
+  kind: 'inlined' | 'reference' | 'document',
+  downloadStats: DownloadStatsService
+): RegistrationPage => {
+  const lower = normalizeVersion(chunk[0]!.version);
+  const upper = normalizeVersion(chunk[chunk.length - 1]!.version);
+  const registrationUrl = `${baseUrl}/v3/registrations/${lowerId}/index.json`;
+  return {
+    '@id':
+      kind === 'inlined'
+        ? `${registrationUrl}#page/${toUrlVersion(lower)}/${toUrlVersion(upper)}`
+        : `${baseUrl}/v3/registrations/${lowerId}/page/${toUrlVersion(lower)}/${toUrlVersion(upper)}.json`,
+    '@type': 'catalog:CatalogPage',
+    count: chunk.length,
+    items:
+      kind !== 'reference'
+        ? chunk.map((metadata) =>
+            createRegistrationLeaf(baseUrl, metadata, downloadStats)
+          )
+        : undefined,
+    lower,
+    upper,
+    parent: kind === 'document' ? registrationUrl : undefined,
+  };
+};
+
+/**
+ * Creates registration leaf document from package metadata
+ */
+const createRegistrationLeafDocument = (
+  baseUrl: string,
+  metadata: PackageMetadata
+): RegistrationLeafDocument => {
+  const lowerId = metadata.id.toLowerCase();
+  const urlVersion = toUrlVersion(metadata.version);
+  return {
+    '@id': `${baseUrl}/v3/registrations/${lowerId}/${urlVersion}.json`,
+    '@type': ['Package', 'http://schema.nuget.org/catalog#Permalink'],
+    catalogEntry: `${baseUrl}/v3/catalog/entries/${lowerId}/${urlVersion}.json`,
+    listed: metadata.listed,
+    packageContent: `${baseUrl}/v3/package/${lowerId}/${urlVersion}/${lowerId}.${urlVersion}.nupkg`,
+    packageHash: metadata.packageHash,
+    packageHashAlgorithm: metadata.packageHash
+      ? packageHashAlgorithm
+      : undefined,
+    published: metadata.published
+      ? metadata.published.toISOString()
+      : new Date().toISOString(),
+    registration: `${baseUrl}/v3/registrations/${lowerId}/index.json`,
+  };
+};
+
+/**
+ * Extracts the version from a `{version}.json` document name
+ * @returns Version string, or undefined if the name is not a JSON document
+ */
+const getVersionFromDocumentName = (name: string): string | undefined => {
+  const lowerName = name.toLowerCase();
+  if (!lowerName.endsWith('.json') || lowerName.length <= '.json'.length) {
+    return undefined;
+  }
+  return name.substring(0, name.length - '.json'.length);
+};
+
 /**
  * Registers NuGet V3 API routes with Fastify instance
  */
@@ -291,6 +716,9 @@ export const registerV3Routes = async (
 ) => {
   const {
     metadataService,
+    downloadStatsService,
+    advisoryService,
+    ownershipService,
     authService,
     authConfig,
     packagesRoot,
@@ -382,58 +810,34 @@ export const registerV3Routes = async (
         );
 
         // Parse query parameters
-        const q = ((query.q as string) || '').toLowerCase();
+        const terms = parseSearchQuery((query.q as string) || '');
         const skip = parseInt((query.skip as string) || '0', 10);
         const take = parseInt((query.take as string) || '20', 10);
-        // const _prerelease = query.prerelease !== "false"; // Default to true
-        // const _semVerLevel = query.semVerLevel || "2.0.0";
-
-        // Get all package IDs
-        const packageIds = metadataService.getAllPackageIds();
-
-        // Filter and convert to search results
-        const allSearchResults: SearchResult[] = [];
-
-        for (const packageId of packageIds) {
-          const versions = metadataService.getPackageMetadata(packageId);
-          if (versions.length > 0) {
-            // Use actual package ID from metadata (not lowercase cache key)
-            const actualPackageId = versions[0]!.id;
-
-            // Filter by search query if provided
-            if (q && !actualPackageId.toLowerCase().includes(q)) {
-              // Also check description
-              const hasMatchingDescription = versions.some(
-                (v) => v.description && v.description.toLowerCase().includes(q)
-              );
-              if (!hasMatchingDescription) {
-                continue;
-              }
-            }
-
-            const searchResult = createSearchResult(
-              baseUrl,
-              actualPackageId,
-              versions
-            );
-            allSearchResults.push(searchResult);
-          }
-        }
+        const filterOptions = parseSearchFilterOptions(query);
 
-        // Sort search results alphabetically for consistent display
-        allSearchResults.sort((a, b) =>
-          a.id.localeCompare(b.id, undefined, { sensitivity: 'base' })
+        // Answer the query and pagination from the search index
+        const { totalHits, hits } = metadataService.searchPackages({
+          terms,
+          filter: filterOptions,
+          skip,
+          take,
+        });
+        const searchResults = hits.map((hit) =>
+          createSearchResult(
+            baseUrl,
+            hit.packageId,
+            hit.versions,
+            downloadStatsService,
+            ownershipService
+          )
         );
 
-        // Apply pagination
-        const searchResults = allSearchResults.slice(skip, skip + take);
-
         const response: SearchResponse = {
           '@context': {
             '@vocab': 'http://schema.nuget.org/schema#',
             '@base': `${baseUrl}/v3/`,
           },
-          totalHits: allSearchResults.length, // Total count before pagination
+          totalHits, // Total count before pagination
           lastReopen: new Date().toISOString(),
           index: 'v3-lucene0',
           data: searchResults, // Paginated results
@@ -447,6 +851,61 @@ export const registerV3Routes = async (
     }
   );
 
+  // V3 Package Autocomplete - GET /v3/autocomplete
+  // Completes package IDs with `q`, or lists versions of a package with `id`
+  fastify.get(
+    '/v3/autocomplete',
+    {
+      preHandler: authPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const query = request.query as Record<string, any>;
+        logger.debug(
+          `V3 autocomplete request - Query params: ${JSON.stringify(query)}`
+        );
+
+        const filterOptions = parseSearchFilterOptions(query);
+        const context = { '@vocab': 'http://schema.nuget.org/schema#' };
+
+        const packageId = query.id as string | undefined;
+        if (packageId) {
+          // Version listing mode: all visible versions in ascending order
+          const versions = metadataService
+            .getVisiblePackageVersions(packageId, filterOptions)
+            .map((v) => normalizeVersion(v.version))
+            .reverse();
+          const response: AutocompleteResponse = {
+            '@context': context,
+            totalHits: versions.length,
+            data: versions,
+          };
+          return reply.send(response);
+        }
+
+        // Package ID completion mode
+        const skip = parseInt((query.skip as string) || '0', 10);
+        const take = parseInt((query.take as string) || '20', 10);
+        const { totalHits, packageIds } =
+          metadataService.autocompletePackageIds({
+            prefix: (query.q as string) || '',
+            filter: filterOptions,
+            skip,
+            take,
+          });
+        const response: AutocompleteResponse = {
+          '@context': context,
+          totalHits,
+          data: packageIds,
+        };
+        return reply.send(response);
+      } catch (error) {
+        logger.error(`Error in V3 autocomplete endpoint: ${error}`);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
   // V3 PackageBaseAddress Index - GET /v3/package/{id}/index.json
   // Returns list of versions for a package
   fastify.get(
@@ -484,7 +943,7 @@ export const registerV3Routes = async (
 
         // Return PackageBaseAddress index format with list of versions
         const response = {
-          versions: versions.map((v) => v.version),
+          versions: versions.map((v) => toUrlVersion(v.version)),
         };
 
         logger.debug(
@@ -501,6 +960,9 @@ export const registerV3Routes = async (
   );
 
   // V3 Package Download - GET /v3/package/{id}/{version}/{filename}
+  // (HEAD is answered by the route Fastify exposes for GET routes)
+  // Also serves the README at GET /v3/package/{id}/{version}/readme (ReadmeUriTemplate)
+  // and the icon at GET /v3/package/{id}/{version}/icon
   fastify.get(
     '/v3/package/:id/:version/:filename',
     {
@@ -524,14 +986,16 @@ export const registerV3Routes = async (
 
           // Find the actual package entry from MetadataService
           let actualDirName = lowerId;
+          let actualVersion = lowerVersion;
           const entry = metadataService.getPackageEntry(lowerId, lowerVersion);
           if (entry) {
             actualDirName = entry.storage.dirName; // Use the actual directory name
+            actualVersion = entry.metadata.version; // Requested version may be normalized
           }
 
           const packagePath = await packageService.getPackageFilePath(
             actualDirName,
-            lowerVersion
+            actualVersion
           );
 
           if (!packagePath) {
@@ -546,6 +1010,27 @@ export const registerV3Routes = async (
             `V3: Package served successfully: ${packageId} ${version} as "${downloadFileName}"`
           );
 
+          // Lets clients verify the downloaded content
+          if (entry?.metadata.packageHash) {
+            reply.header(
+              'Repr-Digest',
+              formatReprDigest(entry.metadata.packageHash)
+            );
+          }
+
+          // Count the download once the whole package is sent
+          // (HEAD requests and partial responses are not counted)
+          if (entry && request.method === 'GET') {
+            reply.raw.once('finish', () => {
+              if (reply.statusCode === 200) {
+                downloadStatsService.recordDownload(
+                  entry.metadata.id,
+                  entry.metadata.version
+                );
+              }
+            });
+          }
+
           await streamFile(
             logger,
             locker,
@@ -554,6 +1039,63 @@ export const registerV3Routes = async (
             {
               contentType: 'application/zip',
               contentDisposition: `attachment; filename="${downloadFileName}"`,
+              // The stored hash identifies the package content across overwrites
+              etag: entry?.metadata.packageHash,
+            },
+            request.abortSignal
+          );
+          return;
+        } else if (lowerFilename === iconDocumentName) {
+          // Package ID and version are looked up case-insensitively
+          const entry = metadataService.getPackageEntry(lowerId, lowerVersion);
+          const icon = entry
+            ? await findPackageIcon(
+                join(
+                  packagesRoot,
+                  entry.storage.dirName,
+                  entry.metadata.version
+                )
+              )
+            : undefined;
+          if (!icon) {
+            logger.debug(`V3: Icon not found: ${packageId} ${version}`);
+            return reply.status(404).send({ error: 'Icon not found' });
+          }
+
+          logger.debug(`V3: Serving icon: ${packageId} ${version}`);
+          await streamFile(
+            logger,
+            locker,
+            icon.path,
+            reply,
+            {
+              contentType: icon.contentType,
+              cacheControl: 'public, max-age=3600',
+            },
+            request.abortSignal
+          );
+          return;
+        } else if (lowerFilename === readmeDocumentName) {
+          const entry = metadataService.getPackageEntry(lowerId, lowerVersion);
+          if (!entry) {
+            logger.info(`V3: Package not found: ${packageId} ${version}`);
+            return reply.status(404).send({ error: 'Package not found' });
+          }
+
+          const readmePath = join(
+            packagesRoot,
+            entry.storage.dirName,
+            entry.metadata.version,
+            readmeFileName
+          );
+          logger.debug(`V3: Serving README: ${packageId} ${version}`);
+          await streamFile(
+            logger,
+            locker,
+            readmePath,
+            reply,
+            {
+              contentType: 'text/markdown; charset=utf-8',
             },
             request.abortSignal
           );
@@ -594,28 +1136,21 @@ export const registerV3Routes = async (
           return reply.status(404).send({ error: 'Package not found' });
         }
 
-        // Create registration leaves for each version
-        const registrationLeaves: RegistrationLeaf[] = versions.map(
-          (metadata) => ({
-            '@id': `${baseUrl}/v3/registrations/${lowerId}/${metadata.version}.json`,
-            '@type': 'Package',
-            catalogEntry: createCatalogEntry(baseUrl, metadata),
-            packageContent: `${baseUrl}/v3/package/${lowerId}/${metadata.version}/${lowerId}.${metadata.version}.nupkg`,
-            registration: `${baseUrl}/v3/registrations/${lowerId}/index.json`,
-          })
+        // Split versions into pages, small packages are inlined into the index
+        const kind =
+          versions.length <= registrationInlineThreshold
+            ? 'inlined'
+            : 'reference';
+        const pages = chunkRegistrationVersions(versions).map((chunk) =>
+          createRegistrationPage(
+            baseUrl,
+            lowerId,
+            chunk,
+            kind,
+            downloadStatsService
+          )
         );
 
-        // Create a single page containing all versions
-        // Since versions are sorted in descending order: first = newest (upper), last = oldest (lower)
-        const page: RegistrationPage = {
-          '@id': `${baseUrl}/v3/registrations/${lowerId}/index.json#page/${versions[versions.length - 1]!.version}/${versions[0]!.version}`,
-          '@type': 'catalog:CatalogPage',
-          count: versions.length,
-          items: registrationLeaves,
-          lower: versions[versions.length - 1]!.version, // oldest version
-          upper: versions[0]!.version, // newest version
-        };
-
         const registrationIndex: RegistrationIndex = {
           '@id': `${baseUrl}/v3/registrations/${lowerId}/index.json`,
           '@type': [
@@ -624,8 +1159,8 @@ export const registerV3Routes = async (
             'catalog:Permalink',
           ],
           commitTimeStamp: new Date().toISOString(),
-          count: 1,
-          items: [page],
+          count: pages.length,
+          items: pages,
         };
 
         logger.info(
@@ -641,5 +1176,167 @@ export const registerV3Routes = async (
     }
   );
 
+  // V3 Registration Page - GET /v3/registrations/{id}/page/{lower}/{upper}.json
+  fastify.get(
+    '/v3/registrations/:id/page/:lower/:upper',
+    {
+      preHandler: authPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const {
+        id: packageId,
+        lower,
+        upper: upperDocument,
+      } = request.params as { id: string; lower: string; upper: string };
+      const lowerId = packageId.toLowerCase();
+
+      try {
+        const upper = getVersionFromDocumentName(upperDocument);
+        const chunk = upper
+          ? chunkRegistrationVersions(
+              metadataService.getPackageMetadata(lowerId)
+            ).find(
+              (c) =>
+                isSameVersion(c[0]!.version, lower) &&
+                isSameVersion(c[c.length - 1]!.version, upper)
+            )
+          : undefined;
+        if (!chunk) {
+          logger.info(
+            `V3: Registration page not found: ${packageId} ${lower}/${upperDocument}`
+          );
+          return reply.status(404).send({ error: 'Page not found' });
+        }
+
+        const baseUrl = getBaseUrl(request);
+        return reply.send(
+          createRegistrationPage(
+            baseUrl,
+            lowerId,
+            chunk,
+            'document',
+            downloadStatsService
+          )
+        );
+      } catch (error) {
+        logger.error(
+          `V3: Error in registration page endpoint for ${packageId}: ${error}`
+        );
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // V3 Registration Leaf - GET /v3/registrations/{id}/{version}.json
+  // The static index.json route above takes precedence over this parametric route
+  fastify.get(
+    '/v3/registrations/:id/:leaf',
+    {
+      preHandler: authPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id: packageId, leaf } = request.params as {
+        id: string;
+        leaf: string;
+      };
+
+      try {
+        const version = getVersionFromDocumentName(leaf);
+        const metadata = version
+          ? metadataService.getPackageVersion(packageId, version)
+          : undefined;
+        if (!metadata) {
+          logger.info(`V3: Registration leaf not found: ${packageId} ${leaf}`);
+          return reply.status(404).send({ error: 'Package not found' });
+        }
+
+        const baseUrl = getBaseUrl(request);
+        return reply.send(createRegistrationLeafDocument(baseUrl, metadata));
+      } catch (error) {
+        logger.error(
+          `V3: Error in registration leaf endpoint for ${packageId} ${leaf}: ${error}`
+        );
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // V3 Catalog Entry - GET /v3/catalog/entries/{id}/{version}.json
+  fastify.get(
+    '/v3/catalog/entries/:id/:entry',
+    {
+      preHandler: authPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id: packageId, entry } = request.params as {
+        id: string;
+        entry: string;
+      };
+
+      try {
+        const version = getVersionFromDocumentName(entry);
+        const metadata = version
+          ? metadataService.getPackageVersion(packageId, version)
+          : undefined;
+        if (!metadata) {
+          logger.info(`V3: Catalog entry not found: ${packageId} ${entry}`);
+          return reply.status(404).send({ error: 'Package not found' });
+        }
+
+        const baseUrl = getBaseUrl(request);
+        return reply.send(
+          createCatalogEntry(baseUrl, metadata, downloadStatsService)
+        );
+      } catch (error) {
+        logger.error(
+          `V3: Error in catalog entry endpoint for ${packageId} ${entry}: ${error}`
+        );
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // V3 Vulnerability Index - GET /v3/vulnerabilities/index.json
+  // All advisories are served as a single base page; clients re-download it when `@updated` changes.
+  fastify.get(
+    '/v3/vulnerabilities/index.json',
+    {
+      preHandler: authPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const baseUrl = getBaseUrl(request);
+        const index: VulnerabilityIndexPage[] = [
+          {
+            '@name': 'base',
+            '@id': `${baseUrl}/v3/vulnerabilities/base.json`,
+            '@updated': advisoryService.getUpdated(),
+            comment: 'Security advisories maintained by the administrators',
+          },
+        ];
+        return reply.send(index);
+      } catch (error) {
+        logger.error(`V3: Error in vulnerability index endpoint: ${error}`);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // V3 Vulnerability Page - GET /v3/vulnerabilities/base.json
+  fastify.get(
+    '/v3/vulnerabilities/base.json',
+    {
+      preHandler: authPreHandler,
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        return reply.send(createVulnerabilityPage(advisoryService));
+      } catch (error) {
+        logger.error(`V3: Error in vulnerability page endpoint: ${error}`);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
   logger.info('NuGet V3 API routes registered successfully');
 };
@@ -23,6 +23,9 @@ import { createMetadataService } from './services/metadataService';
 import { createAuthService } from './services/authService';
 import { createUserService } from './services/userService';
 import { createSessionService } from './services/sessionService';
+import { createDownloadStatsService } from './services/downloadStatsService';
+import { createAdvisoryService } from './services/advisoryService';
+import { createOwnershipService } from './services/ownershipService';
 import { createAuthFailureTrackerFromEnv } from './services/authFailureTracker';
 import { Logger, LogLevel, ServerConfig } from './types';
 import { createUrlResolver } from './utils/urlResolver';
@@ -32,7 +35,9 @@ import {
   FastifyAuthConfig,
 } from './middleware/fastifyAuth';
 import { registerV3Routes } from './routes/v3/index';
+import { registerSymbolRoutes } from './routes/symbols/index';
 import { registerUiRoutes } from './routes/api/ui/index';
+import { registerODataRoutes } from './routes/api/odata/index';
 import {
   registerPublishRoutes,
   type PublishRoutesConfig,
@@ -207,14 +212,45 @@ export const createFastifyInstance = async (
   });
 
   // Add content type parser for binary data (package uploads)
+  // The body is passed through as a stream, and the publish routes write it to a temporary file
   fastify.addContentTypeParser(
     'application/octet-stream',
-    { parseAs: 'buffer' },
-    (_req, body, done) => {
-      done(null, body);
+    (_req, payload, done) => {
+      done(null, payload);
     }
   );
 
+  // Add content type parser for multipart data (`dotnet nuget push` uploads)
+  fastify.addContentTypeParser('multipart/form-data', (_req, payload, done) => {
+    done(null, payload);
+  });
+
+  // Initialize download statistics service
+  const downloadStatsService = createDownloadStatsService({
+    configDir: config.configDir || './',
+    logger,
+  });
+
+  try {
+    await downloadStatsService.initialize();
+  } catch (error) {
+    logger.error(`Failed to initialize download statistics service: ${error}`);
+    throw error;
+  }
+
+  // Initialize advisory service
+  const advisoryService = createAdvisoryService({
+    configDir: config.configDir || './',
+    logger,
+  });
+
+  try {
+    await advisoryService.initialize();
+  } catch (error) {
+    logger.error(`Failed to initialize advisory service: ${error}`);
+    throw error;
+  }
+
   // Initialize metadata service
   const packagesRoot = config.packageDir || process.cwd() + '/packages';
   const initialBaseUrl = config.baseUrl || `http://localhost:${config.port}`;
@@ -222,7 +258,8 @@ export const createFastifyInstance = async (
   const metadataService = createMetadataService(
     packagesRoot,
     initialBaseUrl,
-    logger
+    logger,
+    downloadStatsService.getPackageDownloads
   );
 
   try {
@@ -253,6 +290,20 @@ export const createFastifyInstance = async (
     throw error;
   }
 
+  // Initialize ownership service (package owners are stored with the users data)
+  const ownershipService = createOwnershipService({
+    configDir: config.configDir || './',
+    usersFile: config.usersFile,
+    logger,
+  });
+
+  try {
+    await ownershipService.initialize();
+  } catch (error) {
+    logger.error(`Failed to initialize ownership service: ${error}`);
+    throw error;
+  }
+
   // Initialize session service
   const sessionService = createSessionService({
     logger,
@@ -544,6 +595,9 @@ export const createFastifyInstance = async (
       fastify,
       {
         metadataService,
+        downloadStatsService,
+        advisoryService,
+        ownershipService,
         authService,
         authConfig,
         packagesRoot,
@@ -558,6 +612,25 @@ export const createFastifyInstance = async (
     throw error;
   }
 
+  // Register symbol server routes
+  try {
+    await registerSymbolRoutes(
+      fastify,
+      {
+        metadataService,
+        authService,
+        authConfig,
+        packagesRoot,
+        maxUploadSizeMb,
+        logger,
+      },
+      locker
+    );
+  } catch (error) {
+    logger.error(`Failed to register symbol server routes: ${error}`);
+    throw error;
+  }
+
   // Register UI Backend API routes
   try {
     await fastify.register(
@@ -573,6 +646,9 @@ export const createFastifyInstance = async (
             realm: config.realm || `${packageName} ${version}`,
             serverUrl,
             metadataService,
+            downloadStatsService,
+            advisoryService,
+            ownershipService,
           },
           locker
         );
@@ -596,6 +672,10 @@ export const createFastifyInstance = async (
           logger,
           urlResolver,
           duplicatePackagePolicy: config.duplicatePackagePolicy,
+          deletePackagePolicy: config.deletePackagePolicy,
+          maxUploadSizeMb,
+          publishValidation: config.publishValidation,
+          ownershipService,
         };
         const publishRoutes = await registerPublishRoutes(
           fastify,
@@ -615,6 +695,26 @@ export const createFastifyInstance = async (
     throw error;
   }
 
+  // Register V2 OData feed routes
+  try {
+    await fastify.register(
+      async (fastify) => {
+        await registerODataRoutes(fastify, {
+          metadataService,
+          downloadStatsService,
+          authService,
+          authConfig,
+          logger,
+          urlResolver,
+        });
+      },
+      { prefix: '/api' }
+    );
+  } catch (error) {
+    logger.error(`Failed to register V2 OData feed routes: ${error}`);
+    throw error;
+  }
+
   // Serve UI files with custom handler
   const uiPath = resolveEnvironmentPath(['ui'], ['ui']);
   const publicPath = resolveEnvironmentPath(['ui', 'public'], ['ui']);
@@ -683,6 +783,7 @@ export const createFastifyInstance = async (
   // Store services on fastify instance for cleanup
   fastify.decorate('userService', userService);
   fastify.decorate('sessionService', sessionService);
+  fastify.decorate('downloadStatsService', downloadStatsService);
   fastify.decorate('authService', authService);
   fastify.decorate('serverConfig', config);
   fastify.decorate('serverUrl', serverUrl);
@@ -706,6 +807,7 @@ export const startFastifyServer = async (
   // Get decorated services
   const userService = (fastify as any).userService;
   const sessionService = (fastify as any).sessionService;
+  const downloadStatsService = (fastify as any).downloadStatsService;
   const authService = (fastify as any).authService;
   const serverUrlInfo = (fastify as any).serverUrl;
 
@@ -765,7 +867,7 @@ export const startFastifyServer = async (
         } finally {
           try {
             logger.debug('Destroying user service...');
-            userService.destroy();
+            await userService.destroy();
             logger.debug('User service destroyed');
           } finally {
             try {
@@ -773,7 +875,13 @@ export const startFastifyServer = async (
               await sessionService.destroy();
               logger.debug('Session service destroyed');
             } finally {
-              logger.debug('Server close process completed');
+              try {
+                logger.debug('Destroying download statistics service...');
+                await downloadStatsService.destroy();
+                logger.debug('Download statistics service destroyed');
+              } finally {
+                logger.debug('Server close process completed');
+              }
             }
           }
         }
@@ -0,0 +1,306 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { createReaderWriterLock } from 'async-primitives';
+import { Logger } from '../types';
+import { parseVersionRange } from '../utils/semver';
+
+/**
+ * Advisory severities, ordered by the NuGet severity number (0: low to 3: critical)
+ */
+export type AdvisorySeverity = 'low' | 'moderate' | 'high' | 'critical';
+
+/**
+ * All advisory severities in the NuGet severity order
+ */
+export const advisorySeverities: readonly AdvisorySeverity[] = [
+  'low',
+  'moderate',
+  'high',
+  'critical',
+];
+
+/**
+ * Editable fields of a security advisory
+ */
+export interface AdvisoryInput {
+  packageId: string;
+  versionRange: string; // NuGet version range of the affected versions
+  severity: AdvisorySeverity;
+  url: string; // Advisory URL shown by NuGet clients
+}
+
+/**
+ * Security advisory of a package
+ */
+export interface Advisory extends AdvisoryInput {
+  id: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+/**
+ * Result of an advisory validation
+ */
+export type AdvisoryValidation =
+  | { valid: true; input: AdvisoryInput }
+  | { valid: false; error: string };
+
+/**
+ * Content of the advisories file
+ */
+interface AdvisoriesFile {
+  updated: string; // ISO 8601, changes whenever advisories are edited
+  advisories: Advisory[];
+}
+
+/**
+ * Advisory service configuration
+ */
+export interface AdvisoryServiceConfig {
+  configDir: string;
+  logger: Logger;
+}
+
+/**
+ * Advisory service interface
+ */
+export interface AdvisoryService {
+  readonly initialize: () => Promise<void>;
+  readonly getAdvisories: () => Advisory[];
+  readonly getUpdated: () => string;
+  readonly addAdvisory: (input: AdvisoryInput) => Promise<Advisory>;
+  readonly updateAdvisory: (
+    id: string,
+    input: AdvisoryInput
+  ) => Promise<Advisory | undefined>;
+  readonly deleteAdvisory: (id: string) => Promise<boolean>;
+}
+
+/**
+ * Name of the advisories file in the configuration directory
+ */
+export const advisoriesFileName = 'advisories.json';
+
+/**
+ * Validates advisory fields received from a client and normalizes them
+ * @param value - Advisory fields
+ * @returns Normalized fields, or the reason why they are invalid
+ */
+export const validateAdvisoryInput = (value: unknown): AdvisoryValidation => {
+  if (typeof value !== 'object' || value === null) {
+    return { valid: false, error: 'Advisory must be an object' };
+  }
+  const { packageId, versionRange, severity, url } = value as Record<
+    string,
+    unknown
+  >;
+
+  if (
+    typeof packageId !== 'string' ||
+    !/^[A-Za-z0-9_.-]+$/.test(packageId.trim())
+  ) {
+    return { valid: false, error: 'Package ID is invalid' };
+  }
+  if (
+    typeof versionRange !== 'string' ||
+    !parseVersionRange(versionRange.trim())
+  ) {
+    return { valid: false, error: `Version range is invalid: ${versionRange}` };
+  }
+  const knownSeverity = advisorySeverities.find(
+    (s) => typeof severity === 'string' && s === severity.toLowerCase()
+  );
+  if (!knownSeverity) {
+    return { valid: false, error: `Unknown severity: ${severity}` };
+  }
+  if (typeof url !== 'string' || !/^https?:\/\/\S+$/i.test(url.trim())) {
+    return { valid: false, error: 'Advisory URL must be an HTTP(S) URL' };
+  }
+
+  return {
+    valid: true,
+    input: {
+      packageId: packageId.trim(),
+      versionRange: versionRange.replace(/\s+/g, ''),
+      severity: knownSeverity,
+      url: url.trim(),
+    },
+  };
+};
+
+/**
+ * Creates an advisory service persisting security advisories to advisories.json
+ * @param config - Advisory service configuration
+ * @returns Advisory service instance
+ */
+export const createAdvisoryService = (
+  config: AdvisoryServiceConfig
+): AdvisoryService => {
+  const { configDir, logger } = config;
+  const advisoriesFilePath = join(configDir, advisoriesFileName);
+  let advisories: Advisory[] = [];
+  let updated = new Date().toISOString();
+  const fileLock = createReaderWriterLock();
+
+  /**
+   * Writes advisories to the file (called from within lock)
+   */
+  const saveAdvisoriesInternal = async (
+    nextAdvisories: Advisory[]
+  ): Promise<void> => {
+    const content: AdvisoriesFile = {
+      updated: new Date().toISOString(),
+      advisories: nextAdvisories,
+    };
+    try {
+      await writeFile(
+        advisoriesFilePath,
+        JSON.stringify(content, null, 2),
+        'utf-8'
+      );
+    } catch (error: any) {
+      logger.error(`Failed to save ${advisoriesFilePath}: ${error.message}`);
+      throw error;
+    }
+    // Applied only after persisted, so a failed write does not change the served advisories
+    advisories = nextAdvisories;
+    updated = content.updated;
+  };
+
+  return {
+    /**
+     * Initializes the service with the advisories file
+     */
+    initialize: async (): Promise<void> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const content = await readFile(advisoriesFilePath, 'utf-8');
+        const file = JSON.parse(content) as AdvisoriesFile;
+        advisories = file.advisories || [];
+        updated = file.updated || updated;
+        logger.info(
+          `Loaded ${advisories.length} advisories from ${advisoriesFilePath}`
+        );
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          logger.info(
+            `${advisoriesFilePath} not found - starting without advisories`
+          );
+        } else {
+          logger.error(
+            `Failed to load ${advisoriesFilePath}: ${error.message}`
+          );
+          throw error;
+        }
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Gets all advisories
+     * @returns Advisories ordered by package ID and creation time
+     */
+    getAdvisories: (): Advisory[] =>
+      [...advisories].sort(
+        (a, b) =>
+          a.packageId.localeCompare(b.packageId, undefined, {
+            sensitivity: 'base',
+          }) || a.createdAt.localeCompare(b.createdAt)
+      ),
+
+    /**
+     * Gets the time when advisories were last edited
+     * @returns ISO 8601 time
+     */
+    getUpdated: (): string => updated,
+
+    /**
+     * Adds an advisory
+     * @param input - Validated advisory fields
+     * @returns Added advisory
+     */
+    addAdvisory: async (input: AdvisoryInput): Promise<Advisory> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const now = new Date().toISOString();
+        const advisory: Advisory = {
+          ...input,
+          id: randomUUID(),
+          createdAt: now,
+          updatedAt: now,
+        };
+        await saveAdvisoriesInternal([...advisories, advisory]);
+
+        logger.info(
+          `Advisory added: ${advisory.packageId} ${advisory.versionRange} (${advisory.severity})`
+        );
+        return advisory;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Updates an advisory
+     * @param id - Advisory identifier
+     * @param input - Validated advisory fields
+     * @returns Updated advisory, or undefined if not found
+     */
+    updateAdvisory: async (
+      id: string,
+      input: AdvisoryInput
+    ): Promise<Advisory | undefined> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const existing = advisories.find((a) => a.id === id);
+        if (!existing) {
+          return undefined;
+        }
+        const advisory: Advisory = {
+          ...existing,
+          ...input,
+          updatedAt: new Date().toISOString(),
+        };
+        await saveAdvisoriesInternal(
+          advisories.map((a) => (a.id === id ? advisory : a))
+        );
+
+        logger.info(
+          `Advisory updated: ${advisory.packageId} ${advisory.versionRange} (${advisory.severity})`
+        );
+        return advisory;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Deletes an advisory
+     * @param id - Advisory identifier
+     * @returns True if the advisory was found, false otherwise
+     */
+    deleteAdvisory: async (id: string): Promise<boolean> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const existing = advisories.find((a) => a.id === id);
+        if (!existing) {
+          return false;
+        }
+        await saveAdvisoriesInternal(advisories.filter((a) => a.id !== id));
+
+        logger.info(
+          `Advisory deleted: ${existing.packageId} ${existing.versionRange}`
+        );
+        return true;
+      } finally {
+        handle.release();
+      }
+    },
+  };
+};
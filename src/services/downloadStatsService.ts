@@ -0,0 +1,385 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { readFile, writeFile, rename } from 'fs/promises';
+import { join } from 'path';
+import { createReaderWriterLock } from 'async-primitives';
+import { Logger } from '../types';
+import { normalizeVersion } from '../utils/semver';
+
+/**
+ * Download counts of a package version
+ */
+interface VersionDownloads {
+  total: number;
+  days: Record<string, number>; // UTC date (YYYY-MM-DD) to download count
+}
+
+/**
+ * Download counts of a package
+ */
+interface PackageDownloads {
+  id: string; // Actual package ID of the latest download
+  versions: Record<string, VersionDownloads>; // Lower-cased normalized version to counts
+}
+
+/**
+ * Content of the download statistics file
+ */
+interface DownloadStatsFile {
+  packages: Record<string, PackageDownloads>; // Lower-cased package ID to counts
+}
+
+/**
+ * Download statistics service configuration
+ */
+export interface DownloadStatsServiceConfig {
+  configDir: string;
+  logger: Logger;
+  flushIntervalSeconds?: number; // Default: 10 seconds
+}
+
+/**
+ * Download statistics query
+ */
+export interface DownloadStatisticsQuery {
+  days: number; // Number of days of the period, including today
+  top: number; // Maximum number of top packages
+  packageId?: string; // Limits the daily trend and versions to a package
+}
+
+/**
+ * Downloads of a package in the statistics
+ */
+export interface PackageDownloadStatistics {
+  id: string;
+  totalDownloads: number; // All-time downloads
+  periodDownloads: number; // Downloads in the period
+}
+
+/**
+ * Downloads of a package version in the statistics
+ */
+export interface VersionDownloadStatistics {
+  version: string; // Normalized version
+  totalDownloads: number;
+  periodDownloads: number;
+}
+
+/**
+ * Downloads of a day in the statistics
+ */
+export interface DailyDownloads {
+  date: string; // UTC date (YYYY-MM-DD)
+  downloads: number;
+}
+
+/**
+ * Download statistics of a period
+ */
+export interface DownloadStatistics {
+  from: string; // UTC date (YYYY-MM-DD), inclusive
+  to: string; // UTC date (YYYY-MM-DD), inclusive
+  totalDownloads: number; // All-time downloads of all packages
+  periodDownloads: number; // Downloads of all packages in the period
+  topPackages: PackageDownloadStatistics[]; // Ordered by downloads in the period
+  daily: DailyDownloads[]; // Every day of the period, oldest first
+  versions?: VersionDownloadStatistics[]; // Versions of `packageId`, ordered by downloads in the period
+}
+
+/**
+ * Download statistics service interface
+ */
+export interface DownloadStatsService {
+  readonly initialize: () => Promise<void>;
+  readonly destroy: () => Promise<void>;
+  readonly recordDownload: (packageId: string, version: string) => void;
+  readonly getPackageDownloads: (packageId: string) => number;
+  readonly getVersionDownloads: (packageId: string, version: string) => number;
+  readonly getStatistics: (
+    query: DownloadStatisticsQuery
+  ) => DownloadStatistics;
+  readonly flush: () => Promise<void>;
+}
+
+/**
+ * Name of the download statistics file in the configuration directory
+ */
+export const downloadStatsFileName = 'downloads.json';
+
+/**
+ * Formats a date as an UTC date key (YYYY-MM-DD)
+ */
+const toDateKey = (date: Date): string => date.toISOString().substring(0, 10);
+
+/**
+ * Creates a download statistics service persisting counts to downloads.json
+ * @param config - Download statistics service configuration
+ * @returns Download statistics service instance
+ * @remarks Downloads are counted in memory and written in batches, so frequent downloads do not rewrite the file each time.
+ */
+export const createDownloadStatsService = (
+  config: DownloadStatsServiceConfig
+): DownloadStatsService => {
+  const { configDir, logger, flushIntervalSeconds = 10 } = config;
+  const statsFilePath = join(configDir, downloadStatsFileName);
+  const packages = new Map<string, PackageDownloads>();
+  const packageTotals = new Map<string, number>(); // Lower-cased package ID to all-time downloads
+  const fileLock = createReaderWriterLock();
+  let flushTimer: NodeJS.Timeout | undefined = undefined;
+  let dirty = false;
+
+  /**
+   * Writes counts to the file when changed since the last write
+   */
+  const flushInternal = async (): Promise<void> => {
+    const handle = await fileLock.writeLock();
+    try {
+      if (!dirty) {
+        return;
+      }
+      dirty = false;
+      const content: DownloadStatsFile = {
+        packages: Object.fromEntries(packages),
+      };
+      try {
+        // Replace the file at once, a crash while writing must not lose all counts
+        const temporaryPath = `${statsFilePath}.tmp`;
+        await writeFile(temporaryPath, JSON.stringify(content), 'utf-8');
+        await rename(temporaryPath, statsFilePath);
+        logger.debug(`Saved download statistics to ${statsFilePath}`);
+      } catch (error: any) {
+        dirty = true; // Retry with the next flush
+        logger.error(`Failed to save ${statsFilePath}: ${error.message}`);
+      }
+    } finally {
+      handle.release();
+    }
+  };
+
+  /**
+   * Schedules a batched write of the counts
+   */
+  const scheduleFlush = (): void => {
+    if (flushTimer) {
+      return;
+    }
+    flushTimer = setTimeout(() => {
+      flushTimer = undefined;
+      void flushInternal();
+    }, flushIntervalSeconds * 1000);
+    // Pending counts must not keep the process alive, they are written by destroy()
+    flushTimer.unref();
+  };
+
+  /**
+   * Sums all-time downloads of a package
+   */
+  const sumPackageDownloads = (packageDownloads: PackageDownloads): number =>
+    Object.values(packageDownloads.versions).reduce(
+      (sum, versionDownloads) => sum + versionDownloads.total,
+      0
+    );
+
+  /**
+   * Sums downloads of a package version in the period
+   */
+  const sumPeriodDownloads = (
+    versionDownloads: VersionDownloads,
+    dates: Set<string>
+  ): number =>
+    Object.entries(versionDownloads.days).reduce(
+      (sum, [date, count]) => (dates.has(date) ? sum + count : sum),
+      0
+    );
+
+  return {
+    /**
+     * Initializes the service with the download statistics file
+     */
+    initialize: async (): Promise<void> => {
+      const handle = await fileLock.writeLock();
+      try {
+        packages.clear();
+        packageTotals.clear();
+        try {
+          const content = await readFile(statsFilePath, 'utf-8');
+          const stats = JSON.parse(content) as DownloadStatsFile;
+          for (const [lowerId, packageDownloads] of Object.entries(
+            stats.packages || {}
+          )) {
+            packages.set(lowerId, packageDownloads);
+            packageTotals.set(lowerId, sumPackageDownloads(packageDownloads));
+          }
+          logger.info(
+            `Loaded download statistics of ${packages.size} packages from ${statsFilePath}`
+          );
+        } catch (error: any) {
+          if (error.code === 'ENOENT') {
+            logger.info(
+              `${statsFilePath} not found - starting with empty download statistics`
+            );
+          } else {
+            logger.error(`Failed to load ${statsFilePath}: ${error.message}`);
+            throw error;
+          }
+        }
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Writes pending counts and stops the batched writes
+     */
+    destroy: async (): Promise<void> => {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = undefined;
+      }
+      await flushInternal();
+      logger.info('Download statistics service destroyed');
+    },
+
+    /**
+     * Counts a download of a package version
+     * @param packageId - Package identifier (actual casing)
+     * @param version - Package version
+     */
+    recordDownload: (packageId: string, version: string): void => {
+      const lowerId = packageId.toLowerCase();
+      const versionKey = normalizeVersion(version).toLowerCase();
+      const dateKey = toDateKey(new Date());
+
+      let packageDownloads = packages.get(lowerId);
+      if (!packageDownloads) {
+        packageDownloads = { id: packageId, versions: {} };
+        packages.set(lowerId, packageDownloads);
+      }
+      packageDownloads.id = packageId;
+      const versionDownloads = (packageDownloads.versions[versionKey] ??= {
+        total: 0,
+        days: {},
+      });
+      versionDownloads.total++;
+      versionDownloads.days[dateKey] =
+        (versionDownloads.days[dateKey] ?? 0) + 1;
+      packageTotals.set(lowerId, (packageTotals.get(lowerId) ?? 0) + 1);
+
+      dirty = true;
+      scheduleFlush();
+    },
+
+    /**
+     * Gets all-time downloads of a package
+     * @param packageId - Package identifier
+     * @returns Downloads of all versions
+     */
+    getPackageDownloads: (packageId: string): number =>
+      packageTotals.get(packageId.toLowerCase()) ?? 0,
+
+    /**
+     * Gets all-time downloads of a package version
+     * @param packageId - Package identifier
+     * @param version - Package version
+     * @returns Downloads of the version
+     */
+    getVersionDownloads: (packageId: string, version: string): number =>
+      packages.get(packageId.toLowerCase())?.versions[
+        normalizeVersion(version).toLowerCase()
+      ]?.total ?? 0,
+
+    /**
+     * Gets download statistics of the recent days
+     * @param query - Download statistics query
+     * @returns Top packages and the daily trend of the period
+     */
+    getStatistics: (query: DownloadStatisticsQuery): DownloadStatistics => {
+      const today = new Date();
+      const dates: string[] = [];
+      for (let offset = query.days - 1; offset >= 0; offset--) {
+        dates.push(
+          toDateKey(new Date(today.getTime() - offset * 24 * 60 * 60 * 1000))
+        );
+      }
+      const dateSet = new Set(dates);
+      const lowerId = query.packageId?.toLowerCase();
+
+      let totalDownloads = 0;
+      let periodDownloads = 0;
+      const topPackages: PackageDownloadStatistics[] = [];
+      const dailyCounts = new Map<string, number>();
+      for (const [packageKey, packageDownloads] of packages) {
+        let packagePeriodDownloads = 0;
+        for (const versionDownloads of Object.values(
+          packageDownloads.versions
+        )) {
+          packagePeriodDownloads += sumPeriodDownloads(
+            versionDownloads,
+            dateSet
+          );
+          if (lowerId === undefined || lowerId === packageKey) {
+            for (const [date, count] of Object.entries(versionDownloads.days)) {
+              if (dateSet.has(date)) {
+                dailyCounts.set(date, (dailyCounts.get(date) ?? 0) + count);
+              }
+            }
+          }
+        }
+        const packageTotal = packageTotals.get(packageKey) ?? 0;
+        totalDownloads += packageTotal;
+        periodDownloads += packagePeriodDownloads;
+        topPackages.push({
+          id: packageDownloads.id,
+          totalDownloads: packageTotal,
+          periodDownloads: packagePeriodDownloads,
+        });
+      }
+      topPackages.sort(
+        (a, b) =>
+          b.periodDownloads - a.periodDownloads ||
+          b.totalDownloads - a.totalDownloads ||
+          a.id.localeCompare(b.id)
+      );
+
+      const packageDownloads =
+        lowerId !== undefined ? packages.get(lowerId) : undefined;
+      return {
+        from: dates[0] ?? toDateKey(today),
+        to: toDateKey(today),
+        totalDownloads,
+        periodDownloads,
+        topPackages: topPackages.slice(0, query.top),
+        daily: dates.map((date) => ({
+          date,
+          downloads: dailyCounts.get(date) ?? 0,
+        })),
+        versions:
+          lowerId !== undefined
+            ? Object.entries(packageDownloads?.versions ?? {})
+                .map(([version, versionDownloads]) => ({
+                  version,
+                  totalDownloads: versionDownloads.total,
+                  periodDownloads: sumPeriodDownloads(
+                    versionDownloads,
+                    dateSet
+                  ),
+                }))
+                .sort(
+                  (a, b) =>
+                    b.periodDownloads - a.periodDownloads ||
+                    b.totalDownloads - a.totalDownloads
+                )
+            : undefined,
+      };
+    },
+
+    /**
+     * Writes pending counts to the file immediately
+     */
+    flush: async (): Promise<void> => {
+      await flushInternal();
+    },
+  };
+};
@@ -9,6 +9,9 @@ import AdmZip from 'adm-zip';
 import xml2js from 'xml2js';
 import { createNuGetClient } from './nugetClient';
 import { Logger } from '../types';
+import { findPackageFileEntry, storePackageReadme } from '../utils/readme';
+import { computePackageHash } from '../utils/publishRecord';
+import { writePackageHash } from '../utils/packageHash';
 
 /**
  * Package information for import
@@ -74,6 +77,7 @@ const parseNuspec = async (
   id: string;
   version: string;
   icon?: string;
+  readme?: string;
 }> => {
   const parser = new xml2js.Parser({ explicitArray: false });
   const result = await parser.parseStringPromise(nuspecContent);
@@ -87,6 +91,7 @@ const parseNuspec = async (
     id: metadata.id,
     version: metadata.version,
     icon: metadata.icon,
+    readme: metadata.readme,
   };
 };
 
@@ -151,6 +156,7 @@ const savePackage = async (
     `${metadata.id}.${metadata.version}.nupkg`
   );
   await writeFile(nupkgPath, packageData);
+  await writePackageHash(nupkgPath, computePackageHash(packageData));
 
   // Save nuspec file
   const nuspecPath = join(versionDir, `${metadata.id}.nuspec`);
@@ -180,6 +186,25 @@ const savePackage = async (
       );
     }
   }
+
+  // Extract README if present
+  if (metadata.readme) {
+    try {
+      const readmeEntry = findPackageFileEntry(
+        zip.getEntries(),
+        metadata.readme
+      );
+      if (await storePackageReadme(versionDir, readmeEntry?.getData())) {
+        logger.debug(
+          `Extracted README: ${metadata.readme} for ${metadata.id} ${metadata.version}`
+        );
+      }
+    } catch (error) {
+      logger.warn(
+        `Failed to extract README for ${metadata.id} ${metadata.version}: ${error}`
+      );
+    }
+  }
 };
 
 /**
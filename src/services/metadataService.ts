@@ -7,28 +7,70 @@ import path from 'path';
 import xml2js from 'xml2js';
 import { createReaderWriterLock } from 'async-primitives';
 import { Logger, DuplicatePackagePolicy } from '../types';
-import { compareVersions } from '../utils/semver';
 import {
-  extractNuspecTargetFrameworks,
-  parseNuspecTags,
+  compareVersions,
+  isSameVersion,
+  normalizeVersion,
+} from '../utils/semver';
+import {
+  extractNuspecMetadata,
+  NuspecDependency,
+  NuspecDependencyGroup,
+  NuspecPackageType,
+  NuspecRepository,
 } from '../utils/nuspec';
+import {
+  PublishRecordPublisher,
+  readPublishRecord,
+} from '../utils/publishRecord';
+import { readPackageHash } from '../utils/packageHash';
+import {
+  cleanupStagingDirectories,
+  removeSetAsideVersionDirectory,
+  restoreVersionDirectory,
+  setAsideVersionDirectory,
+  stagingDirectoryName,
+} from '../utils/packageStaging';
+import {
+  deprecationFileName,
+  PackageDeprecation,
+  readDeprecation,
+  writeDeprecation,
+} from '../utils/deprecation';
+import {
+  readSymbolRecord,
+  SymbolFile,
+  SymbolRecord,
+  symbolRecordFileName,
+} from '../utils/symbols';
+import {
+  createSearchIndex,
+  SearchAutocompleteQuery,
+  SearchAutocompleteResult,
+  SearchFilterOptions,
+  SearchIndexQuery,
+  SearchIndexResult,
+} from './searchIndex';
 
 /**
  * Group of package dependencies for a specific target framework
  */
-export interface DependencyGroup {
-  targetFramework?: string;
-  dependencies: PackageDependency[];
-}
+export type DependencyGroup = NuspecDependencyGroup;
 
 /**
  * Individual package dependency specification
  */
-export interface PackageDependency {
-  id: string;
-  version?: string;
-  exclude?: string;
-}
+export type PackageDependency = NuspecDependency;
+
+/**
+ * Source repository information of a package
+ */
+export type PackageRepository = NuspecRepository;
+
+/**
+ * Package type of a package (e.g. `Dependency`, `DotnetTool`)
+ */
+export type PackageType = NuspecPackageType;
 
 /**
  * Complete metadata information for a package version
@@ -36,19 +78,33 @@ export interface PackageDependency {
 export interface PackageMetadata {
   id: string;
   version: string;
+  title?: string;
   authors?: string;
   description?: string;
+  summary?: string;
+  releaseNotes?: string;
+  copyright?: string;
+  language?: string;
+  minClientVersion?: string;
+  requireLicenseAcceptance?: boolean;
   licenseUrl?: string;
   licenseExpression?: string;
   projectUrl?: string;
   iconUrl?: string;
   icon?: string;
+  readme?: string;
+  repository?: PackageRepository;
   tags?: string[];
   targetFrameworks?: string[];
   dependencies?: DependencyGroup[];
+  packageTypes?: PackageType[];
   published: Date;
   listed: boolean;
   packageContentUrl: string;
+  publisher?: PublishRecordPublisher;
+  packageSize?: number;
+  packageHash?: string; // SHA512, base64 encoded
+  deprecation?: PackageDeprecation;
 }
 
 /**
@@ -58,6 +114,7 @@ export interface PackageStorage {
   dirName: string; // Actual directory name (e.g., "FlashCap")
   fileName: string; // Actual nupkg file name (e.g., "FlashCap.1.10.0.nupkg")
   nuspecName: string; // Actual nuspec file name (e.g., "FlashCap.nuspec")
+  symbols?: SymbolRecord; // Stored symbol package (.snupkg), if published
 }
 
 /**
@@ -68,6 +125,33 @@ export interface PackageEntry {
   storage: PackageStorage;
 }
 
+/**
+ * PDB file located in a stored symbol package
+ */
+export interface SymbolFileLocation {
+  entry: PackageEntry;
+  symbolFile: SymbolFile;
+}
+
+/**
+ * Hooks run by addPackage inside the cache write lock
+ * @remarks Checks and updates depending on whether the package ID exists are atomic with the addition.
+ */
+export interface PackageAddHooks {
+  /**
+   * Checks whether the package may be added, before the version is moved into place
+   * @param isNewPackage - True if no version of the package ID exists yet
+   * @returns Error message to reject the package, or undefined to accept it
+   */
+  authorize?: (isNewPackage: boolean) => string | undefined;
+  /**
+   * Called after the version is added or overwritten
+   * @param isNewPackage - True if no version of the package ID existed before
+   * @remarks The version is already in place, so errors must be handled by the hook itself.
+   */
+  added?: (isNewPackage: boolean) => Promise<void>;
+}
+
 /**
  * Service interface for managing package metadata and caching
  */
@@ -83,97 +167,146 @@ export interface MetadataService {
     version: string
   ) => PackageEntry | undefined;
   readonly getAllPackageIds: () => string[];
+  readonly searchPackages: (query: SearchIndexQuery) => SearchIndexResult;
+  readonly autocompletePackageIds: (
+    query: SearchAutocompleteQuery
+  ) => SearchAutocompleteResult;
+  readonly getVisiblePackageVersions: (
+    packageId: string,
+    filter: SearchFilterOptions
+  ) => PackageMetadata[];
   readonly getLatestPackageEntry: (
     packageId: string
   ) => PackageEntry | undefined;
   readonly updateBaseUrl: (baseUrl: string) => Promise<void>;
   readonly addPackage: (
     metadata: PackageMetadata,
-    policy?: DuplicatePackagePolicy
+    stagingPath: string,
+    policy?: DuplicatePackagePolicy,
+    hooks?: PackageAddHooks
   ) => Promise<{
-    action: 'added' | 'overwritten' | 'ignored' | 'error';
+    action: 'added' | 'overwritten' | 'ignored' | 'error' | 'forbidden';
     message?: string;
   }>;
   readonly addPackageEntry: (entry: PackageEntry) => Promise<void>;
+  readonly removePackage: (
+    packageId: string,
+    version: string
+  ) => Promise<boolean>;
+  readonly setPackageListed: (
+    packageId: string,
+    version: string,
+    listed: boolean
+  ) => Promise<boolean>;
+  readonly setPackageDeprecation: (
+    packageId: string,
+    version: string,
+    deprecation: PackageDeprecation | undefined
+  ) => Promise<boolean>;
+  readonly setSymbolPackage: (
+    entry: PackageEntry,
+    symbols: SymbolRecord,
+    stagingPath: string
+  ) => Promise<boolean>;
+  readonly getSymbolFile: (key: string) => SymbolFileLocation | undefined;
 }
 
+/**
+ * Marker file placed in a version directory when the version is unlisted
+ */
+const unlistedMarkerFileName = '.unlisted';
+
 /**
  * Creates a metadata service instance for managing package information
  * @param packagesRoot - Root directory containing package files (default: './packages')
  * @param baseUrl - Base URL for generating package URLs (default: '')
  * @param logger - Logger instance for service events
+ * @param getPackageDownloads - Gets all-time downloads of a package for search ranking (default: no downloads)
  * @returns Configured metadata service instance
  */
 export const createMetadataService = (
   packagesRoot: string = './packages',
   baseUrl: string = '',
-  logger: Logger
+  logger: Logger,
+  getPackageDownloads?: (packageId: string) => number
 ): MetadataService => {
   const packagesCache = new Map<string, PackageEntry[]>();
+  const searchIndex = createSearchIndex(getPackageDownloads);
+  const symbolFiles = new Map<string, SymbolFileLocation>(); // Symbol key to PDB file
   let currentBaseUrl = baseUrl;
   const cacheLock = createReaderWriterLock();
 
   /**
-   * Extracts dependency groups from parsed XML metadata
-   * @param deps - Raw dependency data from XML parser
-   * @returns Array of structured dependency groups
+   * Registers the PDB files of stored symbol packages by their symbol keys
+   * @param entries - Package entries
    */
-  const extractDependencies = (deps: any): DependencyGroup[] => {
-    if (!deps) return [];
-
-    const groups: DependencyGroup[] = [];
-
-    if (deps.group) {
-      const groupArray = Array.isArray(deps.group) ? deps.group : [deps.group];
-
-      for (const group of groupArray) {
-        const targetFramework = group.$ ? group.$.targetFramework : undefined;
-        const dependencies: PackageDependency[] = [];
-
-        if (group.dependency) {
-          const depArray = Array.isArray(group.dependency)
-            ? group.dependency
-            : [group.dependency];
-
-          for (const dep of depArray) {
-            if (dep.$) {
-              dependencies.push({
-                id: dep.$.id,
-                version: dep.$.version,
-                exclude: dep.$.exclude,
-              });
-            }
-          }
-        }
-
-        groups.push({
-          targetFramework,
-          dependencies,
-        });
-      }
-    } else if (deps.dependency) {
-      // Dependencies without groups
-      const depArray = Array.isArray(deps.dependency)
-        ? deps.dependency
-        : [deps.dependency];
-      const dependencies: PackageDependency[] = [];
-
-      for (const dep of depArray) {
-        if (dep.$) {
-          dependencies.push({
-            id: dep.$.id,
-            version: dep.$.version,
-            exclude: dep.$.exclude,
-          });
-        }
+  const addSymbolFiles = (entries: PackageEntry[]) => {
+    for (const entry of entries) {
+      for (const symbolFile of entry.storage.symbols?.files || []) {
+        symbolFiles.set(symbolFile.key, { entry, symbolFile });
       }
+    }
+  };
 
-      if (dependencies.length > 0) {
-        groups.push({ dependencies });
+  /**
+   * Unregisters the PDB files of stored symbol packages
+   * @param entries - Package entries
+   */
+  const removeSymbolFiles = (entries: PackageEntry[]) => {
+    for (const entry of entries) {
+      for (const symbolFile of entry.storage.symbols?.files || []) {
+        if (symbolFiles.get(symbolFile.key)?.entry === entry) {
+          symbolFiles.delete(symbolFile.key);
+        }
       }
     }
+  };
 
-    return groups;
+  /**
+   * Stores package entries into the cache and the search index
+   * @param lowerId - Lower-cased package identifier
+   * @param entries - Package entries in descending order (newest first)
+   */
+  const setPackageEntries = (lowerId: string, entries: PackageEntry[]) => {
+    removeSymbolFiles(packagesCache.get(lowerId) || []);
+    addSymbolFiles(entries);
+    packagesCache.set(lowerId, entries);
+    searchIndex.updatePackage(
+      lowerId,
+      entries.map((entry) => entry.metadata)
+    );
+  };
+
+  /**
+   * Removes a package from the cache and the search index
+   * @param lowerId - Lower-cased package identifier
+   */
+  const deletePackageEntries = (lowerId: string) => {
+    removeSymbolFiles(packagesCache.get(lowerId) || []);
+    packagesCache.delete(lowerId);
+    searchIndex.removePackage(lowerId);
+  };
+
+  /**
+   * Gets the file system path to the version directory of a package entry
+   * @param entry - Package entry
+   * @returns Version directory path
+   */
+  const getVersionPath = (entry: PackageEntry): string =>
+    path.join(packagesRoot, entry.storage.dirName, entry.metadata.version);
+
+  /**
+   * Checks whether a version directory is marked as unlisted
+   * @param versionPath - File system path to the version directory
+   * @returns True if the unlisted marker file exists
+   */
+  const isUnlisted = async (versionPath: string): Promise<boolean> => {
+    try {
+      await fs.access(path.join(versionPath, unlistedMarkerFileName));
+      return true;
+    } catch {
+      return false;
+    }
   };
 
   /**
@@ -201,49 +334,59 @@ export const createMetadataService = (
         return undefined;
       }
 
-      // Extract dependencies
-      const dependencies = extractDependencies(metadata.dependencies);
+      // Read actual file names from directory
+      const files = await fs.readdir(versionPath);
+      const actualNupkgFile = files.find(
+        (file) => file.endsWith('.nupkg') && !file.endsWith('.snupkg')
+      );
+      const actualNuspecFile = files.find((file) => file.endsWith('.nuspec'));
+
+      const nupkgPath = path.join(
+        versionPath,
+        actualNupkgFile || `${packageId}.${version}.nupkg`
+      );
 
-      // Extract tags
-      const tags = metadata.tags
-        ? typeof metadata.tags === 'string'
-          ? parseNuspecTags(metadata.tags)
-          : []
-        : [];
-      const targetFrameworks = extractNuspecTargetFrameworks(metadata);
+      // Publish time comes from the publish record, or the nupkg timestamp for legacy versions
+      const publishRecord = await readPublishRecord(versionPath);
+      let published: Date;
+      if (publishRecord) {
+        published = new Date(publishRecord.publishedAt);
+      } else {
+        try {
+          const nupkgStat = await fs.stat(nupkgPath);
+          published = nupkgStat.mtime;
+        } catch {
+          published = new Date();
+        }
+      }
 
-      const actualPackageId = metadata.id || packageId;
+      const nuspecMetadata = extractNuspecMetadata(metadata);
+      const actualPackageId = nuspecMetadata.id || packageId;
+      const lowerId = actualPackageId.toLowerCase();
+      const urlVersion = normalizeVersion(
+        nuspecMetadata.version || version
+      ).toLowerCase();
 
       const packageMetadata: PackageMetadata = {
+        ...nuspecMetadata,
         id: actualPackageId,
-        version: metadata.version || version,
-        authors: metadata.authors,
-        description: metadata.description,
-        licenseUrl: metadata.licenseUrl,
-        licenseExpression:
-          typeof metadata.license === 'object'
-            ? metadata.license._
-            : metadata.license,
-        projectUrl: metadata.projectUrl,
-        iconUrl: metadata.iconUrl,
-        icon: metadata.icon,
-        tags,
-        targetFrameworks,
-        dependencies,
-        published: new Date(), // Use current date as we don't have publish info
-        listed: true,
-        packageContentUrl: `${currentBaseUrl}/v3/package/${actualPackageId.toLowerCase()}/${version}/${actualPackageId.toLowerCase()}.${version}.nupkg`,
+        version: nuspecMetadata.version || version,
+        published,
+        listed: !(await isUnlisted(versionPath)),
+        packageContentUrl: `${currentBaseUrl}/v3/package/${lowerId}/${urlVersion}/${lowerId}.${urlVersion}.nupkg`,
+        publisher: publishRecord?.publisher,
+        packageSize: publishRecord?.size,
+        // The hash file is also written by imports, which have no publish record
+        packageHash:
+          (await readPackageHash(nupkgPath)) ?? publishRecord?.sha512,
+        deprecation: await readDeprecation(versionPath),
       };
 
-      // Read actual file names from directory
-      const files = await fs.readdir(versionPath);
-      const actualNupkgFile = files.find((file) => file.endsWith('.nupkg'));
-      const actualNuspecFile = files.find((file) => file.endsWith('.nuspec'));
-
       const packageStorage: PackageStorage = {
         dirName: packageId, // Actual directory name (e.g., "FlashCap")
         fileName: actualNupkgFile || `${packageId}.${version}.nupkg`, // Use actual file name
         nuspecName: actualNuspecFile || `${packageId}.nuspec`, // Use actual nuspec name
+        symbols: await readSymbolRecord(versionPath),
       };
 
       return {
@@ -294,7 +437,7 @@ export const createMetadataService = (
         entries.sort((a, b) =>
           compareVersions(b.metadata.version, a.metadata.version)
         ); // Descending order (newest first)
-        packagesCache.set(packageId.toLowerCase(), entries);
+        setPackageEntries(packageId.toLowerCase(), entries);
       }
     } catch (error) {
       logger.warn(`Failed to scan versions for package ${packageId}: ${error}`);
@@ -309,6 +452,10 @@ export const createMetadataService = (
       const packageDirs = await fs.readdir(packagesRoot);
 
       const packagePromises = packageDirs.map(async (packageId) => {
+        // Versions being published are not packages yet
+        if (packageId === stagingDirectoryName) {
+          return;
+        }
         const packagePath = path.join(packagesRoot, packageId);
         const stat = await fs.stat(packagePath);
 
@@ -333,8 +480,22 @@ export const createMetadataService = (
         const startTime = Date.now();
         logger.info('Initializing metadata cache...');
         packagesCache.clear();
+        searchIndex.clear();
+        symbolFiles.clear();
 
         try {
+          const cleanup = await cleanupStagingDirectories(packagesRoot);
+          for (const versionPath of cleanup.restored) {
+            logger.warn(
+              `Restored version directory ${versionPath} left aside by an interrupted publish`
+            );
+          }
+          if (cleanup.removed > 0) {
+            logger.warn(
+              `Removed ${cleanup.removed} staging directories left by interrupted publishes`
+            );
+          }
+
           await scanPackages();
           const packageCount = Array.from(packagesCache.values()).reduce(
             (sum, versions) => sum + versions.length,
@@ -378,7 +539,7 @@ export const createMetadataService = (
       // Simple read operation - no lock needed for atomic Map.get
       const entries = packagesCache.get(packageId.toLowerCase()) || [];
       const metadata = entries.map((entry) => entry.metadata);
-      return metadata.find((v) => v.version === version);
+      return metadata.find((v) => isSameVersion(v.version, version));
     },
 
     /**
@@ -393,7 +554,45 @@ export const createMetadataService = (
     ): PackageEntry | undefined => {
       // Simple read operation - no lock needed for atomic Map.get
       const entries = packagesCache.get(packageId.toLowerCase()) || [];
-      return entries.find((entry) => entry.metadata.version === version);
+      return entries.find((entry) =>
+        isSameVersion(entry.metadata.version, version)
+      );
+    },
+
+    /**
+     * Searches packages with the search index
+     * @param query - Search query
+     * @returns Matched packages and total hit count
+     */
+    searchPackages: (query: SearchIndexQuery): SearchIndexResult => {
+      // Simple read operation - the index is updated under the cache write lock
+      return searchIndex.search(query);
+    },
+
+    /**
+     * Completes package IDs with the search index
+     * @param query - Package ID completion query
+     * @returns Matched package IDs and total hit count
+     */
+    autocompletePackageIds: (
+      query: SearchAutocompleteQuery
+    ): SearchAutocompleteResult => {
+      // Simple read operation - the index is updated under the cache write lock
+      return searchIndex.autocompletePackageIds(query);
+    },
+
+    /**
+     * Gets versions of a package visible with the version filter options
+     * @param packageId - Package identifier
+     * @param filter - Version filter options
+     * @returns Visible versions in descending order (newest first)
+     */
+    getVisiblePackageVersions: (
+      packageId: string,
+      filter: SearchFilterOptions
+    ): PackageMetadata[] => {
+      // Simple read operation - the index is updated under the cache write lock
+      return searchIndex.getVisibleVersions(packageId, filter);
     },
 
     /**
@@ -432,7 +631,9 @@ export const createMetadataService = (
         for (const entries of packagesCache.values()) {
           for (const entry of entries) {
             const packageId = entry.metadata.id.toLowerCase();
-            const version = entry.metadata.version;
+            const version = normalizeVersion(
+              entry.metadata.version
+            ).toLowerCase();
             entry.metadata.packageContentUrl = `${baseUrl}/package/${packageId}/${version}/${packageId}.${version}.nupkg`;
           }
         }
@@ -442,15 +643,21 @@ export const createMetadataService = (
     },
 
     /**
-     * Adds a new package to the cache (for uploaded packages)
+     * Adds an uploaded package, moving its staged version directory into place
      * @param metadata - Package metadata to add
+     * @param stagingPath - Version directory holding all files of the package (see createStagingDirectory)
      * @param policy - Duplicate package handling policy (default: "ignore")
+     * @param hooks - Hooks run inside the cache write lock (e.g. ownership checks)
+     * @remarks The cache is updated only after the version directory is in place.
+     * If any step fails, both the files and the cache are restored to the previous version.
      */
     addPackage: async (
       metadata: PackageMetadata,
-      policy: DuplicatePackagePolicy = 'ignore'
+      stagingPath: string,
+      policy: DuplicatePackagePolicy = 'ignore',
+      hooks: PackageAddHooks = {}
     ): Promise<{
-      action: 'added' | 'overwritten' | 'ignored' | 'error';
+      action: 'added' | 'overwritten' | 'ignored' | 'error' | 'forbidden';
       message?: string;
     }> => {
       const handle = await cacheLock.writeLock();
@@ -467,33 +674,43 @@ export const createMetadataService = (
           storage: packageStorage,
         };
 
-        // Inline the addPackageEntry logic to avoid circular reference
         const packageId = packageEntry.metadata.id.toLowerCase();
-        const existingEntries = packagesCache.get(packageId) || [];
+        const previousEntries = packagesCache.get(packageId) || [];
+
+        // Checked under the lock, so concurrent first pushes of a package ID are serialized
+        const isNewPackage = previousEntries.length === 0;
+        const authorizationError = hooks.authorize?.(isNewPackage);
+        if (authorizationError) {
+          logger.warn(
+            `Package rejected: ${packageEntry.metadata.id} ${packageEntry.metadata.version} - ${authorizationError}`
+          );
+          return { action: 'forbidden', message: authorizationError };
+        }
 
         // Check if this exact version already exists
-        const existingVersion = existingEntries.find(
-          (e) => e.metadata.version === packageEntry.metadata.version
+        const existingVersion = previousEntries.find((e) =>
+          isSameVersion(e.metadata.version, packageEntry.metadata.version)
         );
 
         if (existingVersion) {
           // Package version already exists - apply policy
           switch (policy) {
             case 'overwrite':
-              // Remove existing version and add new one
-              const filteredEntries = existingEntries.filter(
-                (e) => e.metadata.version !== packageEntry.metadata.version
-              );
-              filteredEntries.push(packageEntry);
-              filteredEntries.sort((a, b) =>
-                compareVersions(b.metadata.version, a.metadata.version)
-              ); // Descending order (newest first)
-              packagesCache.set(packageId, filteredEntries);
-
-              logger.info(
-                `Package overwritten in cache: ${packageEntry.metadata.id} ${packageEntry.metadata.version}`
-              );
-              return { action: 'overwritten' };
+              // The staged directory has neither the unlisted marker nor symbols of the previous content,
+              // so a re-pushed version is listed again and does not serve mismatched symbols.
+              // Deprecation is a decision about the version rather than its content, so it is kept.
+              if (existingVersion.metadata.deprecation) {
+                await fs.copyFile(
+                  path.join(
+                    getVersionPath(existingVersion),
+                    deprecationFileName
+                  ),
+                  path.join(stagingPath, deprecationFileName)
+                );
+                packageEntry.metadata.deprecation =
+                  existingVersion.metadata.deprecation;
+              }
+              break;
 
             case 'ignore':
               logger.info(
@@ -513,19 +730,75 @@ export const createMetadataService = (
               );
               return { action: 'ignored' };
           }
-        } else {
-          // New version - add it
-          existingEntries.push(packageEntry);
-          existingEntries.sort((a, b) =>
+        }
+
+        const versionPath = getVersionPath(packageEntry);
+        // A directory left at the version path without a loadable version is replaced as well
+        const replacedPath = existingVersion
+          ? getVersionPath(existingVersion)
+          : versionPath;
+        let setAsidePath: string | undefined;
+
+        // Move the previous version aside, then move the staged version into place
+        await fs.mkdir(path.dirname(versionPath), { recursive: true });
+        try {
+          setAsidePath = await setAsideVersionDirectory(
+            packagesRoot,
+            stagingPath,
+            replacedPath
+          );
+          await fs.rename(stagingPath, versionPath);
+        } catch (error) {
+          if (setAsidePath) {
+            await restoreVersionDirectory(setAsidePath, replacedPath);
+          }
+          throw error;
+        }
+
+        // Commit to the cache
+        try {
+          const entries = previousEntries.filter((e) => e !== existingVersion);
+          entries.push(packageEntry);
+          entries.sort((a, b) =>
             compareVersions(b.metadata.version, a.metadata.version)
           ); // Descending order (newest first)
-          packagesCache.set(packageId, existingEntries);
+          setPackageEntries(packageId, entries);
+        } catch (error) {
+          if (previousEntries.length > 0) {
+            setPackageEntries(packageId, previousEntries);
+          } else {
+            deletePackageEntries(packageId);
+          }
+          await fs.rename(versionPath, stagingPath);
+          if (setAsidePath) {
+            await restoreVersionDirectory(setAsidePath, replacedPath);
+          }
+          throw error;
+        }
+
+        if (setAsidePath) {
+          try {
+            await removeSetAsideVersionDirectory(setAsidePath);
+          } catch (error) {
+            // Removed on the next startup
+            logger.warn(
+              `Failed to remove the replaced version directory ${setAsidePath}: ${error}`
+            );
+          }
+        }
 
+        await hooks.added?.(isNewPackage);
+
+        if (existingVersion) {
           logger.info(
-            `Package added to cache: ${packageEntry.metadata.id} ${packageEntry.metadata.version}`
+            `Package overwritten: ${packageEntry.metadata.id} ${packageEntry.metadata.version}`
           );
-          return { action: 'added' };
+          return { action: 'overwritten' };
         }
+        logger.info(
+          `Package added: ${packageEntry.metadata.id} ${packageEntry.metadata.version}`
+        );
+        return { action: 'added' };
       } finally {
         handle.release();
       }
@@ -543,7 +816,7 @@ export const createMetadataService = (
 
         // Remove existing version if it exists (for overwrite)
         const filteredEntries = existingEntries.filter(
-          (e) => e.metadata.version !== entry.metadata.version
+          (e) => !isSameVersion(e.metadata.version, entry.metadata.version)
         );
 
         // Add new version
@@ -552,7 +825,7 @@ export const createMetadataService = (
           compareVersions(b.metadata.version, a.metadata.version)
         ); // Descending order (newest first)
 
-        packagesCache.set(packageId, filteredEntries);
+        setPackageEntries(packageId, filteredEntries);
 
         logger.info(
           `Package added to cache: ${entry.metadata.id} ${entry.metadata.version}`
@@ -561,5 +834,196 @@ export const createMetadataService = (
         handle.release();
       }
     },
+
+    /**
+     * Removes a package version from both the disk and the cache
+     * @param packageId - Package identifier
+     * @param version - Package version
+     * @returns True if the version was removed, false if not found
+     */
+    removePackage: async (
+      packageId: string,
+      version: string
+    ): Promise<boolean> => {
+      const handle = await cacheLock.writeLock();
+      try {
+        const lowerId = packageId.toLowerCase();
+        const existingEntries = packagesCache.get(lowerId) || [];
+        const entry = existingEntries.find((e) =>
+          isSameVersion(e.metadata.version, version)
+        );
+        if (!entry) {
+          return false;
+        }
+
+        await fs.rm(getVersionPath(entry), { recursive: true, force: true });
+
+        // Remove the package directory when no versions are left
+        const packagePath = path.join(packagesRoot, entry.storage.dirName);
+        try {
+          const remaining = await fs.readdir(packagePath);
+          if (remaining.length === 0) {
+            await fs.rmdir(packagePath);
+          }
+        } catch (error) {
+          logger.warn(
+            `Failed to clean up package directory ${packagePath}: ${error}`
+          );
+        }
+
+        const filteredEntries = existingEntries.filter((e) => e !== entry);
+        if (filteredEntries.length > 0) {
+          setPackageEntries(lowerId, filteredEntries);
+        } else {
+          deletePackageEntries(lowerId);
+        }
+
+        logger.info(
+          `Package removed: ${entry.metadata.id} ${entry.metadata.version}`
+        );
+        return true;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Changes the listed state of a package version
+     * @param packageId - Package identifier
+     * @param version - Package version
+     * @param listed - True to relist, false to unlist
+     * @returns True if the version was found, false otherwise
+     * @remarks The state is persisted as a marker file in the version directory.
+     */
+    setPackageListed: async (
+      packageId: string,
+      version: string,
+      listed: boolean
+    ): Promise<boolean> => {
+      const handle = await cacheLock.writeLock();
+      try {
+        const entries = packagesCache.get(packageId.toLowerCase()) || [];
+        const entry = entries.find((e) =>
+          isSameVersion(e.metadata.version, version)
+        );
+        if (!entry) {
+          return false;
+        }
+
+        const markerPath = path.join(
+          getVersionPath(entry),
+          unlistedMarkerFileName
+        );
+        if (listed) {
+          await fs.rm(markerPath, { force: true });
+        } else {
+          await fs.writeFile(markerPath, new Date().toISOString());
+        }
+        entry.metadata.listed = listed;
+        setPackageEntries(packageId.toLowerCase(), entries);
+
+        logger.info(
+          `Package ${listed ? 'relisted' : 'unlisted'}: ${entry.metadata.id} ${entry.metadata.version}`
+        );
+        return true;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Deprecates a package version or removes its deprecation
+     * @param packageId - Package identifier
+     * @param version - Package version
+     * @param deprecation - Deprecation to set, or undefined to undeprecate
+     * @returns True if the version was found, false otherwise
+     * @remarks The deprecation is persisted as deprecation.json in the version directory.
+     */
+    setPackageDeprecation: async (
+      packageId: string,
+      version: string,
+      deprecation: PackageDeprecation | undefined
+    ): Promise<boolean> => {
+      const handle = await cacheLock.writeLock();
+      try {
+        const entries = packagesCache.get(packageId.toLowerCase()) || [];
+        const entry = entries.find((e) =>
+          isSameVersion(e.metadata.version, version)
+        );
+        if (!entry) {
+          return false;
+        }
+
+        if (deprecation) {
+          await writeDeprecation(getVersionPath(entry), deprecation);
+        } else {
+          await fs.rm(path.join(getVersionPath(entry), deprecationFileName), {
+            force: true,
+          });
+        }
+        entry.metadata.deprecation = deprecation;
+
+        logger.info(
+          `Package ${deprecation ? 'deprecated' : 'undeprecated'}: ${entry.metadata.id} ${entry.metadata.version}`
+        );
+        return true;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Stores a symbol package (.snupkg) of a package version, moving its staged files into place
+     * @param entry - Package entry the symbol package was validated against
+     * @param symbols - Symbol record of the symbol package
+     * @param stagingPath - Directory holding the symbol package and its record (see createStagingDirectory)
+     * @returns True if stored, false if the version was removed or overwritten in the meantime
+     * @remarks Files are moved under the same lock as package additions and removals,
+     * so the symbol package never lands in a version directory being replaced.
+     */
+    setSymbolPackage: async (
+      entry: PackageEntry,
+      symbols: SymbolRecord,
+      stagingPath: string
+    ): Promise<boolean> => {
+      const handle = await cacheLock.writeLock();
+      try {
+        const entries = packagesCache.get(entry.metadata.id.toLowerCase());
+        if (!entries?.includes(entry)) {
+          return false;
+        }
+
+        const versionPath = getVersionPath(entry);
+        await fs.rename(
+          path.join(stagingPath, symbols.fileName),
+          path.join(versionPath, symbols.fileName)
+        );
+        await fs.rename(
+          path.join(stagingPath, symbolRecordFileName),
+          path.join(versionPath, symbolRecordFileName)
+        );
+
+        removeSymbolFiles([entry]);
+        entry.storage.symbols = symbols;
+        addSymbolFiles([entry]);
+
+        logger.info(
+          `Symbol package registered: ${entry.metadata.id} ${entry.metadata.version} (${symbols.files.length} PDB files)`
+        );
+        return true;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Gets a PDB file by its Simple Symbol Query Protocol key
+     * @param key - Symbol key in `{file}/{signature-age}/{file}` form (case-insensitive)
+     * @returns Location of the PDB file, or undefined if not found
+     */
+    getSymbolFile: (key: string): SymbolFileLocation | undefined => {
+      // Simple read operation - no lock needed for atomic Map.get
+      return symbolFiles.get(key.toLowerCase());
+    },
   };
 };
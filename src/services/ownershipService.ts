@@ -0,0 +1,695 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { createReaderWriterLock } from 'async-primitives';
+import { Logger } from '../types';
+
+/**
+ * Owners of a package ID
+ */
+export interface PackageOwnership {
+  packageId: string; // Package ID as first published
+  owners: string[]; // Usernames, or group names prefixed with "@"
+  updatedAt: string; // ISO 8601
+}
+
+/**
+ * Editable fields of a package ID prefix reservation
+ */
+export interface PrefixReservationInput {
+  prefix: string; // Package ID (e.g. "Contoso.Payments") or prefix ending with "*" (e.g. "Contoso.Payments.*")
+  owners: string[]; // Usernames or "@" prefixed group names allowed to push package IDs matching the prefix
+}
+
+/**
+ * Package ID prefix reserved for specific users or groups
+ */
+export interface PrefixReservation extends PrefixReservationInput {
+  id: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+/**
+ * Editable fields of a user group
+ */
+export interface UserGroupInput {
+  name: string; // Referred to as "@name" in owners
+  members: string[]; // Usernames
+}
+
+/**
+ * Named group of users which can own packages and prefix reservations
+ */
+export interface UserGroup extends UserGroupInput {
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+/**
+ * Result of a user group validation
+ */
+export type UserGroupValidation =
+  | { valid: true; input: UserGroupInput }
+  | { valid: false; error: string };
+
+/**
+ * Result of a prefix reservation validation
+ */
+export type PrefixReservationValidation =
+  | { valid: true; input: PrefixReservationInput }
+  | { valid: false; error: string };
+
+/**
+ * User pushing or modifying a package
+ */
+export interface PackageActor {
+  username: string;
+  role: string;
+}
+
+/**
+ * Result of a package access check
+ */
+export type PackageAccess =
+  | { allowed: true }
+  | { allowed: false; error: string };
+
+/**
+ * Content of the owners file
+ */
+interface OwnersFile {
+  packages: PackageOwnership[];
+  reservations: PrefixReservation[];
+  groups: UserGroup[];
+}
+
+/**
+ * Ownership service configuration
+ */
+export interface OwnershipServiceConfig {
+  configDir: string;
+  usersFile?: string; // The owners file is stored next to the users file
+  logger: Logger;
+}
+
+/**
+ * Ownership service interface
+ */
+export interface OwnershipService {
+  readonly initialize: () => Promise<void>;
+  readonly getOwners: (packageId: string) => string[];
+  readonly getPackageOwnerships: () => PackageOwnership[];
+  readonly getReservations: () => PrefixReservation[];
+  readonly getReservation: (packageId: string) => PrefixReservation | undefined;
+  readonly checkPackageAccess: (
+    packageId: string,
+    actor: PackageActor
+  ) => PackageAccess;
+  readonly claimPackage: (
+    packageId: string,
+    username: string
+  ) => Promise<boolean>;
+  readonly setOwners: (
+    packageId: string,
+    owners: string[]
+  ) => Promise<PackageOwnership>;
+  readonly addReservation: (
+    input: PrefixReservationInput
+  ) => Promise<PrefixReservation>;
+  readonly updateReservation: (
+    id: string,
+    input: PrefixReservationInput
+  ) => Promise<PrefixReservation | undefined>;
+  readonly deleteReservation: (id: string) => Promise<boolean>;
+  readonly getGroups: () => UserGroup[];
+  readonly getGroup: (name: string) => UserGroup | undefined;
+  readonly getGroupReferences: (name: string) => string[];
+  readonly addGroup: (input: UserGroupInput) => Promise<UserGroup | undefined>;
+  readonly updateGroup: (
+    input: UserGroupInput
+  ) => Promise<UserGroup | undefined>;
+  readonly deleteGroup: (name: string) => Promise<boolean>;
+}
+
+/**
+ * Name of the owners file stored next to users.json
+ */
+export const ownersFileName = 'owners.json';
+
+/**
+ * Prefix of a group name in owners (e.g. "@payments")
+ */
+export const groupOwnerPrefix = '@';
+
+// Group names use the same characters as usernames, so "@" never starts a username
+const groupNamePattern = /^[a-zA-Z0-9._-]+$/;
+
+/**
+ * Validates a list of owners received from a client and normalizes it
+ * @param value - Owner usernames and "@" prefixed group names
+ * @returns Distinct trimmed owners, or undefined if invalid or empty
+ */
+export const validateOwners = (value: unknown): string[] | undefined => {
+  if (
+    !Array.isArray(value) ||
+    !value.every((owner) => typeof owner === 'string')
+  ) {
+    return undefined;
+  }
+  const owners = [
+    ...new Set(
+      (value as string[])
+        .map((owner) => owner.trim())
+        .filter((owner) => owner.length > 0)
+    ),
+  ];
+  return owners.length > 0 ? owners : undefined;
+};
+
+/**
+ * Validates prefix reservation fields received from a client and normalizes them
+ * @param value - Prefix reservation fields
+ * @returns Normalized fields, or the reason why they are invalid
+ */
+export const validatePrefixReservationInput = (
+  value: unknown
+): PrefixReservationValidation => {
+  if (typeof value !== 'object' || value === null) {
+    return { valid: false, error: 'Reservation must be an object' };
+  }
+  const { prefix, owners } = value as Record<string, unknown>;
+
+  if (
+    typeof prefix !== 'string' ||
+    !/^[A-Za-z0-9_.-]+\*?$/.test(prefix.trim())
+  ) {
+    return { valid: false, error: `Package ID prefix is invalid: ${prefix}` };
+  }
+  const validOwners = validateOwners(owners);
+  if (!validOwners) {
+    return { valid: false, error: 'At least one owner is required' };
+  }
+
+  return {
+    valid: true,
+    input: { prefix: prefix.trim(), owners: validOwners },
+  };
+};
+
+/**
+ * Validates user group fields received from a client and normalizes them
+ * @param value - User group fields
+ * @returns Normalized fields, or the reason why they are invalid
+ */
+export const validateUserGroupInput = (value: unknown): UserGroupValidation => {
+  if (typeof value !== 'object' || value === null) {
+    return { valid: false, error: 'Group must be an object' };
+  }
+  const { name, members } = value as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !groupNamePattern.test(name.trim())) {
+    return { valid: false, error: `Group name is invalid: ${name}` };
+  }
+  const validMembers = validateOwners(members);
+  if (!validMembers) {
+    return { valid: false, error: 'At least one member is required' };
+  }
+  if (validMembers.some((member) => member.startsWith(groupOwnerPrefix))) {
+    return { valid: false, error: 'Groups cannot be members of a group' };
+  }
+
+  return {
+    valid: true,
+    input: { name: name.trim(), members: validMembers },
+  };
+};
+
+/**
+ * Checks whether a package ID matches a reserved prefix
+ * @param prefix - Reserved prefix, a trailing "*" matches any continuation
+ * @param packageId - Package ID
+ * @returns True if the package ID matches (case-insensitive)
+ */
+export const matchesReservedPrefix = (
+  prefix: string,
+  packageId: string
+): boolean => {
+  const lowerPrefix = prefix.toLowerCase();
+  const lowerId = packageId.toLowerCase();
+  return lowerPrefix.endsWith('*')
+    ? lowerId.startsWith(lowerPrefix.slice(0, -1))
+    : lowerId === lowerPrefix;
+};
+
+/**
+ * Creates an ownership service persisting package owners, prefix reservations and user groups to owners.json
+ * @param config - Ownership service configuration
+ * @returns Ownership service instance
+ */
+export const createOwnershipService = (
+  config: OwnershipServiceConfig
+): OwnershipService => {
+  const { configDir, usersFile, logger } = config;
+  const ownersFilePath = join(
+    usersFile ? dirname(usersFile) : configDir,
+    ownersFileName
+  );
+  let packages = new Map<string, PackageOwnership>(); // Keyed by lower-cased package ID
+  let reservations: PrefixReservation[] = [];
+  let groups = new Map<string, UserGroup>(); // Keyed by group name
+  const fileLock = createReaderWriterLock();
+
+  /**
+   * Writes owners to the file (called from within lock)
+   */
+  const saveOwnersInternal = async (
+    nextPackages: Map<string, PackageOwnership>,
+    nextReservations: PrefixReservation[],
+    nextGroups: Map<string, UserGroup> = groups
+  ): Promise<void> => {
+    const content: OwnersFile = {
+      packages: Array.from(nextPackages.values()),
+      reservations: nextReservations,
+      groups: Array.from(nextGroups.values()),
+    };
+    try {
+      await writeFile(
+        ownersFilePath,
+        JSON.stringify(content, null, 2),
+        'utf-8'
+      );
+    } catch (error: any) {
+      logger.error(`Failed to save ${ownersFilePath}: ${error.message}`);
+      throw error;
+    }
+    // Applied only after persisted, so a failed write does not change the enforced ownership
+    packages = nextPackages;
+    reservations = nextReservations;
+    groups = nextGroups;
+  };
+
+  /**
+   * Checks whether a user is one of the owners, directly or as a group member
+   */
+  const isOwner = (owners: readonly string[], username: string): boolean =>
+    owners.some((owner) =>
+      owner.startsWith(groupOwnerPrefix)
+        ? (groups
+            .get(owner.slice(groupOwnerPrefix.length))
+            ?.members.includes(username) ?? false)
+        : owner === username
+    );
+
+  /**
+   * Finds the most specific reservation matching a package ID
+   */
+  const findReservation = (packageId: string): PrefixReservation | undefined =>
+    reservations
+      .filter((reservation) =>
+        matchesReservedPrefix(reservation.prefix, packageId)
+      )
+      .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+
+  return {
+    /**
+     * Initializes the service with the owners file
+     */
+    initialize: async (): Promise<void> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const content = await readFile(ownersFilePath, 'utf-8');
+        const file = JSON.parse(content) as OwnersFile;
+        packages = new Map(
+          (file.packages || []).map((ownership) => [
+            ownership.packageId.toLowerCase(),
+            ownership,
+          ])
+        );
+        reservations = file.reservations || [];
+        groups = new Map(
+          (file.groups || []).map((group) => [group.name, group])
+        );
+        logger.info(
+          `Loaded ${packages.size} package owners, ${reservations.length} prefix reservations and ${groups.size} user groups from ${ownersFilePath}`
+        );
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          logger.info(
+            `${ownersFilePath} not found - starting without package owners`
+          );
+        } else {
+          logger.error(`Failed to load ${ownersFilePath}: ${error.message}`);
+          throw error;
+        }
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Gets the owners of a package ID
+     * @param packageId - Package ID (case-insensitive)
+     * @returns Owner usernames and "@" prefixed group names, empty if the package ID has no owner
+     */
+    getOwners: (packageId: string): string[] =>
+      packages.get(packageId.toLowerCase())?.owners ?? [],
+
+    /**
+     * Gets the owners of all package IDs
+     * @returns Package owners ordered by package ID
+     */
+    getPackageOwnerships: (): PackageOwnership[] =>
+      Array.from(packages.values()).sort((a, b) =>
+        a.packageId.localeCompare(b.packageId, undefined, {
+          sensitivity: 'base',
+        })
+      ),
+
+    /**
+     * Gets all prefix reservations
+     * @returns Prefix reservations ordered by prefix
+     */
+    getReservations: (): PrefixReservation[] =>
+      [...reservations].sort((a, b) =>
+        a.prefix.localeCompare(b.prefix, undefined, { sensitivity: 'base' })
+      ),
+
+    /**
+     * Gets the prefix reservation covering a package ID
+     * @param packageId - Package ID
+     * @returns The most specific matching reservation, or undefined if not reserved
+     */
+    getReservation: findReservation,
+
+    /**
+     * Checks whether a user can push or modify a package ID
+     * @param packageId - Package ID
+     * @param actor - User pushing or modifying the package
+     * @returns Allowed, or the reason why the user is not allowed
+     * @remarks Admins can modify any package. Otherwise the user must own the package ID,
+     * or be an owner of the reservation covering it, either directly or as a member of an owner group.
+     * Package IDs without owners and reservations are free to push, and the first pusher becomes the owner (see claimPackage).
+     */
+    checkPackageAccess: (
+      packageId: string,
+      actor: PackageActor
+    ): PackageAccess => {
+      if (actor.role === 'admin') {
+        return { allowed: true };
+      }
+
+      const owners = packages.get(packageId.toLowerCase())?.owners ?? [];
+      const reservation = findReservation(packageId);
+      if (
+        isOwner(owners, actor.username) ||
+        (reservation && isOwner(reservation.owners, actor.username))
+      ) {
+        return { allowed: true };
+      }
+
+      if (owners.length > 0) {
+        return {
+          allowed: false,
+          error: `Package ${packageId} is owned by other users`,
+        };
+      }
+      if (reservation) {
+        return {
+          allowed: false,
+          error: `Package ID prefix ${reservation.prefix} is reserved`,
+        };
+      }
+      return { allowed: true };
+    },
+
+    /**
+     * Makes a user the owner of a package ID which has no owner yet
+     * @param packageId - Package ID
+     * @param username - Username of the pusher
+     * @returns True if the user became the owner, false if the package ID already had owners
+     * @remarks Only called for package IDs published for the first time, so package IDs existing
+     * before ownership was introduced are not claimed by whoever pushes them next.
+     */
+    claimPackage: async (
+      packageId: string,
+      username: string
+    ): Promise<boolean> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const lowerId = packageId.toLowerCase();
+        if ((packages.get(lowerId)?.owners.length ?? 0) > 0) {
+          return false;
+        }
+        const nextPackages = new Map(packages);
+        nextPackages.set(lowerId, {
+          packageId,
+          owners: [username],
+          updatedAt: new Date().toISOString(),
+        });
+        await saveOwnersInternal(nextPackages, reservations);
+
+        logger.info(`Package owner assigned: ${packageId} -> ${username}`);
+        return true;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Replaces the owners of a package ID (ownership transfer)
+     * @param packageId - Package ID
+     * @param owners - Validated owner usernames
+     * @returns Updated package owners
+     */
+    setOwners: async (
+      packageId: string,
+      owners: string[]
+    ): Promise<PackageOwnership> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const lowerId = packageId.toLowerCase();
+        const ownership: PackageOwnership = {
+          packageId: packages.get(lowerId)?.packageId ?? packageId,
+          owners,
+          updatedAt: new Date().toISOString(),
+        };
+        const nextPackages = new Map(packages);
+        nextPackages.set(lowerId, ownership);
+        await saveOwnersInternal(nextPackages, reservations);
+
+        logger.info(
+          `Package owners changed: ${ownership.packageId} -> ${owners.join(', ')}`
+        );
+        return ownership;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Adds a prefix reservation
+     * @param input - Validated reservation fields
+     * @returns Added reservation
+     */
+    addReservation: async (
+      input: PrefixReservationInput
+    ): Promise<PrefixReservation> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const now = new Date().toISOString();
+        const reservation: PrefixReservation = {
+          ...input,
+          id: randomUUID(),
+          createdAt: now,
+          updatedAt: now,
+        };
+        await saveOwnersInternal(packages, [...reservations, reservation]);
+
+        logger.info(
+          `Prefix reserved: ${reservation.prefix} -> ${reservation.owners.join(', ')}`
+        );
+        return reservation;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Updates a prefix reservation
+     * @param id - Reservation identifier
+     * @param input - Validated reservation fields
+     * @returns Updated reservation, or undefined if not found
+     */
+    updateReservation: async (
+      id: string,
+      input: PrefixReservationInput
+    ): Promise<PrefixReservation | undefined> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const existing = reservations.find((r) => r.id === id);
+        if (!existing) {
+          return undefined;
+        }
+        const reservation: PrefixReservation = {
+          ...existing,
+          ...input,
+          updatedAt: new Date().toISOString(),
+        };
+        await saveOwnersInternal(
+          packages,
+          reservations.map((r) => (r.id === id ? reservation : r))
+        );
+
+        logger.info(
+          `Prefix reservation updated: ${reservation.prefix} -> ${reservation.owners.join(', ')}`
+        );
+        return reservation;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Deletes a prefix reservation
+     * @param id - Reservation identifier
+     * @returns True if the reservation was found, false otherwise
+     */
+    deleteReservation: async (id: string): Promise<boolean> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const existing = reservations.find((r) => r.id === id);
+        if (!existing) {
+          return false;
+        }
+        await saveOwnersInternal(
+          packages,
+          reservations.filter((r) => r.id !== id)
+        );
+
+        logger.info(`Prefix reservation deleted: ${existing.prefix}`);
+        return true;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Gets all user groups
+     * @returns User groups ordered by name
+     */
+    getGroups: (): UserGroup[] =>
+      Array.from(groups.values()).sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+      ),
+
+    /**
+     * Gets a user group
+     * @param name - Group name (without "@")
+     * @returns User group, or undefined if not found
+     */
+    getGroup: (name: string): UserGroup | undefined => groups.get(name),
+
+    /**
+     * Gets the package IDs and reserved prefixes owned by a user group
+     * @param name - Group name (without "@")
+     * @returns Package IDs and prefixes listing the group as an owner
+     */
+    getGroupReferences: (name: string): string[] => {
+      const owner = `${groupOwnerPrefix}${name}`;
+      return [
+        ...Array.from(packages.values())
+          .filter((ownership) => ownership.owners.includes(owner))
+          .map((ownership) => ownership.packageId),
+        ...reservations
+          .filter((reservation) => reservation.owners.includes(owner))
+          .map((reservation) => reservation.prefix),
+      ];
+    },
+
+    /**
+     * Adds a user group
+     * @param input - Validated group fields
+     * @returns Added group, or undefined if the name is already used
+     */
+    addGroup: async (input: UserGroupInput): Promise<UserGroup | undefined> => {
+      const handle = await fileLock.writeLock();
+      try {
+        if (groups.has(input.name)) {
+          return undefined;
+        }
+        const now = new Date().toISOString();
+        const group: UserGroup = { ...input, createdAt: now, updatedAt: now };
+        const nextGroups = new Map(groups);
+        nextGroups.set(group.name, group);
+        await saveOwnersInternal(packages, reservations, nextGroups);
+
+        logger.info(
+          `User group added: ${group.name} -> ${group.members.join(', ')}`
+        );
+        return group;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Replaces the members of a user group
+     * @param input - Validated group fields
+     * @returns Updated group, or undefined if not found
+     */
+    updateGroup: async (
+      input: UserGroupInput
+    ): Promise<UserGroup | undefined> => {
+      const handle = await fileLock.writeLock();
+      try {
+        const existing = groups.get(input.name);
+        if (!existing) {
+          return undefined;
+        }
+        const group: UserGroup = {
+          ...existing,
+          members: input.members,
+          updatedAt: new Date().toISOString(),
+        };
+        const nextGroups = new Map(groups);
+        nextGroups.set(group.name, group);
+        await saveOwnersInternal(packages, reservations, nextGroups);
+
+        logger.info(
+          `User group updated: ${group.name} -> ${group.members.join(', ')}`
+        );
+        return group;
+      } finally {
+        handle.release();
+      }
+    },
+
+    /**
+     * Deletes a user group
+     * @param name - Group name (without "@")
+     * @returns True if the group was found, false otherwise
+     * @remarks Packages and reservations still listing the group are not changed, so check getGroupReferences first.
+     */
+    deleteGroup: async (name: string): Promise<boolean> => {
+      const handle = await fileLock.writeLock();
+      try {
+        if (!groups.has(name)) {
+          return false;
+        }
+        const nextGroups = new Map(groups);
+        nextGroups.delete(name);
+        await saveOwnersInternal(packages, reservations, nextGroups);
+
+        logger.info(`User group deleted: ${name}`);
+        return true;
+      } finally {
+        handle.release();
+      }
+    },
+  };
+};
@@ -0,0 +1,674 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { PackageMetadata, PackageType } from './metadataService';
+import {
+  isPrereleaseVersion,
+  isSemVer2Version,
+  isSemVer2VersionRange,
+  normalizeVersion,
+} from '../utils/semver';
+import {
+  PreparedSearchTarget,
+  prepareSearchTarget,
+  scoreSearchTarget,
+  SearchQueryTerm,
+  tokenizeSearchText,
+} from '../utils/searchQuery';
+
+/**
+ * Version filter options of the search query service
+ */
+export interface SearchFilterOptions {
+  prerelease: boolean; // Include prerelease versions
+  semVer2: boolean; // Include SemVer 2.0 versions (`semVerLevel=2.0.0`)
+  packageType?: string; // Package type name, matched case-insensitively
+}
+
+/**
+ * Search query answered by the search index
+ */
+export interface SearchIndexQuery {
+  terms: SearchQueryTerm[]; // Parsed query terms (AND semantics)
+  filter: SearchFilterOptions;
+  skip: number;
+  take: number;
+}
+
+/**
+ * Package matched by a search query
+ */
+export interface SearchIndexHit {
+  packageId: string; // Actual package ID (not lower-cased)
+  versions: PackageMetadata[]; // Visible versions in descending order (newest first)
+  score: number;
+}
+
+/**
+ * Paginated result of a search query
+ */
+export interface SearchIndexResult {
+  totalHits: number; // Total count before pagination
+  hits: SearchIndexHit[];
+}
+
+/**
+ * Package ID completion query answered by the search index
+ */
+export interface SearchAutocompleteQuery {
+  prefix: string; // Package ID prefix (empty for all packages)
+  filter: SearchFilterOptions;
+  skip: number;
+  take: number;
+}
+
+/**
+ * Paginated result of a package ID completion query
+ */
+export interface SearchAutocompleteResult {
+  totalHits: number; // Total count before pagination
+  packageIds: string[]; // Actual package IDs (not lower-cased)
+}
+
+/**
+ * In-memory inverted index for package search
+ */
+export interface SearchIndex {
+  readonly updatePackage: (
+    packageId: string,
+    versions: PackageMetadata[]
+  ) => void;
+  readonly removePackage: (packageId: string) => void;
+  readonly clear: () => void;
+  readonly search: (query: SearchIndexQuery) => SearchIndexResult;
+  readonly autocompletePackageIds: (
+    query: SearchAutocompleteQuery
+  ) => SearchAutocompleteResult;
+  readonly getVisibleVersions: (
+    packageId: string,
+    filter: SearchFilterOptions
+  ) => PackageMetadata[];
+}
+
+/**
+ * Indexed package version with precomputed search fields
+ */
+interface IndexedVersion {
+  metadata: PackageMetadata;
+  prerelease: boolean;
+  semVer2: boolean;
+  packageTypes: string[]; // Lower-cased package type names
+  target: PreparedSearchTarget;
+}
+
+/**
+ * Indexed package with all of its versions
+ */
+interface IndexedPackage {
+  versions: IndexedVersion[]; // Descending order (newest first)
+  listedVersions: IndexedVersion[][]; // Listed versions for each version filter (see `getVersionFilterIndex`)
+  tokenSuffixes: Set<string>; // All suffixes of all search tokens
+  idSegments: Set<string>; // Lower-cased package ID segments
+  normalizedVersions: Set<string>; // Lower-cased normalized versions
+}
+
+/**
+ * Postings keyed by strings, looked up by exact key or key prefix
+ */
+interface PrefixPostings {
+  readonly add: (key: string, lowerId: string) => void;
+  readonly remove: (key: string, lowerId: string) => void;
+  readonly findByPrefix: (prefix: string) => Set<string>;
+  readonly clear: () => void;
+}
+
+/**
+ * Gets package types of a package version
+ * @param metadata - Package version metadata
+ * @returns Declared package types
+ * @remarks Packages without declared package types are `Dependency` packages.
+ */
+export const getPackageTypes = (metadata: PackageMetadata): PackageType[] =>
+  metadata.packageTypes && metadata.packageTypes.length > 0
+    ? metadata.packageTypes
+    : [{ name: 'Dependency' }];
+
+/**
+ * Checks whether a package version is a SemVer 2.0 package
+ * @param metadata - Package version metadata
+ * @returns True if SemVer 2.0 clients are required
+ * @remarks A version also counts as SemVer 2.0 when any of its dependency ranges refers to a SemVer 2.0 version.
+ */
+export const isSemVer2Package = (metadata: PackageMetadata): boolean =>
+  isSemVer2Version(metadata.version) ||
+  (metadata.dependencies || []).some((group) =>
+    group.dependencies.some(
+      (dependency) =>
+        dependency.version !== undefined &&
+        isSemVer2VersionRange(dependency.version)
+    )
+  );
+
+/**
+ * Creates an indexed version from package metadata
+ */
+const createIndexedVersion = (metadata: PackageMetadata): IndexedVersion => ({
+  metadata,
+  prerelease: isPrereleaseVersion(metadata.version),
+  semVer2: isSemVer2Package(metadata),
+  packageTypes: getPackageTypes(metadata).map((packageType) =>
+    packageType.name.toLowerCase()
+  ),
+  target: prepareSearchTarget({
+    id: metadata.id,
+    title: metadata.title || metadata.id,
+    description: metadata.description || '',
+    summary: metadata.summary || metadata.description || '',
+    tags: metadata.tags || [],
+    authors: metadata.authors
+      ? metadata.authors.split(',').map((a) => a.trim())
+      : [],
+    versions: [],
+  }),
+});
+
+/**
+ * Gets the index of the version filter into `IndexedPackage.listedVersions`
+ */
+const getVersionFilterIndex = (filter: SearchFilterOptions): number =>
+  (filter.prerelease ? 1 : 0) | (filter.semVer2 ? 2 : 0);
+
+/**
+ * Precomputes the listed versions of a package for each version filter
+ */
+const createListedVersions = (versions: IndexedVersion[]): IndexedVersion[][] =>
+  [0, 1, 2, 3].map((filterIndex) =>
+    versions.filter(
+      (version) =>
+        version.metadata.listed &&
+        ((filterIndex & 1) !== 0 || !version.prerelease) &&
+        ((filterIndex & 2) !== 0 || !version.semVer2)
+    )
+  );
+
+/**
+ * Gets the visible versions of an indexed package
+ * @param packageType - Lower-cased package type name, or undefined for any package type
+ */
+const getIndexedVisibleVersions = (
+  indexed: IndexedPackage,
+  filter: SearchFilterOptions,
+  packageType: string | undefined
+): IndexedVersion[] => {
+  const listed = indexed.listedVersions[getVersionFilterIndex(filter)]!;
+  return packageType === undefined
+    ? listed
+    : listed.filter((version) => version.packageTypes.includes(packageType));
+};
+
+/**
+ * Collects all suffixes of the search tokens of a package version
+ * @remarks Fields are matched by substrings, and a token contains a text when one of its suffixes starts with it.
+ */
+const collectTokenSuffixes = (
+  suffixes: Set<string>,
+  metadata: PackageMetadata
+) => {
+  for (const text of [
+    metadata.id,
+    metadata.title,
+    metadata.description,
+    metadata.summary,
+    metadata.authors,
+    ...(metadata.tags || []),
+  ]) {
+    if (text) {
+      for (const token of tokenizeSearchText(text)) {
+        for (let index = 0; index < token.length; index++) {
+          suffixes.add(token.slice(index));
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Creates postings looked up by key prefixes
+ * @returns Prefix postings instance
+ * @remarks
+ * Keys are kept in a sorted array and looked up by binary search.
+ * The array is sorted lazily on the first lookup, then maintained by binary insertion and removal,
+ * so bulk loading does not pay for repeated insertions.
+ */
+const createPrefixPostings = (): PrefixPostings => {
+  const postings = new Map<string, Set<string>>();
+  let sortedKeys: string[] | undefined;
+
+  /**
+   * Gets the index of the first sorted key not less than the text
+   */
+  const lowerBound = (keys: string[], text: string): number => {
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (keys[middle]! < text) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  };
+
+  return {
+    add: (key: string, lowerId: string): void => {
+      const ids = postings.get(key);
+      if (ids) {
+        ids.add(lowerId);
+        return;
+      }
+      postings.set(key, new Set([lowerId]));
+      sortedKeys?.splice(lowerBound(sortedKeys, key), 0, key);
+    },
+
+    remove: (key: string, lowerId: string): void => {
+      const ids = postings.get(key);
+      if (!ids) {
+        return;
+      }
+      ids.delete(lowerId);
+      if (ids.size === 0) {
+        postings.delete(key);
+        sortedKeys?.splice(lowerBound(sortedKeys, key), 1);
+      }
+    },
+
+    findByPrefix: (prefix: string): Set<string> => {
+      if (!sortedKeys) {
+        sortedKeys = Array.from(postings.keys()).sort();
+      }
+      const result = new Set<string>();
+      for (
+        let index = lowerBound(sortedKeys, prefix);
+        index < sortedKeys.length && sortedKeys[index]!.startsWith(prefix);
+        index++
+      ) {
+        for (const id of postings.get(sortedKeys[index]!)!) {
+          result.add(id);
+        }
+      }
+      return result;
+    },
+
+    clear: (): void => {
+      postings.clear();
+      sortedKeys = undefined;
+    },
+  };
+};
+
+/**
+ * Intersects package ID sets, starting from the smallest one
+ */
+const intersectPackageIds = (sets: Set<string>[]): Set<string> => {
+  const [smallest, ...rest] = [...sets].sort((a, b) => a.size - b.size);
+  const result = new Set<string>();
+  for (const id of smallest!) {
+    if (rest.every((set) => set.has(id))) {
+      result.add(id);
+    }
+  }
+  return result;
+};
+
+/**
+ * Creates an in-memory inverted search index
+ * @param getPackageDownloads - Gets all-time downloads of a package, used as the tie-breaker of equal scores
+ * @returns Search index instance
+ * @remarks
+ * Query terms are narrowed down with token suffix postings first, then only the candidate packages are scored.
+ * Queries without narrowing terms page through cached lists of visible package IDs.
+ * The index is not thread-safe by itself, updates are serialized by the metadata service lock.
+ */
+export const createSearchIndex = (
+  getPackageDownloads: (packageId: string) => number = () => 0
+): SearchIndex => {
+  const packages = new Map<string, IndexedPackage>();
+  const tokenSuffixPostings = createPrefixPostings();
+  const idPostings = createPrefixPostings();
+  const idSegmentPostings = createPrefixPostings();
+  const versionPostings = new Map<string, Set<string>>();
+  const collator = new Intl.Collator(undefined, { sensitivity: 'base' });
+  let sortedPackageIds: string[] | undefined;
+  const visiblePackageIds = new Map<string, string[]>();
+
+  const removeIndexedPackage = (lowerId: string) => {
+    const indexed = packages.get(lowerId);
+    if (!indexed) {
+      return;
+    }
+    for (const suffix of indexed.tokenSuffixes) {
+      tokenSuffixPostings.remove(suffix, lowerId);
+    }
+    idPostings.remove(lowerId, lowerId);
+    for (const segment of indexed.idSegments) {
+      idSegmentPostings.remove(segment, lowerId);
+    }
+    for (const version of indexed.normalizedVersions) {
+      const ids = versionPostings.get(version);
+      if (ids) {
+        ids.delete(lowerId);
+        if (ids.size === 0) {
+          versionPostings.delete(version);
+        }
+      }
+    }
+    packages.delete(lowerId);
+  };
+
+  /**
+   * Compares lower-cased package IDs by the actual IDs of their latest versions
+   */
+  const comparePackageIds = (a: string, b: string): number =>
+    collator.compare(
+      packages.get(a)!.versions[0]!.metadata.id,
+      packages.get(b)!.versions[0]!.metadata.id
+    );
+
+  /**
+   * Gets all package IDs sorted by their actual IDs (cached until a package is added or removed)
+   */
+  const getSortedPackageIds = (): string[] => {
+    if (!sortedPackageIds) {
+      sortedPackageIds = Array.from(packages.keys()).sort(comparePackageIds);
+    }
+    return sortedPackageIds;
+  };
+
+  /**
+   * Gets sorted IDs of packages having visible versions (cached until any package is updated)
+   * @param packageType - Lower-cased package type name, or undefined for any package type
+   */
+  const getVisiblePackageIds = (
+    filter: SearchFilterOptions,
+    packageType: string | undefined
+  ): string[] => {
+    const key = `${getVersionFilterIndex(filter)}:${packageType ?? ''}`;
+    let ids = visiblePackageIds.get(key);
+    if (!ids) {
+      ids = getSortedPackageIds().filter(
+        (lowerId) =>
+          getIndexedVisibleVersions(packages.get(lowerId)!, filter, packageType)
+            .length > 0
+      );
+      visiblePackageIds.set(key, ids);
+    }
+    return ids;
+  };
+
+  /**
+   * Gets candidate package IDs for a query term
+   * @returns Superset of the packages matching the term, undefined when the term cannot narrow down candidates
+   */
+  const findCandidates = (term: SearchQueryTerm): Set<string> | undefined => {
+    if (term.field === 'version') {
+      return new Set(
+        versionPostings.get(normalizeVersion(term.value).toLowerCase())
+      );
+    }
+    // Any field containing the term value has a token containing every token of it
+    const pieces = tokenizeSearchText(term.value);
+    if (pieces.length === 0) {
+      return undefined;
+    }
+    return intersectPackageIds(
+      pieces.map((piece) => tokenSuffixPostings.findByPrefix(piece))
+    );
+  };
+
+  return {
+    /**
+     * Adds or replaces a package in the index
+     * @param packageId - Package identifier
+     * @param versions - All versions of the package in descending order (newest first)
+     * @remarks Call it again after changing the listed state of a version, since visible versions are precomputed.
+     */
+    updatePackage: (packageId: string, versions: PackageMetadata[]): void => {
+      const lowerId = packageId.toLowerCase();
+      visiblePackageIds.clear();
+      if (versions.length === 0) {
+        removeIndexedPackage(lowerId);
+        sortedPackageIds = undefined;
+        return;
+      }
+
+      const previousId = packages.get(lowerId)?.versions[0]?.metadata.id;
+      removeIndexedPackage(lowerId);
+
+      const indexedVersions = versions.map(createIndexedVersion);
+      const indexed: IndexedPackage = {
+        versions: indexedVersions,
+        listedVersions: createListedVersions(indexedVersions),
+        tokenSuffixes: new Set(),
+        idSegments: new Set(indexedVersions[0]!.target.idSegments),
+        normalizedVersions: new Set(),
+      };
+      for (const metadata of versions) {
+        collectTokenSuffixes(indexed.tokenSuffixes, metadata);
+        indexed.normalizedVersions.add(
+          normalizeVersion(metadata.version).toLowerCase()
+        );
+      }
+      for (const suffix of indexed.tokenSuffixes) {
+        tokenSuffixPostings.add(suffix, lowerId);
+      }
+      idPostings.add(lowerId, lowerId);
+      for (const segment of indexed.idSegments) {
+        idSegmentPostings.add(segment, lowerId);
+      }
+      for (const version of indexed.normalizedVersions) {
+        const ids = versionPostings.get(version);
+        if (ids) {
+          ids.add(lowerId);
+        } else {
+          versionPostings.set(version, new Set([lowerId]));
+        }
+      }
+      packages.set(lowerId, indexed);
+
+      // New package, or the actual ID (ordering key) of the latest version changed
+      if (previousId !== versions[0]!.id) {
+        sortedPackageIds = undefined;
+      }
+    },
+
+    /**
+     * Removes a package from the index
+     * @param packageId - Package identifier
+     */
+    removePackage: (packageId: string): void => {
+      removeIndexedPackage(packageId.toLowerCase());
+      sortedPackageIds = undefined;
+      visiblePackageIds.clear();
+    },
+
+    /**
+     * Removes all packages from the index
+     */
+    clear: (): void => {
+      packages.clear();
+      tokenSuffixPostings.clear();
+      idPostings.clear();
+      idSegmentPostings.clear();
+      versionPostings.clear();
+      sortedPackageIds = undefined;
+      visiblePackageIds.clear();
+    },
+
+    /**
+     * Searches packages
+     * @param query - Search query
+     * @returns Matched packages ordered by relevance, then by downloads, then alphabetically
+     */
+    search: (query: SearchIndexQuery): SearchIndexResult => {
+      const { terms, filter } = query;
+      const packageType = filter.packageType?.toLowerCase();
+
+      const createHit = (lowerId: string): SearchIndexHit | undefined => {
+        const visible = getIndexedVisibleVersions(
+          packages.get(lowerId)!,
+          filter,
+          packageType
+        );
+        if (visible.length === 0) {
+          return undefined;
+        }
+        // Fields come from the latest visible version
+        const score =
+          terms.length > 0
+            ? scoreSearchTarget(
+                {
+                  ...visible[0]!.target,
+                  versions: visible.map((version) => version.metadata.version),
+                },
+                terms
+              )
+            : 0;
+        return score === undefined
+          ? undefined
+          : {
+              packageId: visible[0]!.metadata.id,
+              versions: visible.map((version) => version.metadata),
+              score,
+            };
+      };
+
+      // Without terms, only the requested page is materialized
+      if (terms.length === 0) {
+        const ids = getVisiblePackageIds(filter, packageType);
+        return {
+          totalHits: ids.length,
+          hits: ids
+            .slice(query.skip, query.skip + query.take)
+            .map((lowerId) => createHit(lowerId)!),
+        };
+      }
+
+      // Narrow down candidates with the postings
+      const termCandidates = terms
+        .map(findCandidates)
+        .filter((ids): ids is Set<string> => ids !== undefined);
+      const candidates =
+        termCandidates.length > 0
+          ? intersectPackageIds(termCandidates)
+          : getVisiblePackageIds(filter, packageType);
+
+      const matches: SearchIndexHit[] = [];
+      for (const lowerId of candidates) {
+        const hit = createHit(lowerId);
+        if (hit) {
+          matches.push(hit);
+        }
+      }
+
+      // Downloads break ties, then the alphabetical order
+      const downloads = new Map(
+        matches.map((match) => [
+          match.packageId,
+          getPackageDownloads(match.packageId),
+        ])
+      );
+      matches.sort(
+        (a, b) =>
+          b.score - a.score ||
+          downloads.get(b.packageId)! - downloads.get(a.packageId)! ||
+          comparePackageIds(
+            a.packageId.toLowerCase(),
+            b.packageId.toLowerCase()
+          )
+      );
+
+      return {
+        totalHits: matches.length,
+        hits: matches.slice(query.skip, query.skip + query.take),
+      };
+    },
+
+    /**
+     * Completes package IDs
+     * @param query - Package ID completion query
+     * @returns Package IDs starting with the prefix, followed by package IDs having a segment starting with it (e.g. `json` completes `Newtonsoft.Json`)
+     */
+    autocompletePackageIds: (
+      query: SearchAutocompleteQuery
+    ): SearchAutocompleteResult => {
+      const prefix = query.prefix.trim().toLowerCase();
+      const packageType = query.filter.packageType?.toLowerCase();
+
+      const getLatestIds = (lowerIds: string[]): string[] =>
+        lowerIds.map(
+          (lowerId) =>
+            getIndexedVisibleVersions(
+              packages.get(lowerId)!,
+              query.filter,
+              packageType
+            )[0]!.metadata.id
+        );
+
+      if (prefix === '') {
+        const ids = getVisiblePackageIds(query.filter, packageType);
+        return {
+          totalHits: ids.length,
+          packageIds: getLatestIds(
+            ids.slice(query.skip, query.skip + query.take)
+          ),
+        };
+      }
+
+      const isVisible = (lowerId: string) =>
+        getIndexedVisibleVersions(
+          packages.get(lowerId)!,
+          query.filter,
+          packageType
+        ).length > 0;
+      const prefixMatches = Array.from(idPostings.findByPrefix(prefix))
+        .filter(isVisible)
+        .sort(comparePackageIds);
+      const prefixMatchSet = new Set(prefixMatches);
+      const segmentMatches = Array.from(idSegmentPostings.findByPrefix(prefix))
+        .filter((lowerId) => !prefixMatchSet.has(lowerId) && isVisible(lowerId))
+        .sort(comparePackageIds);
+
+      const matches = prefixMatches.concat(segmentMatches);
+      return {
+        totalHits: matches.length,
+        packageIds: getLatestIds(
+          matches.slice(query.skip, query.skip + query.take)
+        ),
+      };
+    },
+
+    /**
+     * Gets visible versions of a package
+     * @param packageId - Package identifier
+     * @param filter - Version filter options
+     * @returns Visible versions in descending order (newest first)
+     */
+    getVisibleVersions: (
+      packageId: string,
+      filter: SearchFilterOptions
+    ): PackageMetadata[] => {
+      const indexed = packages.get(packageId.toLowerCase());
+      if (!indexed) {
+        return [];
+      }
+      return getIndexedVisibleVersions(
+        indexed,
+        filter,
+        filter.packageType?.toLowerCase()
+      ).map((version) => version.metadata);
+    },
+  };
+};
@@ -19,14 +19,49 @@ import {
   getMinPasswordScore,
 } from '../utils/passwordStrength';
 
+/**
+ * Operation an API password can be restricted to
+ */
+export type ApiPasswordScope = 'read' | 'push' | 'delete';
+
+/**
+ * All API password scopes
+ */
+export const apiPasswordScopes: readonly ApiPasswordScope[] = [
+  'read',
+  'push',
+  'delete',
+];
+
+/**
+ * Restrictions of an API password
+ * @remarks Omitted restrictions grant everything the user's role grants.
+ */
+export interface ApiPasswordOptions {
+  scopes?: ApiPasswordScope[];
+  packagePatterns?: string[]; // Package ID glob patterns (`*` and `?`) allowed to push and delete
+  expiresAt?: string;
+}
+
 /**
  * API password data structure
  */
-export interface ApiPassword {
+export interface ApiPassword extends ApiPasswordOptions {
   label: string;
   passwordHash: string;
   salt: string;
   createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * Result of a successful API password validation
+ */
+export interface ApiPasswordMatch {
+  user: User;
+  label?: string; // Undefined for the legacy single API password
+  scopes?: ApiPasswordScope[];
+  packagePatterns?: string[];
 }
 
 /**
@@ -65,16 +100,19 @@ export interface RegenerateApiPasswordResponse {
  * API password list response
  */
 export interface ApiPasswordListResponse {
-  apiPasswords: Array<{
-    label: string;
-    createdAt: string;
-  }>;
+  apiPasswords: Array<
+    ApiPasswordOptions & {
+      label: string;
+      createdAt: string;
+      lastUsedAt?: string;
+    }
+  >;
 }
 
 /**
  * API password add response
  */
-export interface ApiPasswordAddResponse {
+export interface ApiPasswordAddResponse extends ApiPasswordOptions {
   label: string;
   apiPassword: string;
   createdAt: string;
@@ -103,7 +141,7 @@ export interface UserServiceConfig {
  */
 export interface UserService {
   readonly initialize: () => Promise<void>;
-  readonly destroy: () => void;
+  readonly destroy: () => Promise<void>;
   readonly createUser: (request: CreateUserRequest) => Promise<User>;
   readonly getUser: (username: string) => Promise<User | undefined>;
   readonly getAllUsers: () => Promise<User[]>;
@@ -123,6 +161,10 @@ export interface UserService {
     username: string,
     apiPassword: string
   ) => Promise<User | undefined>;
+  readonly matchApiPassword: (
+    username: string,
+    apiPassword: string
+  ) => Promise<ApiPasswordMatch | undefined>;
   readonly getUserCount: () => Promise<number>;
   readonly isReady: () => boolean;
   // New methods for multiple API passwords
@@ -131,7 +173,8 @@ export interface UserService {
   ) => Promise<ApiPasswordListResponse | undefined>;
   readonly addApiPassword: (
     username: string,
-    label: string
+    label: string,
+    options?: ApiPasswordOptions
   ) => Promise<ApiPasswordAddResponse | undefined>;
   readonly deleteApiPassword: (
     username: string,
@@ -141,8 +184,106 @@ export interface UserService {
     username: string,
     apiPassword: string
   ) => Promise<User | undefined>;
+  readonly validateApiKey: (
+    apiKey: string
+  ) => Promise<ApiPasswordMatch | undefined>;
 }
 
+/**
+ * Interval of saving the last used times of API passwords
+ * @remarks API passwords are used on every authenticated request, so users.json is not rewritten each time.
+ */
+const lastUsedSaveInterval = 60 * 1000;
+
+/**
+ * Checks whether a package ID matches an API password package glob pattern
+ * @param pattern - Glob pattern, `*` matches any characters and `?` matches one character
+ * @param packageId - Package ID
+ * @returns True if the package ID matches (case-insensitive)
+ */
+export const matchesPackagePattern = (
+  pattern: string,
+  packageId: string
+): boolean => {
+  const regex = pattern
+    .split('')
+    .map((c) =>
+      c === '*'
+        ? '.*'
+        : c === '?'
+          ? '.'
+          : c.replace(/[.+^${}()|[\]\\-]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${regex}$`, 'i').test(packageId);
+};
+
+/**
+ * Validates API password restrictions
+ * @param options - Requested restrictions
+ * @returns Normalized restrictions
+ * @throws Error when a restriction is invalid
+ */
+const validateApiPasswordOptions = (
+  options: ApiPasswordOptions
+): ApiPasswordOptions => {
+  const result: ApiPasswordOptions = {};
+
+  if (options.scopes !== undefined) {
+    if (
+      !Array.isArray(options.scopes) ||
+      options.scopes.length === 0 ||
+      options.scopes.some((scope) => !apiPasswordScopes.includes(scope))
+    ) {
+      throw new Error(
+        `Scopes must be some of: ${apiPasswordScopes.join(', ')}`
+      );
+    }
+    // Kept in the canonical order without duplicates
+    result.scopes = apiPasswordScopes.filter((scope) =>
+      options.scopes!.includes(scope)
+    );
+  }
+
+  if (options.packagePatterns !== undefined) {
+    if (
+      !Array.isArray(options.packagePatterns) ||
+      options.packagePatterns.some((pattern) => typeof pattern !== 'string')
+    ) {
+      throw new Error('Package patterns must be a list of package ID patterns');
+    }
+    const patterns = Array.from(
+      new Set(
+        options.packagePatterns
+          .map((pattern) => pattern.trim())
+          .filter((pattern) => pattern.length > 0)
+      )
+    );
+    const invalidPattern = patterns.find(
+      (pattern) => !/^[A-Za-z0-9_.*?-]+$/.test(pattern)
+    );
+    if (invalidPattern) {
+      throw new Error(`Invalid package pattern: ${invalidPattern}`);
+    }
+    if (patterns.length > 0) {
+      result.packagePatterns = patterns;
+    }
+  }
+
+  if (options.expiresAt !== undefined) {
+    const expiresAt = new Date(options.expiresAt);
+    if (isNaN(expiresAt.getTime())) {
+      throw new Error('Invalid expiration date');
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new Error('Expiration date must be in the future');
+    }
+    result.expiresAt = expiresAt.toISOString();
+  }
+
+  return result;
+};
+
 /**
  * Creates a user service instance for managing JSON-based user data
  * @param config - User service configuration
@@ -155,6 +296,8 @@ export const createUserService = (config: UserServiceConfig): UserService => {
   let users: Map<string, User> = new Map();
   let isInitialized = false;
   const fileLock = createReaderWriterLock();
+  const pendingLastUsedTimes = new Map<string, string>(); // "username\nlabel" to ISO 8601
+  let lastUsedSaveTimer: NodeJS.Timeout | undefined = undefined;
 
   /**
    * Loads users from the JSON file with exclusive lock
@@ -239,6 +382,75 @@ export const createUserService = (config: UserServiceConfig): UserService => {
     }
   };
 
+  /**
+   * Gets the key of an API password in the pending last used times
+   */
+  const getApiPasswordKey = (username: string, label: string): string =>
+    `${username}\n${label}`;
+
+  /**
+   * Saves the pending last used times of API passwords to users.json
+   * @remarks Saved through the same lock and rollback as other user changes, so it never overwrites them.
+   * Failed times are kept and saved with the next flush.
+   */
+  const flushLastUsedTimes = async (): Promise<void> => {
+    const handle = await fileLock.writeLock();
+    try {
+      if (pendingLastUsedTimes.size === 0) {
+        return;
+      }
+      const flushing = new Map(pendingLastUsedTimes);
+      try {
+        await persistUsersMutation(() => {
+          for (const user of users.values()) {
+            for (const apiPassword of user.apiPasswords || []) {
+              const lastUsedAt = flushing.get(
+                getApiPasswordKey(user.username, apiPassword.label)
+              );
+              if (lastUsedAt) {
+                apiPassword.lastUsedAt = lastUsedAt;
+              }
+            }
+          }
+        });
+      } catch (error: any) {
+        logger.error(
+          `Failed to save last used times of API passwords: ${error.message}`
+        );
+        return;
+      }
+      // Times recorded while saving are kept for the next flush
+      for (const [key, lastUsedAt] of flushing) {
+        if (pendingLastUsedTimes.get(key) === lastUsedAt) {
+          pendingLastUsedTimes.delete(key);
+        }
+      }
+    } finally {
+      handle.release();
+    }
+  };
+
+  /**
+   * Records the last used time of an API password
+   * @remarks The time is kept in memory and saved to users.json by a batched flush,
+   * so authentication neither waits for nor fails by the write.
+   */
+  const recordApiPasswordUse = (username: string, label: string): void => {
+    pendingLastUsedTimes.set(
+      getApiPasswordKey(username, label),
+      new Date().toISOString()
+    );
+    if (lastUsedSaveTimer) {
+      return;
+    }
+    lastUsedSaveTimer = setTimeout(() => {
+      lastUsedSaveTimer = undefined;
+      void flushLastUsedTimes();
+    }, lastUsedSaveInterval);
+    // Pending times must not keep the process alive, they are saved by destroy()
+    lastUsedSaveTimer.unref();
+  };
+
   /**
    * Validates username format and uniqueness
    */
@@ -330,8 +542,14 @@ export const createUserService = (config: UserServiceConfig): UserService => {
 
     /**
      * Destroys the user service and cleans up resources
+     * @remarks Pending last used times of API passwords are saved first.
      */
-    destroy: (): void => {
+    destroy: async (): Promise<void> => {
+      if (lastUsedSaveTimer) {
+        clearTimeout(lastUsedSaveTimer);
+        lastUsedSaveTimer = undefined;
+      }
+      await flushLastUsedTimes();
       users.clear();
       isInitialized = false;
     },
@@ -534,6 +752,20 @@ export const createUserService = (config: UserServiceConfig): UserService => {
       username: string,
       apiPassword: string
     ): Promise<User | undefined> => {
+      const match = await service.matchApiPassword(username, apiPassword);
+      return match?.user;
+    },
+
+    /**
+     * Validates API password and identifies which API password matched
+     * @param username - Username
+     * @param apiPassword - API password
+     * @returns Matched user and API password label if valid, undefined otherwise
+     */
+    matchApiPassword: async (
+      username: string,
+      apiPassword: string
+    ): Promise<ApiPasswordMatch | undefined> => {
       const user = users.get(username);
       if (!user) {
         return undefined;
@@ -542,13 +774,22 @@ export const createUserService = (config: UserServiceConfig): UserService => {
       // First check new apiPasswords array
       if (user.apiPasswords && user.apiPasswords.length > 0) {
         for (const apiPwd of user.apiPasswords) {
+          if (apiPwd.expiresAt && Date.parse(apiPwd.expiresAt) <= Date.now()) {
+            continue;
+          }
           const isValid = verifyPassword(
             apiPassword,
             apiPwd.passwordHash,
             apiPwd.salt
           );
           if (isValid) {
-            return user;
+            recordApiPasswordUse(username, apiPwd.label);
+            return {
+              user,
+              label: apiPwd.label,
+              scopes: apiPwd.scopes,
+              packagePatterns: apiPwd.packagePatterns,
+            };
           }
         }
       } else if (user.apiPasswordHash && user.apiPasswordSalt) {
@@ -559,7 +800,7 @@ export const createUserService = (config: UserServiceConfig): UserService => {
           user.apiPasswordSalt
         );
         if (isValid) {
-          return user;
+          return { user };
         }
       }
 
@@ -619,6 +860,12 @@ export const createUserService = (config: UserServiceConfig): UserService => {
         apiPasswords: sortedPasswords.map((p) => ({
           label: p.label,
           createdAt: p.createdAt,
+          scopes: p.scopes,
+          packagePatterns: p.packagePatterns,
+          expiresAt: p.expiresAt,
+          lastUsedAt:
+            pendingLastUsedTimes.get(getApiPasswordKey(username, p.label)) ??
+            p.lastUsedAt,
         })),
       };
     },
@@ -627,11 +874,13 @@ export const createUserService = (config: UserServiceConfig): UserService => {
      * Adds a new API password for a user
      * @param username - Username
      * @param label - Label for the API password
+     * @param options - Scopes, package patterns and expiration restricting the API password
      * @returns New API password or undefined if user not found
      */
     addApiPassword: async (
       username: string,
-      label: string
+      label: string,
+      options: ApiPasswordOptions = {}
     ): Promise<ApiPasswordAddResponse | undefined> => {
       const handle = await fileLock.writeLock();
       try {
@@ -649,6 +898,8 @@ export const createUserService = (config: UserServiceConfig): UserService => {
           throw new Error('Label cannot exceed 50 characters');
         }
 
+        const restrictions = validateApiPasswordOptions(options);
+
         const result = await persistUsersMutation(() => {
           // Initialize apiPasswords array if it doesn't exist
           if (!user.apiPasswords) {
@@ -688,6 +939,7 @@ export const createUserService = (config: UserServiceConfig): UserService => {
             passwordHash,
             salt,
             createdAt: now,
+            ...restrictions,
           });
 
           user.updatedAt = now;
@@ -696,6 +948,7 @@ export const createUserService = (config: UserServiceConfig): UserService => {
             label,
             apiPassword,
             createdAt: now,
+            ...restrictions,
           };
         });
 
@@ -777,6 +1030,30 @@ export const createUserService = (config: UserServiceConfig): UserService => {
       // This is essentially the same as validateApiPassword now
       return service.validateApiPassword(username, apiPassword);
     },
+
+    /**
+     * Validates a NuGet API key (X-NuGet-ApiKey header) against all users' API passwords
+     * @param apiKey - API key sent by the NuGet client
+     * @returns User owning the API password and its label, undefined otherwise
+     * @remarks NuGet clients do not send a username with the API key,
+     * so every registered API password is checked.
+     */
+    validateApiKey: async (
+      apiKey: string
+    ): Promise<ApiPasswordMatch | undefined> => {
+      if (!apiKey) {
+        return undefined;
+      }
+
+      for (const user of users.values()) {
+        const match = await service.matchApiPassword(user.username, apiKey);
+        if (match) {
+          return match;
+        }
+      }
+
+      return undefined;
+    },
   };
 
   return service;
@@ -43,11 +43,33 @@ export type AuthMode = 'none' | 'publish' | 'full';
  */
 export type DuplicatePackagePolicy = 'overwrite' | 'ignore' | 'error';
 
+/**
+ * Package delete handling policy
+ */
+export type DeletePackagePolicy = 'unlist' | 'delete';
+
 /**
  * Missing package response mode
  */
 export type MissingPackageResponseMode = 'empty-array' | 'not-found';
 
+/**
+ * Package metadata which can be required by publish validation rules
+ */
+export type PublishRequiredMetadata = 'license' | 'repository' | 'projectUrl';
+
+/**
+ * Publish validation rules (company policy enforced at push time)
+ */
+export interface PublishValidationRules {
+  allowedIdPrefixes?: string[]; // Package ID must start with one of them (case-insensitive)
+  requiredMetadata?: PublishRequiredMetadata[];
+  maxPackageSizeMb?: number;
+  prereleaseOnlyUsers?: string[]; // Users allowed to publish prerelease versions only
+  forbiddenDependencies?: string[]; // Package IDs which must not be depended on (case-insensitive)
+  requiredTargetFrameworks?: string[]; // Target framework monikers (e.g. "netstandard2.0")
+}
+
 /**
  * Server configuration
  */
@@ -65,8 +87,10 @@ export interface ServerConfig {
   passwordMinScore?: number; // 0-4, default: 2 (Good)
   passwordStrengthCheck?: boolean; // default: true
   duplicatePackagePolicy?: DuplicatePackagePolicy; // default: "ignore"
+  deletePackagePolicy?: DeletePackagePolicy; // default: "unlist"
   maxUploadSizeMb?: number; // Maximum upload size in MB, default: 100
   missingPackageResponse?: MissingPackageResponseMode; // default: "empty-array"
+  publishValidation?: PublishValidationRules; // default: no rules
 }
 
 /**
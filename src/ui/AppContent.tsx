@@ -27,6 +27,8 @@ import UserDeleteDrawer from './components/UserDeleteDrawer';
 import ApiPasswordDrawer from './components/ApiPasswordDrawer';
 import UserPasswordChangeDrawer from './components/UserPasswordChangeDrawer';
 import UserAvatarMenu from './components/UserAvatarMenu';
+import SecurityAdvisoryDrawer from './components/SecurityAdvisoryDrawer';
+import PackageOwnershipDrawer from './components/PackageOwnershipDrawer';
 import LoginDialog from './components/LoginDialog';
 import RepositoryCommandAccordion from './components/RepositoryCommandAccordion';
 import { name, repository_url, version } from '../generated/packageMetadata';
@@ -92,6 +94,8 @@ const AppContent = ({
   const [apiPasswordDrawerOpen, setApiPasswordDrawerOpen] = useState(false);
   const [passwordChangeDrawerOpen, setPasswordChangeDrawerOpen] =
     useState(false);
+  const [advisoryDrawerOpen, setAdvisoryDrawerOpen] = useState(false);
+  const [ownershipDrawerOpen, setOwnershipDrawerOpen] = useState(false);
   const [loginDialogOpenState, setLoginDialogOpenState] = useState(false);
 
   // Use prop if provided, otherwise use local state
@@ -207,6 +211,24 @@ const AppContent = ({
     setPasswordChangeDrawerOpen(false);
   };
 
+  const handleCloseAdvisoryDrawer = () => {
+    setAdvisoryDrawerOpen(false);
+  };
+
+  const handleCloseOwnershipDrawer = () => {
+    setOwnershipDrawerOpen(false);
+  };
+
+  const handleOwnershipChanged = () => {
+    // Update owners of the package list
+    packageListRef.current?.refresh();
+  };
+
+  const handleAdvisoriesChanged = () => {
+    // Update vulnerability badges of the package list
+    packageListRef.current?.refresh();
+  };
+
   const handleLoginSuccess = (username: string) => {
     setLoginDialogOpen(false);
     // Show success notification
@@ -497,6 +519,8 @@ const AppContent = ({
               onDeleteUser={() => setUserDeleteDrawerOpen(true)}
               onChangePassword={() => setPasswordChangeDrawerOpen(true)}
               onApiPassword={() => setApiPasswordDrawerOpen(true)}
+              onSecurityAdvisories={() => setAdvisoryDrawerOpen(true)}
+              onPackageOwnership={() => setOwnershipDrawerOpen(true)}
               onLogout={handleLogout}
               onLanguageChange={onLanguageChange}
               onThemeChange={onThemeChange}
@@ -534,7 +558,9 @@ const AppContent = ({
             passwordResetDrawerOpen ||
             userDeleteDrawerOpen ||
             apiPasswordDrawerOpen ||
-            passwordChangeDrawerOpen
+            passwordChangeDrawerOpen ||
+            advisoryDrawerOpen ||
+            ownershipDrawerOpen
               ? '500px'
               : undefined,
         }}
@@ -576,6 +602,18 @@ const AppContent = ({
         onClose={handleClosePasswordChangeDrawer}
       />
 
+      <SecurityAdvisoryDrawer
+        open={advisoryDrawerOpen}
+        onClose={handleCloseAdvisoryDrawer}
+        onAdvisoriesChanged={handleAdvisoriesChanged}
+      />
+
+      <PackageOwnershipDrawer
+        open={ownershipDrawerOpen}
+        onClose={handleCloseOwnershipDrawer}
+        onOwnershipChanged={handleOwnershipChanged}
+      />
+
       <LoginDialog
         open={loginDialogOpen}
         onClose={handleCloseLoginDialog}
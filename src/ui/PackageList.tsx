@@ -21,16 +21,22 @@ import {
   Box,
   Button,
   TextField,
+  Badge,
+  Tooltip,
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import PackageIcon from '@mui/icons-material/Inventory';
 import PackageSourceIcon from '@mui/icons-material/Source';
 import DownloadIcon from '@mui/icons-material/Download';
+import DeprecationIcon from '@mui/icons-material/Warning';
 import InfiniteScroll from 'react-infinite-scroll-component';
-import { sortVersions } from '../utils/semver';
+import { satisfiesVersionRange, sortVersions } from '../utils/semver';
 import { apiFetch } from './utils/apiClient';
 import { filterPackages } from './packageFilter';
 import { createPackageListViewState } from './packageListViewState';
+import PackageDeprecationDrawer from './components/PackageDeprecationDrawer';
+import { severityColors } from './components/SecurityAdvisoryDrawer';
+import PackageReadmeAccordion from './components/PackageReadmeAccordion';
 import { TypedMessage, useTypedMessage } from 'typed-message';
 import { messages } from '../generated/messages';
 
@@ -54,6 +60,7 @@ interface SearchResult {
   projectUrl?: string;
   tags: string[];
   authors: string[];
+  owners: string[];
   targetFrameworks: string[];
   totalDownloads: number;
   verified: boolean;
@@ -74,6 +81,19 @@ interface SearchResponse {
   data: SearchResult[];
 }
 
+interface VulnerabilityIndexPage {
+  '@name': string;
+  '@id': string;
+}
+
+interface VulnerabilityEntry {
+  severity: number; // 0: low, 1: moderate, 2: high, 3: critical
+  url: string;
+  versions: string;
+}
+
+const severityKeys = ['low', 'moderate', 'high', 'critical'] as const;
+
 interface ServerConfig {
   realm: string;
   name: string;
@@ -183,8 +203,18 @@ const PackageList = forwardRef<PackageListRef, PackageListProps>(
       new Set()
     );
     const [filterText, setFilterText] = useState('');
+    const [deprecationPackage, setDeprecationPackage] =
+      useState<SearchResult | null>(null);
+    const [vulnerabilities, setVulnerabilities] = useState<
+      Record<string, VulnerabilityEntry[]>
+    >({});
     const pageSize = 20;
 
+    // Publishers and administrators can manage deprecation
+    const canManagePackages =
+      serverConfig?.authMode === 'none' ||
+      ['publish', 'admin'].includes(serverConfig?.currentUser?.role ?? '');
+
     // Helper function to sort SearchResultVersion arrays using the shared semver logic
     const sortPackageVersions = (
       versions: SearchResultVersion[]
@@ -198,6 +228,49 @@ const PackageList = forwardRef<PackageListRef, PackageListProps>(
       );
     };
 
+    // Loads vulnerability pages to show badges on affected versions
+    const fetchVulnerabilities = async () => {
+      try {
+        const indexResponse = await apiFetch('v3/vulnerabilities/index.json', {
+          credentials: 'same-origin',
+        });
+        if (!indexResponse.ok) {
+          return;
+        }
+        const index: VulnerabilityIndexPage[] = await indexResponse.json();
+        const merged: Record<string, VulnerabilityEntry[]> = {};
+        for (const page of index) {
+          const pageResponse = await apiFetch(
+            `v3/vulnerabilities/${page['@name']}.json`,
+            {
+              credentials: 'same-origin',
+            }
+          );
+          if (!pageResponse.ok) {
+            continue;
+          }
+          const entries: Record<string, VulnerabilityEntry[]> =
+            await pageResponse.json();
+          for (const [lowerId, packageEntries] of Object.entries(entries)) {
+            merged[lowerId] = [...(merged[lowerId] ?? []), ...packageEntries];
+          }
+        }
+        setVulnerabilities(merged);
+      } catch (err) {
+        // Badges are supplemental, the package list is shown without them
+        console.warn('Failed to load vulnerability information:', err);
+      }
+    };
+
+    // Finds the most severe vulnerability affecting a package version
+    const findVulnerability = (
+      packageId: string,
+      version: string
+    ): VulnerabilityEntry | undefined =>
+      (vulnerabilities[packageId.toLowerCase()] ?? [])
+        .filter((entry) => satisfiesVersionRange(version, entry.versions))
+        .sort((a, b) => b.severity - a.severity)[0];
+
     const fetchPackages = async (isInitialLoad = true) => {
       // Early return if serverConfig is not available
       if (!serverConfig) {
@@ -222,6 +295,7 @@ const PackageList = forwardRef<PackageListRef, PackageListProps>(
         setPackages([]);
         setPage(0);
         setHasMore(true);
+        fetchVulnerabilities();
       }
 
       try {
@@ -231,7 +305,7 @@ const PackageList = forwardRef<PackageListRef, PackageListProps>(
         // Use Fastify search endpoint with pagination
         // This is absolutely terrible, but... since `query` seems to be a fixed path in VS, We're sticking with it.
         // https://github.com/kekyo/nuget-server/discussions/3
-        const searchEndpoint = `v3/query?skip=${skip}&take=${pageSize}`;
+        const searchEndpoint = `v3/query?skip=${skip}&take=${pageSize}&prerelease=true&semVerLevel=2.0.0`;
 
         const response = await apiFetch(searchEndpoint, {
           credentials: 'same-origin',
@@ -543,6 +617,18 @@ const PackageList = forwardRef<PackageListRef, PackageListProps>(
                         </Box>
                       )}
 
+                      {/* Package Owners */}
+                      {pkg.owners?.length > 0 && (
+                        <Box sx={{ mb: 2 }}>
+                          <Typography variant="subtitle2" gutterBottom>
+                            <TypedMessage message={messages.OWNERS_LABEL} />
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            {pkg.owners.join(', ')}
+                          </Typography>
+                        </Box>
+                      )}
+
                       {/* Package Tags */}
                       {pkg.tags.length > 0 && (
                         <Box sx={{ mb: 2 }}>
@@ -631,6 +717,14 @@ const PackageList = forwardRef<PackageListRef, PackageListProps>(
                         </Box>
                       )}
 
+                      {/* Package README (latest version) */}
+                      <Box sx={{ mb: 2 }}>
+                        <PackageReadmeAccordion
+                          packageId={pkg.id}
+                          version={pkg.version}
+                        />
+                      </Box>
+
                       {/* Versions List */}
                       <Typography variant="subtitle2" gutterBottom>
                         <TypedMessage
@@ -639,21 +733,74 @@ const PackageList = forwardRef<PackageListRef, PackageListProps>(
                         />
                       </Typography>
                       <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-                        {pkg.versions.map((version) => (
+                        {pkg.versions.map((version) => {
+                          const downloadButton = (
+                            <Button
+                              key={version.version}
+                              variant="outlined"
+                              size="small"
+                              startIcon={<DownloadIcon />}
+                              onClick={() => {
+                                const downloadUrl = `/v3/package/${pkg.id.toLowerCase()}/${version.version}/${pkg.id.toLowerCase()}.${version.version}.nupkg`;
+                                window.open(downloadUrl, '_blank');
+                              }}
+                            >
+                              {version.version}
+                            </Button>
+                          );
+
+                          const vulnerability = findVulnerability(
+                            pkg.id,
+                            version.version
+                          );
+                          const severity =
+                            vulnerability &&
+                            severityKeys[vulnerability.severity];
+                          if (!vulnerability || !severity) {
+                            return downloadButton;
+                          }
+
+                          // Vulnerable versions are badged with the most severe advisory
+                          const severityLabel = getMessage(
+                            {
+                              low: messages.SEVERITY_LOW,
+                              moderate: messages.SEVERITY_MODERATE,
+                              high: messages.SEVERITY_HIGH,
+                              critical: messages.SEVERITY_CRITICAL,
+                            }[severity]
+                          );
+                          return (
+                            <Tooltip
+                              key={version.version}
+                              title={`${getMessage(messages.VULNERABLE_VERSION, { severity: severityLabel })}: ${vulnerability.url}`}
+                            >
+                              <Badge
+                                color={severityColors[severity]}
+                                badgeContent={severityLabel}
+                              >
+                                {downloadButton}
+                              </Badge>
+                            </Tooltip>
+                          );
+                        })}
+                      </Box>
+
+                      {/* Package Management */}
+                      {canManagePackages && (
+                        <Box sx={{ mt: 2 }}>
                           <Button
-                            key={version.version}
-                            variant="outlined"
+                            variant="text"
                             size="small"
-                            startIcon={<DownloadIcon />}
-                            onClick={() => {
-                              const downloadUrl = `/v3/package/${pkg.id.toLowerCase()}/${version.version}/${pkg.id.toLowerCase()}.${version.version}.nupkg`;
-                              window.open(downloadUrl, '_blank');
-                            }}
+                            color="warning"
+                            startIcon={<DeprecationIcon />}
+                            onClick={() => setDeprecationPackage(pkg)}
                           >
-                            {version.version}
+                            <TypedMessage
+                              message={messages.MANAGE_DEPRECATION}
+                            />
                           </Button>
-                        ))}
-                      </Box>
+                        </Box>
+                      )}
                     </Box>
                   )}
                 </AccordionDetails>
@@ -665,6 +812,13 @@ const PackageList = forwardRef<PackageListRef, PackageListProps>(
             <TypedMessage message={messages.NO_PACKAGES_MATCH_FILTER} />
           </Alert>
         )}
+
+        <PackageDeprecationDrawer
+          open={deprecationPackage !== null}
+          onClose={() => setDeprecationPackage(null)}
+          packageId={deprecationPackage?.id ?? ''}
+          versions={deprecationPackage?.versions.map((v) => v.version) ?? []}
+        />
       </Box>
     );
   }
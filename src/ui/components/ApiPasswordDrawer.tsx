@@ -24,6 +24,9 @@ import {
   DialogTitle,
   DialogContent,
   DialogActions,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
 } from '@mui/material';
 import {
   Close as CloseIcon,
@@ -47,9 +50,17 @@ interface ApiPasswordDrawerProps {
   serverConfig: any;
 }
 
+type ApiPasswordScope = 'read' | 'push' | 'delete';
+
+const apiPasswordScopes: ApiPasswordScope[] = ['read', 'push', 'delete'];
+
 interface ApiPassword {
   label: string;
   createdAt: string;
+  scopes?: ApiPasswordScope[];
+  packagePatterns?: string[];
+  expiresAt?: string;
+  lastUsedAt?: string;
 }
 
 interface ApiPasswordListResponse {
@@ -72,6 +83,10 @@ const ApiPasswordDrawer = ({
   const [loading, setLoading] = useState(false);
   const [apiPasswords, setApiPasswords] = useState<ApiPassword[]>([]);
   const [newLabel, setNewLabel] = useState('');
+  const [newScopes, setNewScopes] =
+    useState<ApiPasswordScope[]>(apiPasswordScopes);
+  const [newPackagePatterns, setNewPackagePatterns] = useState('');
+  const [newExpiresDate, setNewExpiresDate] = useState('');
   const [newApiPassword, setNewApiPassword] =
     useState<ApiPasswordAddResponse | null>(null);
   const [deleteConfirmDialog, setDeleteConfirmDialog] = useState<string | null>(
@@ -92,11 +107,31 @@ const ApiPasswordDrawer = ({
       // Reset state when closing
       setNewApiPassword(null);
       setError(null);
-      setNewLabel('');
+      resetNewOptions();
       setDeleteConfirmDialog(null);
     }
   }, [open, serverConfig]);
 
+  const scopeLabels: Record<ApiPasswordScope, string> = {
+    read: getMessage(messages.SCOPE_READ),
+    push: getMessage(messages.SCOPE_PUSH),
+    delete: getMessage(messages.SCOPE_DELETE),
+  };
+
+  const resetNewOptions = () => {
+    setNewLabel('');
+    setNewScopes(apiPasswordScopes);
+    setNewPackagePatterns('');
+    setNewExpiresDate('');
+  };
+
+  const toggleNewScope = (scope: ApiPasswordScope) =>
+    setNewScopes((scopes) =>
+      scopes.includes(scope)
+        ? scopes.filter((s) => s !== scope)
+        : apiPasswordScopes.filter((s) => s === scope || scopes.includes(s))
+    );
+
   const loadApiPasswords = async () => {
     try {
       setLoading(true);
@@ -147,14 +182,28 @@ const ApiPasswordDrawer = ({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ action: 'add', label: newLabel.trim() }),
+        body: JSON.stringify({
+          action: 'add',
+          label: newLabel.trim(),
+          // Omitted restrictions grant everything the role grants
+          scopes:
+            newScopes.length < apiPasswordScopes.length ? newScopes : undefined,
+          packagePatterns: newPackagePatterns
+            .split(',')
+            .map((pattern) => pattern.trim())
+            .filter((pattern) => pattern.length > 0),
+          // Expires at the end of the selected day in local time
+          expiresAt: newExpiresDate
+            ? new Date(`${newExpiresDate}T23:59:59`).toISOString()
+            : undefined,
+        }),
         credentials: 'same-origin',
       });
 
       if (response.ok) {
         const data: ApiPasswordAddResponse = await response.json();
         setNewApiPassword(data);
-        setNewLabel('');
+        resetNewOptions();
         // Reload the list
         await loadApiPasswords();
       } else {
@@ -231,6 +280,9 @@ const ApiPasswordDrawer = ({
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
   };
 
+  const isExpired = (apiPwd: ApiPassword) =>
+    !!apiPwd.expiresAt && new Date(apiPwd.expiresAt).getTime() <= Date.now();
+
   const addSourceCommandWithApiPassword =
     serverConfig?.serverUrl && currentUsername && newApiPassword
       ? buildAddSourceCommand({
@@ -426,7 +478,9 @@ const ApiPasswordDrawer = ({
                   variant="contained"
                   size="small"
                   onClick={handleAddApiPassword}
-                  disabled={loading || !newLabel.trim()}
+                  disabled={
+                    loading || !newLabel.trim() || newScopes.length === 0
+                  }
                   startIcon={
                     loading ? <CircularProgress size={20} /> : <VpnKeyIcon />
                   }
@@ -442,6 +496,52 @@ const ApiPasswordDrawer = ({
               >
                 {getMessage(messages.API_PASSWORD_LABEL_HELPER)}
               </Typography>
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={{ display: 'block', mt: 1 }}
+              >
+                <TypedMessage message={messages.API_PASSWORD_SCOPES} />
+              </Typography>
+              <FormGroup row>
+                {apiPasswordScopes.map((scope) => (
+                  <FormControlLabel
+                    key={scope}
+                    control={
+                      <Checkbox
+                        size="small"
+                        checked={newScopes.includes(scope)}
+                        onChange={() => toggleNewScope(scope)}
+                        disabled={loading}
+                      />
+                    }
+                    label={scopeLabels[scope]}
+                  />
+                ))}
+              </FormGroup>
+              <TextField
+                fullWidth
+                size="small"
+                label={getMessage(messages.API_PASSWORD_PACKAGE_PATTERNS)}
+                value={newPackagePatterns}
+                onChange={(e) => setNewPackagePatterns(e.target.value)}
+                disabled={loading}
+                helperText={getMessage(
+                  messages.API_PASSWORD_PACKAGE_PATTERNS_HELPER
+                )}
+                sx={{ mt: 1 }}
+              />
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label={getMessage(messages.API_PASSWORD_EXPIRES_AT)}
+                value={newExpiresDate}
+                onChange={(e) => setNewExpiresDate(e.target.value)}
+                disabled={loading}
+                slotProps={{ inputLabel: { shrink: true } }}
+                sx={{ mt: 2 }}
+              />
             </Box>
           ) : (
             <Alert severity="warning" sx={{ mb: 2 }}>
@@ -478,6 +578,9 @@ const ApiPasswordDrawer = ({
                     <TableCell>
                       <TypedMessage message={messages.TABLE_CREATED} />
                     </TableCell>
+                    <TableCell>
+                      <TypedMessage message={messages.TABLE_LAST_USED} />
+                    </TableCell>
                     <TableCell align="right">
                       <TypedMessage message={messages.TABLE_DELETE} />
                     </TableCell>
@@ -493,12 +596,61 @@ const ApiPasswordDrawer = ({
                         >
                           {apiPwd.label}
                         </Typography>
+                        {apiPwd.scopes && (
+                          <Typography
+                            variant="caption"
+                            color="text.secondary"
+                            sx={{ display: 'block' }}
+                          >
+                            {apiPwd.scopes
+                              .map((scope) => scopeLabels[scope])
+                              .join(', ')}
+                          </Typography>
+                        )}
+                        {apiPwd.packagePatterns && (
+                          <Typography
+                            variant="caption"
+                            color="text.secondary"
+                            sx={{ display: 'block', wordBreak: 'break-all' }}
+                          >
+                            {apiPwd.packagePatterns.join(', ')}
+                          </Typography>
+                        )}
+                        {apiPwd.expiresAt && (
+                          <Typography
+                            variant="caption"
+                            color={
+                              isExpired(apiPwd) ? 'error' : 'text.secondary'
+                            }
+                            sx={{ display: 'block' }}
+                          >
+                            {isExpired(apiPwd) ? (
+                              <TypedMessage
+                                message={messages.API_PASSWORD_EXPIRED}
+                              />
+                            ) : (
+                              <TypedMessage
+                                message={messages.API_PASSWORD_EXPIRES}
+                                params={{ date: formatDate(apiPwd.expiresAt) }}
+                              />
+                            )}
+                          </Typography>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Typography variant="caption" color="text.secondary">
                           {formatDate(apiPwd.createdAt)}
                         </Typography>
                       </TableCell>
+                      <TableCell>
+                        <Typography variant="caption" color="text.secondary">
+                          {apiPwd.lastUsedAt ? (
+                            formatDate(apiPwd.lastUsedAt)
+                          ) : (
+                            <TypedMessage message={messages.NEVER_USED} />
+                          )}
+                        </Typography>
+                      </TableCell>
                       <TableCell align="right">
                         <IconButton
                           size="small"
@@ -0,0 +1,393 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { useState, useEffect } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  IconButton,
+  Divider,
+  Autocomplete,
+  FormControl,
+  FormLabel,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Warning as DeprecateIcon,
+  Restore as UndeprecateIcon,
+} from '@mui/icons-material';
+import { apiFetch } from '../utils/apiClient';
+import { TypedMessage, useTypedMessage } from 'typed-message';
+import { messages } from '../../generated/messages';
+
+type DeprecationReason = 'Legacy' | 'CriticalBugs' | 'Other';
+
+interface CatalogDeprecation {
+  reasons: DeprecationReason[];
+  message?: string;
+  alternatePackage?: {
+    id: string;
+    range: string;
+  };
+}
+
+interface PackageDeprecationDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  packageId: string;
+  versions: string[];
+}
+
+interface DeprecationResult {
+  success: boolean;
+  message: string;
+}
+
+const PackageDeprecationDrawer = ({
+  open,
+  onClose,
+  packageId,
+  versions,
+}: PackageDeprecationDrawerProps) => {
+  const getMessage = useTypedMessage();
+  const [selectedVersion, setSelectedVersion] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [deprecated, setDeprecated] = useState(false);
+  const [reasons, setReasons] = useState<DeprecationReason[]>([]);
+  const [message, setMessage] = useState('');
+  const [alternateId, setAlternateId] = useState('');
+  const [alternateRange, setAlternateRange] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<DeprecationResult | null>(null);
+
+  const reasonLabels: Record<DeprecationReason, string> = {
+    Legacy: getMessage(messages.DEPRECATION_REASON_LEGACY),
+    CriticalBugs: getMessage(messages.DEPRECATION_REASON_CRITICAL_BUGS),
+    Other: getMessage(messages.DEPRECATION_REASON_OTHER),
+  };
+
+  // Select the latest version when drawer opens
+  useEffect(() => {
+    if (open) {
+      setSelectedVersion(versions[0] ?? null);
+    }
+  }, [open, packageId]);
+
+  // Load the current deprecation of the selected version
+  useEffect(() => {
+    if (open && selectedVersion) {
+      loadDeprecation(selectedVersion);
+    }
+  }, [open, selectedVersion]);
+
+  const applyDeprecation = (deprecation: CatalogDeprecation | undefined) => {
+    setDeprecated(!!deprecation);
+    setReasons(deprecation?.reasons ?? []);
+    setMessage(deprecation?.message ?? '');
+    setAlternateId(deprecation?.alternatePackage?.id ?? '');
+    setAlternateRange(
+      deprecation?.alternatePackage?.range === '*'
+        ? ''
+        : (deprecation?.alternatePackage?.range ?? '')
+    );
+  };
+
+  const loadDeprecation = async (version: string) => {
+    setLoading(true);
+    setResult(null);
+    try {
+      const lowerId = packageId.toLowerCase();
+      const response = await apiFetch(
+        `v3/catalog/entries/${lowerId}/${version.toLowerCase()}.json`,
+        {
+          credentials: 'same-origin',
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        applyDeprecation(data.deprecation);
+      } else if (response.status === 401) {
+        // Session expired - handled by apiFetch interceptor
+        handleClose();
+        return;
+      } else {
+        applyDeprecation(undefined);
+        setResult({
+          success: false,
+          message: `${getMessage(messages.DEPRECATION_FAILED)}: ${response.status} ${response.statusText}`,
+        });
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        message: `${getMessage(messages.DEPRECATION_FAILED)}: ${error instanceof Error ? error.message : getMessage(messages.UNKNOWN_ERROR)}`,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDeprecation = async (deprecate: boolean) => {
+    if (!selectedVersion) {
+      return;
+    }
+
+    setSaving(true);
+    setResult(null);
+
+    try {
+      const response = await apiFetch(
+        `api/v2/package/${encodeURIComponent(packageId)}/${encodeURIComponent(selectedVersion)}/deprecation`,
+        deprecate
+          ? {
+              method: 'PUT',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              credentials: 'same-origin',
+              body: JSON.stringify({
+                reasons,
+                message: message || undefined,
+                alternatePackage: alternateId
+                  ? { id: alternateId, range: alternateRange || undefined }
+                  : undefined,
+              }),
+            }
+          : {
+              method: 'DELETE',
+              credentials: 'same-origin',
+            }
+      );
+
+      if (response.ok) {
+        setDeprecated(deprecate);
+        if (!deprecate) {
+          applyDeprecation(undefined);
+        }
+        setResult({
+          success: true,
+          message: deprecate
+            ? getMessage(messages.DEPRECATION_SAVED)
+            : getMessage(messages.DEPRECATION_REMOVED),
+        });
+      } else if (response.status === 401) {
+        // Session expired - handled by apiFetch interceptor
+        handleClose();
+        return;
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setResult({
+          success: false,
+          message:
+            data.error ||
+            `${getMessage(messages.DEPRECATION_FAILED)}: ${response.status} ${response.statusText}`,
+        });
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        message: `${getMessage(messages.DEPRECATION_FAILED)}: ${error instanceof Error ? error.message : getMessage(messages.UNKNOWN_ERROR)}`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleReason = (reason: DeprecationReason, checked: boolean) => {
+    setReasons((prev) =>
+      checked ? [...prev, reason] : prev.filter((r) => r !== reason)
+    );
+  };
+
+  const handleClose = () => {
+    setSelectedVersion(null);
+    applyDeprecation(undefined);
+    setSaving(false);
+    setResult(null);
+    onClose();
+  };
+
+  const busy = loading || saving;
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={handleClose}
+      variant="temporary"
+      sx={{
+        width: 400,
+        flexShrink: 0,
+        '& .MuiDrawer-paper': {
+          width: 400,
+          boxSizing: 'border-box',
+        },
+      }}
+    >
+      <Box sx={{ p: 3, height: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            mb: 3,
+          }}
+        >
+          <Typography variant="h6" component="h2">
+            <TypedMessage message={messages.MANAGE_DEPRECATION} />
+          </Typography>
+          <IconButton onClick={handleClose} edge="end">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Divider sx={{ mb: 3 }} />
+
+        <Typography variant="subtitle1" sx={{ fontWeight: 'medium', mb: 1 }}>
+          {packageId}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          <TypedMessage message={messages.DEPRECATION_INSTRUCTION} />
+        </Typography>
+
+        <Autocomplete
+          options={versions}
+          value={selectedVersion}
+          onChange={(_event, newValue) => setSelectedVersion(newValue)}
+          disabled={saving}
+          disableClearable={selectedVersion !== null}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label={getMessage(messages.DEPRECATION_VERSION)}
+              variant="outlined"
+              fullWidth
+            />
+          )}
+          sx={{ mb: 2 }}
+        />
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          selectedVersion && (
+            <Box>
+              <Alert severity={deprecated ? 'warning' : 'info'} sx={{ mb: 2 }}>
+                {deprecated
+                  ? getMessage(messages.DEPRECATION_STATE_DEPRECATED)
+                  : getMessage(messages.DEPRECATION_STATE_NOT_DEPRECATED)}
+              </Alert>
+
+              <FormControl component="fieldset" sx={{ mb: 2 }}>
+                <FormLabel component="legend">
+                  <TypedMessage message={messages.DEPRECATION_REASONS} />
+                </FormLabel>
+                <FormGroup>
+                  {(Object.keys(reasonLabels) as DeprecationReason[]).map(
+                    (reason) => (
+                      <FormControlLabel
+                        key={reason}
+                        control={
+                          <Checkbox
+                            checked={reasons.includes(reason)}
+                            onChange={(e) =>
+                              toggleReason(reason, e.target.checked)
+                            }
+                            disabled={busy}
+                          />
+                        }
+                        label={reasonLabels[reason]}
+                      />
+                    )
+                  )}
+                </FormGroup>
+              </FormControl>
+
+              <TextField
+                fullWidth
+                multiline
+                minRows={3}
+                label={getMessage(messages.DEPRECATION_MESSAGE)}
+                variant="outlined"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                disabled={busy}
+                sx={{ mb: 2 }}
+              />
+
+              <TextField
+                fullWidth
+                label={getMessage(messages.DEPRECATION_ALTERNATE_ID)}
+                variant="outlined"
+                value={alternateId}
+                onChange={(e) => setAlternateId(e.target.value)}
+                disabled={busy}
+                sx={{ mb: 2 }}
+              />
+
+              <TextField
+                fullWidth
+                label={getMessage(messages.DEPRECATION_ALTERNATE_RANGE)}
+                variant="outlined"
+                value={alternateRange}
+                onChange={(e) => setAlternateRange(e.target.value)}
+                disabled={busy || !alternateId}
+                helperText={getMessage(
+                  messages.DEPRECATION_ALTERNATE_RANGE_HELP
+                )}
+                sx={{ mb: 3 }}
+              />
+
+              {result && (
+                <Alert
+                  severity={result.success ? 'success' : 'error'}
+                  sx={{ mb: 3 }}
+                >
+                  {result.message}
+                </Alert>
+              )}
+
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button
+                  variant="contained"
+                  color="warning"
+                  startIcon={
+                    saving ? <CircularProgress size={20} /> : <DeprecateIcon />
+                  }
+                  onClick={() => updateDeprecation(true)}
+                  disabled={busy || reasons.length === 0}
+                  sx={{ flex: 1 }}
+                >
+                  <TypedMessage message={messages.DEPRECATE} />
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<UndeprecateIcon />}
+                  onClick={() => updateDeprecation(false)}
+                  disabled={busy || !deprecated}
+                  sx={{ flex: 1 }}
+                >
+                  <TypedMessage message={messages.UNDEPRECATE} />
+                </Button>
+              </Box>
+            </Box>
+          )
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default PackageDeprecationDrawer;
@@ -0,0 +1,599 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { useState, useEffect } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  IconButton,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Save as SaveIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  SwapHoriz as TransferIcon,
+} from '@mui/icons-material';
+import { apiFetch } from '../utils/apiClient';
+import { TypedMessage, useTypedMessage } from 'typed-message';
+import { messages } from '../../generated/messages';
+
+interface PackageOwnership {
+  packageId: string;
+  owners: string[];
+}
+
+interface PrefixReservation {
+  id: string;
+  prefix: string;
+  owners: string[];
+}
+
+interface UserGroup {
+  name: string;
+  members: string[];
+}
+
+interface PackageOwnershipDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  onOwnershipChanged?: () => void;
+}
+
+interface OwnershipResult {
+  success: boolean;
+  message: string;
+}
+
+// Owners and group members are entered as a comma separated list
+const parseOwners = (value: string) =>
+  value
+    .split(',')
+    .map((owner) => owner.trim())
+    .filter((owner) => owner.length > 0);
+
+const PackageOwnershipDrawer = ({
+  open,
+  onClose,
+  onOwnershipChanged,
+}: PackageOwnershipDrawerProps) => {
+  const getMessage = useTypedMessage();
+  const [packages, setPackages] = useState<PackageOwnership[]>([]);
+  const [reservations, setReservations] = useState<PrefixReservation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [transferPackageId, setTransferPackageId] = useState('');
+  const [transferOwners, setTransferOwners] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [prefix, setPrefix] = useState('');
+  const [reservationOwners, setReservationOwners] = useState('');
+  const [groups, setGroups] = useState<UserGroup[]>([]);
+  const [editingGroupName, setEditingGroupName] = useState<string | null>(null);
+  const [groupName, setGroupName] = useState('');
+  const [groupMembers, setGroupMembers] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<OwnershipResult | null>(null);
+
+  // Load owners and reservations when drawer opens
+  useEffect(() => {
+    if (open) {
+      loadOwnership();
+    }
+  }, [open]);
+
+  const postOwners = (body: object) =>
+    apiFetch('api/ui/owners', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'same-origin',
+      body: JSON.stringify(body),
+    });
+
+  const loadOwnership = async () => {
+    setLoading(true);
+    try {
+      const response = await postOwners({ action: 'list' });
+      if (response.ok) {
+        const data = await response.json();
+        setPackages(data.packages || []);
+        setReservations(data.reservations || []);
+        setGroups(data.groups || []);
+      } else if (response.status === 401) {
+        // Session expired - handled by apiFetch interceptor
+        handleClose();
+        return;
+      } else {
+        setResult({
+          success: false,
+          message: `${getMessage(messages.OWNERSHIP_FAILED)}: ${response.status} ${response.statusText}`,
+        });
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        message: `${getMessage(messages.OWNERSHIP_FAILED)}: ${error instanceof Error ? error.message : getMessage(messages.UNKNOWN_ERROR)}`,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sends an ownership change and reloads the lists when it succeeded
+  const submitChange = async (body: object, successMessage: string) => {
+    setSaving(true);
+    setResult(null);
+    try {
+      const response = await postOwners(body);
+      if (response.ok) {
+        setResult({ success: true, message: successMessage });
+        resetForms();
+        await loadOwnership();
+        if (onOwnershipChanged) {
+          onOwnershipChanged();
+        }
+      } else if (response.status === 401) {
+        // Session expired - handled by apiFetch interceptor
+        handleClose();
+        return;
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setResult({
+          success: false,
+          message:
+            data.error ||
+            `${getMessage(messages.OWNERSHIP_FAILED)}: ${response.status} ${response.statusText}`,
+        });
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        message: `${getMessage(messages.OWNERSHIP_FAILED)}: ${error instanceof Error ? error.message : getMessage(messages.UNKNOWN_ERROR)}`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTransfer = () =>
+    submitChange(
+      {
+        action: 'transfer',
+        packageId: transferPackageId,
+        owners: parseOwners(transferOwners),
+      },
+      getMessage(messages.OWNERSHIP_TRANSFERRED)
+    );
+
+  const handleSaveReservation = () =>
+    submitChange(
+      {
+        action: editingId ? 'updateReservation' : 'createReservation',
+        id: editingId ?? undefined,
+        prefix,
+        owners: parseOwners(reservationOwners),
+      },
+      getMessage(messages.RESERVATION_SAVED)
+    );
+
+  const handleDeleteReservation = (reservation: PrefixReservation) =>
+    submitChange(
+      { action: 'deleteReservation', id: reservation.id },
+      getMessage(messages.RESERVATION_DELETED)
+    );
+
+  const handleSaveGroup = () =>
+    submitChange(
+      {
+        action: editingGroupName ? 'updateGroup' : 'createGroup',
+        name: editingGroupName ?? groupName,
+        members: parseOwners(groupMembers),
+      },
+      getMessage(messages.GROUP_SAVED)
+    );
+
+  const handleDeleteGroup = (group: UserGroup) =>
+    submitChange(
+      { action: 'deleteGroup', name: group.name },
+      getMessage(messages.GROUP_DELETED)
+    );
+
+  const handleSelectPackage = (ownership: PackageOwnership) => {
+    setTransferPackageId(ownership.packageId);
+    setTransferOwners(ownership.owners.join(', '));
+    setResult(null);
+  };
+
+  const handleEditReservation = (reservation: PrefixReservation) => {
+    setEditingId(reservation.id);
+    setPrefix(reservation.prefix);
+    setReservationOwners(reservation.owners.join(', '));
+    setResult(null);
+  };
+
+  const resetReservationForm = () => {
+    setEditingId(null);
+    setPrefix('');
+    setReservationOwners('');
+  };
+
+  const handleEditGroup = (group: UserGroup) => {
+    setEditingGroupName(group.name);
+    setGroupName(group.name);
+    setGroupMembers(group.members.join(', '));
+    setResult(null);
+  };
+
+  const resetGroupForm = () => {
+    setEditingGroupName(null);
+    setGroupName('');
+    setGroupMembers('');
+  };
+
+  const resetForms = () => {
+    setTransferPackageId('');
+    setTransferOwners('');
+    resetReservationForm();
+    resetGroupForm();
+  };
+
+  const handleClose = () => {
+    resetForms();
+    setSaving(false);
+    setResult(null);
+    setPackages([]);
+    setReservations([]);
+    setGroups([]);
+    onClose();
+  };
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={handleClose}
+      variant="temporary"
+      sx={{
+        width: 400,
+        flexShrink: 0,
+        '& .MuiDrawer-paper': {
+          width: 400,
+          boxSizing: 'border-box',
+        },
+      }}
+    >
+      <Box sx={{ p: 3, height: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            mb: 3,
+          }}
+        >
+          <Typography variant="h6" component="h2">
+            <TypedMessage message={messages.PACKAGE_OWNERSHIP} />
+          </Typography>
+          <IconButton onClick={handleClose} edge="end">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Divider sx={{ mb: 3 }} />
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          <TypedMessage message={messages.OWNERSHIP_INSTRUCTION} />
+        </Typography>
+
+        {result && (
+          <Alert severity={result.success ? 'success' : 'error'} sx={{ mb: 3 }}>
+            {result.message}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle1" sx={{ mb: 2 }}>
+          <TypedMessage message={messages.TRANSFER_OWNERSHIP} />
+        </Typography>
+
+        <TextField
+          fullWidth
+          label={getMessage(messages.OWNERSHIP_PACKAGE_ID)}
+          variant="outlined"
+          value={transferPackageId}
+          onChange={(e) => setTransferPackageId(e.target.value)}
+          disabled={saving}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          fullWidth
+          label={getMessage(messages.OWNER_USER_NAMES)}
+          variant="outlined"
+          value={transferOwners}
+          onChange={(e) => setTransferOwners(e.target.value)}
+          disabled={saving}
+          helperText={getMessage(messages.OWNERS_HELP)}
+          sx={{ mb: 2 }}
+        />
+
+        <Button
+          fullWidth
+          variant="contained"
+          startIcon={saving ? <CircularProgress size={20} /> : <TransferIcon />}
+          onClick={handleTransfer}
+          disabled={
+            saving ||
+            !transferPackageId ||
+            parseOwners(transferOwners).length === 0
+          }
+          sx={{ mb: 3 }}
+        >
+          <TypedMessage message={messages.TRANSFER_OWNERSHIP} />
+        </Button>
+
+        <Typography variant="subtitle1" sx={{ mb: 2 }}>
+          <TypedMessage message={messages.PREFIX_RESERVATIONS} />
+        </Typography>
+
+        <TextField
+          fullWidth
+          label={getMessage(messages.RESERVATION_PREFIX)}
+          variant="outlined"
+          value={prefix}
+          onChange={(e) => setPrefix(e.target.value)}
+          disabled={saving}
+          helperText={getMessage(messages.RESERVATION_PREFIX_HELP)}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          fullWidth
+          label={getMessage(messages.OWNER_USER_NAMES)}
+          variant="outlined"
+          value={reservationOwners}
+          onChange={(e) => setReservationOwners(e.target.value)}
+          disabled={saving}
+          helperText={getMessage(messages.OWNERS_HELP)}
+          sx={{ mb: 2 }}
+        />
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 3 }}>
+          <Button
+            variant="contained"
+            startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+            onClick={handleSaveReservation}
+            disabled={
+              saving || !prefix || parseOwners(reservationOwners).length === 0
+            }
+            sx={{ flex: 1 }}
+          >
+            {editingId
+              ? getMessage(messages.UPDATE_RESERVATION)
+              : getMessage(messages.ADD_RESERVATION)}
+          </Button>
+          {editingId && (
+            <Button
+              variant="outlined"
+              onClick={resetReservationForm}
+              disabled={saving}
+              sx={{ flex: 1 }}
+            >
+              <TypedMessage message={messages.NEW_RESERVATION} />
+            </Button>
+          )}
+        </Box>
+
+        <Typography variant="subtitle1" sx={{ mb: 2 }}>
+          <TypedMessage message={messages.USER_GROUPS} />
+        </Typography>
+
+        <TextField
+          fullWidth
+          label={getMessage(messages.GROUP_NAME)}
+          variant="outlined"
+          value={groupName}
+          onChange={(e) => setGroupName(e.target.value)}
+          disabled={saving || editingGroupName !== null}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          fullWidth
+          label={getMessage(messages.GROUP_MEMBERS)}
+          variant="outlined"
+          value={groupMembers}
+          onChange={(e) => setGroupMembers(e.target.value)}
+          disabled={saving}
+          helperText={getMessage(messages.GROUP_MEMBERS_HELP)}
+          sx={{ mb: 2 }}
+        />
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 3 }}>
+          <Button
+            variant="contained"
+            startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+            onClick={handleSaveGroup}
+            disabled={
+              saving || !groupName || parseOwners(groupMembers).length === 0
+            }
+            sx={{ flex: 1 }}
+          >
+            {editingGroupName
+              ? getMessage(messages.UPDATE_GROUP)
+              : getMessage(messages.ADD_GROUP)}
+          </Button>
+          {editingGroupName && (
+            <Button
+              variant="outlined"
+              onClick={resetGroupForm}
+              disabled={saving}
+              sx={{ flex: 1 }}
+            >
+              <TypedMessage message={messages.NEW_GROUP} />
+            </Button>
+          )}
+        </Box>
+
+        <Divider sx={{ mb: 1 }} />
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            {reservations.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                <TypedMessage message={messages.NO_RESERVATIONS} />
+              </Typography>
+            ) : (
+              <List dense>
+                {reservations.map((reservation) => (
+                  <ListItem
+                    key={reservation.id}
+                    secondaryAction={
+                      <>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleEditReservation(reservation)}
+                          disabled={saving}
+                        >
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          edge="end"
+                          onClick={() => handleDeleteReservation(reservation)}
+                          disabled={saving}
+                        >
+                          <DeleteIcon fontSize="small" color="error" />
+                        </IconButton>
+                      </>
+                    }
+                    sx={{
+                      pr: 10,
+                      bgcolor:
+                        reservation.id === editingId
+                          ? 'action.selected'
+                          : undefined,
+                    }}
+                  >
+                    <ListItemText
+                      primary={reservation.prefix}
+                      secondary={reservation.owners.join(', ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+
+            <Divider sx={{ my: 1 }} />
+
+            <Typography variant="subtitle1" sx={{ mt: 2, mb: 1 }}>
+              <TypedMessage message={messages.OWNED_PACKAGES} />
+            </Typography>
+
+            {packages.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                <TypedMessage message={messages.NO_OWNED_PACKAGES} />
+              </Typography>
+            ) : (
+              <List dense>
+                {packages.map((ownership) => (
+                  <ListItem
+                    key={ownership.packageId}
+                    secondaryAction={
+                      <IconButton
+                        size="small"
+                        edge="end"
+                        onClick={() => handleSelectPackage(ownership)}
+                        disabled={saving}
+                      >
+                        <TransferIcon fontSize="small" />
+                      </IconButton>
+                    }
+                    sx={{
+                      pr: 6,
+                      bgcolor:
+                        ownership.packageId === transferPackageId
+                          ? 'action.selected'
+                          : undefined,
+                    }}
+                  >
+                    <ListItemText
+                      primary={ownership.packageId}
+                      secondary={ownership.owners.join(', ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+
+            <Divider sx={{ my: 1 }} />
+
+            <Typography variant="subtitle1" sx={{ mt: 2, mb: 1 }}>
+              <TypedMessage message={messages.USER_GROUPS} />
+            </Typography>
+
+            {groups.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                <TypedMessage message={messages.NO_GROUPS} />
+              </Typography>
+            ) : (
+              <List dense>
+                {groups.map((group) => (
+                  <ListItem
+                    key={group.name}
+                    secondaryAction={
+                      <>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleEditGroup(group)}
+                          disabled={saving}
+                        >
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          edge="end"
+                          onClick={() => handleDeleteGroup(group)}
+                          disabled={saving}
+                        >
+                          <DeleteIcon fontSize="small" color="error" />
+                        </IconButton>
+                      </>
+                    }
+                    sx={{
+                      pr: 10,
+                      bgcolor:
+                        group.name === editingGroupName
+                          ? 'action.selected'
+                          : undefined,
+                    }}
+                  >
+                    <ListItemText
+                      primary={`@${group.name}`}
+                      secondary={group.members.join(', ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default PackageOwnershipDrawer;
@@ -0,0 +1,306 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { Fragment, useState, type ReactNode } from 'react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  CircularProgress,
+  Divider,
+  Link,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Description as DescriptionIcon } from '@mui/icons-material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import { TypedMessage } from 'typed-message';
+import { messages } from '../../generated/messages';
+import { apiFetch } from '../utils/apiClient';
+import {
+  maxMarkdownLength,
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from '../markdown';
+
+/**
+ * Props for the package README accordion.
+ */
+export interface PackageReadmeAccordionProps {
+  /**
+   * Package identifier.
+   */
+  packageId: string;
+  /**
+   * Package version whose README is shown.
+   */
+  version: string;
+}
+
+type ReadmeState =
+  | { status: 'idle' | 'loading' | 'notFound' | 'failed' }
+  | { status: 'loaded'; blocks: MarkdownBlock[]; truncated: boolean };
+
+const headingVariants = ['h5', 'h6', 'subtitle1', 'subtitle2'] as const;
+
+const renderInlines = (inlines: readonly MarkdownInline[]): ReactNode =>
+  inlines.map((inline, index) => {
+    switch (inline.type) {
+      case 'text':
+        return <Fragment key={index}>{inline.text}</Fragment>;
+      case 'code':
+        return (
+          <Box
+            key={index}
+            component="code"
+            sx={{
+              fontFamily: 'monospace',
+              fontSize: '0.9em',
+              px: 0.5,
+              borderRadius: 0.5,
+              bgcolor: 'action.hover',
+            }}
+          >
+            {inline.text}
+          </Box>
+        );
+      case 'strong':
+        return <strong key={index}>{renderInlines(inline.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInlines(inline.children)}</em>;
+      case 'strikethrough':
+        return <del key={index}>{renderInlines(inline.children)}</del>;
+      case 'link':
+        return (
+          <Link
+            key={index}
+            href={inline.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+          >
+            {renderInlines(inline.children)}
+          </Link>
+        );
+      case 'image':
+        return (
+          <Box
+            key={index}
+            component="img"
+            src={inline.src}
+            alt={inline.alt}
+            referrerPolicy="no-referrer"
+            loading="lazy"
+            sx={{ maxWidth: '100%', verticalAlign: 'middle' }}
+          />
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+const renderBlocks = (blocks: readonly MarkdownBlock[]): ReactNode =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading':
+        return (
+          <Typography
+            key={index}
+            variant={
+              headingVariants[Math.min(block.level, headingVariants.length) - 1]
+            }
+            component={`h${Math.min(block.level + 2, 6)}` as 'h3'}
+            sx={{ mt: 2, mb: 1, fontWeight: 'bold' }}
+          >
+            {renderInlines(block.children)}
+          </Typography>
+        );
+      case 'paragraph':
+        return (
+          <Typography key={index} variant="body2" sx={{ mb: 1.5 }}>
+            {renderInlines(block.children)}
+          </Typography>
+        );
+      case 'code':
+        return (
+          <Box
+            key={index}
+            component="pre"
+            sx={{
+              fontFamily: 'monospace',
+              fontSize: '0.85rem',
+              p: 1.5,
+              mt: 0,
+              mb: 1.5,
+              borderRadius: 1,
+              overflowX: 'auto',
+              bgcolor: 'action.hover',
+            }}
+          >
+            <code>{block.text}</code>
+          </Box>
+        );
+      case 'quote':
+        return (
+          <Box
+            key={index}
+            component="blockquote"
+            sx={{
+              mx: 0,
+              mb: 1.5,
+              pl: 2,
+              borderLeft: 4,
+              borderColor: 'divider',
+              color: 'text.secondary',
+            }}
+          >
+            {renderBlocks(block.children)}
+          </Box>
+        );
+      case 'list':
+        return (
+          <Box
+            key={index}
+            component={block.ordered ? 'ol' : 'ul'}
+            start={block.start}
+            sx={{ mt: 0, mb: 1.5, pl: 3, '& p': { mb: 0.5 } }}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderBlocks(item)}</li>
+            ))}
+          </Box>
+        );
+      case 'table':
+        return (
+          <Box key={index} sx={{ mb: 1.5, overflowX: 'auto' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  {block.header.map((cell, cellIndex) => (
+                    <TableCell key={cellIndex} sx={{ fontWeight: 'bold' }}>
+                      {renderInlines(cell)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {block.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <TableCell key={cellIndex}>
+                        {renderInlines(cell)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        );
+      case 'rule':
+        return <Divider key={index} sx={{ my: 2 }} />;
+    }
+  });
+
+/**
+ * Shows the package README, rendered from Markdown, inside a collapsible accordion.
+ * @remarks The README is fetched from the ReadmeUriTemplate endpoint when the accordion is first expanded.
+ */
+const PackageReadmeAccordion = ({
+  packageId,
+  version,
+}: PackageReadmeAccordionProps) => {
+  const [readme, setReadme] = useState<ReadmeState>({ status: 'idle' });
+
+  const loadReadme = async () => {
+    setReadme({ status: 'loading' });
+    try {
+      const response = await apiFetch(
+        `v3/package/${packageId.toLowerCase()}/${version.toLowerCase()}/readme`,
+        {
+          credentials: 'same-origin',
+        }
+      );
+      if (response.status === 404) {
+        setReadme({ status: 'notFound' });
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const text = await response.text();
+      setReadme({
+        status: 'loaded',
+        blocks: parseMarkdown(text),
+        truncated: text.length > maxMarkdownLength,
+      });
+    } catch (err) {
+      console.error('Failed to load README:', err);
+      setReadme({ status: 'failed' });
+    }
+  };
+
+  return (
+    <Accordion
+      disableGutters
+      elevation={0}
+      onChange={(_event, expanded) => {
+        if (expanded && readme.status !== 'loaded') {
+          loadReadme();
+        }
+      }}
+      slotProps={{ transition: { unmountOnExit: true } }}
+      sx={{
+        borderColor: 'divider',
+        borderWidth: 1,
+        borderStyle: 'solid',
+        '&::before': {
+          display: 'none',
+        },
+      }}
+    >
+      <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+        <Stack direction="row" spacing={1} sx={{ alignItems: 'center' }}>
+          <DescriptionIcon fontSize="small" />
+          <Typography variant="subtitle2">
+            <TypedMessage message={messages.README_TITLE} />
+          </Typography>
+        </Stack>
+      </AccordionSummary>
+      <AccordionDetails sx={{ overflowWrap: 'anywhere' }}>
+        {readme.status === 'loaded' ? (
+          <>
+            {renderBlocks(readme.blocks)}
+            {readme.truncated && (
+              <Alert severity="info">
+                <TypedMessage message={messages.README_TRUNCATED} />
+              </Alert>
+            )}
+          </>
+        ) : readme.status === 'notFound' ? (
+          <Typography variant="body2" color="text.secondary">
+            <TypedMessage message={messages.README_NOT_FOUND} />
+          </Typography>
+        ) : readme.status === 'failed' ? (
+          <Alert severity="error">
+            <TypedMessage message={messages.README_FAILED} />
+          </Alert>
+        ) : (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+      </AccordionDetails>
+    </Accordion>
+  );
+};
+
+export default PackageReadmeAccordion;
@@ -0,0 +1,391 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { useState, useEffect } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  IconButton,
+  Divider,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Save as SaveIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { apiFetch } from '../utils/apiClient';
+import { TypedMessage, useTypedMessage } from 'typed-message';
+import { messages } from '../../generated/messages';
+
+type AdvisorySeverity = 'low' | 'moderate' | 'high' | 'critical';
+
+interface Advisory {
+  id: string;
+  packageId: string;
+  versionRange: string;
+  severity: AdvisorySeverity;
+  url: string;
+}
+
+interface SecurityAdvisoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  onAdvisoriesChanged?: () => void;
+}
+
+interface AdvisoryResult {
+  success: boolean;
+  message: string;
+}
+
+export const severityColors: Record<
+  AdvisorySeverity,
+  'info' | 'warning' | 'error'
+> = {
+  low: 'info',
+  moderate: 'warning',
+  high: 'error',
+  critical: 'error',
+};
+
+const SecurityAdvisoryDrawer = ({
+  open,
+  onClose,
+  onAdvisoriesChanged,
+}: SecurityAdvisoryDrawerProps) => {
+  const getMessage = useTypedMessage();
+  const [advisories, setAdvisories] = useState<Advisory[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [packageId, setPackageId] = useState('');
+  const [versionRange, setVersionRange] = useState('');
+  const [severity, setSeverity] = useState<AdvisorySeverity>('moderate');
+  const [url, setUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<AdvisoryResult | null>(null);
+
+  const severityLabels: Record<AdvisorySeverity, string> = {
+    low: getMessage(messages.SEVERITY_LOW),
+    moderate: getMessage(messages.SEVERITY_MODERATE),
+    high: getMessage(messages.SEVERITY_HIGH),
+    critical: getMessage(messages.SEVERITY_CRITICAL),
+  };
+
+  // Load advisories when drawer opens
+  useEffect(() => {
+    if (open) {
+      loadAdvisories();
+    }
+  }, [open]);
+
+  const postAdvisories = (body: object) =>
+    apiFetch('api/ui/advisories', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'same-origin',
+      body: JSON.stringify(body),
+    });
+
+  const loadAdvisories = async () => {
+    setLoading(true);
+    try {
+      const response = await postAdvisories({ action: 'list' });
+      if (response.ok) {
+        const data = await response.json();
+        setAdvisories(data.advisories || []);
+      } else if (response.status === 401) {
+        // Session expired - handled by apiFetch interceptor
+        handleClose();
+        return;
+      } else {
+        setResult({
+          success: false,
+          message: `${getMessage(messages.ADVISORY_FAILED)}: ${response.status} ${response.statusText}`,
+        });
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        message: `${getMessage(messages.ADVISORY_FAILED)}: ${error instanceof Error ? error.message : getMessage(messages.UNKNOWN_ERROR)}`,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sends an advisory change and reloads the list when it succeeded
+  const submitChange = async (body: object, successMessage: string) => {
+    setSaving(true);
+    setResult(null);
+    try {
+      const response = await postAdvisories(body);
+      if (response.ok) {
+        setResult({ success: true, message: successMessage });
+        resetForm();
+        await loadAdvisories();
+        if (onAdvisoriesChanged) {
+          onAdvisoriesChanged();
+        }
+      } else if (response.status === 401) {
+        // Session expired - handled by apiFetch interceptor
+        handleClose();
+        return;
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setResult({
+          success: false,
+          message:
+            data.error ||
+            `${getMessage(messages.ADVISORY_FAILED)}: ${response.status} ${response.statusText}`,
+        });
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        message: `${getMessage(messages.ADVISORY_FAILED)}: ${error instanceof Error ? error.message : getMessage(messages.UNKNOWN_ERROR)}`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    submitChange(
+      {
+        action: editingId ? 'update' : 'create',
+        id: editingId ?? undefined,
+        packageId,
+        versionRange,
+        severity,
+        url,
+      },
+      getMessage(messages.ADVISORY_SAVED)
+    );
+
+  const handleDelete = (advisory: Advisory) =>
+    submitChange(
+      { action: 'delete', id: advisory.id },
+      getMessage(messages.ADVISORY_DELETED)
+    );
+
+  const handleEdit = (advisory: Advisory) => {
+    setEditingId(advisory.id);
+    setPackageId(advisory.packageId);
+    setVersionRange(advisory.versionRange);
+    setSeverity(advisory.severity);
+    setUrl(advisory.url);
+    setResult(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setPackageId('');
+    setVersionRange('');
+    setSeverity('moderate');
+    setUrl('');
+  };
+
+  const handleClose = () => {
+    resetForm();
+    setSaving(false);
+    setResult(null);
+    setAdvisories([]);
+    onClose();
+  };
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={handleClose}
+      variant="temporary"
+      sx={{
+        width: 400,
+        flexShrink: 0,
+        '& .MuiDrawer-paper': {
+          width: 400,
+          boxSizing: 'border-box',
+        },
+      }}
+    >
+      <Box sx={{ p: 3, height: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            mb: 3,
+          }}
+        >
+          <Typography variant="h6" component="h2">
+            <TypedMessage message={messages.SECURITY_ADVISORIES} />
+          </Typography>
+          <IconButton onClick={handleClose} edge="end">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Divider sx={{ mb: 3 }} />
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          <TypedMessage message={messages.ADVISORY_INSTRUCTION} />
+        </Typography>
+
+        <TextField
+          fullWidth
+          label={getMessage(messages.ADVISORY_PACKAGE_ID)}
+          variant="outlined"
+          value={packageId}
+          onChange={(e) => setPackageId(e.target.value)}
+          disabled={saving}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          fullWidth
+          label={getMessage(messages.ADVISORY_VERSION_RANGE)}
+          variant="outlined"
+          value={versionRange}
+          onChange={(e) => setVersionRange(e.target.value)}
+          disabled={saving}
+          helperText={getMessage(messages.ADVISORY_VERSION_RANGE_HELP)}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          select
+          fullWidth
+          label={getMessage(messages.ADVISORY_SEVERITY)}
+          variant="outlined"
+          value={severity}
+          onChange={(e) => setSeverity(e.target.value as AdvisorySeverity)}
+          disabled={saving}
+          sx={{ mb: 2 }}
+        >
+          {(Object.keys(severityLabels) as AdvisorySeverity[]).map((s) => (
+            <MenuItem key={s} value={s}>
+              {severityLabels[s]}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <TextField
+          fullWidth
+          label={getMessage(messages.ADVISORY_URL)}
+          variant="outlined"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          disabled={saving}
+          sx={{ mb: 3 }}
+        />
+
+        {result && (
+          <Alert severity={result.success ? 'success' : 'error'} sx={{ mb: 3 }}>
+            {result.message}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 3 }}>
+          <Button
+            variant="contained"
+            startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+            onClick={handleSave}
+            disabled={saving || !packageId || !versionRange || !url}
+            sx={{ flex: 1 }}
+          >
+            {editingId
+              ? getMessage(messages.UPDATE_ADVISORY)
+              : getMessage(messages.ADD_ADVISORY)}
+          </Button>
+          {editingId && (
+            <Button
+              variant="outlined"
+              onClick={resetForm}
+              disabled={saving}
+              sx={{ flex: 1 }}
+            >
+              <TypedMessage message={messages.NEW_ADVISORY} />
+            </Button>
+          )}
+        </Box>
+
+        <Divider sx={{ mb: 1 }} />
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : advisories.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+            <TypedMessage message={messages.NO_ADVISORIES} />
+          </Typography>
+        ) : (
+          <List dense>
+            {advisories.map((advisory) => (
+              <ListItem
+                key={advisory.id}
+                secondaryAction={
+                  <>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleEdit(advisory)}
+                      disabled={saving}
+                    >
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      edge="end"
+                      onClick={() => handleDelete(advisory)}
+                      disabled={saving}
+                    >
+                      <DeleteIcon fontSize="small" color="error" />
+                    </IconButton>
+                  </>
+                }
+                sx={{
+                  pr: 10,
+                  bgcolor:
+                    advisory.id === editingId ? 'action.selected' : undefined,
+                }}
+              >
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Chip
+                        label={severityLabels[advisory.severity]}
+                        color={severityColors[advisory.severity]}
+                        size="small"
+                      />
+                      {advisory.packageId} {advisory.versionRange}
+                    </Box>
+                  }
+                  secondary={advisory.url}
+                  slotProps={{
+                    secondary: { sx: { wordBreak: 'break-all' } },
+                  }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default SecurityAdvisoryDrawer;
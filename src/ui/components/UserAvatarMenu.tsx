@@ -26,6 +26,8 @@ import {
   Language as LanguageIcon,
   Check as CheckIcon,
   Brightness4 as ThemeIcon,
+  Security as SecurityIcon,
+  VerifiedUser as OwnershipIcon,
 } from '@mui/icons-material';
 
 interface UserAvatarMenuProps {
@@ -46,6 +48,8 @@ interface UserAvatarMenuProps {
   onDeleteUser: () => void;
   onChangePassword: () => void;
   onApiPassword: () => void;
+  onSecurityAdvisories: () => void;
+  onPackageOwnership: () => void;
   onLogout: () => void;
   onLanguageChange: (code: string) => void;
   onThemeChange: (mode: 'auto' | 'light' | 'dark') => void;
@@ -69,6 +73,8 @@ const UserAvatarMenu = ({
   onDeleteUser,
   onChangePassword,
   onApiPassword,
+  onSecurityAdvisories,
+  onPackageOwnership,
   onLogout,
   onLanguageChange,
   onThemeChange,
@@ -251,6 +257,34 @@ const UserAvatarMenu = ({
             <Divider key="users-divider" />,
           ]}
 
+        {/* Security Advisories and Package Ownership (Admin only) */}
+        {isAdmin &&
+          (authMode === 'none' || isAuthenticated) && [
+            <MenuItem
+              key="security-advisories"
+              onClick={() => handleAction(onSecurityAdvisories)}
+            >
+              <ListItemIcon>
+                <SecurityIcon fontSize="small" />
+              </ListItemIcon>
+              <ListItemText>
+                <TypedMessage message={messages.SECURITY_ADVISORIES} />
+              </ListItemText>
+            </MenuItem>,
+            <MenuItem
+              key="package-ownership"
+              onClick={() => handleAction(onPackageOwnership)}
+            >
+              <ListItemIcon>
+                <OwnershipIcon fontSize="small" />
+              </ListItemIcon>
+              <ListItemText>
+                <TypedMessage message={messages.PACKAGE_OWNERSHIP} />
+              </ListItemText>
+            </MenuItem>,
+            <Divider key="security-divider" />,
+          ]}
+
         {/* Password Management */}
         {authMode !== 'none' &&
           canManagePassword &&
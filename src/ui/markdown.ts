@@ -0,0 +1,795 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+/**
+ * Inline element of a Markdown document.
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+/**
+ * Block element of a Markdown document.
+ */
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | {
+      type: 'list';
+      ordered: boolean;
+      start?: number;
+      items: MarkdownBlock[][];
+    }
+  | { type: 'table'; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+/**
+ * Maximum length of a Markdown document to parse, longer documents are truncated.
+ * @remarks Package READMEs may be up to 4MB, which is far more than a page can show.
+ */
+export const maxMarkdownLength = 512 * 1024;
+
+// Nesting deeper than this (quotes, lists, emphasis and links) is taken as plain text
+const maxNestingDepth = 16;
+// Link destinations and titles are searched within this many characters
+const maxLinkDestinationLength = 1024;
+
+// Patterns are written so that failing matches take linear time on long lines
+const fencePattern = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)(?:\s[^`]*)?$/;
+const headingPattern = /^ {0,3}(#{1,6})(?:[ \t]+(.*))?$/;
+const rulePattern = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const quotePattern = /^ {0,3}> ?(.*)$/;
+const listItemPattern = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+(.*))?$/;
+const tableDelimiterPattern =
+  /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const htmlBlockPattern = /^ {0,3}<(\/?[A-Za-z][A-Za-z0-9-]*[\s/>]|!--)/;
+const htmlTagPattern = /<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>/y;
+const htmlCommentPattern = /<!--[\s\S]*?(-->|$)/g;
+const autolinkPattern = /<((?:https?:\/\/|mailto:)[^<>\s]+)>/iy;
+const bareUrlPattern = /https?:\/\/[^\s<]*[^\s<.,:;"')\]*_~]/iy;
+const backtickRunPattern = /`+/y;
+const escapablePattern = /^[!-/:-@[-`{-~]$/;
+
+const namedEntities: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+};
+
+/**
+ * Accepts only URLs which are safe to open from the UI.
+ *
+ * @param url - URL written in the Markdown document.
+ * @returns The URL for `http`, `https` and `mailto` schemes, otherwise undefined.
+ * @remarks Relative URLs are rejected, since they refer to files in the package
+ * rather than the server.
+ */
+export const sanitizeMarkdownUrl = (url: string): string | undefined => {
+  const trimmed = url.trim();
+  return /^(https?:\/\/|mailto:)/i.test(trimmed) &&
+    !/[\u0000-\u001f\s]/.test(trimmed)
+    ? trimmed
+    : undefined;
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#[0-9]{1,7}|#[xX][0-9A-Fa-f]{1,6}|[A-Za-z]+);/g, (all, e) => {
+    if (e[0] === '#') {
+      const code =
+        e[1] === 'x' || e[1] === 'X'
+          ? parseInt(e.slice(2), 16)
+          : parseInt(e.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : all;
+    }
+    return namedEntities[e] ?? all;
+  });
+
+/**
+ * Matches a sticky pattern at a position of the text.
+ */
+const matchAt = (
+  pattern: RegExp,
+  text: string,
+  index: number
+): RegExpExecArray | null => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+
+/**
+ * Pairs the brackets of link texts in a single pass, skipping code spans and escapes.
+ *
+ * @returns Position of the closing bracket by the position of each opening bracket.
+ */
+const pairBrackets = (text: string): Map<number, number> => {
+  const pairs = new Map<number, number>();
+  const opens: number[] = [];
+  // A run without a closing run is not searched again
+  const unclosedRuns = new Set<string>();
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '`') {
+      const run = matchAt(backtickRunPattern, text, i)![0];
+      const close = unclosedRuns.has(run)
+        ? -1
+        : text.indexOf(run, i + run.length);
+      if (close >= 0) {
+        i = close + run.length - 1;
+      } else {
+        unclosedRuns.add(run);
+        i += run.length - 1;
+      }
+    } else if (ch === '[') {
+      opens.push(i);
+    } else if (ch === ']') {
+      const open = opens.pop();
+      if (open !== undefined) {
+        pairs.set(open, i);
+      }
+    }
+  }
+  return pairs;
+};
+
+/**
+ * Parses a link destination `(url "title")` starting at the open parenthesis.
+ */
+const parseLinkDestination = (
+  source: string,
+  start: number
+): { url: string; end: number } | undefined => {
+  if (source[start] !== '(') {
+    return undefined;
+  }
+  // Only a bounded part is searched, so failing attempts do not scan the rest of the paragraph
+  const text = source.slice(start, start + maxLinkDestinationLength);
+  let i = 1;
+  while (text[i] === ' ') {
+    i++;
+  }
+  let url: string;
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i);
+    if (close < 0) {
+      return undefined;
+    }
+    url = text.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    const start = i;
+    let depth = 0;
+    for (; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '\\') {
+        i++;
+      } else if (ch === '(') {
+        depth++;
+      } else if (ch === ')') {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if (ch === ' ' || ch === '\n') {
+        break;
+      }
+    }
+    url = text.slice(start, i);
+  }
+  // Titles are not shown
+  const title = /^\s*(?:"[^"]*"|'[^']*'|\([^)]*\))?\s*\)/.exec(text.slice(i));
+  if (!title) {
+    return undefined;
+  }
+  return { url: decodeEntities(url), end: start + i + title[0].length };
+};
+
+const isWordCharacter = (ch: string | undefined): boolean =>
+  ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+
+/**
+ * Finds the closing emphasis delimiter.
+ */
+const findClosingDelimiter = (
+  text: string,
+  delimiter: string,
+  from: number
+): number => {
+  let i = from;
+  while ((i = text.indexOf(delimiter, i)) >= 0) {
+    const before = text[i - 1];
+    const after = text[i + delimiter.length];
+    if (
+      i > from &&
+      before !== ' ' &&
+      before !== '\n' &&
+      before !== '\\' &&
+      // A single `*` must not be a part of `**`
+      !(delimiter.length === 1 && after === delimiter[0]) &&
+      !(delimiter[0] === '_' && isWordCharacter(after))
+    ) {
+      return i;
+    }
+    i += delimiter.length;
+  }
+  return -1;
+};
+
+/**
+ * Parses inline Markdown content.
+ *
+ * @param text - Inline content, may contain soft line breaks.
+ * @returns Inline elements.
+ * @remarks Raw HTML tags are removed, only `<br>` is kept as a line break.
+ */
+export const parseMarkdownInline = (text: string): MarkdownInline[] =>
+  parseInline(text, 0);
+
+/**
+ * Parses inline Markdown content nested in the given depth.
+ *
+ * @remarks Every search is done at most once per position, so the time is linear in the text length
+ * (multiplied by the nesting depth, which is bounded).
+ */
+const parseInline = (text: string, depth: number): MarkdownInline[] => {
+  if (depth > maxNestingDepth) {
+    return text.length > 0
+      ? [{ type: 'text', text: decodeEntities(text) }]
+      : [];
+  }
+
+  const result: MarkdownInline[] = [];
+  const buffer: string[] = [];
+
+  const flush = () => {
+    const buffered = buffer.join('');
+    buffer.length = 0;
+    if (buffered.length > 0) {
+      result.push({ type: 'text', text: decodeEntities(buffered) });
+    }
+  };
+  const push = (inline: MarkdownInline) => {
+    flush();
+    result.push(inline);
+  };
+
+  /**
+   * Removes trailing whitespace from the buffer.
+   *
+   * @returns Number of spaces which ended the buffer.
+   */
+  const trimBuffer = (): number => {
+    let spaces = 0;
+    let counting = true;
+    while (buffer.length > 0) {
+      const last = buffer[buffer.length - 1]!;
+      if (counting) {
+        let end = last.length;
+        while (end > 0 && last[end - 1] === ' ') {
+          end--;
+        }
+        spaces += last.length - end;
+        counting = end === 0;
+      }
+      const trimmed = last.trimEnd();
+      if (trimmed.length > 0) {
+        buffer[buffer.length - 1] = trimmed;
+        break;
+      }
+      buffer.pop();
+    }
+    return spaces;
+  };
+
+  // Searches which failed once fail again from any later position
+  const unclosedRuns = new Set<string>();
+  const unclosedDelimiters = new Map<string, number>();
+  let bracketPairs: Map<number, number> | undefined;
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i]!;
+
+    // Backslash escapes and hard line breaks
+    if (ch === '\\') {
+      const next = text[i + 1];
+      if (next === '\n') {
+        push({ type: 'break' });
+        i += 2;
+        continue;
+      }
+      if (next !== undefined && escapablePattern.test(next)) {
+        buffer.push(next);
+        i += 2;
+        continue;
+      }
+    }
+
+    if (ch === '\n') {
+      if (trimBuffer() >= 2) {
+        push({ type: 'break' });
+      } else {
+        buffer.push(' ');
+      }
+      i++;
+      while (text[i] === ' ') {
+        i++;
+      }
+      continue;
+    }
+
+    // Code spans
+    if (ch === '`') {
+      const run = matchAt(backtickRunPattern, text, i)![0];
+      const close = unclosedRuns.has(run)
+        ? -1
+        : text.indexOf(run, i + run.length);
+      if (close < 0) {
+        unclosedRuns.add(run);
+      } else if (text[close + run.length] !== '`') {
+        const code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        push({
+          type: 'code',
+          text: /^ .*[^ ].* $/.test(code) ? code.slice(1, -1) : code,
+        });
+        i = close + run.length;
+        continue;
+      }
+      buffer.push(run);
+      i += run.length;
+      continue;
+    }
+
+    // Images and links
+    if (ch === '[' || (ch === '!' && text[i + 1] === '[')) {
+      const isImage = ch === '!';
+      const open = isImage ? i + 1 : i;
+      bracketPairs ??= pairBrackets(text);
+      const close = bracketPairs.get(open) ?? -1;
+      const destination =
+        close >= 0 ? parseLinkDestination(text, close + 1) : undefined;
+      if (destination) {
+        const label = text.slice(open + 1, close);
+        const url = sanitizeMarkdownUrl(destination.url);
+        if (isImage) {
+          if (url) {
+            push({ type: 'image', src: url, alt: decodeEntities(label) });
+          } else {
+            buffer.push(label);
+          }
+        } else if (url) {
+          push({
+            type: 'link',
+            href: url,
+            children: parseInline(label, depth + 1),
+          });
+        } else {
+          flush();
+          result.push(...parseInline(label, depth + 1));
+        }
+        i = destination.end;
+        continue;
+      }
+    }
+
+    // Autolinks and raw HTML
+    if (ch === '<') {
+      const autolink = matchAt(autolinkPattern, text, i);
+      if (autolink) {
+        push({
+          type: 'link',
+          href: autolink[1]!,
+          children: [{ type: 'text', text: autolink[1]! }],
+        });
+        i += autolink[0].length;
+        continue;
+      }
+      const tag = matchAt(htmlTagPattern, text, i);
+      if (tag) {
+        if (/^<br\b/i.test(tag[0])) {
+          push({ type: 'break' });
+        }
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    // Bare URLs (GitHub Flavored Markdown)
+    if ((ch === 'h' || ch === 'H') && !isWordCharacter(text[i - 1])) {
+      const bareUrl = matchAt(bareUrlPattern, text, i);
+      if (bareUrl) {
+        push({
+          type: 'link',
+          href: bareUrl[0],
+          children: [{ type: 'text', text: bareUrl[0] }],
+        });
+        i += bareUrl[0].length;
+        continue;
+      }
+    }
+
+    // Emphasis
+    if (ch === '*' || ch === '_' || (ch === '~' && text[i + 1] === '~')) {
+      const delimiter =
+        text[i + 1] === ch ? (text[i + 2] === ch ? ch : ch + ch) : ch;
+      const canOpen =
+        !/\s/.test(text[i + delimiter.length] ?? ' ') &&
+        !(ch === '_' && isWordCharacter(text[i - 1]));
+      const from = i + delimiter.length;
+      const close =
+        canOpen && from < (unclosedDelimiters.get(delimiter) ?? Infinity)
+          ? findClosingDelimiter(text, delimiter, from)
+          : -1;
+      if (canOpen && close < 0 && !unclosedDelimiters.has(delimiter)) {
+        unclosedDelimiters.set(delimiter, from);
+      }
+      if (close >= 0) {
+        const children = parseInline(
+          text.slice(i + delimiter.length, close),
+          depth + 1
+        );
+        push(
+          ch === '~'
+            ? { type: 'strikethrough', children }
+            : delimiter.length === 2
+              ? { type: 'strong', children }
+              : { type: 'emphasis', children }
+        );
+        i = close + delimiter.length;
+        continue;
+      }
+      buffer.push(delimiter);
+      i += delimiter.length;
+      continue;
+    }
+
+    buffer.push(ch);
+    i++;
+  }
+
+  flush();
+  return result;
+};
+
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '');
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === '\\' && trimmed[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (ch === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const isBlockStart = (line: string): boolean =>
+  fencePattern.test(line) ||
+  headingPattern.test(line) ||
+  rulePattern.test(line) ||
+  quotePattern.test(line) ||
+  htmlBlockPattern.test(line) ||
+  // Only bullets and lists starting with 1 can interrupt a paragraph
+  /^ {0,3}([-*+]|1[.)])[ \t]+\S/.test(line);
+
+const isBlank = (line: string | undefined): boolean =>
+  line === undefined || line.trim().length === 0;
+
+/**
+ * Removes the optional closing sequence (` ##`) of an ATX heading.
+ */
+const trimHeadingContent = (content: string): string => {
+  const trimmed = content.trimEnd();
+  let end = trimmed.length;
+  while (end > 0 && trimmed[end - 1] === '#') {
+    end--;
+  }
+  return end > 0 &&
+    end < trimmed.length &&
+    (trimmed[end - 1] === ' ' || trimmed[end - 1] === '\t')
+    ? trimmed.slice(0, end).trimEnd()
+    : trimmed;
+};
+
+const parseBlocks = (lines: string[], depth: number): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code blocks
+    const fence = fencePattern.exec(line);
+    if (fence) {
+      const marker = fence[1]!;
+      const indent = /^ */.exec(line)![0].length;
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const closing = new RegExp(
+          `^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`
+        );
+        if (closing.test(lines[i]!)) {
+          i++;
+          break;
+        }
+        codeLines.push(lines[i]!.replace(new RegExp(`^ {0,${indent}}`), ''));
+        i++;
+      }
+      blocks.push({
+        type: 'code',
+        language: fence[2] || undefined,
+        text: codeLines.join('\n'),
+      });
+      continue;
+    }
+
+    // Indented code blocks
+    if (/^( {4}|\t)/.test(line)) {
+      const codeLines: string[] = [];
+      while (
+        i < lines.length &&
+        (/^( {4}|\t)/.test(lines[i]!) || isBlank(lines[i]))
+      ) {
+        codeLines.push(lines[i]!.replace(/^( {4}|\t)/, ''));
+        i++;
+      }
+      while (codeLines.length > 0 && isBlank(codeLines[codeLines.length - 1])) {
+        codeLines.pop();
+      }
+      blocks.push({ type: 'code', text: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = headingPattern.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1]!.length,
+        children: parseMarkdownInline(trimHeadingContent(heading[2] ?? '')),
+      });
+      i++;
+      continue;
+    }
+
+    if (rulePattern.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    // Block quotes, including lazy continuation lines
+    if (depth < maxNestingDepth && quotePattern.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const quote = quotePattern.exec(lines[i]!);
+        if (!quote && isBlockStart(lines[i]!)) {
+          break;
+        }
+        quoteLines.push(quote ? quote[1]! : lines[i]!);
+        i++;
+      }
+      blocks.push({
+        type: 'quote',
+        children: parseBlocks(quoteLines, depth + 1),
+      });
+      continue;
+    }
+
+    // Lists
+    const listItem =
+      depth < maxNestingDepth ? listItemPattern.exec(line) : null;
+    if (listItem) {
+      const marker = listItem[2]!;
+      const ordered = /\d/.test(marker);
+      const markerKind = ordered ? marker.slice(-1) : marker;
+      const items: MarkdownBlock[][] = [];
+      while (i < lines.length) {
+        const item = listItemPattern.exec(lines[i]!);
+        if (
+          !item ||
+          (ordered ? item[2]!.slice(-1) : item[2]!) !== markerKind ||
+          /\d/.test(item[2]!) !== ordered
+        ) {
+          break;
+        }
+        const contentIndent =
+          item[1]!.length +
+          item[2]!.length +
+          (item[3] ? /^[ \t]+/.exec(item[3])![0].length : 1);
+        const itemLines = [item[4] ?? ''];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i]!;
+          if (isBlank(next)) {
+            // Blank lines continue the item only when followed by indented content
+            let following = i;
+            while (following < lines.length && isBlank(lines[following])) {
+              following++;
+            }
+            if (
+              following === lines.length ||
+              /^ */.exec(lines[following]!)![0].length < contentIndent
+            ) {
+              break;
+            }
+            while (i < following) {
+              itemLines.push('');
+              i++;
+            }
+            continue;
+          } else if (/^ */.exec(next)![0].length >= contentIndent) {
+            itemLines.push(next.slice(contentIndent));
+          } else if (
+            !isBlank(itemLines[itemLines.length - 1]) &&
+            !isBlockStart(next) &&
+            !listItemPattern.test(next)
+          ) {
+            // Lazy continuation of the item paragraph
+            itemLines.push(next.trim());
+          } else {
+            break;
+          }
+          i++;
+        }
+        items.push(parseBlocks(itemLines, depth + 1));
+
+        // Blank lines between items do not end the list
+        let following = i;
+        while (following < lines.length && isBlank(lines[following])) {
+          following++;
+        }
+        if (
+          following < lines.length &&
+          listItemPattern.test(lines[following]!)
+        ) {
+          i = following;
+        }
+      }
+      const start = ordered ? parseInt(marker, 10) : undefined;
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: start !== undefined && start !== 1 ? start : undefined,
+        items,
+      });
+      continue;
+    }
+
+    // Tables (GitHub Flavored Markdown)
+    if (
+      line.includes('|') &&
+      i + 1 < lines.length &&
+      tableDelimiterPattern.test(lines[i + 1]!)
+    ) {
+      const header = splitTableRow(line);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (
+        i < lines.length &&
+        !isBlank(lines[i]) &&
+        lines[i]!.includes('|')
+      ) {
+        const cells = splitTableRow(lines[i]!);
+        rows.push(
+          header.map((_, index) => parseMarkdownInline(cells[index] ?? ''))
+        );
+        i++;
+      }
+      blocks.push({
+        type: 'table',
+        header: header.map(parseMarkdownInline),
+        rows,
+      });
+      continue;
+    }
+
+    // HTML blocks, only the text content is kept
+    if (htmlBlockPattern.test(line)) {
+      const htmlLines: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        htmlLines.push(lines[i]!);
+        i++;
+      }
+      const children = parseMarkdownInline(htmlLines.join('\n')).filter(
+        (inline) => inline.type !== 'text' || inline.text.trim().length > 0
+      );
+      if (children.length > 0) {
+        blocks.push({ type: 'paragraph', children });
+      }
+      continue;
+    }
+
+    // Paragraphs and setext headings
+    const paragraphLines = [line.trimStart()];
+    i++;
+    let setextLevel: number | undefined;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const next = lines[i]!;
+      if (/^ {0,3}=+[ \t]*$/.test(next)) {
+        setextLevel = 1;
+        i++;
+        break;
+      }
+      if (/^ {0,3}-+[ \t]*$/.test(next)) {
+        setextLevel = 2;
+        i++;
+        break;
+      }
+      if (isBlockStart(next)) {
+        break;
+      }
+      paragraphLines.push(next.trimStart());
+      i++;
+    }
+    const children = parseMarkdownInline(paragraphLines.join('\n').trimEnd());
+    blocks.push(
+      setextLevel
+        ? { type: 'heading', level: setextLevel, children }
+        : { type: 'paragraph', children }
+    );
+  }
+
+  return blocks;
+};
+
+/**
+ * Parses a Markdown document such as a package README.
+ *
+ * @param markdown - Markdown text (CommonMark with GitHub tables, strikethrough and bare URLs).
+ * @returns Block elements of the document.
+ * @remarks The result contains no raw HTML and only sanitized URLs
+ * (see {@link sanitizeMarkdownUrl}), so it can be rendered without further escaping.
+ * Documents longer than {@link maxMarkdownLength} are parsed up to the limit only.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  // Truncated at the last line break within the limit
+  const lineEnd = markdown.lastIndexOf('\n', maxMarkdownLength);
+  const text =
+    markdown.length > maxMarkdownLength
+      ? markdown.slice(0, lineEnd > 0 ? lineEnd : maxMarkdownLength)
+      : markdown;
+  return parseBlocks(
+    text
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .replace(htmlCommentPattern, '')
+      .split('\n'),
+    0
+  );
+};
@@ -8,9 +8,13 @@ import {
   LogLevel,
   AuthMode,
   DuplicatePackagePolicy,
+  DeletePackagePolicy,
   MissingPackageResponseMode,
   Logger,
+  PublishRequiredMetadata,
+  PublishValidationRules,
 } from '../types';
+import { publishRequiredMetadataNames } from './publishValidation';
 
 /**
  * Configuration file structure for nuget-server
@@ -28,10 +32,103 @@ export interface ConfigFile {
   passwordMinScore?: number;
   passwordStrengthCheck?: boolean;
   duplicatePackagePolicy?: DuplicatePackagePolicy;
+  deletePackagePolicy?: DeletePackagePolicy;
   maxUploadSizeMb?: number;
   missingPackageResponse?: MissingPackageResponseMode;
+  publishValidation?: PublishValidationRules;
 }
 
+/**
+ * Validates a string array of the publish validation rules
+ */
+const validateStringList = (
+  value: any,
+  name: string,
+  logger?: Logger
+): string[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    logger?.warn(`Invalid publishValidation.${name} in config.json`);
+    return undefined;
+  }
+  const validItems = value.filter(
+    (item: any) => typeof item === 'string' && item.trim().length > 0
+  );
+  if (validItems.length !== value.length) {
+    logger?.warn(
+      `Some invalid publishValidation.${name} entries in config.json were ignored`
+    );
+  }
+  return validItems.map((item: string) => item.trim());
+};
+
+/**
+ * Validates the publish validation rules of a config file object
+ */
+const validatePublishValidation = (
+  config: any,
+  logger?: Logger
+): PublishValidationRules | undefined => {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    logger?.warn('Invalid publishValidation in config.json');
+    return undefined;
+  }
+
+  const rules: PublishValidationRules = {
+    allowedIdPrefixes: validateStringList(
+      config.allowedIdPrefixes,
+      'allowedIdPrefixes',
+      logger
+    ),
+    prereleaseOnlyUsers: validateStringList(
+      config.prereleaseOnlyUsers,
+      'prereleaseOnlyUsers',
+      logger
+    ),
+    forbiddenDependencies: validateStringList(
+      config.forbiddenDependencies,
+      'forbiddenDependencies',
+      logger
+    ),
+    requiredTargetFrameworks: validateStringList(
+      config.requiredTargetFrameworks,
+      'requiredTargetFrameworks',
+      logger
+    ),
+  };
+
+  const requiredMetadata = validateStringList(
+    config.requiredMetadata,
+    'requiredMetadata',
+    logger
+  );
+  if (requiredMetadata) {
+    rules.requiredMetadata = requiredMetadata.filter((name) =>
+      publishRequiredMetadataNames.includes(name as PublishRequiredMetadata)
+    ) as PublishRequiredMetadata[];
+    if (rules.requiredMetadata.length !== requiredMetadata.length) {
+      logger?.warn(
+        `Some invalid publishValidation.requiredMetadata entries in config.json were ignored. Valid entries are: ${publishRequiredMetadataNames.join(', ')}`
+      );
+    }
+  }
+
+  if (
+    typeof config.maxPackageSizeMb === 'number' &&
+    config.maxPackageSizeMb > 0
+  ) {
+    rules.maxPackageSizeMb = config.maxPackageSizeMb;
+  } else if (config.maxPackageSizeMb !== undefined) {
+    logger?.warn(
+      `Invalid publishValidation.maxPackageSizeMb in config.json: ${config.maxPackageSizeMb}`
+    );
+  }
+
+  return rules;
+};
+
 /**
  * Validates and sanitizes a config file object
  */
@@ -167,6 +264,21 @@ const validateConfig = (
     }
   }
 
+  // Validate deletePackagePolicy
+  if (typeof config.deletePackagePolicy === 'string') {
+    const validPolicies: DeletePackagePolicy[] = ['unlist', 'delete'];
+    if (
+      validPolicies.includes(config.deletePackagePolicy as DeletePackagePolicy)
+    ) {
+      validated.deletePackagePolicy =
+        config.deletePackagePolicy as DeletePackagePolicy;
+    } else {
+      logger?.warn(
+        `Invalid deletePackagePolicy in config.json: ${config.deletePackagePolicy}`
+      );
+    }
+  }
+
   // Validate maxUploadSizeMb
   if (
     typeof config.maxUploadSizeMb === 'number' &&
@@ -200,6 +312,14 @@ const validateConfig = (
     }
   }
 
+  // Validate publishValidation
+  if (config.publishValidation !== undefined) {
+    validated.publishValidation = validatePublishValidation(
+      config.publishValidation,
+      logger
+    );
+  }
+
   return validated;
 };
 
@@ -0,0 +1,173 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseVersionRange } from './semver';
+
+/**
+ * Deprecation reasons defined by NuGet
+ */
+export type DeprecationReason = 'Legacy' | 'CriticalBugs' | 'Other';
+
+/**
+ * All deprecation reasons in the NuGet order
+ */
+export const deprecationReasons: readonly DeprecationReason[] = [
+  'Legacy',
+  'CriticalBugs',
+  'Other',
+];
+
+/**
+ * Package recommended instead of a deprecated version
+ */
+export interface AlternatePackage {
+  id: string;
+  range: string; // Version range, `*` for any version
+}
+
+/**
+ * Deprecation of a package version
+ */
+export interface PackageDeprecation {
+  reasons: DeprecationReason[];
+  message?: string;
+  alternatePackage?: AlternatePackage;
+}
+
+/**
+ * Result of a deprecation validation
+ */
+export type PackageDeprecationValidation =
+  | { valid: true; deprecation: PackageDeprecation }
+  | { valid: false; error: string };
+
+/**
+ * File name of the deprecation in a version directory
+ */
+export const deprecationFileName = 'deprecation.json';
+
+/**
+ * Maximum length of a deprecation message
+ */
+const maxMessageLength = 4000;
+
+/**
+ * Validates a deprecation request and normalizes it
+ * @param value - Deprecation object received from a client
+ * @returns Normalized deprecation, or the reason why it is invalid
+ */
+export const validateDeprecation = (
+  value: unknown
+): PackageDeprecationValidation => {
+  if (typeof value !== 'object' || value === null) {
+    return { valid: false, error: 'Deprecation must be an object' };
+  }
+  const { reasons, message, alternatePackage } = value as Record<
+    string,
+    unknown
+  >;
+
+  if (!Array.isArray(reasons) || reasons.length === 0) {
+    return { valid: false, error: 'At least one reason is required' };
+  }
+  const normalizedReasons: DeprecationReason[] = [];
+  for (const reason of reasons) {
+    const known = deprecationReasons.find(
+      (r) =>
+        typeof reason === 'string' && r.toLowerCase() === reason.toLowerCase()
+    );
+    if (!known) {
+      return { valid: false, error: `Unknown deprecation reason: ${reason}` };
+    }
+    if (!normalizedReasons.includes(known)) {
+      normalizedReasons.push(known);
+    }
+  }
+  normalizedReasons.sort(
+    (a, b) => deprecationReasons.indexOf(a) - deprecationReasons.indexOf(b)
+  );
+
+  if (
+    message !== undefined &&
+    message !== null &&
+    typeof message !== 'string'
+  ) {
+    return { valid: false, error: 'Message must be a string' };
+  }
+  const trimmedMessage = message?.trim();
+  if (trimmedMessage && trimmedMessage.length > maxMessageLength) {
+    return {
+      valid: false,
+      error: `Message must be at most ${maxMessageLength} characters`,
+    };
+  }
+
+  let alternate: AlternatePackage | undefined = undefined;
+  if (alternatePackage !== undefined && alternatePackage !== null) {
+    if (typeof alternatePackage !== 'object') {
+      return { valid: false, error: 'Alternate package must be an object' };
+    }
+    const { id, range } = alternatePackage as Record<string, unknown>;
+    if (typeof id !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(id.trim())) {
+      return { valid: false, error: 'Alternate package ID is invalid' };
+    }
+    if (range !== undefined && range !== null && typeof range !== 'string') {
+      return { valid: false, error: 'Alternate package range is invalid' };
+    }
+    const trimmedRange = range?.trim() || '*';
+    if (trimmedRange !== '*' && !parseVersionRange(trimmedRange)) {
+      return {
+        valid: false,
+        error: `Alternate package range is invalid: ${trimmedRange}`,
+      };
+    }
+    alternate = { id: id.trim(), range: trimmedRange };
+  }
+
+  return {
+    valid: true,
+    deprecation: {
+      reasons: normalizedReasons,
+      message: trimmedMessage || undefined,
+      alternatePackage: alternate,
+    },
+  };
+};
+
+/**
+ * Writes the deprecation into a version directory
+ * @param versionPath - File system path to the version directory
+ * @param deprecation - Deprecation to write
+ */
+export const writeDeprecation = async (
+  versionPath: string,
+  deprecation: PackageDeprecation
+): Promise<void> => {
+  await writeFile(
+    join(versionPath, deprecationFileName),
+    JSON.stringify(deprecation, null, 2)
+  );
+};
+
+/**
+ * Reads the deprecation from a version directory
+ * @param versionPath - File system path to the version directory
+ * @returns Deprecation, or undefined if the version is not deprecated or the file is malformed
+ */
+export const readDeprecation = async (
+  versionPath: string
+): Promise<PackageDeprecation | undefined> => {
+  try {
+    const content = await readFile(
+      join(versionPath, deprecationFileName),
+      'utf-8'
+    );
+    const result = validateDeprecation(JSON.parse(content));
+    return result.valid ? result.deprecation : undefined;
+  } catch {
+    return undefined;
+  }
+};
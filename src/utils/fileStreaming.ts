@@ -2,9 +2,10 @@
 // Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
 // License under MIT.
 
-import { createReadStream } from 'fs';
+import { createReadStream, Stats } from 'fs';
 import { stat } from 'fs/promises';
-import { FastifyReply } from 'fastify';
+import { Readable } from 'stream';
+import { FastifyReply, FastifyRequest } from 'fastify';
 import { extname } from 'path';
 import { Logger } from '../types';
 import { createDeferred, ReaderWriterLock } from 'async-primitives';
@@ -19,6 +20,16 @@ export interface StreamFileOptions {
   contentDisposition?: string;
   /** Set Cache-Control header */
   cacheControl?: string;
+  /** Strong entity tag value without quotes (derived from the file identity if omitted) */
+  etag?: string;
+}
+
+/**
+ * Byte range of a partial response (inclusive)
+ */
+interface ByteRange {
+  start: number;
+  end: number;
 }
 
 /**
@@ -33,6 +44,9 @@ export interface StreamFileOptions {
  * - Automatic Content-Type detection based on file extension
  * - Proper error handling for missing files
  * - Support for optional headers (cache control, content disposition)
+ * - Strong ETag and Last-Modified validators, answering conditional requests with 304
+ * - Single-range requests (Range/If-Range) answered with 206
+ * - HEAD requests answered with headers only
  *
  * @param logger - Logger instance
  * @param locker - Reader lock for file streaming
@@ -60,21 +74,57 @@ export const streamFile = async (
       return reply.status(404).send({ error: 'Not a file' });
     }
 
+    // Validators are sent with every response, including 304
+    const etag = `"${options.etag ?? getFileIdentityTag(stats)}"`;
+    reply.header('ETag', etag);
+    reply.header('Last-Modified', stats.mtime.toUTCString());
+    reply.header('Accept-Ranges', 'bytes');
+
+    if (options.cacheControl) {
+      reply.header('Cache-Control', options.cacheControl);
+    }
+
+    const request = reply.request;
+    if (isNotModified(request, etag, stats)) {
+      return reply.status(304).send();
+    }
+
+    // Ranges are ignored when the representation has changed since the client got the first part
+    const range = isIfRangeSatisfied(request, etag, stats)
+      ? parseRange(request.headers.range, stats.size)
+      : undefined;
+    if (range === 'unsatisfiable') {
+      reply.header('Content-Range', `bytes */${stats.size}`);
+      return reply.status(416).send({ error: 'Range not satisfiable' });
+    }
+
     // Determine Content-Type (use provided type or auto-detect from extension)
     const contentType =
       options.contentType || getMimeTypeFromExtension(extname(filePath));
 
     // Set response headers
     reply.header('Content-Type', contentType);
-    reply.header('Content-Length', stats.size);
 
     // Set optional headers if provided
     if (options.contentDisposition) {
       reply.header('Content-Disposition', options.contentDisposition);
     }
 
-    if (options.cacheControl) {
-      reply.header('Cache-Control', options.cacheControl);
+    if (range) {
+      reply.status(206);
+      reply.header(
+        'Content-Range',
+        `bytes ${range.start}-${range.end}/${stats.size}`
+      );
+      reply.header('Content-Length', range.end - range.start + 1);
+    } else {
+      reply.header('Content-Length', stats.size);
+    }
+
+    // HEAD requests get the headers only, without reading the file.
+    // An empty stream keeps Content-Length intact for the HEAD routes exposed by Fastify.
+    if (request.method === 'HEAD') {
+      return reply.send(Readable.from([]));
     }
 
     // Add stream event logging for debugging
@@ -87,7 +137,7 @@ export const streamFile = async (
 
     // Create and send file stream
     const deferred = createDeferred<void>();
-    const stream = createReadStream(filePath);
+    const stream = createReadStream(filePath, range);
 
     // Prevent multiple resolutions
     let resolved = false;
@@ -175,6 +225,133 @@ export const streamFile = async (
   }
 };
 
+/**
+ * Derive an entity tag from the file identity
+ * @param stats - File stats
+ * @returns Entity tag value without quotes
+ */
+const getFileIdentityTag = (stats: Stats): string =>
+  [stats.ino, stats.size, Math.floor(stats.mtimeMs)]
+    .map((value) => value.toString(16))
+    .join('-');
+
+/**
+ * Parse an entity tag list header (If-None-Match, If-Match)
+ * @param header - Header value
+ * @returns Entity tags with quotes, and weak tags with the `W/` prefix
+ */
+const parseEntityTags = (header: string): string[] =>
+  header
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+
+/**
+ * Get the time of a file in whole seconds, the precision of HTTP dates
+ * @param stats - File stats
+ * @returns Seconds since the epoch
+ */
+const getModifiedSeconds = (stats: Stats): number =>
+  Math.floor(stats.mtimeMs / 1000);
+
+/**
+ * Check the If-None-Match and If-Modified-Since headers
+ * @param request - Fastify request object
+ * @param etag - Entity tag of the file (with quotes)
+ * @param stats - File stats
+ * @returns True if the client already has the current representation
+ * @remarks If-Modified-Since is ignored when If-None-Match is present (RFC 9110 13.2.2).
+ */
+const isNotModified = (
+  request: FastifyRequest,
+  etag: string,
+  stats: Stats
+): boolean => {
+  const ifNoneMatch = request.headers['if-none-match'];
+  if (ifNoneMatch !== undefined) {
+    // Weak comparison
+    return parseEntityTags(ifNoneMatch).some(
+      (tag) => tag === '*' || tag.replace(/^W\//, '') === etag
+    );
+  }
+
+  const ifModifiedSince = request.headers['if-modified-since'];
+  if (ifModifiedSince !== undefined) {
+    const since = Date.parse(ifModifiedSince);
+    return (
+      !Number.isNaN(since) &&
+      getModifiedSeconds(stats) <= Math.floor(since / 1000)
+    );
+  }
+
+  return false;
+};
+
+/**
+ * Check the If-Range header
+ * @param request - Fastify request object
+ * @param etag - Entity tag of the file (with quotes)
+ * @param stats - File stats
+ * @returns True if a Range header can be applied
+ */
+const isIfRangeSatisfied = (
+  request: FastifyRequest,
+  etag: string,
+  stats: Stats
+): boolean => {
+  const header = request.headers['if-range'];
+  if (typeof header !== 'string') {
+    return true;
+  }
+  const ifRange = header.trim();
+  // Strong comparison, so weak tags never match
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag;
+  }
+  const date = Date.parse(ifRange);
+  return (
+    !Number.isNaN(date) && Math.floor(date / 1000) === getModifiedSeconds(stats)
+  );
+};
+
+/**
+ * Parse a Range header
+ * @param header - Header value
+ * @param size - File size in bytes
+ * @returns Byte range, 'unsatisfiable', or undefined to send the whole file
+ * @remarks Multiple ranges and malformed headers are answered with the whole file (RFC 9110 14.2).
+ */
+const parseRange = (
+  header: string | undefined,
+  size: number
+): ByteRange | 'unsatisfiable' | undefined => {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  const first = match?.[1] ?? '';
+  const last = match?.[2] ?? '';
+  if (first === '' && last === '') {
+    return undefined;
+  }
+
+  if (first === '') {
+    // Suffix range: the last N bytes
+    const length = parseInt(last, 10);
+    if (length === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(size - length, 0), end: size - 1 };
+  }
+
+  const start = parseInt(first, 10);
+  const end = last === '' ? size - 1 : parseInt(last, 10);
+  if (last !== '' && end < start) {
+    return undefined;
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+  return { start, end: Math.min(end, size - 1) };
+};
+
 /**
  * Get MIME type based on file extension
  * @param ext - File extension (including the dot)
@@ -0,0 +1,164 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+/**
+ * Headers of a part in a multipart/form-data body
+ */
+export interface MultipartPart {
+  fieldName?: string;
+  fileName?: string;
+  contentType?: string;
+}
+
+/**
+ * Event read from a multipart/form-data body
+ * @remarks A part is complete only when its `end` event is read; a truncated body ends without it.
+ */
+export type MultipartStreamEvent =
+  | { type: 'part'; part: MultipartPart }
+  | { type: 'data'; data: Buffer }
+  | { type: 'end' };
+
+const CRLF = '\r\n';
+const HEADER_TERMINATOR = '\r\n\r\n';
+const MAX_PART_HEADER_SIZE = 16 * 1024;
+
+/**
+ * Extracts the boundary parameter from a multipart Content-Type header value
+ * @param contentType - Content-Type header value
+ * @returns Boundary string, or undefined if not a multipart content type
+ * @remarks NuGet clients send the boundary quoted (`boundary="..."`), so quotes are stripped.
+ */
+export const getMultipartBoundary = (
+  contentType: string | undefined
+): string | undefined => {
+  if (!contentType || !/^multipart\//i.test(contentType.trim())) {
+    return undefined;
+  }
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  const boundary = match?.[1] ?? match?.[2];
+  return boundary && boundary.length > 0 ? boundary : undefined;
+};
+
+/**
+ * Parses part headers into a lower-cased key map
+ */
+const parsePartHeaders = (rawHeaders: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of rawHeaders.split(CRLF)) {
+    const colonIndex = line.indexOf(':');
+    if (colonIndex > 0) {
+      const name = line.substring(0, colonIndex).trim().toLowerCase();
+      headers[name] = line.substring(colonIndex + 1).trim();
+    }
+  }
+  return headers;
+};
+
+/**
+ * Reads a parameter (e.g. `name`, `filename`) from a Content-Disposition value
+ */
+const getDispositionParameter = (
+  disposition: string | undefined,
+  parameter: string
+): string | undefined => {
+  if (!disposition) {
+    return undefined;
+  }
+  const match = disposition.match(
+    new RegExp(`(?:^|;)\\s*${parameter}=(?:"([^"]*)"|([^;]*))`, 'i')
+  );
+  const value = match?.[1] ?? match?.[2]?.trim();
+  return value !== undefined && value.length > 0 ? value : undefined;
+};
+
+/**
+ * Reads the parts of a multipart/form-data body as a stream
+ * @param source - Body chunks
+ * @param boundary - Multipart boundary (see getMultipartBoundary)
+ * @returns Events of the parts, in body order
+ * @remarks Part contents are passed through as they arrive, so memory use does not depend on the body size.
+ * Reading stops at the closing delimiter or at malformed input.
+ */
+export async function* readMultipartStream(
+  source: AsyncIterable<Buffer>,
+  boundary: string
+): AsyncGenerator<MultipartStreamEvent, void, undefined> {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const partDelimiter = Buffer.from(`${CRLF}--${boundary}`);
+
+  let state: 'preamble' | 'delimiter' | 'headers' | 'data' = 'preamble';
+  let buffer: Buffer = Buffer.alloc(0);
+
+  for await (const chunk of source) {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+
+    while (true) {
+      if (state === 'preamble') {
+        const position = buffer.indexOf(delimiter);
+        if (position === -1) {
+          // Keep the bytes which may be the beginning of the delimiter
+          buffer = buffer.subarray(
+            Math.max(buffer.length - delimiter.length + 1, 0)
+          );
+          break;
+        }
+        buffer = buffer.subarray(position + delimiter.length);
+        state = 'delimiter';
+      } else if (state === 'delimiter') {
+        if (buffer.length < 2) {
+          break;
+        }
+        // Closing delimiter ("--boundary--")
+        if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+          return;
+        }
+        if (buffer[0] === 0x0d && buffer[1] === 0x0a) {
+          buffer = buffer.subarray(2);
+        }
+        state = 'headers';
+      } else if (state === 'headers') {
+        const headerEnd = buffer.indexOf(HEADER_TERMINATOR);
+        if (headerEnd === -1) {
+          if (buffer.length > MAX_PART_HEADER_SIZE) {
+            return;
+          }
+          break;
+        }
+        const headers = parsePartHeaders(
+          buffer.subarray(0, headerEnd).toString('utf-8')
+        );
+        const disposition = headers['content-disposition'];
+        yield {
+          type: 'part',
+          part: {
+            fieldName: getDispositionParameter(disposition, 'name'),
+            fileName: getDispositionParameter(disposition, 'filename'),
+            contentType: headers['content-type'],
+          },
+        };
+        buffer = buffer.subarray(headerEnd + HEADER_TERMINATOR.length);
+        state = 'data';
+      } else {
+        const dataEnd = buffer.indexOf(partDelimiter);
+        if (dataEnd === -1) {
+          // Keep the bytes which may be the beginning of the delimiter
+          const length = buffer.length - partDelimiter.length + 1;
+          if (length > 0) {
+            yield { type: 'data', data: buffer.subarray(0, length) };
+            buffer = buffer.subarray(length);
+          }
+          break;
+        }
+        if (dataEnd > 0) {
+          yield { type: 'data', data: buffer.subarray(0, dataEnd) };
+        }
+        yield { type: 'end' };
+        // Continue from the delimiter following this part (without the leading CRLF)
+        buffer = buffer.subarray(dataEnd + partDelimiter.length);
+        state = 'delimiter';
+      }
+    }
+  }
+}
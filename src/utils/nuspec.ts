@@ -140,3 +140,205 @@ export const extractNuspecTargetFrameworks = (
     ),
   ];
 };
+
+/**
+ * Package dependency declared in nuspec metadata
+ */
+export interface NuspecDependency {
+  id: string;
+  version?: string;
+  exclude?: string;
+}
+
+/**
+ * Group of nuspec dependencies for a specific target framework
+ */
+export interface NuspecDependencyGroup {
+  targetFramework?: string;
+  dependencies: NuspecDependency[];
+}
+
+/**
+ * Source repository information declared in nuspec metadata
+ */
+export interface NuspecRepository {
+  type?: string;
+  url?: string;
+  branch?: string;
+  commit?: string;
+}
+
+/**
+ * Package type declared in nuspec metadata (e.g. `Dependency`, `DotnetTool`)
+ */
+export interface NuspecPackageType {
+  name: string;
+  version?: string;
+}
+
+/**
+ * Package metadata extracted from a nuspec metadata section
+ */
+export interface NuspecMetadata {
+  id?: string;
+  version?: string;
+  title?: string;
+  authors?: string;
+  description?: string;
+  summary?: string;
+  releaseNotes?: string;
+  copyright?: string;
+  language?: string;
+  minClientVersion?: string;
+  requireLicenseAcceptance: boolean;
+  licenseUrl?: string;
+  licenseExpression?: string;
+  projectUrl?: string;
+  iconUrl?: string;
+  icon?: string;
+  readme?: string;
+  repository?: NuspecRepository;
+  tags: string[];
+  targetFrameworks: string[];
+  dependencies: NuspecDependencyGroup[];
+  packageTypes: NuspecPackageType[];
+}
+
+/**
+ * Reads the text content of a parsed nuspec element.
+ * @remarks xml2js yields an object (`{ _: text, $: attributes }`) for elements carrying attributes.
+ */
+const getElementText = (value: unknown): string | undefined => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    const text = (value as { _?: unknown })._;
+    return typeof text === 'string' ? text : undefined;
+  }
+  return undefined;
+};
+
+const getElementAttributes = (
+  value: unknown
+): Record<string, string | undefined> =>
+  value && typeof value === 'object'
+    ? ((value as { $?: Record<string, string> }).$ ?? {})
+    : {};
+
+const toDependency = (dependency: unknown): NuspecDependency | undefined => {
+  const attributes = getElementAttributes(dependency);
+  return attributes.id
+    ? {
+        id: attributes.id,
+        version: attributes.version,
+        exclude: attributes.exclude,
+      }
+    : undefined;
+};
+
+const isDependency = (
+  dependency: NuspecDependency | undefined
+): dependency is NuspecDependency => dependency !== undefined;
+
+/**
+ * Extracts dependency groups from a parsed nuspec `dependencies` element.
+ * @param dependencies - Parsed `dependencies` element
+ * @returns Dependency groups in declaration order
+ * @remarks Flat dependency lists (without `group` elements) are returned as a single group without target framework.
+ */
+export const extractNuspecDependencyGroups = (
+  dependencies: unknown
+): NuspecDependencyGroup[] => {
+  if (!dependencies || typeof dependencies !== 'object') {
+    return [];
+  }
+  const element = dependencies as { group?: unknown; dependency?: unknown };
+
+  if (element.group) {
+    return toArray(element.group).map((group) => ({
+      targetFramework: getElementAttributes(group).targetFramework,
+      dependencies: toArray(
+        (group as { dependency?: unknown } | undefined)?.dependency
+      )
+        .map(toDependency)
+        .filter(isDependency),
+    }));
+  }
+
+  const flatDependencies = toArray(element.dependency)
+    .map(toDependency)
+    .filter(isDependency);
+  return flatDependencies.length > 0
+    ? [{ dependencies: flatDependencies }]
+    : [];
+};
+
+/**
+ * Extracts package types from a parsed nuspec `packageTypes` element.
+ * @param packageTypes - Parsed `packageTypes` element
+ * @returns Declared package types, empty when the nuspec does not declare any
+ * @remarks NuGet treats packages without declared package types as `Dependency` packages.
+ */
+export const extractNuspecPackageTypes = (
+  packageTypes: unknown
+): NuspecPackageType[] => {
+  if (!packageTypes || typeof packageTypes !== 'object') {
+    return [];
+  }
+  return toArray((packageTypes as { packageType?: unknown }).packageType)
+    .map((packageType) => getElementAttributes(packageType))
+    .filter((attributes) => attributes.name)
+    .map((attributes) => ({
+      name: attributes.name!,
+      version: attributes.version,
+    }));
+};
+
+/**
+ * Extracts package metadata from a parsed nuspec metadata section.
+ * @param metadata - Parsed nuspec metadata section (xml2js with `explicitArray: false`)
+ * @returns Extracted metadata, `id` and `version` are left undefined when missing
+ */
+export const extractNuspecMetadata = (
+  metadata: Record<string, unknown>
+): NuspecMetadata => {
+  const tags = getElementText(metadata.tags);
+  const repositoryAttributes = getElementAttributes(metadata.repository);
+  const repository: NuspecRepository | undefined = metadata.repository
+    ? {
+        type: repositoryAttributes.type,
+        url: repositoryAttributes.url,
+        branch: repositoryAttributes.branch,
+        commit: repositoryAttributes.commit,
+      }
+    : undefined;
+
+  return {
+    id: getElementText(metadata.id),
+    version: getElementText(metadata.version),
+    title: getElementText(metadata.title),
+    authors: getElementText(metadata.authors),
+    description: getElementText(metadata.description),
+    summary: getElementText(metadata.summary),
+    releaseNotes: getElementText(metadata.releaseNotes),
+    copyright: getElementText(metadata.copyright),
+    language: getElementText(metadata.language),
+    minClientVersion: getElementAttributes(metadata).minClientVersion,
+    requireLicenseAcceptance:
+      getElementText(metadata.requireLicenseAcceptance)
+        ?.trim()
+        .toLowerCase() === 'true',
+    licenseUrl: getElementText(metadata.licenseUrl),
+    licenseExpression: getElementText(metadata.license),
+    projectUrl: getElementText(metadata.projectUrl),
+    iconUrl: getElementText(metadata.iconUrl),
+    icon: getElementText(metadata.icon),
+    readme: getElementText(metadata.readme),
+    repository,
+    tags: tags ? parseNuspecTags(tags) : [],
+    targetFrameworks: extractNuspecTargetFrameworks(metadata),
+    dependencies: extractNuspecDependencyGroups(metadata.dependencies),
+    packageTypes: extractNuspecPackageTypes(metadata.packageTypes),
+  };
+};
@@ -0,0 +1,443 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+/**
+ * Value of an OData property or literal
+ */
+export type ODataValue = string | number | boolean | Date | null;
+
+/**
+ * Binary operators of OData `$filter` expressions
+ */
+export type ODataBinaryOperator =
+  | 'and'
+  | 'or'
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'ge'
+  | 'lt'
+  | 'le';
+
+/**
+ * Parsed OData `$filter` expression
+ */
+export type ODataExpression =
+  | { kind: 'literal'; value: ODataValue }
+  | { kind: 'property'; name: string }
+  | { kind: 'call'; name: string; args: ODataExpression[] }
+  | { kind: 'not'; operand: ODataExpression }
+  | {
+      kind: 'binary';
+      operator: ODataBinaryOperator;
+      left: ODataExpression;
+      right: ODataExpression;
+    };
+
+/**
+ * Single key of an OData `$orderby` clause
+ */
+export interface ODataOrderBy {
+  property: string;
+  descending: boolean;
+}
+
+/**
+ * Token of an OData expression
+ */
+interface ODataToken {
+  kind: 'string' | 'number' | 'datetime' | 'identifier' | 'symbol';
+  text: string;
+}
+
+const comparisonOperators: readonly ODataBinaryOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'ge',
+  'lt',
+  'le',
+];
+
+/**
+ * Number of arguments of the supported OData functions
+ */
+const functionArities: Record<string, readonly number[]> = {
+  tolower: [1],
+  toupper: [1],
+  trim: [1],
+  length: [1],
+  substringof: [2],
+  startswith: [2],
+  endswith: [2],
+  indexof: [2],
+  concat: [2],
+  substring: [2, 3],
+};
+
+/**
+ * Splits an OData expression into tokens
+ * @throws Error if the expression contains an invalid token
+ */
+const tokenize = (text: string): ODataToken[] => {
+  const tokens: ODataToken[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const ch = text[index]!;
+    if (/\s/.test(ch)) {
+      index++;
+      continue;
+    }
+    if (ch === "'") {
+      // String literal, quotes are escaped by doubling them
+      let value = '';
+      index++;
+      for (;;) {
+        if (index >= text.length) {
+          throw new Error('Unterminated string literal');
+        }
+        if (text[index] === "'") {
+          if (text[index + 1] === "'") {
+            value += "'";
+            index += 2;
+            continue;
+          }
+          index++;
+          break;
+        }
+        value += text[index];
+        index++;
+      }
+      tokens.push({ kind: 'string', text: value });
+      continue;
+    }
+    if ('(),'.includes(ch)) {
+      tokens.push({ kind: 'symbol', text: ch });
+      index++;
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?[LlMmDdFf]?/.exec(text.slice(index));
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0].replace(/[A-Za-z]$/, '') });
+      index += number[0].length;
+      continue;
+    }
+    const datetime = /^datetime'([^']*)'/.exec(text.slice(index));
+    if (datetime) {
+      tokens.push({ kind: 'datetime', text: datetime[1]! });
+      index += datetime[0].length;
+      continue;
+    }
+    const identifier = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(text.slice(index));
+    if (identifier) {
+      tokens.push({ kind: 'identifier', text: identifier[0] });
+      index += identifier[0].length;
+      continue;
+    }
+    throw new Error(`Unexpected character '${ch}' at position ${index}`);
+  }
+  return tokens;
+};
+
+/**
+ * Parses an OData `$filter` expression
+ * @param text - Filter expression (e.g. `tolower(Id) eq 'flashcap' and IsLatestVersion`)
+ * @param properties - Property names allowed in the expression
+ * @returns Parsed expression
+ * @throws Error if the expression is invalid or refers to an unknown property
+ */
+export const parseODataFilter = (
+  text: string,
+  properties: readonly string[]
+): ODataExpression => {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peek = (): ODataToken | undefined => tokens[position];
+  const isKeyword = (token: ODataToken | undefined, keyword: string) =>
+    token?.kind === 'identifier' && token.text.toLowerCase() === keyword;
+  const expectSymbol = (symbol: string) => {
+    const token = tokens[position++];
+    if (token?.kind !== 'symbol' || token.text !== symbol) {
+      throw new Error(`Expected '${symbol}'`);
+    }
+  };
+
+  const parseOr = (): ODataExpression => {
+    let left = parseAnd();
+    while (isKeyword(peek(), 'or')) {
+      position++;
+      left = { kind: 'binary', operator: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ODataExpression => {
+    let left = parseNot();
+    while (isKeyword(peek(), 'and')) {
+      position++;
+      left = { kind: 'binary', operator: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ODataExpression => {
+    if (isKeyword(peek(), 'not')) {
+      position++;
+      return { kind: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ODataExpression => {
+    const left = parsePrimary();
+    const operator = comparisonOperators.find((op) => isKeyword(peek(), op));
+    if (!operator) {
+      return left;
+    }
+    position++;
+    return { kind: 'binary', operator, left, right: parsePrimary() };
+  };
+
+  const parsePrimary = (): ODataExpression => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+    switch (token.kind) {
+      case 'string':
+        return { kind: 'literal', value: token.text };
+      case 'number':
+        return { kind: 'literal', value: Number(token.text) };
+      case 'datetime': {
+        const date = new Date(token.text);
+        if (Number.isNaN(date.getTime())) {
+          throw new Error(`Invalid datetime literal '${token.text}'`);
+        }
+        return { kind: 'literal', value: date };
+      }
+      case 'symbol': {
+        if (token.text !== '(') {
+          throw new Error(`Unexpected '${token.text}'`);
+        }
+        const inner = parseOr();
+        expectSymbol(')');
+        return inner;
+      }
+    }
+
+    const lower = token.text.toLowerCase();
+    if (lower === 'true' || lower === 'false') {
+      return { kind: 'literal', value: lower === 'true' };
+    }
+    if (lower === 'null') {
+      return { kind: 'literal', value: null };
+    }
+
+    // Function call
+    if (peek()?.kind === 'symbol' && peek()!.text === '(') {
+      const arities = functionArities[lower];
+      if (!arities) {
+        throw new Error(`Unsupported function '${token.text}'`);
+      }
+      position++;
+      const args: ODataExpression[] = [];
+      if (!(peek()?.kind === 'symbol' && peek()!.text === ')')) {
+        args.push(parseOr());
+        while (peek()?.kind === 'symbol' && peek()!.text === ',') {
+          position++;
+          args.push(parseOr());
+        }
+      }
+      expectSymbol(')');
+      if (!arities.includes(args.length)) {
+        throw new Error(`Invalid number of arguments for '${token.text}'`);
+      }
+      return { kind: 'call', name: lower, args };
+    }
+
+    if (!properties.includes(token.text)) {
+      throw new Error(`Unknown property '${token.text}'`);
+    }
+    return { kind: 'property', name: token.text };
+  };
+
+  const expression = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected '${tokens[position]!.text}'`);
+  }
+  return expression;
+};
+
+/**
+ * Compares two OData values
+ * @returns Negative, zero or positive like a sort comparer, undefined if not comparable
+ * @remarks Strings are compared case-insensitively, like the SQL collation behind nuget.org V2 feed.
+ */
+export const compareODataValues = (
+  a: ODataValue,
+  b: ODataValue
+): number | undefined => {
+  if (a === null || b === null) {
+    return a === b ? 0 : undefined;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    const left =
+      a instanceof Date ? a.getTime() : new Date(String(a)).getTime();
+    const right =
+      b instanceof Date ? b.getTime() : new Date(String(b)).getTime();
+    return Number.isNaN(left) || Number.isNaN(right) ? undefined : left - right;
+  }
+  if (typeof a === 'string' || typeof b === 'string') {
+    const left = String(a).toLowerCase();
+    const right = String(b).toLowerCase();
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  return Number(a) - Number(b);
+};
+
+/**
+ * Converts a value to a string for string functions (null is an empty string)
+ */
+const toODataString = (value: ODataValue): string =>
+  value === null
+    ? ''
+    : value instanceof Date
+      ? value.toISOString()
+      : String(value);
+
+/**
+ * Evaluates an OData expression against a record
+ * @param expression - Parsed expression
+ * @param record - Property values of the record
+ * @returns Value of the expression
+ */
+export const evaluateODataExpression = (
+  expression: ODataExpression,
+  record: Record<string, ODataValue>
+): ODataValue => {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'property':
+      return record[expression.name] ?? null;
+    case 'not':
+      return !evaluateODataExpression(expression.operand, record);
+    case 'binary': {
+      const left = evaluateODataExpression(expression.left, record);
+      if (expression.operator === 'and') {
+        return !!left && !!evaluateODataExpression(expression.right, record);
+      }
+      if (expression.operator === 'or') {
+        return !!left || !!evaluateODataExpression(expression.right, record);
+      }
+      const comparison = compareODataValues(
+        left,
+        evaluateODataExpression(expression.right, record)
+      );
+      switch (expression.operator) {
+        case 'eq':
+          return comparison === 0;
+        case 'ne':
+          return comparison !== 0;
+        case 'gt':
+          return comparison !== undefined && comparison > 0;
+        case 'ge':
+          return comparison !== undefined && comparison >= 0;
+        case 'lt':
+          return comparison !== undefined && comparison < 0;
+        case 'le':
+          return comparison !== undefined && comparison <= 0;
+      }
+    }
+  }
+
+  // Function call, string functions are case-insensitive like comparisons
+  const args = expression.args.map((arg) =>
+    evaluateODataExpression(arg, record)
+  );
+  const [first, second, third] = args.map(toODataString);
+  switch (expression.name) {
+    case 'tolower':
+      return first!.toLowerCase();
+    case 'toupper':
+      return first!.toUpperCase();
+    case 'trim':
+      return first!.trim();
+    case 'length':
+      return first!.length;
+    case 'substringof':
+      return second!.toLowerCase().includes(first!.toLowerCase());
+    case 'startswith':
+      return first!.toLowerCase().startsWith(second!.toLowerCase());
+    case 'endswith':
+      return first!.toLowerCase().endsWith(second!.toLowerCase());
+    case 'indexof':
+      return first!.toLowerCase().indexOf(second!.toLowerCase());
+    case 'concat':
+      return first! + second!;
+    case 'substring':
+      return third === undefined
+        ? first!.substring(Number(args[1]))
+        : first!.substring(Number(args[1]), Number(args[1]) + Number(args[2]));
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parses an OData `$orderby` clause
+ * @param text - Order by clause (e.g. `Published desc, Id`)
+ * @param properties - Property names allowed in the clause
+ * @returns Sort keys in priority order
+ * @throws Error if the clause refers to an unknown property
+ */
+export const parseODataOrderBy = (
+  text: string,
+  properties: readonly string[]
+): ODataOrderBy[] =>
+  text
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const [property, direction, ...rest] = part.split(/\s+/);
+      if (!property || !properties.includes(property) || rest.length > 0) {
+        throw new Error(`Invalid $orderby clause '${part}'`);
+      }
+      const lowerDirection = direction?.toLowerCase();
+      if (
+        lowerDirection &&
+        lowerDirection !== 'asc' &&
+        lowerDirection !== 'desc'
+      ) {
+        throw new Error(`Invalid $orderby direction '${direction}'`);
+      }
+      return { property, descending: lowerDirection === 'desc' };
+    });
+
+/**
+ * Parses a quoted OData function parameter (e.g. `'FlashCap'`)
+ * @param value - Raw query parameter value
+ * @returns Unquoted value, or undefined if missing
+ */
+export const parseODataString = (
+  value: string | undefined
+): string | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")
+    ? trimmed.slice(1, -1).replace(/''/g, "'")
+    : trimmed;
+};
+
+/**
+ * Formats a string as an OData string literal
+ * @param value - String value
+ * @returns Quoted literal with escaped quotes
+ */
+export const formatODataString = (value: string): string =>
+  `'${value.replace(/'/g, "''")}'`;
@@ -0,0 +1,58 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { readFile, writeFile } from 'fs/promises';
+
+/**
+ * Algorithm of package hashes (the `packageHashAlgorithm` value in NuGet catalog data)
+ */
+export const packageHashAlgorithm = 'SHA512';
+
+/**
+ * Extension of the hash file written next to a nupkg file (NuGet `.nupkg.sha512` convention)
+ */
+export const packageHashFileExtension = '.sha512';
+
+// Length of a SHA512 digest in bytes
+const sha512Length = 64;
+
+/**
+ * Writes the hash file next to a nupkg file
+ * @param nupkgPath - File system path to the nupkg file
+ * @param hash - Base64 encoded SHA512 hash of the nupkg
+ */
+export const writePackageHash = async (
+  nupkgPath: string,
+  hash: string
+): Promise<void> => {
+  await writeFile(`${nupkgPath}${packageHashFileExtension}`, hash);
+};
+
+/**
+ * Reads the hash file next to a nupkg file
+ * @param nupkgPath - File system path to the nupkg file
+ * @returns Base64 encoded SHA512 hash, or undefined if missing or malformed
+ */
+export const readPackageHash = async (
+  nupkgPath: string
+): Promise<string | undefined> => {
+  try {
+    const hash = (
+      await readFile(`${nupkgPath}${packageHashFileExtension}`, 'utf-8')
+    ).trim();
+    return /^[A-Za-z0-9+/]+={0,2}$/.test(hash) &&
+      Buffer.from(hash, 'base64').length === sha512Length
+      ? hash
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Formats a package hash as the `Repr-Digest` header value (RFC 9530)
+ * @param hash - Base64 encoded SHA512 hash
+ * @returns Header value (e.g. `sha-512=:...:`)
+ */
+export const formatReprDigest = (hash: string): string => `sha-512=:${hash}:`;
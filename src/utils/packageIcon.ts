@@ -0,0 +1,56 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { readdir } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Last path segment of the icon in the PackageBaseAddress resource (`{lower_id}/{lower_version}/icon`)
+ */
+export const iconDocumentName = 'icon';
+
+/**
+ * Content types of extracted icon files (`icon.{extension}`), in lookup order
+ */
+export const iconContentTypes: Readonly<Record<string, string>> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Extracted icon file in a version directory
+ */
+export interface PackageIconFile {
+  path: string;
+  contentType: string;
+}
+
+/**
+ * Finds the icon extracted into a version directory
+ * @param versionPath - File system path to the version directory
+ * @returns Icon file, or undefined if the version has no icon
+ * @remarks File names are compared case-insensitively, so directories copied by hand are also found.
+ */
+export const findPackageIcon = async (
+  versionPath: string
+): Promise<PackageIconFile | undefined> => {
+  let files: string[];
+  try {
+    files = await readdir(versionPath);
+  } catch {
+    return undefined;
+  }
+  for (const [extension, contentType] of Object.entries(iconContentTypes)) {
+    const fileName = files.find(
+      (file) => file.toLowerCase() === `icon.${extension}`
+    );
+    if (fileName) {
+      return { path: join(versionPath, fileName), contentType };
+    }
+  }
+  return undefined;
+};
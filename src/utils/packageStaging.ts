@@ -0,0 +1,187 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import {
+  access,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from 'fs/promises';
+import { dirname, join, relative } from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Directory in the packages root holding version directories being published
+ * @remarks Package IDs cannot start with a dot, so the name never collides with a package directory.
+ */
+export const stagingDirectoryName = '.staging';
+
+// Suffixes of a version directory set aside while being replaced, and of the record of its original path
+const setAsideSuffix = '.replaced';
+const setAsideRecordSuffix = '.replaced.json';
+
+/**
+ * Record written before a version directory is set aside, so it can be restored after a crash
+ */
+interface SetAsideRecord {
+  versionPath: string; // Relative to the packages root
+}
+
+/**
+ * Result of the startup cleanup of the staging directory
+ */
+export interface StagingCleanupResult {
+  removed: number; // Staging directories of interrupted publishes
+  restored: string[]; // Version directories moved back, relative to the packages root
+}
+
+/**
+ * Checks whether a file or directory exists
+ */
+const pathExists = async (path: string): Promise<boolean> => {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Creates an empty staging directory for a version being published
+ * @param packagesRoot - Root directory containing package files
+ * @returns File system path to the staging directory
+ * @remarks Staging in the packages root keeps the final rename on the same file system, so it is atomic.
+ */
+export const createStagingDirectory = async (
+  packagesRoot: string
+): Promise<string> => {
+  const stagingPath = join(packagesRoot, stagingDirectoryName, randomUUID());
+  await mkdir(stagingPath, { recursive: true });
+  return stagingPath;
+};
+
+/**
+ * Moves an existing version directory aside while a staged version replaces it
+ * @param packagesRoot - Root directory containing package files
+ * @param stagingPath - Staging directory of the replacing version
+ * @param versionPath - File system path to the version directory to set aside
+ * @returns Path the directory was moved to, or undefined if there was no directory
+ * @remarks The original path is recorded first, so the directory is restored on startup if the replacement never completes.
+ */
+export const setAsideVersionDirectory = async (
+  packagesRoot: string,
+  stagingPath: string,
+  versionPath: string
+): Promise<string | undefined> => {
+  const setAsidePath = `${stagingPath}${setAsideSuffix}`;
+  const recordPath = `${stagingPath}${setAsideRecordSuffix}`;
+  const record: SetAsideRecord = {
+    versionPath: relative(packagesRoot, versionPath),
+  };
+  await writeFile(recordPath, JSON.stringify(record));
+  try {
+    await rename(versionPath, setAsidePath);
+    return setAsidePath;
+  } catch (error: any) {
+    await rm(recordPath, { force: true });
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+    return undefined;
+  }
+};
+
+/**
+ * Moves a version directory set aside back to its original path
+ * @param setAsidePath - Path returned by setAsideVersionDirectory
+ * @param versionPath - Original path of the version directory
+ */
+export const restoreVersionDirectory = async (
+  setAsidePath: string,
+  versionPath: string
+): Promise<void> => {
+  await rename(setAsidePath, versionPath);
+  await rm(
+    setAsidePath.slice(0, -setAsideSuffix.length) + setAsideRecordSuffix,
+    {
+      force: true,
+    }
+  );
+};
+
+/**
+ * Removes a version directory set aside, once its replacement is in place
+ * @param setAsidePath - Path returned by setAsideVersionDirectory
+ */
+export const removeSetAsideVersionDirectory = async (
+  setAsidePath: string
+): Promise<void> => {
+  await rm(setAsidePath, { recursive: true, force: true });
+  await rm(
+    setAsidePath.slice(0, -setAsideSuffix.length) + setAsideRecordSuffix,
+    {
+      force: true,
+    }
+  );
+};
+
+/**
+ * Cleans up staging directories left by publishes interrupted by a crash
+ * @param packagesRoot - Root directory containing package files
+ * @returns Number of removed staging directories, and the version directories restored
+ * @remarks Must only be called before any publish starts.
+ * Version directories set aside are moved back first when nothing replaced them, so the only copy of a version is never removed.
+ */
+export const cleanupStagingDirectories = async (
+  packagesRoot: string
+): Promise<StagingCleanupResult> => {
+  const stagingRoot = join(packagesRoot, stagingDirectoryName);
+  let names: string[];
+  try {
+    names = await readdir(stagingRoot);
+  } catch {
+    return { removed: 0, restored: [] };
+  }
+
+  const restored: string[] = [];
+  for (const name of names.filter((n) => n.endsWith(setAsideRecordSuffix))) {
+    const setAsidePath = join(
+      stagingRoot,
+      name.slice(0, -setAsideRecordSuffix.length) + setAsideSuffix
+    );
+    let record: SetAsideRecord;
+    try {
+      record = JSON.parse(
+        await readFile(join(stagingRoot, name), 'utf-8')
+      ) as SetAsideRecord;
+    } catch {
+      continue;
+    }
+    if (typeof record.versionPath !== 'string') {
+      continue;
+    }
+    // The replacing version was moved into place when the version path exists
+    const versionPath = join(packagesRoot, record.versionPath);
+    if (!(await pathExists(setAsidePath)) || (await pathExists(versionPath))) {
+      continue;
+    }
+    await mkdir(dirname(versionPath), { recursive: true });
+    await rename(setAsidePath, versionPath);
+    restored.push(record.versionPath);
+  }
+
+  for (const name of names) {
+    await rm(join(stagingRoot, name), { recursive: true, force: true });
+  }
+  return {
+    removed: names.filter(
+      (n) => !n.endsWith(setAsideSuffix) && !n.endsWith(setAsideRecordSuffix)
+    ).length,
+    restored,
+  };
+};
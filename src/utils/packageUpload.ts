@@ -0,0 +1,142 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { open } from 'fs/promises';
+import { createHash, Hash } from 'crypto';
+import { Readable } from 'stream';
+import { readMultipartStream } from './multipart';
+
+/**
+ * Options for receiving an uploaded package
+ */
+export interface ReceivePackageUploadOptions {
+  /** Upper limit of the request body size in bytes */
+  maxSize: number;
+  /** Multipart boundary when the package is sent as multipart/form-data */
+  boundary?: string;
+}
+
+/**
+ * Result of receiving an uploaded package into a temporary file
+ */
+export type PackageUploadResult =
+  | { valid: true; size: number; sha512: string }
+  | { valid: false; statusCode: 400 | 413; error: string };
+
+/**
+ * Receives an uploaded package from the request body into a file
+ * @param source - Request body stream, undefined when the request has no body
+ * @param filePath - File system path to write the package to
+ * @param options - Size limit and multipart boundary
+ * @returns Package size and base64 encoded SHA512 hash, or the reason of the rejection
+ * @remarks The body is written as it arrives and hashed on the fly, so memory use does not depend on the package size.
+ * For multipart bodies, the first part carrying a file name is taken, or the first part when no part has a file name
+ * (`dotnet nuget push` and `nuget.exe push` send the package as a single file part).
+ */
+export const receivePackageUpload = async (
+  source: Readable | undefined,
+  filePath: string,
+  options: ReceivePackageUploadOptions
+): Promise<PackageUploadResult> => {
+  const handle = await open(filePath, 'w');
+  try {
+    let hash: Hash = createHash('sha512');
+    let size = 0;
+
+    const write = async (data: Buffer) => {
+      await handle.write(data, 0, data.length, size);
+      hash.update(data);
+      size += data.length;
+    };
+    const reset = async () => {
+      await handle.truncate(0);
+      hash = createHash('sha512');
+      size = 0;
+    };
+
+    // Reading stops at the limit without destroying the request,
+    // so the rejection can still be sent to the client
+    let receivedSize = 0;
+    let tooLarge = false;
+    const readBody = async function* () {
+      if (!source) {
+        return;
+      }
+      for await (const chunk of source.iterator({ destroyOnReturn: false })) {
+        receivedSize += chunk.length;
+        if (receivedSize > options.maxSize) {
+          tooLarge = true;
+          return;
+        }
+        yield chunk as Buffer;
+      }
+    };
+
+    let found = false;
+    if (options.boundary) {
+      let selected: 'none' | 'unnamed' | 'named' = 'none';
+      let writing = false;
+      for await (const event of readMultipartStream(
+        readBody(),
+        options.boundary
+      )) {
+        switch (event.type) {
+          case 'part': {
+            const named = event.part.fileName !== undefined;
+            writing = named ? selected !== 'named' : selected === 'none';
+            if (writing) {
+              if (selected !== 'none') {
+                await reset();
+              }
+              selected = named ? 'named' : 'unnamed';
+              found = false;
+            }
+            break;
+          }
+          case 'data':
+            if (writing) {
+              await write(event.data);
+            }
+            break;
+          case 'end':
+            if (writing) {
+              found = true;
+              writing = false;
+            }
+            break;
+        }
+      }
+    } else {
+      for await (const chunk of readBody()) {
+        await write(chunk);
+      }
+      found = true;
+    }
+
+    if (tooLarge) {
+      return {
+        valid: false,
+        statusCode: 413,
+        error: `Package exceeds the maximum upload size of ${options.maxSize} bytes`,
+      };
+    }
+    if (!found) {
+      return {
+        valid: false,
+        statusCode: 400,
+        error: 'No package file found in multipart body',
+      };
+    }
+    if (size === 0) {
+      return {
+        valid: false,
+        statusCode: 400,
+        error: 'No package data received',
+      };
+    }
+    return { valid: true, size, sha512: hash.digest('base64') };
+  } finally {
+    await handle.close();
+  }
+};
@@ -0,0 +1,80 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Identity of the user who published a package version
+ */
+export interface PublishRecordPublisher {
+  username: string;
+  apiPasswordLabel?: string;
+}
+
+/**
+ * Sidecar record written next to each published package version
+ */
+export interface PublishRecord {
+  publishedAt: string; // ISO 8601
+  publisher?: PublishRecordPublisher; // Undefined when published without authentication
+  sourceIp?: string;
+  size: number; // Package size in bytes
+  sha512: string; // Base64 encoded SHA512 hash of the nupkg
+}
+
+/**
+ * File name of the publish record in a version directory
+ */
+export const publishRecordFileName = 'publish.json';
+
+/**
+ * Computes the base64 encoded SHA512 hash of package data
+ * @param data - Package data
+ * @returns Base64 encoded hash (the format used by NuGet `packageHash`)
+ */
+export const computePackageHash = (data: Buffer): string =>
+  createHash('sha512').update(data).digest('base64');
+
+/**
+ * Writes the publish record into a version directory
+ * @param versionPath - File system path to the version directory
+ * @param record - Publish record to write
+ */
+export const writePublishRecord = async (
+  versionPath: string,
+  record: PublishRecord
+): Promise<void> => {
+  await writeFile(
+    join(versionPath, publishRecordFileName),
+    JSON.stringify(record, null, 2)
+  );
+};
+
+/**
+ * Reads the publish record from a version directory
+ * @param versionPath - File system path to the version directory
+ * @returns Publish record, or undefined if missing or malformed
+ */
+export const readPublishRecord = async (
+  versionPath: string
+): Promise<PublishRecord | undefined> => {
+  try {
+    const content = await readFile(
+      join(versionPath, publishRecordFileName),
+      'utf-8'
+    );
+    const record = JSON.parse(content) as PublishRecord;
+    if (
+      typeof record.publishedAt !== 'string' ||
+      Number.isNaN(Date.parse(record.publishedAt))
+    ) {
+      return undefined;
+    }
+    return record;
+  } catch {
+    return undefined;
+  }
+};
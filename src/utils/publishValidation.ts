@@ -0,0 +1,176 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { PublishRequiredMetadata, PublishValidationRules } from '../types';
+import {
+  normalizeNuspecTargetFramework,
+  NuspecDependencyGroup,
+  NuspecRepository,
+} from './nuspec';
+import { isPrereleaseVersion } from './semver';
+
+/**
+ * Package metadata which can be required by publish validation rules
+ */
+export const publishRequiredMetadataNames: readonly PublishRequiredMetadata[] =
+  ['license', 'repository', 'projectUrl'];
+
+/**
+ * Package being published, as seen by the publish validation rules
+ */
+export interface PublishValidationTarget {
+  id: string;
+  version: string;
+  licenseUrl?: string;
+  licenseExpression?: string;
+  projectUrl?: string;
+  repository?: NuspecRepository;
+  targetFrameworks?: string[];
+  dependencies?: NuspecDependencyGroup[];
+  /** Package size in bytes */
+  size: number;
+  /** Entry names in the package (lib/ and ref/ folders declare target frameworks) */
+  entryNames: readonly string[];
+  /** Publishing user, undefined when published without authentication */
+  username?: string;
+}
+
+/**
+ * Violation of a publish validation rule
+ */
+export interface PublishRuleViolation {
+  rule: keyof PublishValidationRules;
+  message: string;
+}
+
+/**
+ * Collects the target frameworks a package supports
+ * @param target - Package being published
+ * @returns Normalized target framework monikers from the nuspec and the lib/ and ref/ folders
+ */
+const getPackageTargetFrameworks = (
+  target: PublishValidationTarget
+): Set<string> => {
+  const frameworks = new Set(
+    (target.targetFrameworks ?? []).map(normalizeNuspecTargetFramework)
+  );
+  for (const entryName of target.entryNames) {
+    const match = entryName.match(/^(?:lib|ref)\/([^/]+)\//i);
+    if (match) {
+      frameworks.add(normalizeNuspecTargetFramework(match[1]!));
+    }
+  }
+  return frameworks;
+};
+
+/**
+ * Checks whether the package declares the required metadata
+ */
+const hasRequiredMetadata = (
+  target: PublishValidationTarget,
+  name: PublishRequiredMetadata
+): boolean => {
+  switch (name) {
+    case 'license':
+      return !!(target.licenseExpression || target.licenseUrl);
+    case 'repository':
+      return !!target.repository?.url;
+    case 'projectUrl':
+      return !!target.projectUrl;
+  }
+};
+
+/**
+ * Validates a package against the publish validation rules
+ * @param rules - Publish validation rules
+ * @param target - Package being published
+ * @returns Every violated rule, empty when the package can be published
+ */
+export const validatePublishRules = (
+  rules: PublishValidationRules,
+  target: PublishValidationTarget
+): PublishRuleViolation[] => {
+  const violations: PublishRuleViolation[] = [];
+  const lowerId = target.id.toLowerCase();
+
+  if (
+    rules.allowedIdPrefixes &&
+    rules.allowedIdPrefixes.length > 0 &&
+    !rules.allowedIdPrefixes.some((prefix) =>
+      lowerId.startsWith(prefix.toLowerCase())
+    )
+  ) {
+    violations.push({
+      rule: 'allowedIdPrefixes',
+      message: `Package ID ${target.id} must start with one of: ${rules.allowedIdPrefixes.join(', ')}`,
+    });
+  }
+
+  for (const name of rules.requiredMetadata ?? []) {
+    if (!hasRequiredMetadata(target, name)) {
+      violations.push({
+        rule: 'requiredMetadata',
+        message: `Package must declare ${name} metadata`,
+      });
+    }
+  }
+
+  if (
+    rules.maxPackageSizeMb !== undefined &&
+    target.size > 1024 * 1024 * rules.maxPackageSizeMb
+  ) {
+    violations.push({
+      rule: 'maxPackageSizeMb',
+      message: `Package size ${target.size} bytes exceeds ${rules.maxPackageSizeMb}MB`,
+    });
+  }
+
+  if (
+    target.username !== undefined &&
+    rules.prereleaseOnlyUsers?.includes(target.username) &&
+    !isPrereleaseVersion(target.version)
+  ) {
+    violations.push({
+      rule: 'prereleaseOnlyUsers',
+      message: `User ${target.username} can publish prerelease versions only`,
+    });
+  }
+
+  if (rules.forbiddenDependencies && rules.forbiddenDependencies.length > 0) {
+    const forbiddenIds = new Set(
+      rules.forbiddenDependencies.map((id) => id.toLowerCase())
+    );
+    const found = new Set<string>();
+    for (const group of target.dependencies ?? []) {
+      for (const dependency of group.dependencies) {
+        if (forbiddenIds.has(dependency.id.toLowerCase())) {
+          found.add(dependency.id);
+        }
+      }
+    }
+    for (const id of found) {
+      violations.push({
+        rule: 'forbiddenDependencies',
+        message: `Package must not depend on ${id}`,
+      });
+    }
+  }
+
+  if (
+    rules.requiredTargetFrameworks &&
+    rules.requiredTargetFrameworks.length > 0
+  ) {
+    const frameworks = getPackageTargetFrameworks(target);
+    for (const framework of rules.requiredTargetFrameworks) {
+      if (!frameworks.has(normalizeNuspecTargetFramework(framework))) {
+        violations.push({
+          rule: 'requiredTargetFrameworks',
+          message: `Package must target ${framework}`,
+        });
+      }
+    }
+  }
+
+  return violations;
+};
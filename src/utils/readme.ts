@@ -0,0 +1,66 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * File name of the extracted README in a version directory
+ */
+export const readmeFileName = 'readme.md';
+
+/**
+ * Last path segment of the README in the ReadmeUriTemplate resource (`{lower_id}/{lower_version}/readme`)
+ */
+export const readmeDocumentName = 'readme';
+
+/**
+ * Normalizes a file path declared in the nuspec to a package entry name
+ * @param path - File path (e.g. `docs\README.md` written by `dotnet pack` on Windows)
+ * @returns Entry name with forward slashes and no leading separators
+ */
+export const normalizePackageFilePath = (path: string): string =>
+  path
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.?\/)+/, '');
+
+/**
+ * Finds a package entry declared in the nuspec
+ * @param entries - Entries of the package archive
+ * @param path - File path declared in the nuspec
+ * @returns Package entry, or undefined if missing
+ * @remarks Entry names are compared case-insensitively, as NuGet does.
+ */
+export const findPackageFileEntry = <
+  TEntry extends { entryName: string; isDirectory: boolean },
+>(
+  entries: readonly TEntry[],
+  path: string
+): TEntry | undefined => {
+  const entryName = normalizePackageFilePath(path).toLowerCase();
+  return entries.find(
+    (entry) => !entry.isDirectory && entry.entryName.toLowerCase() === entryName
+  );
+};
+
+/**
+ * Stores the README declared by the nuspec `<readme>` element into a version directory
+ * @param versionPath - File system path to the version directory
+ * @param content - README content read from the package, undefined when the package has no README
+ * @returns True if the README is stored, false if the package has no README
+ * @remarks A README left by a previously stored content of the version is removed when the package has none.
+ */
+export const storePackageReadme = async (
+  versionPath: string,
+  content: Buffer | undefined
+): Promise<boolean> => {
+  const readmePath = join(versionPath, readmeFileName);
+  if (!content) {
+    await rm(readmePath, { force: true });
+    return false;
+  }
+  await writeFile(readmePath, content);
+  return true;
+};
@@ -0,0 +1,246 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { isSameVersion } from './semver';
+
+/**
+ * Field names recognized in nuget.org style search queries (e.g. `id:FlashCap`)
+ */
+export type SearchQueryField =
+  | 'id'
+  | 'packageid'
+  | 'tags'
+  | 'author'
+  | 'description'
+  | 'version';
+
+/**
+ * Single term of a parsed search query
+ */
+export interface SearchQueryTerm {
+  field?: SearchQueryField; // Undefined for free text terms
+  value: string; // Lower-cased term value
+}
+
+/**
+ * Package fields evaluated by the search query
+ */
+export interface SearchTarget {
+  id: string;
+  title?: string;
+  description?: string;
+  summary?: string;
+  tags: string[];
+  authors: string[];
+  versions: string[];
+}
+
+/**
+ * Search target with lower-cased fields, prepared once and reused across queries
+ */
+export interface PreparedSearchTarget {
+  lowerId: string;
+  idSegments: string[];
+  title?: string;
+  description?: string;
+  summary?: string;
+  tags: string[];
+  authors: string[];
+  versions: string[];
+}
+
+const searchQueryFields: readonly SearchQueryField[] = [
+  'id',
+  'packageid',
+  'tags',
+  'author',
+  'description',
+  'version',
+];
+
+// Relevance scores of a term match, higher is more relevant
+const exactIdScore = 1000;
+const idPrefixScore = 500;
+const idSegmentScore = 300;
+const idContainsScore = 200;
+const exactTagScore = 150;
+const tagContainsScore = 100;
+const titleScore = 80;
+const authorScore = 60;
+const descriptionScore = 40;
+
+/**
+ * Parses a search query into terms
+ * @param query - Query string (e.g. `json id:Newtonsoft tags:"serialization"`)
+ * @returns Terms to be matched with AND semantics
+ * @remarks Unknown field prefixes are treated as free text, terms with empty values are ignored.
+ */
+export const parseSearchQuery = (query: string): SearchQueryTerm[] => {
+  const terms: SearchQueryTerm[] = [];
+  const tokenPattern = /(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S*))/g;
+
+  for (const match of query.matchAll(tokenPattern)) {
+    const fieldName = match[1]?.toLowerCase();
+    const rawValue = match[2] ?? match[3] ?? '';
+    const field = searchQueryFields.find((f) => f === fieldName);
+
+    // Unknown fields are part of the free text (e.g. `http://...`)
+    const value = (fieldName && !field ? `${match[1]}:${rawValue}` : rawValue)
+      .trim()
+      .toLowerCase();
+    if (value.length === 0) {
+      continue;
+    }
+    terms.push({ field, value });
+  }
+  return terms;
+};
+
+/**
+ * Splits text into lower-cased alphanumeric tokens
+ * @param text - Text to tokenize
+ * @returns Tokens in encounter order
+ */
+export const tokenizeSearchText = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+
+/**
+ * Prepares a search target for scoring by lower-casing its fields
+ * @param target - Package fields to evaluate
+ * @returns Prepared search target
+ */
+export const prepareSearchTarget = (
+  target: SearchTarget
+): PreparedSearchTarget => {
+  const lowerId = target.id.toLowerCase();
+  return {
+    lowerId,
+    idSegments: lowerId.split(/[.\-_]/),
+    title: target.title?.toLowerCase(),
+    description: target.description?.toLowerCase(),
+    summary: target.summary?.toLowerCase(),
+    tags: target.tags.map((tag) => tag.toLowerCase()),
+    authors: target.authors.map((author) => author.toLowerCase()),
+    versions: target.versions,
+  };
+};
+
+/**
+ * Scores an ID match
+ */
+const scoreId = (
+  target: PreparedSearchTarget,
+  value: string
+): number | undefined => {
+  if (target.lowerId === value) {
+    return exactIdScore;
+  }
+  if (target.lowerId.startsWith(value)) {
+    return idPrefixScore;
+  }
+  if (target.idSegments.some((segment) => segment.startsWith(value))) {
+    return idSegmentScore;
+  }
+  if (target.lowerId.includes(value)) {
+    return idContainsScore;
+  }
+  return undefined;
+};
+
+/**
+ * Scores a tag match
+ */
+const scoreTags = (tags: string[], value: string): number | undefined => {
+  if (tags.includes(value)) {
+    return exactTagScore;
+  }
+  if (tags.some((tag) => tag.includes(value))) {
+    return tagContainsScore;
+  }
+  return undefined;
+};
+
+const includesValue = (text: string | undefined, value: string): boolean =>
+  text !== undefined && text.includes(value);
+
+/**
+ * Scores a single term against a search target
+ * @returns Relevance score, or undefined if the term does not match
+ */
+const scoreTerm = (
+  target: PreparedSearchTarget,
+  term: SearchQueryTerm
+): number | undefined => {
+  const { value } = term;
+
+  switch (term.field) {
+    case 'id':
+      return scoreId(target, value);
+    case 'packageid':
+      return target.lowerId === value ? exactIdScore : undefined;
+    case 'tags':
+      return scoreTags(target.tags, value);
+    case 'author':
+      return target.authors.some((author) => includesValue(author, value))
+        ? authorScore
+        : undefined;
+    case 'description':
+      return includesValue(target.description, value) ||
+        includesValue(target.summary, value)
+        ? descriptionScore
+        : undefined;
+    case 'version':
+      // Version terms filter only, they do not affect the ranking
+      return target.versions.some((version) => isSameVersion(version, value))
+        ? 0
+        : undefined;
+  }
+
+  // Free text: the most relevant field wins
+  const idScore = scoreId(target, value);
+  if (idScore !== undefined) {
+    return idScore;
+  }
+  const tagScore = scoreTags(target.tags, value);
+  if (tagScore !== undefined) {
+    return tagScore;
+  }
+  if (includesValue(target.title, value)) {
+    return titleScore;
+  }
+  if (target.authors.some((author) => includesValue(author, value))) {
+    return authorScore;
+  }
+  if (
+    includesValue(target.description, value) ||
+    includesValue(target.summary, value)
+  ) {
+    return descriptionScore;
+  }
+  return undefined;
+};
+
+/**
+ * Scores a search target against query terms
+ * @param target - Prepared package fields to evaluate (see prepareSearchTarget)
+ * @param terms - Parsed query terms (AND semantics)
+ * @returns Total relevance score, or undefined if any term does not match
+ */
+export const scoreSearchTarget = (
+  target: PreparedSearchTarget,
+  terms: SearchQueryTerm[]
+): number | undefined => {
+  let score = 0;
+  for (const term of terms) {
+    const termScore = scoreTerm(target, term);
+    if (termScore === undefined) {
+      return undefined;
+    }
+    score += termScore;
+  }
+  return score;
+};
@@ -3,58 +3,199 @@
 // License under MIT.
 
 /**
- * Parsed semantic version information
+ * Parsed NuGet version (SemVer 2.0 with optional fourth revision part)
  */
-interface ParsedVersion {
-  parts: number[];
-  prerelease?: string;
+export interface NuGetVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  revision: number;
+  releaseLabels: string[]; // Prerelease labels, empty for stable versions
+  metadata?: string; // Build metadata, ignored for precedence
+  original: string;
 }
 
 /**
- * Parses a semantic version string into structured data
- * @param version - Version string (e.g., "1.2.3-alpha.1")
- * @returns Parsed version information
+ * Floating version pattern (e.g. `1.*`, `1.2.*`, `1.0.0-beta*`, `1.*-*`)
  */
-const parseVersion = (version: string): ParsedVersion => {
-  const [main, prerelease] = version.split('-');
-  const parts = main?.split('.').map(Number) ?? [];
-  return { parts, prerelease };
+export interface FloatRange {
+  numericPrefix: number[]; // Fixed leading numeric parts
+  floatNumeric: boolean; // Whether numeric parts after the prefix float
+  releasePrefix?: string; // Floating prerelease label prefix, undefined when prerelease versions are not allowed
+}
+
+/**
+ * NuGet version range (e.g. `[1.0,2.0)`, `1.0`, `[1.0]`, `1.*`)
+ */
+export interface VersionRange {
+  minVersion?: NuGetVersion;
+  isMinInclusive: boolean;
+  maxVersion?: NuGetVersion;
+  isMaxInclusive: boolean;
+  float?: FloatRange;
+}
+
+const versionPattern =
+  /^(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+const numericLabelPattern = /^\d+$/;
+
+/**
+ * Parses a NuGet version string
+ * @param version - Version string (e.g., "1.2.3-alpha.1+build.5", "1.0", "1.0.0.1")
+ * @returns Parsed version, or undefined if the string is not a valid version
+ */
+export const parseNuGetVersion = (
+  version: string
+): NuGetVersion | undefined => {
+  const match = versionPattern.exec(version.trim());
+  if (!match) {
+    return undefined;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    revision: Number(match[4] ?? 0),
+    releaseLabels: match[5] ? match[5].split('.') : [],
+    metadata: match[6],
+    original: version,
+  };
 };
 
 /**
- * Compares two semantic versions
- * @param a - First version string
- * @param b - Second version string
+ * Formats a parsed version into the NuGet normalized form
+ * @param version - Parsed version
+ * @returns Normalized version string without build metadata
+ */
+const formatNormalizedVersion = (version: NuGetVersion): string => {
+  const numbers = `${version.major}.${version.minor}.${version.patch}${
+    version.revision !== 0 ? `.${version.revision}` : ''
+  }`;
+  return version.releaseLabels.length > 0
+    ? `${numbers}-${version.releaseLabels.join('.')}`
+    : numbers;
+};
+
+/**
+ * Normalizes a version string the way NuGet does
+ * (leading zeros removed, at least three parts, zero fourth part dropped, build metadata stripped)
+ * @param version - Version string
+ * @returns Normalized version string, or the trimmed input if it is not a valid version
+ */
+export const normalizeVersion = (version: string): string => {
+  const parsed = parseNuGetVersion(version);
+  return parsed ? formatNormalizedVersion(parsed) : version.trim();
+};
+
+/**
+ * Checks whether a version string is a prerelease version
+ * @param version - Version string
+ * @returns True if the version has prerelease labels
+ */
+export const isPrereleaseVersion = (version: string): boolean =>
+  (parseNuGetVersion(version)?.releaseLabels.length ?? 0) > 0;
+
+/**
+ * Checks whether a parsed version requires SemVer 2.0 (dotted prerelease labels or build metadata)
+ */
+const isSemVer2 = (version: NuGetVersion): boolean =>
+  version.releaseLabels.length > 1 || version.metadata !== undefined;
+
+/**
+ * Checks whether a version string is a SemVer 2.0 version
+ * @param version - Version string
+ * @returns True if old (SemVer 1.0) clients cannot handle the version
+ */
+export const isSemVer2Version = (version: string): boolean => {
+  const parsed = parseNuGetVersion(version);
+  return parsed ? isSemVer2(parsed) : false;
+};
+
+/**
+ * Compares two prerelease labels following SemVer 2.0 rules (case-insensitive)
+ */
+const compareReleaseLabel = (a: string, b: string): number => {
+  const isNumericA = numericLabelPattern.test(a);
+  const isNumericB = numericLabelPattern.test(b);
+  if (isNumericA && isNumericB) {
+    return Number(a) - Number(b);
+  }
+  if (isNumericA) return -1; // numeric identifiers have lower precedence
+  if (isNumericB) return 1;
+  const lowerA = a.toLowerCase();
+  const lowerB = b.toLowerCase();
+  return lowerA < lowerB ? -1 : lowerA > lowerB ? 1 : 0;
+};
+
+/**
+ * Compares two parsed versions by SemVer 2.0 precedence (build metadata is ignored)
+ * @param a - First version
+ * @param b - Second version
  * @returns Negative if a < b, positive if a > b, zero if equal
  */
-export const compareVersions = (a: string, b: string): number => {
-  const versionA = parseVersion(a);
-  const versionB = parseVersion(b);
-
-  // Compare main version parts (major.minor.patch)
-  for (
-    let i = 0;
-    i < Math.max(versionA.parts.length, versionB.parts.length);
-    i++
-  ) {
-    const partA = versionA.parts[i] || 0;
-    const partB = versionB.parts[i] || 0;
+export const compareNuGetVersions = (
+  a: NuGetVersion,
+  b: NuGetVersion
+): number => {
+  const numberDiff =
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    a.revision - b.revision;
+  if (numberDiff !== 0) {
+    return numberDiff;
+  }
 
-    if (partA !== partB) {
-      return partA - partB;
-    }
+  // Stable comes after prerelease
+  if (a.releaseLabels.length === 0 || b.releaseLabels.length === 0) {
+    return b.releaseLabels.length - a.releaseLabels.length;
   }
 
-  // If main versions are equal, handle prerelease
-  if (versionA.prerelease && !versionB.prerelease) return -1; // prerelease comes before stable
-  if (!versionA.prerelease && versionB.prerelease) return 1; // stable comes after prerelease
-  if (versionA.prerelease && versionB.prerelease) {
-    return versionA.prerelease.localeCompare(versionB.prerelease); // alphabetical for prerelease
+  const length = Math.min(a.releaseLabels.length, b.releaseLabels.length);
+  for (let i = 0; i < length; i++) {
+    const result = compareReleaseLabel(
+      a.releaseLabels[i]!,
+      b.releaseLabels[i]!
+    );
+    if (result !== 0) {
+      return result;
+    }
   }
+  // A larger set of labels has higher precedence
+  return a.releaseLabels.length - b.releaseLabels.length;
+};
 
-  return 0;
+/**
+ * Compares two semantic versions
+ * @param a - First version string
+ * @param b - Second version string
+ * @returns Negative if a < b, positive if a > b, zero if equal
+ * @remarks Invalid version strings are ordered before valid ones and compared ordinally among themselves.
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const versionA = parseNuGetVersion(a);
+  const versionB = parseNuGetVersion(b);
+  if (versionA && versionB) {
+    return compareNuGetVersions(versionA, versionB);
+  }
+  if (versionA) return 1;
+  if (versionB) return -1;
+  const lowerA = a.toLowerCase();
+  const lowerB = b.toLowerCase();
+  return lowerA < lowerB ? -1 : lowerA > lowerB ? 1 : 0;
 };
 
+/**
+ * Checks whether two version strings refer to the same version
+ * (e.g. `1.0` and `1.0.0`, `1.0.0-Beta` and `1.0.0-beta`, `1.0.0+build` and `1.0.0`)
+ * @param a - First version string
+ * @param b - Second version string
+ * @returns True if both versions are equivalent
+ */
+export const isSameVersion = (a: string, b: string): boolean =>
+  compareVersions(a, b) === 0;
+
 /**
  * Sorts an array of version strings
  * @param versions - Array of version strings
@@ -81,3 +222,255 @@ export const getLatestVersion = (versions: string[]): string | undefined => {
   const sorted = sortVersions(versions, 'desc');
   return sorted[0];
 };
+
+///////////////////////////////////////////////////////////////////////////////
+// Version ranges
+
+/**
+ * Parses a floating version pattern
+ * @param value - Version string containing `*`
+ * @returns Float range and its minimum version, or undefined if invalid
+ */
+const parseFloatRange = (
+  value: string
+): { float: FloatRange; minVersion: NuGetVersion } | undefined => {
+  const dashIndex = value.indexOf('-');
+  const numericPart = dashIndex >= 0 ? value.substring(0, dashIndex) : value;
+  const releasePart =
+    dashIndex >= 0 ? value.substring(dashIndex + 1) : undefined;
+
+  const numericLabels = numericPart.split('.');
+  const floatNumeric = numericLabels[numericLabels.length - 1] === '*';
+  const fixedLabels = floatNumeric ? numericLabels.slice(0, -1) : numericLabels;
+  if (
+    fixedLabels.length > 3 ||
+    (!floatNumeric && fixedLabels.length === 0) ||
+    !fixedLabels.every((label) => numericLabelPattern.test(label))
+  ) {
+    return undefined;
+  }
+
+  let releasePrefix: string | undefined;
+  if (releasePart !== undefined) {
+    if (
+      !releasePart.endsWith('*') ||
+      releasePart.indexOf('*') !== releasePart.length - 1
+    ) {
+      return undefined;
+    }
+    releasePrefix = releasePart.substring(0, releasePart.length - 1);
+    if (releasePrefix !== '' && !/^[0-9A-Za-z.-]+$/.test(releasePrefix)) {
+      return undefined;
+    }
+  } else if (!floatNumeric) {
+    return undefined;
+  }
+
+  const numericPrefix = fixedLabels.map(Number);
+  // Minimum version: the fixed prefix padded with zeros, lowest prerelease when floating prerelease
+  const minVersion: NuGetVersion = {
+    major: numericPrefix[0] ?? 0,
+    minor: numericPrefix[1] ?? 0,
+    patch: numericPrefix[2] ?? 0,
+    revision: numericPrefix[3] ?? 0,
+    releaseLabels:
+      releasePrefix !== undefined
+        ? releasePrefix
+            .split('.')
+            .filter((label) => label !== '')
+            .concat(releasePrefix === '' ? ['0'] : [])
+        : [],
+    original: value,
+  };
+  return {
+    float: { numericPrefix, floatNumeric, releasePrefix },
+    minVersion,
+  };
+};
+
+/**
+ * Checks whether a version matches a floating version pattern
+ * @param version - Parsed version
+ * @param float - Float range
+ * @returns True if the version matches
+ */
+const satisfiesFloatRange = (
+  version: NuGetVersion,
+  float: FloatRange
+): boolean => {
+  const numbers = [
+    version.major,
+    version.minor,
+    version.patch,
+    version.revision,
+  ];
+  const fixedLength = float.floatNumeric ? float.numericPrefix.length : 4;
+  for (let i = 0; i < fixedLength; i++) {
+    if (numbers[i] !== (float.numericPrefix[i] ?? 0)) {
+      return false;
+    }
+  }
+  if (version.releaseLabels.length === 0) {
+    return true;
+  }
+  if (float.releasePrefix === undefined) {
+    return false; // Prerelease versions only float when requested
+  }
+  return version.releaseLabels
+    .join('.')
+    .toLowerCase()
+    .startsWith(float.releasePrefix.toLowerCase());
+};
+
+/**
+ * Parses a NuGet version range
+ * @param range - Range string (e.g. `1.0`, `[1.0]`, `[1.0,2.0)`, `(,2.0]`, `1.*`, `[1.*,2.0)`)
+ * @returns Parsed version range, or undefined if the string is not a valid range
+ */
+export const parseVersionRange = (range: string): VersionRange | undefined => {
+  const value = range.replace(/\s+/g, '');
+  if (value === '') {
+    return undefined;
+  }
+
+  const parseBound = (bound: string) => {
+    if (bound.includes('*')) {
+      return parseFloatRange(bound);
+    }
+    const version = parseNuGetVersion(bound);
+    return version ? { minVersion: version, float: undefined } : undefined;
+  };
+
+  const first = value[0];
+  if (first !== '[' && first !== '(') {
+    // Plain version means "minimum version, inclusive"
+    const bound = parseBound(value);
+    return bound
+      ? {
+          minVersion: bound.minVersion,
+          isMinInclusive: true,
+          isMaxInclusive: false,
+          float: bound.float,
+        }
+      : undefined;
+  }
+
+  const last = value[value.length - 1];
+  if (value.length < 3 || (last !== ']' && last !== ')')) {
+    return undefined;
+  }
+  const isMinInclusive = first === '[';
+  const isMaxInclusive = last === ']';
+  const parts = value.substring(1, value.length - 1).split(',');
+  if (parts.length > 2) {
+    return undefined;
+  }
+
+  // Exact match: `[1.0]`
+  if (parts.length === 1) {
+    const version = parseNuGetVersion(parts[0]!);
+    if (!version || !isMinInclusive || !isMaxInclusive) {
+      return undefined;
+    }
+    return {
+      minVersion: version,
+      isMinInclusive: true,
+      maxVersion: version,
+      isMaxInclusive: true,
+    };
+  }
+
+  const [minPart, maxPart] = parts as [string, string];
+  if (minPart === '' && maxPart === '') {
+    return undefined;
+  }
+  const min = minPart !== '' ? parseBound(minPart) : undefined;
+  const maxVersion = maxPart !== '' ? parseNuGetVersion(maxPart) : undefined;
+  if ((minPart !== '' && !min) || (maxPart !== '' && !maxVersion)) {
+    return undefined;
+  }
+  if (
+    min &&
+    maxVersion &&
+    compareNuGetVersions(min.minVersion, maxVersion) > 0
+  ) {
+    return undefined;
+  }
+  return {
+    minVersion: min?.minVersion,
+    isMinInclusive,
+    maxVersion,
+    isMaxInclusive,
+    float: min?.float,
+  };
+};
+
+/**
+ * Checks whether a version range refers to SemVer 2.0 versions
+ * @param range - Range string
+ * @returns True if either bound of the range is a SemVer 2.0 version
+ */
+export const isSemVer2VersionRange = (range: string): boolean => {
+  const parsed = parseVersionRange(range);
+  return (
+    (parsed?.minVersion !== undefined && isSemVer2(parsed.minVersion)) ||
+    (parsed?.maxVersion !== undefined && isSemVer2(parsed.maxVersion))
+  );
+};
+
+/**
+ * Checks whether a version satisfies a version range
+ * @param version - Version string
+ * @param range - Version range or range string
+ * @returns True if the version is inside the range (false for invalid versions or ranges)
+ */
+export const satisfiesVersionRange = (
+  version: string,
+  range: VersionRange | string
+): boolean => {
+  const parsedRange =
+    typeof range === 'string' ? parseVersionRange(range) : range;
+  const parsedVersion = parseNuGetVersion(version);
+  if (!parsedRange || !parsedVersion) {
+    return false;
+  }
+
+  if (parsedRange.minVersion) {
+    const result = compareNuGetVersions(parsedVersion, parsedRange.minVersion);
+    if (result < 0 || (result === 0 && !parsedRange.isMinInclusive)) {
+      return false;
+    }
+  }
+  if (parsedRange.maxVersion) {
+    const result = compareNuGetVersions(parsedVersion, parsedRange.maxVersion);
+    if (result > 0 || (result === 0 && !parsedRange.isMaxInclusive)) {
+      return false;
+    }
+  }
+  if (parsedRange.float) {
+    return satisfiesFloatRange(parsedVersion, parsedRange.float);
+  }
+  return true;
+};
+
+/**
+ * Finds the version NuGet would resolve for a range
+ * @param versions - Available version strings
+ * @param range - Version range or range string
+ * @returns Highest matching version for floating ranges, lowest matching version otherwise
+ */
+export const findBestVersionMatch = (
+  versions: string[],
+  range: VersionRange | string
+): string | undefined => {
+  const parsedRange =
+    typeof range === 'string' ? parseVersionRange(range) : range;
+  if (!parsedRange) {
+    return undefined;
+  }
+  const candidates = sortVersions(
+    versions.filter((version) => satisfiesVersionRange(version, parsedRange)),
+    parsedRange.float ? 'desc' : 'asc'
+  );
+  return candidates[0];
+};
@@ -0,0 +1,363 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { readFile, writeFile } from 'fs/promises';
+import { join, posix } from 'path';
+import { ZipArchive } from './zipArchive';
+
+/**
+ * Identifier of a portable PDB, stored in its `#Pdb` stream
+ */
+export interface PortablePdbId {
+  guid: string; // Lower-cased hex string in the GUID "N" format
+  stamp: number;
+}
+
+/**
+ * CodeView debug directory entry of a PE image, pointing to its PDB
+ */
+export interface CodeViewEntry {
+  guid: string; // Lower-cased hex string in the GUID "N" format
+  age: number;
+  stamp: number;
+  pdbPath: string;
+  portable: boolean; // True when the image refers to a portable PDB
+}
+
+/**
+ * PDB file in a symbol package
+ */
+export interface SymbolFile {
+  path: string; // Entry name in the snupkg (e.g. "lib/net8.0/FlashCap.pdb")
+  key: string; // Lower-cased Simple Symbol Query Protocol key (`{file}/{signature-age}/{file}`)
+}
+
+/**
+ * Sidecar record written next to a stored symbol package
+ */
+export interface SymbolRecord {
+  fileName: string; // Actual snupkg file name (e.g. "FlashCap.1.10.0.snupkg")
+  files: SymbolFile[];
+}
+
+/**
+ * Result of a symbol package validation
+ */
+export type SymbolPackageValidation =
+  | { valid: true; files: SymbolFile[] }
+  | { valid: false; error: string };
+
+/**
+ * File name of the symbol record in a version directory
+ */
+export const symbolRecordFileName = 'symbols.json';
+
+/**
+ * Package type declared by symbol packages (.snupkg)
+ */
+export const symbolsPackageType = 'SymbolsPackage';
+
+// Bytes read from the start of a PDB to find its identifier (the `#Pdb` stream is written first)
+const portablePdbHeaderSize = 64 * 1024;
+
+// CodeView debug directory entry type in the PE debug directory
+const codeViewDebugType = 2;
+// Minor version of the CodeView entry of a portable PDB ("PM")
+const portableCodeViewMinorVersion = 0x504d;
+
+/**
+ * Formats 16 GUID bytes (Microsoft mixed-endian layout) in the GUID "N" format
+ */
+const formatGuid = (data: Buffer, offset: number): string => {
+  const hex = (start: number, length: number, reverse: boolean) => {
+    const bytes = Array.from(data.subarray(start, start + length));
+    return (reverse ? bytes.reverse() : bytes)
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('');
+  };
+  return (
+    hex(offset, 4, true) +
+    hex(offset + 4, 2, true) +
+    hex(offset + 6, 2, true) +
+    hex(offset + 8, 8, false)
+  );
+};
+
+/**
+ * Reads the identifier of a portable PDB
+ * @param data - PDB file content
+ * @returns PDB identifier, or undefined if the data is not a portable PDB
+ * @remarks Windows (MSF) PDBs are not supported, like nuget.org symbol packages.
+ */
+export const readPortablePdbId = (data: Buffer): PortablePdbId | undefined => {
+  try {
+    // Metadata root: "BSJB" signature
+    if (data.length < 16 || data.readUInt32LE(0) !== 0x424a5342) {
+      return undefined;
+    }
+    const versionLength = data.readUInt32LE(12);
+    let offset = 16 + versionLength + 2; // Version string, then flags
+    const streamCount = data.readUInt16LE(offset);
+    offset += 2;
+
+    for (let i = 0; i < streamCount; i++) {
+      const streamOffset = data.readUInt32LE(offset);
+      const streamSize = data.readUInt32LE(offset + 4);
+      offset += 8;
+      const nameEnd = data.indexOf(0, offset);
+      if (nameEnd < 0) {
+        return undefined;
+      }
+      const name = data.toString('ascii', offset, nameEnd);
+      offset += Math.ceil((nameEnd - offset + 1) / 4) * 4; // Names are 4 byte aligned
+
+      if (name === '#Pdb') {
+        if (streamSize < 20 || streamOffset + 20 > data.length) {
+          return undefined;
+        }
+        return {
+          guid: formatGuid(data, streamOffset),
+          stamp: data.readUInt32LE(streamOffset + 16),
+        };
+      }
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads the CodeView debug directory entries of a PE image (DLL/EXE)
+ * @param data - PE image content
+ * @returns CodeView entries, empty if the data is not a PE image or has no debug information
+ */
+export const readCodeViewEntries = (data: Buffer): CodeViewEntry[] => {
+  try {
+    // DOS header, then "PE\0\0" signature
+    if (data.length < 64 || data.readUInt16LE(0) !== 0x5a4d) {
+      return [];
+    }
+    const peOffset = data.readUInt32LE(0x3c);
+    if (data.readUInt32LE(peOffset) !== 0x00004550) {
+      return [];
+    }
+    const coffOffset = peOffset + 4;
+    const sectionCount = data.readUInt16LE(coffOffset + 2);
+    const optionalHeaderSize = data.readUInt16LE(coffOffset + 16);
+    const optionalOffset = coffOffset + 20;
+
+    // Debug directory is the 7th data directory (PE32: 96, PE32+: 112)
+    const magic = data.readUInt16LE(optionalOffset);
+    const dataDirectoryOffset = optionalOffset + (magic === 0x20b ? 112 : 96);
+    const debugRva = data.readUInt32LE(dataDirectoryOffset + 6 * 8);
+    const debugSize = data.readUInt32LE(dataDirectoryOffset + 6 * 8 + 4);
+    if (debugRva === 0 || debugSize === 0) {
+      return [];
+    }
+
+    // Resolve the RVA with the section table
+    const sectionOffset = optionalOffset + optionalHeaderSize;
+    const toFileOffset = (rva: number): number | undefined => {
+      for (let i = 0; i < sectionCount; i++) {
+        const header = sectionOffset + i * 40;
+        const virtualSize = data.readUInt32LE(header + 8);
+        const virtualAddress = data.readUInt32LE(header + 12);
+        const rawSize = data.readUInt32LE(header + 16);
+        const rawPointer = data.readUInt32LE(header + 20);
+        if (
+          rva >= virtualAddress &&
+          rva < virtualAddress + Math.max(virtualSize, rawSize)
+        ) {
+          return rva - virtualAddress + rawPointer;
+        }
+      }
+      return undefined;
+    };
+    const debugOffset = toFileOffset(debugRva);
+    if (debugOffset === undefined) {
+      return [];
+    }
+
+    const entries: CodeViewEntry[] = [];
+    for (let i = 0; i + 28 <= debugSize; i += 28) {
+      const entry = debugOffset + i;
+      const stamp = data.readUInt32LE(entry + 4);
+      const minorVersion = data.readUInt16LE(entry + 10);
+      const type = data.readUInt32LE(entry + 12);
+      const size = data.readUInt32LE(entry + 16);
+      const pointer = data.readUInt32LE(entry + 24);
+      // "RSDS" signature, GUID, age, then the null-terminated PDB path
+      if (
+        type !== codeViewDebugType ||
+        size < 24 ||
+        data.readUInt32LE(pointer) !== 0x53445352
+      ) {
+        continue;
+      }
+      const pathEnd = data.indexOf(0, pointer + 24);
+      entries.push({
+        guid: formatGuid(data, pointer + 4),
+        age: data.readUInt32LE(pointer + 20),
+        stamp,
+        pdbPath: data.toString(
+          'utf8',
+          pointer + 24,
+          pathEnd < 0 ? pointer + size : Math.min(pathEnd, pointer + size)
+        ),
+        portable: minorVersion === portableCodeViewMinorVersion,
+      });
+    }
+    return entries;
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Gets the Simple Symbol Query Protocol key of a portable PDB
+ * @param fileName - PDB file name (without directories)
+ * @param pdbId - Portable PDB identifier
+ * @returns Lower-cased key in `{file}/{signature-age}/{file}` form
+ * @remarks Portable PDBs use `FFFFFFFF` in place of the age.
+ */
+export const getSymbolKey = (
+  fileName: string,
+  pdbId: PortablePdbId
+): string => {
+  const lowerName = fileName.toLowerCase();
+  return `${lowerName}/${pdbId.guid}ffffffff/${lowerName}`;
+};
+
+/**
+ * Checks whether an entry of a symbol package is part of the package structure
+ */
+const isPackageStructureEntry = (entryName: string): boolean =>
+  entryName.endsWith('.nuspec') ||
+  entryName === '[Content_Types].xml' ||
+  entryName.startsWith('_rels/') ||
+  entryName.startsWith('package/');
+
+/**
+ * Validates a symbol package against its primary package
+ * @param symbolArchive - Symbol package (.snupkg)
+ * @param packageArchive - Primary package (.nupkg) of the same version
+ * @param maxFileSize - Maximum size of a PDB and of the DLL/EXE read to match it, in bytes
+ * @returns PDB files with their symbol keys, or the reason of the rejection
+ * @remarks Every PDB must be a portable PDB matching the DLL/EXE at the same path in the primary package.
+ */
+export const validateSymbolPackage = async (
+  symbolArchive: ZipArchive,
+  packageArchive: ZipArchive,
+  maxFileSize: number
+): Promise<SymbolPackageValidation> => {
+  const images = new Map(
+    packageArchive.entries
+      .filter((entry) => /\.(dll|exe)$/i.test(entry.entryName))
+      .map((entry) => [entry.entryName.toLowerCase(), entry])
+  );
+
+  const files: SymbolFile[] = [];
+  for (const entry of symbolArchive.entries) {
+    if (entry.isDirectory || isPackageStructureEntry(entry.entryName)) {
+      continue;
+    }
+    if (!entry.entryName.toLowerCase().endsWith('.pdb')) {
+      return {
+        valid: false,
+        error: `Symbol package contains a file other than PDB: ${entry.entryName}`,
+      };
+    }
+
+    // PDBs are served later with the same limit
+    if (entry.size > maxFileSize || entry.compressedSize > maxFileSize) {
+      return {
+        valid: false,
+        error: `PDB exceeds the maximum size of ${maxFileSize} bytes: ${entry.entryName}`,
+      };
+    }
+
+    const pdbId = readPortablePdbId(
+      await symbolArchive.readEntryHead(entry, portablePdbHeaderSize)
+    );
+    if (!pdbId) {
+      return {
+        valid: false,
+        error: `Symbol package contains a PDB that is not a portable PDB: ${entry.entryName}`,
+      };
+    }
+
+    // The matching image has the same path except its extension
+    const basePath = entry.entryName.slice(0, -4).toLowerCase();
+    const image =
+      images.get(`${basePath}.dll`) ?? images.get(`${basePath}.exe`);
+    if (!image) {
+      return {
+        valid: false,
+        error: `No matching DLL or EXE in the package for ${entry.entryName}`,
+      };
+    }
+    const matched = readCodeViewEntries(
+      await packageArchive.readEntry(image, maxFileSize)
+    ).some(
+      (codeView) =>
+        codeView.guid === pdbId.guid &&
+        (!codeView.portable || codeView.stamp === pdbId.stamp)
+    );
+    if (!matched) {
+      return {
+        valid: false,
+        error: `PDB does not match ${image.entryName}: ${entry.entryName}`,
+      };
+    }
+
+    files.push({
+      path: entry.entryName,
+      key: getSymbolKey(posix.basename(entry.entryName), pdbId),
+    });
+  }
+
+  if (files.length === 0) {
+    return { valid: false, error: 'Symbol package does not contain any PDB' };
+  }
+  return { valid: true, files };
+};
+
+/**
+ * Writes the symbol record into a version directory
+ * @param versionPath - File system path to the version directory
+ * @param record - Symbol record to write
+ */
+export const writeSymbolRecord = async (
+  versionPath: string,
+  record: SymbolRecord
+): Promise<void> => {
+  await writeFile(
+    join(versionPath, symbolRecordFileName),
+    JSON.stringify(record, null, 2)
+  );
+};
+
+/**
+ * Reads the symbol record from a version directory
+ * @param versionPath - File system path to the version directory
+ * @returns Symbol record, or undefined if missing or malformed
+ */
+export const readSymbolRecord = async (
+  versionPath: string
+): Promise<SymbolRecord | undefined> => {
+  try {
+    const content = await readFile(
+      join(versionPath, symbolRecordFileName),
+      'utf-8'
+    );
+    const record = JSON.parse(content) as SymbolRecord;
+    if (typeof record.fileName !== 'string' || !Array.isArray(record.files)) {
+      return undefined;
+    }
+    return record;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,377 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { open, FileHandle } from 'fs/promises';
+import { createInflateRaw, inflateRaw } from 'zlib';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+
+const inflateRawAsync = promisify(inflateRaw);
+
+/**
+ * Entry listed in the central directory of a ZIP archive
+ */
+export interface ZipArchiveEntry {
+  entryName: string;
+  isDirectory: boolean;
+  encrypted: boolean;
+  compressionMethod: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * ZIP archive opened from a file
+ * @remarks Only the central directory is held in memory, entry contents are read on demand.
+ */
+export interface ZipArchive {
+  readonly entries: readonly ZipArchiveEntry[];
+  readEntry(entry: ZipArchiveEntry, maxSize?: number): Promise<Buffer>;
+  readEntryHead(entry: ZipArchiveEntry, length: number): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+const endOfCentralDirectorySignature = 0x06054b50;
+const endOfCentralDirectorySize = 22;
+const zip64EndOfCentralDirectoryLocatorSignature = 0x07064b50;
+const zip64EndOfCentralDirectoryLocatorSize = 20;
+const zip64EndOfCentralDirectorySignature = 0x06064b50;
+const zip64EndOfCentralDirectorySize = 56;
+const centralDirectoryHeaderSignature = 0x02014b50;
+const centralDirectoryHeaderSize = 46;
+const localFileHeaderSignature = 0x04034b50;
+const localFileHeaderSize = 30;
+const zip64ExtraFieldId = 0x0001;
+const maxCommentLength = 0xffff;
+
+const compressionMethodStored = 0;
+const compressionMethodDeflated = 8;
+
+/**
+ * Reads bytes at a position of the file
+ * @throws Error if the file is shorter than requested
+ */
+const readAt = async (
+  handle: FileHandle,
+  position: number,
+  length: number
+): Promise<Buffer> => {
+  const buffer = Buffer.alloc(length);
+  let offset = 0;
+  while (offset < length) {
+    const { bytesRead } = await handle.read(
+      buffer,
+      offset,
+      length - offset,
+      position + offset
+    );
+    if (bytesRead === 0) {
+      throw new Error('Invalid ZIP file - unexpected end of file');
+    }
+    offset += bytesRead;
+  }
+  return buffer;
+};
+
+/**
+ * Locates the central directory from the end of central directory record (ZIP64 aware)
+ */
+const readCentralDirectoryLocation = async (
+  handle: FileHandle,
+  fileSize: number
+): Promise<{ entryCount: number; offset: number; size: number }> => {
+  if (fileSize < endOfCentralDirectorySize) {
+    throw new Error('Invalid ZIP file - too short');
+  }
+
+  // The record is followed by a variable length comment, so it is searched backwards
+  const tailLength = Math.min(
+    fileSize,
+    endOfCentralDirectorySize + maxCommentLength
+  );
+  const tail = await readAt(handle, fileSize - tailLength, tailLength);
+  let index = tail.length - endOfCentralDirectorySize;
+  while (
+    index >= 0 &&
+    !(
+      tail.readUInt32LE(index) === endOfCentralDirectorySignature &&
+      index + endOfCentralDirectorySize + tail.readUInt16LE(index + 20) <=
+        tail.length
+    )
+  ) {
+    index--;
+  }
+  if (index < 0) {
+    throw new Error('Invalid ZIP file - end of central directory not found');
+  }
+
+  let entryCount = tail.readUInt16LE(index + 10);
+  let size = tail.readUInt32LE(index + 12);
+  let offset = tail.readUInt32LE(index + 16);
+
+  // Saturated fields are stored in the ZIP64 end of central directory record
+  if (
+    (entryCount === 0xffff || size === 0xffffffff || offset === 0xffffffff) &&
+    index >= zip64EndOfCentralDirectoryLocatorSize &&
+    tail.readUInt32LE(index - zip64EndOfCentralDirectoryLocatorSize) ===
+      zip64EndOfCentralDirectoryLocatorSignature
+  ) {
+    const recordOffset = Number(
+      tail.readBigUInt64LE(index - zip64EndOfCentralDirectoryLocatorSize + 8)
+    );
+    const record = await readAt(
+      handle,
+      recordOffset,
+      zip64EndOfCentralDirectorySize
+    );
+    if (record.readUInt32LE(0) !== zip64EndOfCentralDirectorySignature) {
+      throw new Error(
+        'Invalid ZIP file - broken ZIP64 end of central directory'
+      );
+    }
+    entryCount = Number(record.readBigUInt64LE(32));
+    size = Number(record.readBigUInt64LE(40));
+    offset = Number(record.readBigUInt64LE(48));
+  }
+
+  if (offset + size > fileSize) {
+    throw new Error('Invalid ZIP file - central directory out of range');
+  }
+  return { entryCount, offset, size };
+};
+
+/**
+ * Parses the entries of a central directory
+ */
+const parseCentralDirectory = (
+  directory: Buffer,
+  entryCount: number
+): ZipArchiveEntry[] => {
+  const entries: ZipArchiveEntry[] = [];
+  let position = 0;
+  for (let index = 0; index < entryCount; index++) {
+    if (
+      position + centralDirectoryHeaderSize > directory.length ||
+      directory.readUInt32LE(position) !== centralDirectoryHeaderSignature
+    ) {
+      throw new Error('Invalid ZIP file - broken central directory');
+    }
+
+    const flags = directory.readUInt16LE(position + 8);
+    const compressionMethod = directory.readUInt16LE(position + 10);
+    let compressedSize = directory.readUInt32LE(position + 20);
+    let size = directory.readUInt32LE(position + 24);
+    const nameLength = directory.readUInt16LE(position + 28);
+    const extraLength = directory.readUInt16LE(position + 30);
+    const commentLength = directory.readUInt16LE(position + 32);
+    let localHeaderOffset = directory.readUInt32LE(position + 42);
+
+    const nameStart = position + centralDirectoryHeaderSize;
+    const extraStart = nameStart + nameLength;
+    const extraEnd = extraStart + extraLength;
+    if (extraEnd + commentLength > directory.length) {
+      throw new Error('Invalid ZIP file - broken central directory');
+    }
+    // NuGet writes UTF-8 entry names (with or without the language encoding flag)
+    const entryName = directory.toString('utf-8', nameStart, extraStart);
+
+    // ZIP64 extended information holds the saturated fields in this order
+    let extraPosition = extraStart;
+    while (extraPosition + 4 <= extraEnd) {
+      const fieldId = directory.readUInt16LE(extraPosition);
+      const fieldLength = directory.readUInt16LE(extraPosition + 2);
+      let valuePosition = extraPosition + 4;
+      const fieldEnd = valuePosition + fieldLength;
+      if (fieldId === zip64ExtraFieldId && fieldEnd <= extraEnd) {
+        const readValue = (value: number) => {
+          if (value !== 0xffffffff || valuePosition + 8 > fieldEnd) {
+            return value;
+          }
+          const extended = Number(directory.readBigUInt64LE(valuePosition));
+          valuePosition += 8;
+          return extended;
+        };
+        size = readValue(size);
+        compressedSize = readValue(compressedSize);
+        localHeaderOffset = readValue(localHeaderOffset);
+      }
+      extraPosition = fieldEnd;
+    }
+
+    entries.push({
+      entryName,
+      isDirectory: entryName.endsWith('/'),
+      encrypted: (flags & 0x0001) !== 0,
+      compressionMethod,
+      compressedSize,
+      size,
+      localHeaderOffset,
+    });
+    position = extraEnd + commentLength;
+  }
+  return entries;
+};
+
+/**
+ * Opens a ZIP archive (nupkg, snupkg) from a file
+ * @param filePath - File system path to the archive
+ * @returns Opened archive, which must be closed by the caller
+ * @throws Error if the file is not a valid ZIP archive
+ * @remarks Only the central directory is read, so memory use does not depend on the archive size.
+ */
+export const openZipArchive = async (filePath: string): Promise<ZipArchive> => {
+  const handle = await open(filePath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const location = await readCentralDirectoryLocation(handle, fileSize);
+    const entries = parseCentralDirectory(
+      await readAt(handle, location.offset, location.size),
+      location.entryCount
+    );
+    // Sizes are declared by the archive, so none of them may be trusted beyond the file
+    for (const entry of entries) {
+      if (entry.localHeaderOffset + entry.compressedSize > fileSize) {
+        throw new Error(
+          `Invalid ZIP file - entry out of range: ${entry.entryName}`
+        );
+      }
+    }
+
+    /**
+     * Gets the file offset of the entry data from its local header
+     * @throws Error if the local header is broken, or the data does not fit in the file
+     */
+    const getDataOffset = async (entry: ZipArchiveEntry): Promise<number> => {
+      if (entry.encrypted) {
+        throw new Error(
+          `Encrypted ZIP entry is not supported: ${entry.entryName}`
+        );
+      }
+      const header = await readAt(
+        handle,
+        entry.localHeaderOffset,
+        localFileHeaderSize
+      );
+      if (header.readUInt32LE(0) !== localFileHeaderSignature) {
+        throw new Error(
+          `Invalid ZIP file - broken local header: ${entry.entryName}`
+        );
+      }
+      const dataOffset =
+        entry.localHeaderOffset +
+        localFileHeaderSize +
+        header.readUInt16LE(26) +
+        header.readUInt16LE(28);
+      if (dataOffset + entry.compressedSize > fileSize) {
+        throw new Error(
+          `Invalid ZIP file - entry out of range: ${entry.entryName}`
+        );
+      }
+      return dataOffset;
+    };
+
+    /**
+     * Reads the content of an entry
+     * @param entry - Entry of this archive
+     * @param maxSize - Maximum size of the entry in bytes, compressed and uncompressed
+     * @returns Uncompressed content
+     * @throws Error if the entry is larger than maxSize, or its content does not match the declared sizes
+     */
+    const readEntry = async (
+      entry: ZipArchiveEntry,
+      maxSize: number = Number.MAX_SAFE_INTEGER
+    ): Promise<Buffer> => {
+      if (entry.size > maxSize || entry.compressedSize > maxSize) {
+        throw new Error(
+          `ZIP entry exceeds the maximum size of ${maxSize} bytes: ${entry.entryName}`
+        );
+      }
+      const dataOffset = await getDataOffset(entry);
+      const data = await readAt(handle, dataOffset, entry.compressedSize);
+
+      switch (entry.compressionMethod) {
+        case compressionMethodStored:
+          return data;
+        case compressionMethodDeflated:
+          // The declared size (already capped by maxSize) bounds the output against decompression bombs
+          return inflateRawAsync(data, {
+            maxOutputLength: Math.max(entry.size, 1),
+          });
+        default:
+          throw new Error(
+            `Unsupported ZIP compression method ${entry.compressionMethod}: ${entry.entryName}`
+          );
+      }
+    };
+
+    /**
+     * Reads the beginning of an entry
+     * @param entry - Entry of this archive
+     * @param length - Maximum number of uncompressed bytes to read
+     * @returns Up to `length` bytes from the start of the uncompressed content
+     * @remarks Deflated data is inflated only until `length` bytes are available, regardless of the entry size.
+     */
+    const readEntryHead = async (
+      entry: ZipArchiveEntry,
+      length: number
+    ): Promise<Buffer> => {
+      const dataOffset = await getDataOffset(entry);
+      switch (entry.compressionMethod) {
+        case compressionMethodStored:
+          return readAt(
+            handle,
+            dataOffset,
+            Math.min(length, entry.compressedSize)
+          );
+        case compressionMethodDeflated: {
+          if (entry.compressedSize === 0) {
+            return Buffer.alloc(0);
+          }
+          const chunks: Buffer[] = [];
+          let total = 0;
+          try {
+            await pipeline(
+              handle.createReadStream({
+                start: dataOffset,
+                end: dataOffset + entry.compressedSize - 1,
+                autoClose: false,
+              }),
+              createInflateRaw(),
+              async (source: AsyncIterable<Buffer>) => {
+                for await (const chunk of source) {
+                  chunks.push(chunk);
+                  total += chunk.length;
+                  if (total >= length) {
+                    break;
+                  }
+                }
+              }
+            );
+          } catch (error) {
+            // Leaving the loop early aborts the pipeline
+            if (total < length) {
+              throw error;
+            }
+          }
+          return Buffer.concat(chunks).subarray(0, length);
+        }
+        default:
+          throw new Error(
+            `Unsupported ZIP compression method ${entry.compressionMethod}: ${entry.entryName}`
+          );
+      }
+    };
+
+    return {
+      entries,
+      readEntry,
+      readEntryHead,
+      close: () => handle.close(),
+    };
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+};
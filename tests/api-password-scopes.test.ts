@@ -0,0 +1,224 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import { ApiPasswordOptions } from '../src/services/userService';
+import { generateSalt, hashPassword } from '../src/utils/crypto';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * API Password Scope Tests
+ *
+ * Tests restricted API passwords in authMode=full:
+ * - Read scope enforced by the authentication middleware
+ * - Push and delete scopes and package patterns enforced by the publish routes
+ * - Expired API passwords rejected
+ * - Last used time listed by /api/ui/apipasswords
+ */
+describe('API password scopes', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('api-password-scopes', testGlobalLogLevel);
+
+  const apiKeys = {
+    full: 'full-api-key-0123456789',
+    ci: 'ci-api-key-0123456789',
+    reader: 'reader-api-key-0123456789',
+    expired: 'expired-api-key-0123456789',
+  };
+
+  const apiPasswordOptions: Record<keyof typeof apiKeys, ApiPasswordOptions> = {
+    full: {},
+    ci: { scopes: ['push'], packagePatterns: ['FlashCap*'] },
+    reader: { scopes: ['read'] },
+    expired: { expiresAt: new Date(Date.now() - 1000).toISOString() },
+  };
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const salt = generateSalt();
+    const now = new Date().toISOString();
+    await fs.writeFile(
+      path.join(testDir, 'users.json'),
+      JSON.stringify([
+        {
+          id: 'publisher-id',
+          username: 'publisher',
+          passwordHash: hashPassword('password', salt),
+          salt,
+          apiPasswords: Object.entries(apiKeys).map(([label, apiKey]) => {
+            const apiSalt = generateSalt();
+            return {
+              label,
+              passwordHash: hashPassword(apiKey, apiSalt),
+              salt: apiSalt,
+              createdAt: now,
+              ...apiPasswordOptions[label as keyof typeof apiKeys],
+            };
+          }),
+          role: 'publish',
+          createdAt: now,
+          updatedAt: now,
+        },
+      ])
+    );
+
+    const port = await getTestPort(10900);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test API Password Scopes Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'full',
+      passwordStrengthCheck: false,
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const basicAuth = (label: keyof typeof apiKeys) =>
+    `Basic ${Buffer.from(`publisher:${apiKeys[label]}`).toString('base64')}`;
+
+  const pushPackage = async (
+    baseUrl: string,
+    fileName: string,
+    label: keyof typeof apiKeys
+  ) => {
+    const packageBuffer = await fs.readFile(
+      path.resolve(import.meta.dirname, './fixtures/packages', fileName)
+    );
+    return fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        Authorization: basicAuth(label),
+      },
+      body: new Uint8Array(packageBuffer),
+    });
+  };
+
+  const deletePackage = (baseUrl: string, label: keyof typeof apiKeys) =>
+    fetch(`${baseUrl}/api/v2/package/FlashCap/1.10.0`, {
+      method: 'DELETE',
+      headers: { 'X-NuGet-ApiKey': apiKeys[label] },
+    });
+
+  const getServiceIndexStatus = async (
+    baseUrl: string,
+    label: keyof typeof apiKeys
+  ) =>
+    (
+      await fetch(`${baseUrl}/v3/index.json`, {
+        headers: { Authorization: basicAuth(label) },
+      })
+    ).status;
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should enforce scopes and package patterns', async (fn) => {
+    const testDir = await createTestDirectory(
+      'api-password-scopes',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'ci')).status
+    ).toBe(201);
+
+    const outsidePattern = await pushPackage(
+      baseUrl,
+      'GitReader.1.15.0.nupkg',
+      'ci'
+    );
+    expect(outsidePattern.status).toBe(403);
+    expect((await outsidePattern.json()).error).toBe(
+      'API password does not grant access to package GitReader'
+    );
+
+    const withoutDelete = await deletePackage(baseUrl, 'ci');
+    expect(withoutDelete.status).toBe(403);
+    expect((await withoutDelete.json()).error).toBe(
+      'API password does not grant the delete scope'
+    );
+
+    const withoutPush = await pushPackage(
+      baseUrl,
+      'GitReader.1.15.0.nupkg',
+      'reader'
+    );
+    expect(withoutPush.status).toBe(403);
+    expect((await withoutPush.json()).error).toBe(
+      'API password does not grant the push scope'
+    );
+
+    expect(await getServiceIndexStatus(baseUrl, 'ci')).toBe(403);
+    expect(await getServiceIndexStatus(baseUrl, 'reader')).toBe(200);
+    expect(await getServiceIndexStatus(baseUrl, 'full')).toBe(200);
+
+    // Unrestricted API passwords grant everything the role grants
+    expect((await deletePackage(baseUrl, 'full')).status).toBe(200);
+  });
+
+  test('should reject expired API passwords and list last used times', async (fn) => {
+    const testDir = await createTestDirectory(
+      'api-password-scopes',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'expired')).status
+    ).toBe(401);
+    expect(await getServiceIndexStatus(baseUrl, 'expired')).toBe(401);
+    expect(await getServiceIndexStatus(baseUrl, 'reader')).toBe(200);
+
+    const login = await fetch(`${baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: 'publisher', password: 'password' }),
+    });
+    expect(login.status).toBe(200);
+    const list = await fetch(`${baseUrl}/api/ui/apipasswords`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Cookie: login.headers.get('set-cookie')!.split(';')[0]!,
+      },
+      body: JSON.stringify({ action: 'list' }),
+    });
+    expect(list.status).toBe(200);
+    const apiPasswords: Array<{ label: string; lastUsedAt?: string }> = (
+      await list.json()
+    ).apiPasswords;
+    const lastUsed = Object.fromEntries(
+      apiPasswords.map((p) => [p.label, p.lastUsedAt !== undefined])
+    );
+    expect(lastUsed).toEqual({
+      full: false,
+      ci: false,
+      reader: true,
+      expired: false,
+    });
+    expect(apiPasswords.find((p) => p.label === 'expired')).toMatchObject({
+      expiresAt: apiPasswordOptions.expired.expiresAt,
+    });
+  });
+});
@@ -153,6 +153,27 @@ describe('config-loader', () => {
     expect(config.duplicatePackagePolicy).toBeUndefined();
   });
 
+  it('should validate deletePackagePolicy values', async () => {
+    const validPolicies = ['unlist', 'delete'];
+
+    for (const policy of validPolicies) {
+      await writeFile(
+        join(testDir, 'config.json'),
+        JSON.stringify({ deletePackagePolicy: policy })
+      );
+      const config = await loadConfigFromFile(testDir);
+      expect(config.deletePackagePolicy).toBe(policy);
+    }
+
+    // Invalid policy
+    await writeFile(
+      join(testDir, 'config.json'),
+      JSON.stringify({ deletePackagePolicy: 'purge' })
+    );
+    const config = await loadConfigFromFile(testDir);
+    expect(config.deletePackagePolicy).toBeUndefined();
+  });
+
   it('should handle file permission errors gracefully', async () => {
     // Create a subdirectory with config.json as a directory to trigger an error
     const subDir = join(testDir, 'subdir');
@@ -207,6 +228,29 @@ describe('config-loader', () => {
     expect(config.authMode).toBeUndefined();
   });
 
+  it('should load publish validation rules and skip invalid entries', async () => {
+    const configData = {
+      publishValidation: {
+        allowedIdPrefixes: ['Contoso.', 123],
+        requiredMetadata: ['license', 'unknown', 'repository'],
+        maxPackageSizeMb: -1, // invalid value
+        prereleaseOnlyUsers: ['ci-bot'],
+        forbiddenDependencies: ['Newtonsoft.Json'],
+        requiredTargetFrameworks: 'netstandard2.0', // invalid type
+      },
+    };
+
+    await writeFile(join(testDir, 'config.json'), JSON.stringify(configData));
+
+    const config = await loadConfigFromFile(testDir);
+    expect(config.publishValidation).toEqual({
+      allowedIdPrefixes: ['Contoso.'],
+      requiredMetadata: ['license', 'repository'],
+      prereleaseOnlyUsers: ['ci-bot'],
+      forbiddenDependencies: ['Newtonsoft.Json'],
+    });
+  });
+
   describe('packageDir path resolution', () => {
     it('should resolve relative packageDir from config directory', async () => {
       const configData = {
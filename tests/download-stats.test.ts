@@ -0,0 +1,212 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Download Statistics Tests
+ *
+ * Tests download counting of the package download endpoint:
+ * - Counts in search results, registrations and the V2 feed
+ * - Download counts as the tie-breaker of the search ranking
+ * - Persistence to downloads.json across restarts
+ * - Download statistics API (/api/ui/stats)
+ */
+describe('Download statistics', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('download-stats', testGlobalLogLevel);
+
+  const packages = [
+    { id: 'Alpha.Tool', version: '1.0.0' },
+    { id: 'Alpha.Tool', version: '1.1.0' },
+    { id: 'Zeta.Tool', version: '2.0.0' },
+  ];
+
+  // Writes version directories directly into the package storage
+  const seedPackages = async (packagesDir: string) => {
+    for (const { id, version } of packages) {
+      const versionDir = path.join(packagesDir, id, version);
+      await fs.mkdir(versionDir, { recursive: true });
+      await fs.writeFile(
+        path.join(versionDir, `${id}.nuspec`),
+        `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://schemas.microsoft.com/packaging/2013/05/nuspec.xsd">
+  <metadata>
+    <id>${id}</id>
+    <version>${version}</version>
+    <authors>test</authors>
+    <description>Download test package</description>
+    <tags>tool</tags>
+  </metadata>
+</package>`
+      );
+      await fs.writeFile(
+        path.join(versionDir, `${id}.${version}.nupkg`),
+        `${id} ${version}`
+      );
+    }
+  };
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    const port = await getTestPort(9950);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Download Statistics Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const download = async (baseUrl: string, id: string, version: string) => {
+    const lowerId = id.toLowerCase();
+    const response = await fetch(
+      `${baseUrl}/v3/package/${lowerId}/${version}/${lowerId}.${version}.nupkg`
+    );
+    expect(response.status).toBe(200);
+    await response.arrayBuffer();
+  };
+
+  const getTotalDownloads = async (baseUrl: string, id: string) => {
+    const result = await (
+      await fetch(`${baseUrl}/v3/query?q=packageid:${id}`)
+    ).json();
+    return result.data[0].totalDownloads as number;
+  };
+
+  const getStats = async (baseUrl: string, body: object) => {
+    const response = await fetch(`${baseUrl}/api/ui/stats`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should count downloads and expose them', async (fn) => {
+    const testDir = await createTestDirectory('download-stats', fn.task.name);
+    await seedPackages(path.join(testDir, 'packages'));
+    const baseUrl = await startServer(testDir);
+
+    // Equal scores are ordered alphabetically without downloads
+    const before = await (await fetch(`${baseUrl}/v3/query?q=tool`)).json();
+    expect(before.data.map((r: any) => r.id)).toEqual([
+      'Alpha.Tool',
+      'Zeta.Tool',
+    ]);
+
+    await download(baseUrl, 'Alpha.Tool', '1.0.0');
+    await download(baseUrl, 'Alpha.Tool', '1.1.0');
+    await download(baseUrl, 'Zeta.Tool', '2.0.0');
+    await download(baseUrl, 'Zeta.Tool', '2.0.0');
+    await download(baseUrl, 'Zeta.Tool', '2.0.0');
+
+    // Counted when the response is finished, so wait for the last one
+    await vi.waitFor(async () =>
+      expect(await getTotalDownloads(baseUrl, 'Zeta.Tool')).toBe(3)
+    );
+    expect(await getTotalDownloads(baseUrl, 'Alpha.Tool')).toBe(2);
+
+    // Downloads break the tie
+    const after = await (await fetch(`${baseUrl}/v3/query?q=tool`)).json();
+    expect(after.data.map((r: any) => r.id)).toEqual([
+      'Zeta.Tool',
+      'Alpha.Tool',
+    ]);
+    const alpha = after.data[1];
+    expect(alpha.versions.map((v: any) => v.downloads)).toEqual([1, 1]);
+
+    const registration = await (
+      await fetch(`${baseUrl}/v3/registrations/zeta.tool/index.json`)
+    ).json();
+    expect(registration.items[0].items[0].catalogEntry.downloads).toBe(3);
+
+    const feed = await (
+      await fetch(`${baseUrl}/api/v2/Packages(Id='Zeta.Tool',Version='2.0.0')`)
+    ).text();
+    expect(feed).toContain(
+      '<d:VersionDownloadCount m:type="Edm.Int32">3</d:VersionDownloadCount>'
+    );
+
+    // Missing files are not counted
+    const missing = await fetch(
+      `${baseUrl}/v3/package/zeta.tool/9.9.9/zeta.tool.9.9.9.nupkg`
+    );
+    expect(missing.status).toBe(404);
+    expect(await getTotalDownloads(baseUrl, 'Zeta.Tool')).toBe(3);
+  });
+
+  test('should persist downloads and report statistics', async (fn) => {
+    const testDir = await createTestDirectory('download-stats', fn.task.name);
+    await seedPackages(path.join(testDir, 'packages'));
+    const baseUrl = await startServer(testDir);
+
+    await download(baseUrl, 'Alpha.Tool', '1.0.0');
+    await download(baseUrl, 'Alpha.Tool', '1.0.0');
+    await download(baseUrl, 'Zeta.Tool', '2.0.0');
+    await vi.waitFor(async () =>
+      expect((await getStats(baseUrl, {})).totalDownloads).toBe(3)
+    );
+
+    // Pending counts are written on close
+    await server!.close();
+    server = null;
+    const stored = JSON.parse(
+      await fs.readFile(path.join(testDir, 'downloads.json'), 'utf-8')
+    );
+    expect(stored.packages['alpha.tool'].versions['1.0.0'].total).toBe(2);
+
+    const restartedUrl = await startServer(testDir);
+    expect(await getTotalDownloads(restartedUrl, 'Alpha.Tool')).toBe(2);
+
+    const today = new Date().toISOString().substring(0, 10);
+    const stats = await getStats(restartedUrl, { days: 7, top: 1 });
+    expect(stats.to).toBe(today);
+    expect(stats.daily).toHaveLength(7);
+    expect(stats.daily[6]).toEqual({ date: today, downloads: 3 });
+    expect(stats.periodDownloads).toBe(3);
+    expect(stats.topPackages).toEqual([
+      { id: 'Alpha.Tool', totalDownloads: 2, periodDownloads: 2 },
+    ]);
+    expect(stats.versions).toBeUndefined();
+
+    const packageStats = await getStats(restartedUrl, {
+      days: 1,
+      packageId: 'zeta.tool',
+    });
+    expect(packageStats.daily).toEqual([{ date: today, downloads: 1 }]);
+    expect(packageStats.versions).toEqual([
+      { version: '2.0.0', totalDownloads: 1, periodDownloads: 1 },
+    ]);
+
+    const invalid = await fetch(`${restartedUrl}/api/ui/stats`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ days: 0 }),
+    });
+    expect(invalid.status).toBe(400);
+  });
+});
@@ -0,0 +1,226 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * File Streaming Tests
+ *
+ * Tests HTTP caching and range support of package downloads:
+ * - Strong ETag from the stored package hash, Last-Modified and Accept-Ranges
+ * - If-None-Match and If-Modified-Since answered with 304
+ * - Single-range requests answered with 206, and If-Range validation
+ * - HEAD requests answered without body and without counting the download
+ */
+describe('File streaming', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('file-streaming', testGlobalLogLevel);
+
+  const testPackagePath = path.resolve(
+    import.meta.dirname,
+    './fixtures/packages/FlashCap.1.10.0.nupkg'
+  );
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(10400);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test File Streaming Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const pushPackage = async (baseUrl: string) => {
+    const packageBuffer = await fs.readFile(testPackagePath);
+    const response = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(packageBuffer),
+    });
+    expect(response.status).toBe(201);
+    return packageBuffer;
+  };
+
+  const getTotalDownloads = async (baseUrl: string) => {
+    const result = await (
+      await fetch(`${baseUrl}/v3/query?q=packageid:FlashCap`)
+    ).json();
+    return result.data[0].totalDownloads as number;
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should answer conditional requests with 304', async (fn) => {
+    const testDir = await createTestDirectory('file-streaming', fn.task.name);
+    const baseUrl = await startServer(testDir);
+    const packageBuffer = await pushPackage(baseUrl);
+    const downloadUrl = `${baseUrl}/v3/package/flashcap/1.10.0/flashcap.1.10.0.nupkg`;
+
+    const response = await fetch(downloadUrl);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('accept-ranges')).toBe('bytes');
+    const etag = response.headers.get('etag');
+    expect(etag).toBe(
+      `"${createHash('sha512').update(packageBuffer).digest('base64')}"`
+    );
+    const lastModified = response.headers.get('last-modified')!;
+    expect(Date.parse(lastModified)).not.toBeNaN();
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(packageBuffer);
+
+    const notModified = await fetch(downloadUrl, {
+      headers: { 'If-None-Match': `"other", ${etag}` },
+    });
+    expect(notModified.status).toBe(304);
+    expect(notModified.headers.get('etag')).toBe(etag);
+    expect(await notModified.text()).toBe('');
+
+    expect(
+      (
+        await fetch(downloadUrl, {
+          headers: { 'If-Modified-Since': lastModified },
+        })
+      ).status
+    ).toBe(304);
+
+    // If-None-Match takes precedence over If-Modified-Since
+    const modified = await fetch(downloadUrl, {
+      headers: {
+        'If-None-Match': '"other"',
+        'If-Modified-Since': lastModified,
+      },
+    });
+    expect(modified.status).toBe(200);
+    await modified.arrayBuffer();
+
+    // Files without a stored hash get an ETag from the file identity
+    const icon = await fetch(`${baseUrl}/v3/package/flashcap/1.10.0/icon`);
+    const iconEtag = icon.headers.get('etag');
+    expect(iconEtag).toMatch(/^"[0-9a-f]+-[0-9a-f]+-[0-9a-f]+"$/);
+    await icon.arrayBuffer();
+    expect(
+      (
+        await fetch(`${baseUrl}/v3/package/flashcap/1.10.0/icon`, {
+          headers: { 'If-None-Match': iconEtag! },
+        })
+      ).status
+    ).toBe(304);
+
+    // Only the complete download is counted
+    expect(await getTotalDownloads(baseUrl)).toBe(2);
+  });
+
+  test('should answer range requests with 206', async (fn) => {
+    const testDir = await createTestDirectory('file-streaming', fn.task.name);
+    const baseUrl = await startServer(testDir);
+    const packageBuffer = await pushPackage(baseUrl);
+    const downloadUrl = `${baseUrl}/v3/package/flashcap/1.10.0/flashcap.1.10.0.nupkg`;
+    const size = packageBuffer.length;
+
+    const partial = await fetch(downloadUrl, {
+      headers: { Range: 'bytes=100-199' },
+    });
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get('content-range')).toBe(`bytes 100-199/${size}`);
+    expect(partial.headers.get('content-length')).toBe('100');
+    expect(Buffer.from(await partial.arrayBuffer())).toEqual(
+      packageBuffer.subarray(100, 200)
+    );
+
+    const rest = await fetch(downloadUrl, {
+      headers: {
+        Range: `bytes=${size - 10}-`,
+        'If-Range': partial.headers.get('etag')!,
+      },
+    });
+    expect(rest.status).toBe(206);
+    expect(Buffer.from(await rest.arrayBuffer())).toEqual(
+      packageBuffer.subarray(size - 10)
+    );
+
+    const suffix = await fetch(downloadUrl, {
+      headers: { Range: 'bytes=-5' },
+    });
+    expect(suffix.status).toBe(206);
+    expect(suffix.headers.get('content-range')).toBe(
+      `bytes ${size - 5}-${size - 1}/${size}`
+    );
+    expect(Buffer.from(await suffix.arrayBuffer())).toEqual(
+      packageBuffer.subarray(size - 5)
+    );
+
+    // A changed representation is sent in full
+    const changed = await fetch(downloadUrl, {
+      headers: { Range: 'bytes=100-199', 'If-Range': '"other"' },
+    });
+    expect(changed.status).toBe(200);
+    expect(Buffer.from(await changed.arrayBuffer())).toEqual(packageBuffer);
+
+    const unsatisfiable = await fetch(downloadUrl, {
+      headers: { Range: `bytes=${size}-` },
+    });
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers.get('content-range')).toBe(`bytes */${size}`);
+    await unsatisfiable.arrayBuffer();
+
+    // Multiple ranges are answered with the whole file
+    const multiple = await fetch(downloadUrl, {
+      headers: { Range: 'bytes=0-9,20-29' },
+    });
+    expect(multiple.status).toBe(200);
+    expect(Buffer.from(await multiple.arrayBuffer())).toEqual(packageBuffer);
+  });
+
+  test('should answer HEAD requests without counting downloads', async (fn) => {
+    const testDir = await createTestDirectory('file-streaming', fn.task.name);
+    const baseUrl = await startServer(testDir);
+    const packageBuffer = await pushPackage(baseUrl);
+
+    const response = await fetch(
+      `${baseUrl}/v3/package/flashcap/1.10.0/flashcap.1.10.0.nupkg`,
+      { method: 'HEAD' }
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-length')).toBe(
+      String(packageBuffer.length)
+    );
+    expect(response.headers.get('content-type')).toBe('application/zip');
+    expect(response.headers.get('etag')).not.toBeNull();
+    expect(response.headers.get('repr-digest')).not.toBeNull();
+
+    expect(
+      (
+        await fetch(
+          `${baseUrl}/v3/package/flashcap/9.9.9/flashcap.9.9.9.nupkg`,
+          { method: 'HEAD' }
+        )
+      ).status
+    ).toBe(404);
+
+    expect(await getTotalDownloads(baseUrl)).toBe(0);
+  });
+});
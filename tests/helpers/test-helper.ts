@@ -169,3 +169,36 @@ export const waitForServerReady = async (
     await new Promise((resolve) => setTimeout(resolve, retryDelay));
   }
 };
+
+/**
+ * Overwrites a 32-bit field of the central directory header of a ZIP entry
+ * @param archive - ZIP archive content
+ * @param entryName - Name of the entry to forge
+ * @param fieldOffset - Offset of the field in the header (20: compressed size, 24: size)
+ * @param value - Value to write
+ * @returns Copy of the archive with the forged field
+ */
+export const forgeCentralDirectory = (
+  archive: Buffer,
+  entryName: string,
+  fieldOffset: number,
+  value: number
+): Buffer => {
+  const forged = Buffer.from(archive);
+  const signature = Buffer.from([0x50, 0x4b, 0x01, 0x02]);
+  for (
+    let position = forged.indexOf(signature);
+    position >= 0;
+    position = forged.indexOf(signature, position + signature.length)
+  ) {
+    const nameLength = forged.readUInt16LE(position + 28);
+    if (
+      forged.toString('utf-8', position + 46, position + 46 + nameLength) ===
+      entryName
+    ) {
+      forged.writeUInt32LE(value, position + fieldOffset);
+      return forged;
+    }
+  }
+  throw new Error(`Entry not found: ${entryName}`);
+};
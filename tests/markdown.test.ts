@@ -0,0 +1,248 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, expect, test } from 'vitest';
+import {
+  maxMarkdownLength,
+  parseMarkdown,
+  parseMarkdownInline,
+  sanitizeMarkdownUrl,
+} from '../src/ui/markdown';
+
+describe('markdown', () => {
+  test('parses headings, paragraphs and code blocks', () => {
+    const blocks = parseMarkdown(
+      [
+        '# FlashCap',
+        '',
+        'Independent *camera* capture',
+        'library for **.NET**.',
+        '',
+        'Usage',
+        '-----',
+        '',
+        '```csharp',
+        'var devices = new CaptureDevices();',
+        '```',
+        '',
+        '    indented code',
+        '',
+        '---',
+      ].join('\r\n')
+    );
+
+    expect(blocks).toEqual([
+      {
+        type: 'heading',
+        level: 1,
+        children: [{ type: 'text', text: 'FlashCap' }],
+      },
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'Independent ' },
+          { type: 'emphasis', children: [{ type: 'text', text: 'camera' }] },
+          { type: 'text', text: ' capture library for ' },
+          { type: 'strong', children: [{ type: 'text', text: '.NET' }] },
+          { type: 'text', text: '.' },
+        ],
+      },
+      {
+        type: 'heading',
+        level: 2,
+        children: [{ type: 'text', text: 'Usage' }],
+      },
+      {
+        type: 'code',
+        language: 'csharp',
+        text: 'var devices = new CaptureDevices();',
+      },
+      { type: 'code', text: 'indented code' },
+      { type: 'rule' },
+    ]);
+  });
+
+  test('parses badge links, code spans and bare URLs', () => {
+    expect(
+      parseMarkdownInline(
+        '[![NuGet](https://img.shields.io/nuget/v/FlashCap.svg)](https://www.nuget.org/packages/FlashCap) `snake_case` see https://example.com/docs.'
+      )
+    ).toEqual([
+      {
+        type: 'link',
+        href: 'https://www.nuget.org/packages/FlashCap',
+        children: [
+          {
+            type: 'image',
+            src: 'https://img.shields.io/nuget/v/FlashCap.svg',
+            alt: 'NuGet',
+          },
+        ],
+      },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'snake_case' },
+      { type: 'text', text: ' see ' },
+      {
+        type: 'link',
+        href: 'https://example.com/docs',
+        children: [{ type: 'text', text: 'https://example.com/docs' }],
+      },
+      { type: 'text', text: '.' },
+    ]);
+    expect(parseMarkdownInline('a snake_case_name')).toEqual([
+      { type: 'text', text: 'a snake_case_name' },
+    ]);
+  });
+
+  test('removes raw HTML and unsafe URLs', () => {
+    expect(sanitizeMarkdownUrl('https://example.com/')).toBe(
+      'https://example.com/'
+    );
+    expect(sanitizeMarkdownUrl('mailto:someone@example.com')).toBe(
+      'mailto:someone@example.com'
+    );
+    expect(sanitizeMarkdownUrl('javascript:alert(1)')).toBeUndefined();
+    expect(sanitizeMarkdownUrl('data:text/html,x')).toBeUndefined();
+    expect(sanitizeMarkdownUrl('docs/usage.md')).toBeUndefined();
+
+    expect(
+      parseMarkdown(
+        [
+          '<p align="center"><img src="javascript:alert(1)">Logo</p>',
+          '',
+          '<!-- hidden -->',
+          'Click [here](javascript:alert(1)) or ![x](data:image/png;base64,AA)<script>alert(1)</script>',
+        ].join('\n')
+      )
+    ).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'Logo' }] },
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'Click ' },
+          { type: 'text', text: 'here' },
+          { type: 'text', text: ' or xalert(1)' },
+        ],
+      },
+    ]);
+  });
+
+  test('parses lists, quotes and tables', () => {
+    const blocks = parseMarkdown(
+      [
+        '- first',
+        '  continued',
+        '  - nested',
+        '',
+        '- second',
+        '',
+        '3. three',
+        '4. four',
+        '',
+        '> quoted',
+        'lazy line',
+        '',
+        '| Name | Value |',
+        '|:-----|------:|',
+        '| `a\\|b` | 1 |',
+      ].join('\n')
+    );
+
+    expect(blocks).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          [
+            {
+              type: 'paragraph',
+              children: [{ type: 'text', text: 'first continued' }],
+            },
+            {
+              type: 'list',
+              ordered: false,
+              items: [
+                [
+                  {
+                    type: 'paragraph',
+                    children: [{ type: 'text', text: 'nested' }],
+                  },
+                ],
+              ],
+            },
+          ],
+          [
+            {
+              type: 'paragraph',
+              children: [{ type: 'text', text: 'second' }],
+            },
+          ],
+        ],
+      },
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [
+          [{ type: 'paragraph', children: [{ type: 'text', text: 'three' }] }],
+          [{ type: 'paragraph', children: [{ type: 'text', text: 'four' }] }],
+        ],
+      },
+      {
+        type: 'quote',
+        children: [
+          {
+            type: 'paragraph',
+            children: [{ type: 'text', text: 'quoted lazy line' }],
+          },
+        ],
+      },
+      {
+        type: 'table',
+        header: [
+          [{ type: 'text', text: 'Name' }],
+          [{ type: 'text', text: 'Value' }],
+        ],
+        rows: [
+          [[{ type: 'code', text: 'a|b' }], [{ type: 'text', text: '1' }]],
+        ],
+      },
+    ]);
+  });
+
+  test('parses large and deeply nested documents in linear time', () => {
+    // Unclosed delimiters, brackets and code spans are searched once per paragraph
+    const inputs = [
+      '*a _b ~~c '.repeat(20000),
+      '['.repeat(200000),
+      '[a](x'.repeat(40000),
+      Array.from({ length: 600 }, (_, i) => '`'.repeat(i + 1)).join(' '),
+      'a  \n'.repeat(50000),
+      '# a' + ' '.repeat(200000) + 'b',
+      '```' + 'a'.repeat(200000) + '`',
+      '- a' + '\n'.repeat(200000) + 'b',
+      '>'.repeat(200000) + ' a',
+    ];
+    for (const input of inputs) {
+      const start = performance.now();
+      parseMarkdown(input);
+      expect(performance.now() - start).toBeLessThan(2000);
+    }
+
+    expect(parseMarkdown('# FlashCap ##')).toEqual([
+      {
+        type: 'heading',
+        level: 1,
+        children: [{ type: 'text', text: 'FlashCap' }],
+      },
+    ]);
+
+    // Only the lines within the limit are parsed
+    const blocks = parseMarkdown(
+      'a\n'.repeat(maxMarkdownLength) + '\n# Truncated'
+    );
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0]!.type).toBe('paragraph');
+  });
+});
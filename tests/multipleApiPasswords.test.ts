@@ -34,8 +34,8 @@ describe('Multiple API Passwords', () => {
     await userService.initialize();
   });
 
-  afterEach(() => {
-    userService.destroy();
+  afterEach(async () => {
+    await userService.destroy();
   });
 
   describe('API Password Management', () => {
@@ -295,6 +295,155 @@ describe('Multiple API Passwords', () => {
     });
   });
 
+  describe('API Password Restrictions', () => {
+    it('should store scopes, package patterns and expiration', async () => {
+      await userService.createUser({
+        username: 'testuser',
+        password: 'Test123!@#',
+        role: 'publish',
+      });
+
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      const added = await userService.addApiPassword('testuser', 'ci', {
+        scopes: ['push', 'read', 'push'],
+        packagePatterns: [' Contoso.* ', '', 'Contoso.*'],
+        expiresAt,
+      });
+      expect(added).toMatchObject({
+        label: 'ci',
+        scopes: ['read', 'push'],
+        packagePatterns: ['Contoso.*'],
+        expiresAt,
+      });
+
+      const result = await userService.listApiPasswords('testuser');
+      expect(result!.apiPasswords[0]).toMatchObject({
+        label: 'ci',
+        scopes: ['read', 'push'],
+        packagePatterns: ['Contoso.*'],
+        expiresAt,
+      });
+      expect(result!.apiPasswords[0].lastUsedAt).toBeUndefined();
+
+      const match = await userService.matchApiPassword(
+        'testuser',
+        added!.apiPassword
+      );
+      expect(match).toMatchObject({
+        label: 'ci',
+        scopes: ['read', 'push'],
+        packagePatterns: ['Contoso.*'],
+      });
+      expect(
+        (await userService.listApiPasswords('testuser'))!.apiPasswords[0]
+          .lastUsedAt
+      ).toBeDefined();
+    });
+
+    it('should save last used times without overwriting other changes', async () => {
+      await userService.createUser({
+        username: 'testuser',
+        password: 'Test123!@#',
+        role: 'publish',
+      });
+      const added = await userService.addApiPassword('testuser', 'ci');
+      const usersFile = join(testDir, 'users.json');
+      const readApiPassword = async () =>
+        JSON.parse(await fs.readFile(usersFile, 'utf-8'))[0].apiPasswords[0];
+
+      // Using the API password does not rewrite users.json
+      expect(
+        await userService.matchApiPassword('testuser', added!.apiPassword)
+      ).toBeDefined();
+      expect((await readApiPassword()).lastUsedAt).toBeUndefined();
+
+      // Other changes are saved meanwhile, and the pending time is saved on destroy
+      await userService.updateUser('testuser', { role: 'admin' });
+      const { lastUsedAt } = (await userService.listApiPasswords('testuser'))!
+        .apiPasswords[0]!;
+      await userService.destroy();
+
+      const saved = JSON.parse(await fs.readFile(usersFile, 'utf-8'))[0];
+      expect(saved.role).toBe('admin');
+      expect(saved.apiPasswords[0].lastUsedAt).toBe(lastUsedAt);
+    });
+
+    it('should reject invalid restrictions', async () => {
+      await userService.createUser({
+        username: 'testuser',
+        password: 'Test123!@#',
+        role: 'publish',
+      });
+
+      await expect(
+        userService.addApiPassword('testuser', 'key1', { scopes: [] })
+      ).rejects.toThrow('Scopes must be some of: read, push, delete');
+      await expect(
+        userService.addApiPassword('testuser', 'key2', {
+          scopes: ['admin' as any],
+        })
+      ).rejects.toThrow('Scopes must be some of: read, push, delete');
+      await expect(
+        userService.addApiPassword('testuser', 'key3', {
+          packagePatterns: ['Contoso/*'],
+        })
+      ).rejects.toThrow('Invalid package pattern: Contoso/*');
+      await expect(
+        userService.addApiPassword('testuser', 'key4', {
+          expiresAt: 'tomorrow',
+        })
+      ).rejects.toThrow('Invalid expiration date');
+      await expect(
+        userService.addApiPassword('testuser', 'key5', {
+          expiresAt: new Date(Date.now() - 1000).toISOString(),
+        })
+      ).rejects.toThrow('Expiration date must be in the future');
+
+      const result = await userService.listApiPasswords('testuser');
+      expect(result!.apiPasswords).toHaveLength(0);
+    });
+
+    it('should not validate expired API passwords', async () => {
+      await userService.createUser({
+        username: 'testuser',
+        password: 'Test123!@#',
+        role: 'publish',
+      });
+      const added = await userService.addApiPassword('testuser', 'ci', {
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      });
+      expect(
+        await userService.validateApiPassword('testuser', added!.apiPassword)
+      ).toBeDefined();
+
+      // Expire the API password in users.json and reload
+      await userService.destroy();
+      const usersFile = join(testDir, 'users.json');
+      const users = JSON.parse(await fs.readFile(usersFile, 'utf-8'));
+      users[0].apiPasswords[0].expiresAt = new Date(
+        Date.now() - 1000
+      ).toISOString();
+      await fs.writeFile(usersFile, JSON.stringify(users, null, 2));
+      userService = createUserService({
+        configDir: testDir,
+        logger: {
+          info: () => {},
+          error: () => {},
+          warn: () => {},
+          debug: () => {},
+        } as any,
+      });
+      await userService.initialize();
+
+      expect(
+        await userService.validateApiPassword('testuser', added!.apiPassword)
+      ).toBeUndefined();
+      expect(
+        await userService.validateApiKey(added!.apiPassword)
+      ).toBeUndefined();
+    });
+  });
+
   describe('Backward Compatibility', () => {
     it('should migrate old single API password to new format', async () => {
       // Create user data in old format
@@ -318,7 +467,7 @@ describe('Multiple API Passwords', () => {
       );
 
       // Reinitialize service to load the old data
-      userService.destroy();
+      await userService.destroy();
       userService = createUserService({
         configDir: testDir,
         logger: {
@@ -359,7 +508,7 @@ describe('Multiple API Passwords', () => {
       );
 
       // Reinitialize service to load the old data
-      userService.destroy();
+      await userService.destroy();
       userService = createUserService({
         configDir: testDir,
         logger: {
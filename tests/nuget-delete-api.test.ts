@@ -0,0 +1,185 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { DeletePackagePolicy, ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+import { pathExists } from './helpers/fs-utils.js';
+
+/**
+ * NuGet delete / unlist Tests
+ *
+ * Tests `DELETE /api/v2/package/{id}/{version}` (`dotnet nuget delete`) and the relist call:
+ * - unlist: Version is hidden from search but still resolvable
+ * - delete: Version is removed from disk and cache
+ */
+describe('NuGet delete API', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('nuget-delete-api', testGlobalLogLevel);
+
+  const testPackagePath = path.resolve(
+    import.meta.dirname,
+    './fixtures/packages/FlashCap.1.10.0.nupkg'
+  );
+
+  const startServer = async (
+    testDir: string,
+    deletePackagePolicy?: DeletePackagePolicy
+  ) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(9650);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test NuGet Delete Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+      deletePackagePolicy,
+    };
+    server = await startFastifyServer(config, logger);
+    return { baseUrl: `http://localhost:${port}`, packagesDir };
+  };
+
+  const publishPackage = async (baseUrl: string) => {
+    const packageBuffer = await fs.readFile(testPackagePath);
+    const response = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(packageBuffer),
+    });
+    expect(response.status).toBe(201);
+  };
+
+  const searchPackageIds = async (baseUrl: string) => {
+    const response = await fetch(`${baseUrl}/v3/query`);
+    const data = await response.json();
+    return data.data.map((r: any) => r.id);
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should unlist a package by default', async (fn) => {
+    const testDir = await createTestDirectory('nuget-delete-api', fn.task.name);
+    const { baseUrl } = await startServer(testDir);
+    await publishPackage(baseUrl);
+
+    const response = await fetch(`${baseUrl}/api/v2/package/FlashCap/1.10.0`, {
+      method: 'DELETE',
+    });
+    expect(response.status).toBe(200);
+
+    // Hidden from search
+    expect(await searchPackageIds(baseUrl)).not.toContain('FlashCap');
+
+    // Still resolvable through the package base address
+    const versionsResponse = await fetch(
+      `${baseUrl}/v3/package/flashcap/index.json`
+    );
+    const versions = await versionsResponse.json();
+    expect(versions.versions).toContain('1.10.0');
+
+    const downloadResponse = await fetch(
+      `${baseUrl}/v3/package/flashcap/1.10.0/flashcap.1.10.0.nupkg`
+    );
+    expect(downloadResponse.status).toBe(200);
+
+    // Registration reports listed: false
+    const registrationResponse = await fetch(
+      `${baseUrl}/v3/registrations/flashcap/index.json`
+    );
+    const registration = await registrationResponse.json();
+    expect(registration.items[0].items[0].catalogEntry.listed).toBe(false);
+  });
+
+  test('should keep the unlisted state after restart', async (fn) => {
+    const testDir = await createTestDirectory('nuget-delete-api', fn.task.name);
+    let { baseUrl } = await startServer(testDir, 'unlist');
+    await publishPackage(baseUrl);
+
+    const response = await fetch(`${baseUrl}/api/v2/package/flashcap/1.10.0`, {
+      method: 'DELETE',
+    });
+    expect(response.status).toBe(200);
+
+    await server!.close();
+    server = null;
+    ({ baseUrl } = await startServer(testDir, 'unlist'));
+
+    expect(await searchPackageIds(baseUrl)).not.toContain('FlashCap');
+    const registrationResponse = await fetch(
+      `${baseUrl}/v3/registrations/flashcap/index.json`
+    );
+    const registration = await registrationResponse.json();
+    expect(registration.items[0].items[0].catalogEntry.listed).toBe(false);
+  });
+
+  test('should relist an unlisted package', async (fn) => {
+    const testDir = await createTestDirectory('nuget-delete-api', fn.task.name);
+    const { baseUrl } = await startServer(testDir, 'unlist');
+    await publishPackage(baseUrl);
+
+    await fetch(`${baseUrl}/api/v2/package/FlashCap/1.10.0`, {
+      method: 'DELETE',
+    });
+    expect(await searchPackageIds(baseUrl)).not.toContain('FlashCap');
+
+    const response = await fetch(`${baseUrl}/api/v2/package/FlashCap/1.10.0`, {
+      method: 'POST',
+    });
+    expect(response.status).toBe(200);
+    expect(await searchPackageIds(baseUrl)).toContain('FlashCap');
+  });
+
+  test('should delete package files with delete policy', async (fn) => {
+    const testDir = await createTestDirectory('nuget-delete-api', fn.task.name);
+    const { baseUrl, packagesDir } = await startServer(testDir, 'delete');
+    await publishPackage(baseUrl);
+
+    const response = await fetch(`${baseUrl}/api/v2/package/FlashCap/1.10.0`, {
+      method: 'DELETE',
+    });
+    expect(response.status).toBe(200);
+
+    expect(await pathExists(path.join(packagesDir, 'FlashCap'))).toBe(false);
+    expect(await searchPackageIds(baseUrl)).not.toContain('FlashCap');
+
+    const downloadResponse = await fetch(
+      `${baseUrl}/v3/package/flashcap/1.10.0/flashcap.1.10.0.nupkg`
+    );
+    expect(downloadResponse.status).toBe(404);
+  });
+
+  test('should return 404 for an unknown package version', async (fn) => {
+    const testDir = await createTestDirectory('nuget-delete-api', fn.task.name);
+    const { baseUrl } = await startServer(testDir);
+
+    const deleteResponse = await fetch(
+      `${baseUrl}/api/v2/package/Unknown/1.0.0`,
+      { method: 'DELETE' }
+    );
+    expect(deleteResponse.status).toBe(404);
+
+    const relistResponse = await fetch(
+      `${baseUrl}/api/v2/package/Unknown/1.0.0`,
+      { method: 'POST' }
+    );
+    expect(relistResponse.status).toBe(404);
+  });
+});
@@ -0,0 +1,242 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { AuthMode, ServerConfig } from '../src/types';
+import { generateSalt, hashPassword } from '../src/utils/crypto';
+import {
+  getMultipartBoundary,
+  MultipartStreamEvent,
+  readMultipartStream,
+} from '../src/utils/multipart';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * NuGet push (PackagePublish/2.0.0) Tests
+ *
+ * Tests the standard `PUT /api/v2/package` endpoint used by `dotnet nuget push`:
+ * - Service index advertisement
+ * - multipart/form-data uploads
+ * - X-NuGet-ApiKey authentication mapped to API passwords
+ */
+describe('NuGet push API (PackagePublish/2.0.0)', () => {
+  let server: FastifyServerInstance | null = null;
+
+  const testPackagePath = path.resolve(
+    import.meta.dirname,
+    './fixtures/packages/FlashCap.1.10.0.nupkg'
+  );
+
+  const publisherApiKey = 'publisher-api-key-0123456789';
+  const readerApiKey = 'reader-api-key-0123456789';
+
+  const createApiPasswordUser = (
+    username: string,
+    role: 'read' | 'publish' | 'admin',
+    apiKey: string
+  ) => {
+    const salt = generateSalt();
+    const apiSalt = generateSalt();
+    const now = new Date().toISOString();
+    return {
+      id: `${username}-id`,
+      username,
+      passwordHash: hashPassword('password', salt),
+      salt,
+      apiPasswords: [
+        {
+          label: 'ci',
+          passwordHash: hashPassword(apiKey, apiSalt),
+          salt: apiSalt,
+          createdAt: now,
+        },
+      ],
+      role,
+      createdAt: now,
+      updatedAt: now,
+    };
+  };
+
+  const startServer = async (authMode: AuthMode, testName: string) => {
+    const testDir = await createTestDirectory('nuget-push-api', testName);
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+    await fs.writeFile(
+      path.join(testDir, 'users.json'),
+      JSON.stringify(
+        [
+          createApiPasswordUser('publisher', 'publish', publisherApiKey),
+          createApiPasswordUser('reader', 'read', readerApiKey),
+        ],
+        null,
+        2
+      )
+    );
+
+    const port = await getTestPort(9600);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test NuGet Push Server',
+      logLevel: testGlobalLogLevel,
+      authMode,
+      passwordStrengthCheck: false,
+    };
+    const logger = createConsoleLogger('nuget-push-api', testGlobalLogLevel);
+    server = await startFastifyServer(config, logger);
+    return { baseUrl: `http://localhost:${port}`, packagesDir };
+  };
+
+  const pushPackage = async (
+    baseUrl: string,
+    headers: Record<string, string> = {},
+    endpointPath = '/api/v2/package'
+  ) => {
+    const packageBuffer = await fs.readFile(testPackagePath);
+    const formData = new FormData();
+    formData.append(
+      'package',
+      new Blob([new Uint8Array(packageBuffer)], {
+        type: 'application/octet-stream',
+      }),
+      'package.nupkg'
+    );
+    return fetch(`${baseUrl}${endpointPath}`, {
+      method: 'PUT',
+      headers,
+      body: formData,
+    });
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should parse the file part of a multipart body', async () => {
+    const boundary = getMultipartBoundary(
+      'multipart/form-data; boundary="abc123"'
+    );
+    expect(boundary).toBe('abc123');
+
+    const body = Buffer.concat([
+      Buffer.from(
+        '--abc123\r\nContent-Disposition: form-data; name="package"; filename="package.nupkg"\r\nContent-Type: application/octet-stream\r\n\r\n'
+      ),
+      Buffer.from([0x50, 0x4b, 0x0d, 0x0a, 0x03, 0x04]),
+      Buffer.from('\r\n--abc123--\r\n'),
+    ]);
+
+    // Delimiters split across chunks are found as well
+    for (const chunkSize of [1, 7, body.length]) {
+      const chunks = async function* () {
+        for (let offset = 0; offset < body.length; offset += chunkSize) {
+          yield body.subarray(offset, offset + chunkSize);
+        }
+      };
+      const events: MultipartStreamEvent[] = [];
+      for await (const event of readMultipartStream(chunks(), boundary!)) {
+        events.push(event);
+      }
+
+      expect(events[0]).toEqual({
+        type: 'part',
+        part: {
+          fieldName: 'package',
+          fileName: 'package.nupkg',
+          contentType: 'application/octet-stream',
+        },
+      });
+      expect(events[events.length - 1]).toEqual({ type: 'end' });
+      const data = Buffer.concat(
+        events.flatMap((event) => (event.type === 'data' ? [event.data] : []))
+      );
+      expect([...data]).toEqual([0x50, 0x4b, 0x0d, 0x0a, 0x03, 0x04]);
+    }
+  });
+
+  test('should advertise PackagePublish/2.0.0 in the service index', async (fn) => {
+    const { baseUrl } = await startServer('none', fn.task.name);
+
+    const response = await fetch(`${baseUrl}/v3/index.json`);
+    const data = await response.json();
+    const publishResource = data.resources.find(
+      (r: any) => r['@type'] === 'PackagePublish/2.0.0'
+    );
+    expect(publishResource).toBeDefined();
+    expect(publishResource['@id']).toBe(`${baseUrl}/api/v2/package`);
+  });
+
+  test('should accept multipart push without authentication in authMode=none', async (fn) => {
+    const { baseUrl } = await startServer('none', fn.task.name);
+
+    const response = await pushPackage(baseUrl);
+    expect(response.status).toBe(201);
+
+    const versionsResponse = await fetch(
+      `${baseUrl}/v3/package/flashcap/index.json`
+    );
+    const versions = await versionsResponse.json();
+    expect(versions.versions).toContain('1.10.0');
+  });
+
+  test('should accept push to the resource URL with a trailing slash', async (fn) => {
+    const { baseUrl } = await startServer('none', fn.task.name);
+
+    // The dotnet CLI pushes to "{PackagePublish @id}/"
+    const response = await pushPackage(baseUrl, {}, '/api/v2/package/');
+    expect(response.status).toBe(201);
+  });
+
+  test('should require an API key in authMode=publish', async (fn) => {
+    const { baseUrl } = await startServer('publish', fn.task.name);
+
+    const response = await pushPackage(baseUrl);
+    expect(response.status).toBe(401);
+  });
+
+  test('should reject an unknown API key', async (fn) => {
+    const { baseUrl } = await startServer('publish', fn.task.name);
+
+    const response = await pushPackage(baseUrl, {
+      'X-NuGet-ApiKey': 'unknown-key',
+    });
+    expect(response.status).toBe(401);
+  });
+
+  test('should accept a publisher API key via X-NuGet-ApiKey', async (fn) => {
+    const { baseUrl, packagesDir } = await startServer('publish', fn.task.name);
+
+    const response = await pushPackage(baseUrl, {
+      'X-NuGet-ApiKey': publisherApiKey,
+    });
+    expect(response.status).toBe(201);
+
+    await expect(
+      fs.access(
+        path.join(packagesDir, 'FlashCap', '1.10.0', 'FlashCap.1.10.0.nupkg')
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  test('should reject an API key of a read-only user', async (fn) => {
+    const { baseUrl } = await startServer('publish', fn.task.name);
+
+    const response = await pushPackage(baseUrl, {
+      'X-NuGet-ApiKey': readerApiKey,
+    });
+    expect(response.status).toBe(403);
+  });
+});
@@ -3,7 +3,11 @@
 // License under MIT.
 
 import { describe, it, expect } from 'vitest';
+import xml2js from 'xml2js';
 import {
+  extractNuspecDependencyGroups,
+  extractNuspecMetadata,
+  extractNuspecPackageTypes,
   extractNuspecTargetFrameworks,
   normalizeNuspecTargetFramework,
 } from '../src/utils/nuspec';
@@ -59,4 +63,138 @@ describe('Nuspec Utilities', () => {
       ]);
     });
   });
+
+  describe('extractNuspecDependencyGroups', () => {
+    it('should extract grouped dependencies', () => {
+      const dependencies = {
+        group: [
+          {
+            $: { targetFramework: '.NETStandard2.0' },
+            dependency: [
+              { $: { id: 'A', version: '1.0.0', exclude: 'Build' } },
+              { $: { id: 'B', version: '[2.0.0, 3.0.0)' } },
+            ],
+          },
+          { $: { targetFramework: 'net8.0' } },
+        ],
+      };
+
+      expect(extractNuspecDependencyGroups(dependencies)).toEqual([
+        {
+          targetFramework: '.NETStandard2.0',
+          dependencies: [
+            { id: 'A', version: '1.0.0', exclude: 'Build' },
+            { id: 'B', version: '[2.0.0, 3.0.0)', exclude: undefined },
+          ],
+        },
+        { targetFramework: 'net8.0', dependencies: [] },
+      ]);
+    });
+
+    it('should treat flat dependencies as a single group', () => {
+      const dependencies = { dependency: { $: { id: 'A', version: '1.0.0' } } };
+
+      expect(extractNuspecDependencyGroups(dependencies)).toEqual([
+        {
+          dependencies: [{ id: 'A', version: '1.0.0', exclude: undefined }],
+        },
+      ]);
+      expect(extractNuspecDependencyGroups(undefined)).toEqual([]);
+    });
+  });
+
+  describe('extractNuspecPackageTypes', () => {
+    it('should extract declared package types', () => {
+      const packageTypes = {
+        packageType: [
+          { $: { name: 'DotnetTool' } },
+          { $: { name: 'Template', version: '1.0.0' } },
+          { $: {} },
+        ],
+      };
+
+      expect(extractNuspecPackageTypes(packageTypes)).toEqual([
+        { name: 'DotnetTool', version: undefined },
+        { name: 'Template', version: '1.0.0' },
+      ]);
+      expect(extractNuspecPackageTypes(undefined)).toEqual([]);
+    });
+  });
+
+  describe('extractNuspecMetadata', () => {
+    it('should extract full metadata from a nuspec', async () => {
+      const nuspec = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://schemas.microsoft.com/packaging/2013/05/nuspec.xsd">
+  <metadata minClientVersion="4.9">
+    <id>Sample.Package</id>
+    <version>1.2.3</version>
+    <title>Sample Package</title>
+    <authors>alice, bob</authors>
+    <requireLicenseAcceptance>true</requireLicenseAcceptance>
+    <license type="expression">MIT</license>
+    <description>Sample description.</description>
+    <summary>Sample summary.</summary>
+    <releaseNotes>Fixed bugs.</releaseNotes>
+    <copyright>Copyright (c) Sample</copyright>
+    <language>en-US</language>
+    <readme>docs/README.md</readme>
+    <tags>sample test</tags>
+    <repository type="git" url="https://example.com/sample.git" branch="main" commit="abc123" />
+    <dependencies>
+      <group targetFramework="net8.0">
+        <dependency id="Other.Package" version="2.0.0" />
+      </group>
+    </dependencies>
+  </metadata>
+</package>`;
+      const parsed = await new xml2js.Parser({
+        explicitArray: false,
+      }).parseStringPromise(nuspec);
+
+      const metadata = extractNuspecMetadata(parsed.package.metadata);
+
+      expect(metadata).toMatchObject({
+        id: 'Sample.Package',
+        version: '1.2.3',
+        title: 'Sample Package',
+        authors: 'alice, bob',
+        description: 'Sample description.',
+        summary: 'Sample summary.',
+        releaseNotes: 'Fixed bugs.',
+        copyright: 'Copyright (c) Sample',
+        language: 'en-US',
+        minClientVersion: '4.9',
+        requireLicenseAcceptance: true,
+        licenseExpression: 'MIT',
+        readme: 'docs/README.md',
+        repository: {
+          type: 'git',
+          url: 'https://example.com/sample.git',
+          branch: 'main',
+          commit: 'abc123',
+        },
+        tags: ['sample', 'test'],
+        targetFrameworks: ['net8.0'],
+        dependencies: [
+          {
+            targetFramework: 'net8.0',
+            dependencies: [
+              { id: 'Other.Package', version: '2.0.0', exclude: undefined },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should default optional values when elements are missing', () => {
+      const metadata = extractNuspecMetadata({ id: 'A', version: '1.0.0' });
+
+      expect(metadata.requireLicenseAcceptance).toBe(false);
+      expect(metadata.title).toBeUndefined();
+      expect(metadata.repository).toBeUndefined();
+      expect(metadata.tags).toEqual([]);
+      expect(metadata.dependencies).toEqual([]);
+      expect(metadata.packageTypes).toEqual([]);
+    });
+  });
 });
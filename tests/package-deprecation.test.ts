@@ -0,0 +1,255 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { AuthMode, ServerConfig } from '../src/types';
+import { generateSalt, hashPassword } from '../src/utils/crypto';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Package Deprecation Tests
+ *
+ * Tests deprecation of package versions:
+ * - PUT/DELETE /api/v2/package/{id}/{version}/deprecation
+ * - `deprecation` object in registration catalog entries
+ * - Persistence to deprecation.json and re-push with the overwrite policy
+ * - Publish permission required in authMode=publish
+ */
+describe('Package deprecation', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('package-deprecation', testGlobalLogLevel);
+
+  const testPackagePath = path.resolve(
+    import.meta.dirname,
+    './fixtures/packages/FlashCap.1.10.0.nupkg'
+  );
+
+  const publisherApiKey = 'publisher-api-key-0123456789';
+  const readerApiKey = 'reader-api-key-0123456789';
+
+  const createApiPasswordUser = (
+    username: string,
+    role: 'read' | 'publish' | 'admin',
+    apiKey: string
+  ) => {
+    const salt = generateSalt();
+    const apiSalt = generateSalt();
+    const now = new Date().toISOString();
+    return {
+      id: `${username}-id`,
+      username,
+      passwordHash: hashPassword('password', salt),
+      salt,
+      apiPasswords: [
+        {
+          label: 'ci',
+          passwordHash: hashPassword(apiKey, apiSalt),
+          salt: apiSalt,
+          createdAt: now,
+        },
+      ],
+      role,
+      createdAt: now,
+      updatedAt: now,
+    };
+  };
+
+  const startServer = async (testDir: string, authMode: AuthMode = 'none') => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+    await fs.writeFile(
+      path.join(testDir, 'users.json'),
+      JSON.stringify([
+        createApiPasswordUser('publisher', 'publish', publisherApiKey),
+        createApiPasswordUser('reader', 'read', readerApiKey),
+      ])
+    );
+
+    const port = await getTestPort(9980);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Package Deprecation Server',
+      logLevel: testGlobalLogLevel,
+      authMode,
+      duplicatePackagePolicy: 'overwrite',
+      passwordStrengthCheck: false,
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const pushPackage = async (
+    baseUrl: string,
+    headers: Record<string, string> = {}
+  ) => {
+    const packageBuffer = await fs.readFile(testPackagePath);
+    const formData = new FormData();
+    formData.append(
+      'package',
+      new Blob([new Uint8Array(packageBuffer)], {
+        type: 'application/octet-stream',
+      }),
+      'package.nupkg'
+    );
+    const response = await fetch(`${baseUrl}/api/v2/package`, {
+      method: 'PUT',
+      headers,
+      body: formData,
+    });
+    expect(response.status).toBe(201);
+  };
+
+  const setDeprecation = (
+    baseUrl: string,
+    deprecation: object | undefined,
+    headers: Record<string, string> = {},
+    version = '1.10.0'
+  ) =>
+    fetch(`${baseUrl}/api/v2/package/FlashCap/${version}/deprecation`, {
+      method: deprecation ? 'PUT' : 'DELETE',
+      headers: deprecation
+        ? { ...headers, 'Content-Type': 'application/json' }
+        : headers,
+      body: deprecation ? JSON.stringify(deprecation) : undefined,
+    });
+
+  const getCatalogEntry = async (baseUrl: string) => {
+    const registration = await (
+      await fetch(`${baseUrl}/v3/registrations/flashcap/index.json`)
+    ).json();
+    return registration.items[0].items[0].catalogEntry;
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should deprecate and undeprecate a version', async (fn) => {
+    const testDir = await createTestDirectory(
+      'package-deprecation',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+    await pushPackage(baseUrl);
+
+    expect((await getCatalogEntry(baseUrl)).deprecation).toBeUndefined();
+
+    const response = await setDeprecation(baseUrl, {
+      reasons: ['criticalbugs', 'Legacy'],
+      message: '  Use FlashCap 2 instead.  ',
+      alternatePackage: { id: 'FlashCap.Next' },
+    });
+    expect(response.status).toBe(200);
+
+    const entry = await getCatalogEntry(baseUrl);
+    expect(entry.deprecation).toEqual({
+      '@id': `${entry['@id']}#deprecation`,
+      reasons: ['Legacy', 'CriticalBugs'],
+      message: 'Use FlashCap 2 instead.',
+      alternatePackage: {
+        '@id': `${baseUrl}/v3/registrations/flashcap.next/index.json`,
+        id: 'FlashCap.Next',
+        range: '*',
+      },
+    });
+    const catalogEntry = await (await fetch(entry['@id'])).json();
+    expect(catalogEntry.deprecation.reasons).toEqual([
+      'Legacy',
+      'CriticalBugs',
+    ]);
+
+    // Re-pushed content keeps the deprecation
+    await pushPackage(baseUrl);
+    expect((await getCatalogEntry(baseUrl)).deprecation.reasons).toEqual([
+      'Legacy',
+      'CriticalBugs',
+    ]);
+
+    // Deprecation is restored from deprecation.json on restart
+    await server!.close();
+    server = null;
+    const restartedUrl = await startServer(testDir);
+    expect((await getCatalogEntry(restartedUrl)).deprecation.message).toBe(
+      'Use FlashCap 2 instead.'
+    );
+
+    const removed = await setDeprecation(restartedUrl, undefined);
+    expect(removed.status).toBe(200);
+    expect((await getCatalogEntry(restartedUrl)).deprecation).toBeUndefined();
+    await expect(
+      fs.access(
+        path.join(testDir, 'packages', 'FlashCap', '1.10.0', 'deprecation.json')
+      )
+    ).rejects.toThrow();
+  });
+
+  test('should validate deprecation requests', async (fn) => {
+    const testDir = await createTestDirectory(
+      'package-deprecation',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+    await pushPackage(baseUrl);
+
+    expect((await setDeprecation(baseUrl, { reasons: [] })).status).toBe(400);
+    expect(
+      (await setDeprecation(baseUrl, { reasons: ['Obsolete'] })).status
+    ).toBe(400);
+    expect(
+      (
+        await setDeprecation(baseUrl, {
+          reasons: ['Other'],
+          alternatePackage: { id: 'FlashCap.Next', range: '[1.0' },
+        })
+      ).status
+    ).toBe(400);
+    expect(
+      (await setDeprecation(baseUrl, { reasons: ['Other'] }, {}, '9.9.9'))
+        .status
+    ).toBe(404);
+    expect((await getCatalogEntry(baseUrl)).deprecation).toBeUndefined();
+  });
+
+  test('should require publish permission in authMode=publish', async (fn) => {
+    const testDir = await createTestDirectory(
+      'package-deprecation',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir, 'publish');
+    await pushPackage(baseUrl, { 'X-NuGet-ApiKey': publisherApiKey });
+
+    const deprecation = { reasons: ['Legacy'] };
+    expect((await setDeprecation(baseUrl, deprecation)).status).toBe(401);
+    expect(
+      (
+        await setDeprecation(baseUrl, deprecation, {
+          'X-NuGet-ApiKey': readerApiKey,
+        })
+      ).status
+    ).toBe(403);
+    expect(
+      (
+        await setDeprecation(baseUrl, deprecation, {
+          'X-NuGet-ApiKey': publisherApiKey,
+        })
+      ).status
+    ).toBe(200);
+    expect((await getCatalogEntry(baseUrl)).deprecation.reasons).toEqual([
+      'Legacy',
+    ]);
+  });
+});
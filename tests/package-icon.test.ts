@@ -0,0 +1,107 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Package Icon Tests
+ *
+ * Tests embedded package icons (nuspec `<icon>`):
+ * - GET /v3/package/{id}/{version}/icon in the PackageBaseAddress resource
+ * - `iconUrl` of search results and catalog entries
+ */
+describe('Package icon', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('package-icon', testGlobalLogLevel);
+
+  const testPackagePath = path.resolve(
+    import.meta.dirname,
+    './fixtures/packages/FlashCap.1.10.0.nupkg'
+  );
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(9970);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Package Icon Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const pushPackage = async (baseUrl: string) => {
+    const response = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(await fs.readFile(testPackagePath)),
+    });
+    expect(response.status).toBe(201);
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should serve the embedded icon from the package base address', async (fn) => {
+    const testDir = await createTestDirectory('package-icon', fn.task.name);
+    const baseUrl = await startServer(testDir);
+    await pushPackage(baseUrl);
+
+    const iconUrl = `${baseUrl}/v3/package/flashcap/1.10.0/icon`;
+    const response = await fetch(iconUrl);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('image/png');
+    const icon = Buffer.from(await response.arrayBuffer());
+    expect(icon.subarray(1, 4).toString('ascii')).toBe('PNG');
+
+    // Package ID and version are case-insensitive
+    expect(
+      (await fetch(`${baseUrl}/v3/package/FlashCap/1.10.0/icon`)).status
+    ).toBe(200);
+    expect(
+      (await fetch(`${baseUrl}/v3/package/flashcap/9.9.9/icon`)).status
+    ).toBe(404);
+
+    const search = await (await fetch(`${baseUrl}/v3/query?q=FlashCap`)).json();
+    expect(search.data[0].iconUrl).toBe(iconUrl);
+
+    const registration = await (
+      await fetch(`${baseUrl}/v3/registrations/flashcap/index.json`)
+    ).json();
+    expect(registration.items[0].items[0].catalogEntry.iconUrl).toBe(iconUrl);
+  });
+
+  test('should return 404 when the icon file is missing', async (fn) => {
+    const testDir = await createTestDirectory('package-icon', fn.task.name);
+    const baseUrl = await startServer(testDir);
+    await pushPackage(baseUrl);
+
+    await fs.rm(
+      path.join(testDir, 'packages', 'FlashCap', '1.10.0', 'icon.png')
+    );
+    expect(
+      (await fetch(`${baseUrl}/v3/package/flashcap/1.10.0/icon`)).status
+    ).toBe(404);
+  });
+});
@@ -0,0 +1,494 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import { generateSalt, hashPassword } from '../src/utils/crypto';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Package Ownership Tests
+ *
+ * Tests package ownership and package ID prefix reservations:
+ * - First pusher becoming the owner of a package ID
+ * - Package IDs existing without owners, and concurrent first pushes
+ * - Pushes and modifications by other users rejected with 403
+ * - Ownership transfer and prefix reservations through /api/ui/owners
+ * - User groups as owners of prefix reservations
+ * - Owners in search results and persistence to owners.json
+ */
+describe('Package ownership', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('package-ownership', testGlobalLogLevel);
+
+  const apiKeys = {
+    alice: 'alice-api-key-0123456789',
+    bob: 'bob-api-key-0123456789',
+    admin: 'admin-api-key-0123456789',
+  };
+
+  const createApiPasswordUser = (
+    username: keyof typeof apiKeys,
+    role: 'publish' | 'admin'
+  ) => {
+    const salt = generateSalt();
+    const apiSalt = generateSalt();
+    const now = new Date().toISOString();
+    return {
+      id: `${username}-id`,
+      username,
+      passwordHash: hashPassword('password', salt),
+      salt,
+      apiPasswords: [
+        {
+          label: 'ci',
+          passwordHash: hashPassword(apiKeys[username], apiSalt),
+          salt: apiSalt,
+          createdAt: now,
+        },
+      ],
+      role,
+      createdAt: now,
+      updatedAt: now,
+    };
+  };
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+    try {
+      await fs.access(path.join(testDir, 'users.json'));
+    } catch {
+      await fs.writeFile(
+        path.join(testDir, 'users.json'),
+        JSON.stringify([
+          createApiPasswordUser('alice', 'publish'),
+          createApiPasswordUser('bob', 'publish'),
+          createApiPasswordUser('admin', 'admin'),
+        ])
+      );
+    }
+
+    const port = await getTestPort(10800);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Package Ownership Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'publish',
+      duplicatePackagePolicy: 'overwrite',
+      passwordStrengthCheck: false,
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const pushPackage = async (
+    baseUrl: string,
+    fileName: string,
+    username: keyof typeof apiKeys
+  ) => {
+    const packageBuffer = await fs.readFile(
+      path.resolve(import.meta.dirname, './fixtures/packages', fileName)
+    );
+    const formData = new FormData();
+    formData.append(
+      'package',
+      new Blob([new Uint8Array(packageBuffer)], {
+        type: 'application/octet-stream',
+      }),
+      'package.nupkg'
+    );
+    return fetch(`${baseUrl}/api/v2/package`, {
+      method: 'PUT',
+      headers: { 'X-NuGet-ApiKey': apiKeys[username] },
+      body: formData,
+    });
+  };
+
+  const login = async (baseUrl: string) => {
+    const response = await fetch(`${baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: 'admin', password: 'password' }),
+    });
+    expect(response.status).toBe(200);
+    return response.headers.get('set-cookie')!.split(';')[0]!;
+  };
+
+  const postOwners = (baseUrl: string, cookie: string, body: object) =>
+    fetch(`${baseUrl}/api/ui/owners`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify(body),
+    });
+
+  const searchOwners = async (baseUrl: string, packageId: string) => {
+    const data = await (
+      await fetch(`${baseUrl}/v3/query?q=${packageId}`)
+    ).json();
+    return data.data.find(
+      (result: { id: string }) => result.id === packageId
+    ) as { owners: string[]; verified: boolean };
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should make the first pusher the owner', async (fn) => {
+    const testDir = await createTestDirectory(
+      'package-ownership',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'alice')).status
+    ).toBe(201);
+    expect(await searchOwners(baseUrl, 'FlashCap')).toMatchObject({
+      owners: ['alice'],
+      verified: false,
+    });
+
+    const rejected = await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'bob');
+    expect(rejected.status).toBe(403);
+    expect((await rejected.json()).error).toBe(
+      'Package FlashCap is owned by other users'
+    );
+
+    // Other modifications require ownership too
+    const deleted = await fetch(`${baseUrl}/api/v2/package/FlashCap/1.10.0`, {
+      method: 'DELETE',
+      headers: { 'X-NuGet-ApiKey': apiKeys.bob },
+    });
+    expect(deleted.status).toBe(403);
+
+    // Owners can re-push, and admins can push any package
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'alice')).status
+    ).toBe(201);
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'admin')).status
+    ).toBe(201);
+
+    // Owners are stored next to users.json and restored on restart
+    const stored = JSON.parse(
+      await fs.readFile(path.join(testDir, 'owners.json'), 'utf-8')
+    );
+    expect(stored.packages.map((p: { owners: string[] }) => p.owners)).toEqual([
+      ['alice'],
+    ]);
+    await server!.close();
+    server = null;
+    const restartedUrl = await startServer(testDir);
+    expect((await searchOwners(restartedUrl, 'FlashCap')).owners).toEqual([
+      'alice',
+    ]);
+  });
+
+  test('should only claim package IDs pushed for the first time', async (fn) => {
+    const testDir = await createTestDirectory(
+      'package-ownership',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+
+    // Concurrent first pushes are serialized, so exactly one user becomes the owner
+    const responses = await Promise.all([
+      pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'alice'),
+      pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'bob'),
+    ]);
+    const statuses = responses.map((response) => response.status);
+    expect([...statuses].sort()).toEqual([201, 403]);
+    const winner = statuses[0] === 201 ? 'alice' : 'bob';
+    expect((await searchOwners(baseUrl, 'FlashCap')).owners).toEqual([winner]);
+
+    // Package IDs existing before ownership (e.g. after an upgrade) are not claimed by the next pusher
+    await server!.close();
+    server = null;
+    await fs.rm(path.join(testDir, 'owners.json'));
+    const upgradedUrl = await startServer(testDir);
+    expect(
+      (await pushPackage(upgradedUrl, 'FlashCap.1.10.0.nupkg', 'bob')).status
+    ).toBe(201);
+    expect((await searchOwners(upgradedUrl, 'FlashCap')).owners).toEqual([]);
+    expect(
+      (await pushPackage(upgradedUrl, 'FlashCap.1.10.0.nupkg', 'alice')).status
+    ).toBe(201);
+  });
+
+  test('should let admins transfer ownership', async (fn) => {
+    const testDir = await createTestDirectory(
+      'package-ownership',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'alice')).status
+    ).toBe(201);
+
+    // Session authentication is required
+    expect(
+      (
+        await fetch(`${baseUrl}/api/ui/owners`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'list' }),
+        })
+      ).status
+    ).toBe(401);
+
+    const cookie = await login(baseUrl);
+    expect(
+      (
+        await postOwners(baseUrl, cookie, {
+          action: 'transfer',
+          packageId: 'FlashCap',
+          owners: ['carol'],
+        })
+      ).status
+    ).toBe(400);
+    expect(
+      (
+        await postOwners(baseUrl, cookie, {
+          action: 'transfer',
+          packageId: 'Unknown.Package',
+          owners: ['bob'],
+        })
+      ).status
+    ).toBe(404);
+
+    const transferred = await postOwners(baseUrl, cookie, {
+      action: 'transfer',
+      packageId: 'flashcap',
+      owners: ['bob'],
+    });
+    expect(transferred.status).toBe(200);
+    expect((await transferred.json()).package).toMatchObject({
+      packageId: 'FlashCap',
+      owners: ['bob'],
+    });
+
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'alice')).status
+    ).toBe(403);
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'bob')).status
+    ).toBe(201);
+
+    const list = await (
+      await postOwners(baseUrl, cookie, { action: 'list' })
+    ).json();
+    expect(list.packages).toMatchObject([
+      { packageId: 'FlashCap', owners: ['bob'] },
+    ]);
+    expect(list.reservations).toEqual([]);
+  });
+
+  test('should reserve package ID prefixes', async (fn) => {
+    const testDir = await createTestDirectory(
+      'package-ownership',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+    const cookie = await login(baseUrl);
+
+    expect(
+      (
+        await postOwners(baseUrl, cookie, {
+          action: 'createReservation',
+          prefix: 'FlashCap.**',
+          owners: ['bob'],
+        })
+      ).status
+    ).toBe(400);
+
+    const created = await postOwners(baseUrl, cookie, {
+      action: 'createReservation',
+      prefix: 'FlashCap.*',
+      owners: ['bob'],
+    });
+    expect(created.status).toBe(201);
+    const { reservation } = await created.json();
+
+    const rejected = await pushPackage(
+      baseUrl,
+      'FlashCap.Core.1.10.0.nupkg',
+      'alice'
+    );
+    expect(rejected.status).toBe(403);
+    expect((await rejected.json()).error).toBe(
+      'Package ID prefix FlashCap.* is reserved'
+    );
+
+    // The prefix does not cover the ID without the trailing dot
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.1.10.0.nupkg', 'alice')).status
+    ).toBe(201);
+
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.Core.1.10.0.nupkg', 'bob')).status
+    ).toBe(201);
+    expect(await searchOwners(baseUrl, 'FlashCap.Core')).toMatchObject({
+      owners: ['bob'],
+      verified: true,
+    });
+
+    // Reservation owners can push under the prefix even after the package got owners
+    const updated = await postOwners(baseUrl, cookie, {
+      action: 'updateReservation',
+      id: reservation.id,
+      prefix: 'FlashCap.*',
+      owners: ['alice', 'bob'],
+    });
+    expect(updated.status).toBe(200);
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.Core.1.10.0.nupkg', 'alice')).status
+    ).toBe(201);
+
+    const deleted = await postOwners(baseUrl, cookie, {
+      action: 'deleteReservation',
+      id: reservation.id,
+    });
+    expect(deleted.status).toBe(200);
+    expect(
+      (
+        await postOwners(baseUrl, cookie, {
+          action: 'deleteReservation',
+          id: reservation.id,
+        })
+      ).status
+    ).toBe(404);
+    expect((await searchOwners(baseUrl, 'FlashCap.Core')).verified).toBe(false);
+  });
+
+  test('should reserve package ID prefixes for user groups', async (fn) => {
+    const testDir = await createTestDirectory(
+      'package-ownership',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+    const cookie = await login(baseUrl);
+
+    const created = await postOwners(baseUrl, cookie, {
+      action: 'createGroup',
+      name: 'payments',
+      members: ['alice'],
+    });
+    expect(created.status).toBe(201);
+    expect((await created.json()).group).toMatchObject({
+      name: 'payments',
+      members: ['alice'],
+    });
+
+    const unknownMember = await postOwners(baseUrl, cookie, {
+      action: 'createGroup',
+      name: 'billing',
+      members: ['carol'],
+    });
+    expect(unknownMember.status).toBe(400);
+    expect((await unknownMember.json()).error).toBe('User not found: carol');
+    expect(
+      (
+        await postOwners(baseUrl, cookie, {
+          action: 'createGroup',
+          name: 'payments',
+          members: ['bob'],
+        })
+      ).status
+    ).toBe(409);
+
+    const unknownGroup = await postOwners(baseUrl, cookie, {
+      action: 'createReservation',
+      prefix: 'FlashCap.*',
+      owners: ['@ghost'],
+    });
+    expect(unknownGroup.status).toBe(400);
+    expect((await unknownGroup.json()).error).toBe('Group not found: @ghost');
+
+    expect(
+      (
+        await postOwners(baseUrl, cookie, {
+          action: 'createReservation',
+          prefix: 'FlashCap.*',
+          owners: ['@payments'],
+        })
+      ).status
+    ).toBe(201);
+
+    // Members of the group are owners of the reservation
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.Core.1.10.0.nupkg', 'bob')).status
+    ).toBe(403);
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.Core.1.10.0.nupkg', 'alice')).status
+    ).toBe(201);
+    expect(await searchOwners(baseUrl, 'FlashCap.Core')).toMatchObject({
+      owners: ['alice'],
+      verified: true,
+    });
+
+    // Groups can own packages too, and changing the members changes the owners
+    expect(
+      (
+        await postOwners(baseUrl, cookie, {
+          action: 'transfer',
+          packageId: 'FlashCap.Core',
+          owners: ['@payments'],
+        })
+      ).status
+    ).toBe(200);
+    expect(
+      (
+        await postOwners(baseUrl, cookie, {
+          action: 'updateGroup',
+          name: 'payments',
+          members: ['bob'],
+        })
+      ).status
+    ).toBe(200);
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.Core.1.10.0.nupkg', 'bob')).status
+    ).toBe(201);
+    expect(
+      (await pushPackage(baseUrl, 'FlashCap.Core.1.10.0.nupkg', 'alice')).status
+    ).toBe(403);
+
+    // Groups owning packages or reservations cannot be deleted
+    const referenced = await postOwners(baseUrl, cookie, {
+      action: 'deleteGroup',
+      name: 'payments',
+    });
+    expect(referenced.status).toBe(409);
+    expect((await referenced.json()).error).toBe(
+      'Group payments is an owner of FlashCap.Core, FlashCap.*'
+    );
+
+    const listed = await (
+      await postOwners(baseUrl, cookie, { action: 'list' })
+    ).json();
+    expect(listed.groups).toMatchObject([
+      { name: 'payments', members: ['bob'] },
+    ]);
+    const stored = JSON.parse(
+      await fs.readFile(path.join(testDir, 'owners.json'), 'utf-8')
+    );
+    expect(stored.groups).toMatchObject([
+      { name: 'payments', members: ['bob'] },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Package README Tests
+ *
+ * Tests README extraction from packages declaring the nuspec `<readme>` element:
+ * - ReadmeUriTemplate/6.13.0 resource in the service index
+ * - GET /v3/package/{id}/{version}/readme
+ * - Removal of the README when a version is overwritten by a package without README
+ */
+describe('Package README', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('package-readme', testGlobalLogLevel);
+
+  const readmeContent = '# Contoso.Readme\n\nReadme of **Contoso.Readme**.\n';
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(9995);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Package README Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+      duplicatePackagePolicy: 'overwrite',
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const createPackageBuffer = (readme?: string): Buffer => {
+    const zip = new AdmZip();
+    const nuspecContent = `<?xml version="1.0"?>
+<package>
+  <metadata>
+    <id>Contoso.Readme</id>
+    <version>1.0.0</version>
+    <authors>Test Author</authors>
+    <description>README test package</description>
+    ${readme ? `<readme>${readme}</readme>` : ''}
+  </metadata>
+</package>`;
+
+    zip.addFile('Contoso.Readme.nuspec', Buffer.from(nuspecContent));
+    if (readme) {
+      zip.addFile('docs/README.md', Buffer.from(readmeContent));
+    }
+    return zip.toBuffer();
+  };
+
+  const pushPackage = async (baseUrl: string, packageBuffer: Buffer) => {
+    const response = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(packageBuffer),
+    });
+    expect(response.status).toBe(201);
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should extract and serve the README', async (fn) => {
+    const testDir = await createTestDirectory('package-readme', fn.task.name);
+    const baseUrl = await startServer(testDir);
+
+    const serviceIndex = await (await fetch(`${baseUrl}/v3/index.json`)).json();
+    const resource = serviceIndex.resources.find(
+      (r: any) => r['@type'] === 'ReadmeUriTemplate/6.13.0'
+    );
+    expect(resource['@id']).toBe(
+      `${baseUrl}/v3/package/{lower_id}/{lower_version}/readme`
+    );
+
+    // Path separators of nuspec written on Windows are accepted
+    await pushPackage(baseUrl, createPackageBuffer('docs\\README.md'));
+
+    const readmeUrl = resource['@id']
+      .replace('{lower_id}', 'contoso.readme')
+      .replace('{lower_version}', '1.0.0');
+    const response = await fetch(readmeUrl);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/markdown');
+    expect(await response.text()).toBe(readmeContent);
+
+    expect(
+      (await fetch(`${baseUrl}/v3/package/contoso.readme/9.9.9/readme`)).status
+    ).toBe(404);
+  });
+
+  test('should remove the README of an overwritten version', async (fn) => {
+    const testDir = await createTestDirectory('package-readme', fn.task.name);
+    const baseUrl = await startServer(testDir);
+
+    await pushPackage(baseUrl, createPackageBuffer('docs/README.md'));
+    const readmePath = path.join(
+      testDir,
+      'packages',
+      'Contoso.Readme',
+      '1.0.0',
+      'readme.md'
+    );
+    expect(await fs.readFile(readmePath, 'utf-8')).toBe(readmeContent);
+
+    await pushPackage(baseUrl, createPackageBuffer());
+    await expect(fs.access(readmePath)).rejects.toThrow();
+    expect(
+      (await fetch(`${baseUrl}/v3/package/contoso.readme/1.0.0/readme`)).status
+    ).toBe(404);
+  });
+});
@@ -0,0 +1,192 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Package Staging Tests
+ *
+ * Tests the atomic publish through staging directories:
+ * - Version directories moved into place as a whole
+ * - No cache entry nor files left by a failed publish
+ * - Removal of staging directories left by interrupted publishes
+ * - Restoration of version directories set aside by interrupted overwrites
+ */
+describe('Package staging', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('package-staging', testGlobalLogLevel);
+
+  const testPackagePath = path.resolve(
+    import.meta.dirname,
+    './fixtures/packages/FlashCap.1.10.0.nupkg'
+  );
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(10600);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Package Staging Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+      duplicatePackagePolicy: 'overwrite',
+    };
+    server = await startFastifyServer(config, logger);
+    return { baseUrl: `http://localhost:${port}`, packagesDir };
+  };
+
+  const uploadPackage = async (baseUrl: string) => {
+    const packageBuffer = await fs.readFile(testPackagePath);
+    return fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(packageBuffer),
+    });
+  };
+
+  // Staging directories are removed after the response is sent, so it is polled for a while
+  const listStagingDirectories = async (packagesDir: string) => {
+    let names: string[] = [];
+    for (let retry = 0; retry < 20; retry++) {
+      try {
+        names = await fs.readdir(path.join(packagesDir, '.staging'));
+      } catch {
+        return [];
+      }
+      if (names.length === 0) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    return names;
+  };
+
+  const getRegistrationStatus = async (baseUrl: string) =>
+    (await fetch(`${baseUrl}/v3/registrations/flashcap/index.json`)).status;
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should move staged versions into place', async (fn) => {
+    const testDir = await createTestDirectory('package-staging', fn.task.name);
+    const { baseUrl, packagesDir } = await startServer(testDir);
+    const versionPath = path.join(packagesDir, 'FlashCap', '1.10.0');
+
+    expect((await uploadPackage(baseUrl)).status).toBe(201);
+    expect((await fs.readdir(versionPath)).sort()).toEqual([
+      'FlashCap.1.10.0.nupkg',
+      'FlashCap.1.10.0.nupkg.sha512',
+      'FlashCap.nuspec',
+      'icon.png',
+      'publish.json',
+    ]);
+    expect(await listStagingDirectories(packagesDir)).toEqual([]);
+
+    // Overwriting replaces the whole version directory, including the unlisted marker
+    await fs.writeFile(path.join(versionPath, '.unlisted'), '');
+    const response = await uploadPackage(baseUrl);
+    expect(response.status).toBe(201);
+    expect((await response.json()).message).toBe(
+      'Package uploaded successfully (replaced existing version)'
+    );
+    expect(await fs.readdir(versionPath)).not.toContain('.unlisted');
+    expect(await listStagingDirectories(packagesDir)).toEqual([]);
+
+    expect(await getRegistrationStatus(baseUrl)).toBe(200);
+  });
+
+  test('should leave nothing behind when a publish fails', async (fn) => {
+    const testDir = await createTestDirectory('package-staging', fn.task.name);
+    const { baseUrl, packagesDir } = await startServer(testDir);
+
+    // A file in place of the package directory makes moving the version into place fail
+    await fs.writeFile(path.join(packagesDir, 'FlashCap'), '');
+
+    const response = await uploadPackage(baseUrl);
+    expect(response.status).toBe(500);
+    expect(await listStagingDirectories(packagesDir)).toEqual([]);
+
+    expect(await getRegistrationStatus(baseUrl)).toBe(404);
+  });
+
+  test('should remove staging directories of interrupted publishes on startup', async (fn) => {
+    const testDir = await createTestDirectory('package-staging', fn.task.name);
+    const stalePath = path.join(testDir, 'packages', '.staging', 'interrupted');
+    await fs.mkdir(stalePath, { recursive: true });
+    await fs.copyFile(
+      testPackagePath,
+      path.join(stalePath, 'FlashCap.1.10.0.nupkg')
+    );
+
+    const { baseUrl, packagesDir } = await startServer(testDir);
+    expect(await listStagingDirectories(packagesDir)).toEqual([]);
+
+    expect(await getRegistrationStatus(baseUrl)).toBe(404);
+  });
+
+  test('should restore version directories set aside by interrupted overwrites on startup', async (fn) => {
+    const testDir = await createTestDirectory('package-staging', fn.task.name);
+    const first = await startServer(testDir);
+    expect((await uploadPackage(first.baseUrl)).status).toBe(201);
+    await server!.close();
+    server = null;
+
+    // Crashed after moving the previous version aside, before moving the staged version into place
+    const { packagesDir } = first;
+    const stagingRoot = path.join(packagesDir, '.staging');
+    const versionDir = path.join(packagesDir, 'FlashCap', '1.10.0');
+    await fs.mkdir(path.join(stagingRoot, 'interrupted'), { recursive: true });
+    await fs.writeFile(
+      path.join(stagingRoot, 'interrupted.replaced.json'),
+      JSON.stringify({ versionPath: path.join('FlashCap', '1.10.0') })
+    );
+    await fs.rename(versionDir, path.join(stagingRoot, 'interrupted.replaced'));
+
+    const restarted = await startServer(testDir);
+    expect(await listStagingDirectories(packagesDir)).toEqual([]);
+    await fs.access(path.join(versionDir, 'FlashCap.1.10.0.nupkg'));
+    expect(await getRegistrationStatus(restarted.baseUrl)).toBe(200);
+    await server!.close();
+    server = null;
+
+    // Crashed after moving the staged version into place: the directory set aside is stale
+    await fs.mkdir(path.join(stagingRoot, 'completed.replaced'), {
+      recursive: true,
+    });
+    await fs.writeFile(
+      path.join(stagingRoot, 'completed.replaced', 'stale.txt'),
+      ''
+    );
+    await fs.writeFile(
+      path.join(stagingRoot, 'completed.replaced.json'),
+      JSON.stringify({ versionPath: path.join('FlashCap', '1.10.0') })
+    );
+
+    const again = await startServer(testDir);
+    expect(await listStagingDirectories(packagesDir)).toEqual([]);
+    await expect(
+      fs.access(path.join(versionDir, 'stale.txt'))
+    ).rejects.toThrow();
+    await fs.access(path.join(versionDir, 'FlashCap.1.10.0.nupkg'));
+    expect(await getRegistrationStatus(again.baseUrl)).toBe(200);
+  });
+});
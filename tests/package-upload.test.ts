@@ -0,0 +1,231 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import AdmZip from 'adm-zip';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import { openZipArchive } from '../src/utils/zipArchive';
+import {
+  createTestDirectory,
+  forgeCentralDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Package Upload Tests
+ *
+ * Tests streaming of package uploads into temporary files:
+ * - Upload size limit checked from Content-Length and while streaming
+ * - Multipart bodies with parts other than the package
+ * - Reading only the needed entries from the ZIP central directory
+ * - Rejecting entries whose declared sizes are forged
+ */
+describe('Package upload', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('package-upload', testGlobalLogLevel);
+
+  const testPackagePath = path.resolve(
+    import.meta.dirname,
+    './fixtures/packages/FlashCap.1.10.0.nupkg'
+  );
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(10500);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Package Upload Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+      maxUploadSizeMb: 1,
+    };
+    server = await startFastifyServer(config, logger);
+    return { baseUrl: `http://localhost:${port}`, packagesDir };
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should read entries from the ZIP central directory', async () => {
+    const expected = new AdmZip(testPackagePath);
+    const archive = await openZipArchive(testPackagePath);
+    try {
+      expect(archive.entries.map((entry) => entry.entryName)).toEqual(
+        expected.getEntries().map((entry) => entry.entryName)
+      );
+      for (const entry of archive.entries) {
+        expect(
+          (await archive.readEntry(entry)).equals(
+            expected.getEntry(entry.entryName)!.getData()
+          )
+        ).toBe(true);
+      }
+    } finally {
+      await archive.close();
+    }
+
+    const invalidPath = path.join(
+      await createTestDirectory('package-upload', 'invalid-zip'),
+      'invalid.nupkg'
+    );
+    await fs.writeFile(invalidPath, Buffer.alloc(1024, 0x20));
+    await expect(openZipArchive(invalidPath)).rejects.toThrow(
+      'Invalid ZIP file'
+    );
+  });
+
+  test('should reject entries with forged sizes', async (fn) => {
+    const testDir = await createTestDirectory('package-upload', fn.task.name);
+    const packageBuffer = await fs.readFile(testPackagePath);
+    const compressedSizeOffset = 20;
+    const sizeOffset = 24;
+
+    // Compressed data beyond the end of the file is rejected before allocating it
+    const outOfRangePath = path.join(testDir, 'out-of-range.nupkg');
+    await fs.writeFile(
+      outOfRangePath,
+      forgeCentralDirectory(
+        packageBuffer,
+        'FlashCap.nuspec',
+        compressedSizeOffset,
+        0xfffffff0
+      )
+    );
+    await expect(openZipArchive(outOfRangePath)).rejects.toThrow(
+      'Invalid ZIP file - entry out of range: FlashCap.nuspec'
+    );
+
+    // Uncompressed sizes above the limit are rejected before inflating
+    const oversizedPackage = forgeCentralDirectory(
+      packageBuffer,
+      'FlashCap.nuspec',
+      sizeOffset,
+      0xfffffff0
+    );
+    const oversizedPath = path.join(testDir, 'oversized.nupkg');
+    await fs.writeFile(oversizedPath, oversizedPackage);
+    const archive = await openZipArchive(oversizedPath);
+    try {
+      const nuspecEntry = archive.entries.find(
+        (entry) => entry.entryName === 'FlashCap.nuspec'
+      )!;
+      await expect(archive.readEntry(nuspecEntry, 1024 * 1024)).rejects.toThrow(
+        'ZIP entry exceeds the maximum size of 1048576 bytes: FlashCap.nuspec'
+      );
+    } finally {
+      await archive.close();
+    }
+
+    const { baseUrl } = await startServer(testDir);
+    const response = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(oversizedPackage),
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain(
+      'Failed to read .nuspec file: ZIP entry exceeds the maximum size'
+    );
+  });
+
+  test('should reject packages exceeding the upload size limit', async (fn) => {
+    const testDir = await createTestDirectory('package-upload', fn.task.name);
+    const { baseUrl } = await startServer(testDir);
+    const oversized = new Uint8Array(2 * 1024 * 1024);
+
+    // Rejected from Content-Length before reading the body
+    const declared = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: oversized,
+    });
+    expect(declared.status).toBe(413);
+
+    // Rejected while streaming a chunked body
+    const chunked = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new ReadableStream({
+        start(controller) {
+          for (let index = 0; index < 32; index++) {
+            controller.enqueue(new Uint8Array(64 * 1024));
+          }
+          controller.close();
+        },
+      }),
+      duplex: 'half',
+    } as RequestInit);
+    expect(chunked.status).toBe(413);
+    expect((await chunked.json()).error).toContain('maximum upload size');
+  });
+
+  test('should reject bodies which are not packages', async (fn) => {
+    const testDir = await createTestDirectory('package-upload', fn.task.name);
+    const { baseUrl } = await startServer(testDir);
+
+    const response = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(Buffer.from('not a package')),
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('not a valid ZIP file');
+
+    const empty = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(0),
+    });
+    expect(empty.status).toBe(400);
+  });
+
+  test('should take the file part of a multipart body', async (fn) => {
+    const testDir = await createTestDirectory('package-upload', fn.task.name);
+    const { baseUrl, packagesDir } = await startServer(testDir);
+    const packageBuffer = await fs.readFile(testPackagePath);
+
+    const formData = new FormData();
+    formData.append('comment', 'not a package');
+    formData.append(
+      'package',
+      new Blob([new Uint8Array(packageBuffer)], {
+        type: 'application/octet-stream',
+      }),
+      'package.nupkg'
+    );
+    const response = await fetch(`${baseUrl}/api/v2/package`, {
+      method: 'PUT',
+      body: formData,
+    });
+    expect(response.status).toBe(201);
+
+    const versionDir = path.join(packagesDir, 'FlashCap', '1.10.0');
+    expect(
+      (
+        await fs.readFile(path.join(versionDir, 'FlashCap.1.10.0.nupkg'))
+      ).equals(packageBuffer)
+    ).toBe(true);
+    const record = JSON.parse(
+      await fs.readFile(path.join(versionDir, 'publish.json'), 'utf-8')
+    );
+    expect(record.size).toBe(packageBuffer.length);
+    expect(record.sha512).toBe(
+      createHash('sha512').update(packageBuffer).digest('base64')
+    );
+  });
+});
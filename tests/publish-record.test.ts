@@ -0,0 +1,225 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { AuthMode, ServerConfig } from '../src/types';
+import { generateSalt, hashPassword } from '../src/utils/crypto';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Publish Record Tests
+ *
+ * Tests the `publish.json` sidecar written for each published package version:
+ * - Publisher identity (username and API password label)
+ * - Package size and SHA512 hash
+ * - `.nupkg.sha512` hash file, catalog `packageHash` and download `Repr-Digest`
+ * - Stable publish dates across restarts
+ * - Fallback to the nupkg timestamp for versions without a record
+ */
+describe('Publish record', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('publish-record', testGlobalLogLevel);
+
+  const testPackagePath = path.resolve(
+    import.meta.dirname,
+    './fixtures/packages/FlashCap.1.10.0.nupkg'
+  );
+  const apiKey = 'publisher-ci-api-key-0123456789';
+
+  const writeUsers = async (testDir: string) => {
+    const salt = generateSalt();
+    const apiSalt = generateSalt();
+    const now = new Date().toISOString();
+    await fs.writeFile(
+      path.join(testDir, 'users.json'),
+      JSON.stringify([
+        {
+          id: 'publisher-id',
+          username: 'publisher',
+          passwordHash: hashPassword('password', salt),
+          salt,
+          apiPasswords: [
+            {
+              label: 'ci-pipeline',
+              passwordHash: hashPassword(apiKey, apiSalt),
+              salt: apiSalt,
+              createdAt: now,
+            },
+          ],
+          role: 'publish',
+          createdAt: now,
+          updatedAt: now,
+        },
+      ])
+    );
+  };
+
+  const startServer = async (testDir: string, authMode: AuthMode) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(9750);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Publish Record Server',
+      logLevel: testGlobalLogLevel,
+      authMode,
+      passwordStrengthCheck: false,
+    };
+    server = await startFastifyServer(config, logger);
+    return { baseUrl: `http://localhost:${port}`, packagesDir };
+  };
+
+  const getPublished = async (baseUrl: string) => {
+    const response = await fetch(
+      `${baseUrl}/v3/registrations/flashcap/1.10.0.json`
+    );
+    const leaf = await response.json();
+    return leaf.published as string;
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should write publisher identity, size and hash', async (fn) => {
+    const testDir = await createTestDirectory('publish-record', fn.task.name);
+    await writeUsers(testDir);
+    const { baseUrl, packagesDir } = await startServer(testDir, 'publish');
+
+    const packageBuffer = await fs.readFile(testPackagePath);
+    const response = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        Authorization: `Basic ${Buffer.from(`publisher:${apiKey}`).toString('base64')}`,
+      },
+      body: new Uint8Array(packageBuffer),
+    });
+    expect(response.status).toBe(201);
+
+    const record = JSON.parse(
+      await fs.readFile(
+        path.join(packagesDir, 'FlashCap', '1.10.0', 'publish.json'),
+        'utf-8'
+      )
+    );
+    expect(record.publisher).toEqual({
+      username: 'publisher',
+      apiPasswordLabel: 'ci-pipeline',
+    });
+    expect(record.size).toBe(packageBuffer.length);
+    expect(record.sha512).toBe(
+      createHash('sha512').update(packageBuffer).digest('base64')
+    );
+    expect(typeof record.sourceIp).toBe('string');
+    expect(await getPublished(baseUrl)).toBe(record.publishedAt);
+  });
+
+  test('should store the package hash and expose it in catalog data', async (fn) => {
+    const testDir = await createTestDirectory('publish-record', fn.task.name);
+    const { baseUrl, packagesDir } = await startServer(testDir, 'none');
+
+    const packageBuffer = await fs.readFile(testPackagePath);
+    const response = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(packageBuffer),
+    });
+    expect(response.status).toBe(201);
+
+    const hash = createHash('sha512').update(packageBuffer).digest('base64');
+    expect(
+      await fs.readFile(
+        path.join(
+          packagesDir,
+          'FlashCap',
+          '1.10.0',
+          'FlashCap.1.10.0.nupkg.sha512'
+        ),
+        'utf-8'
+      )
+    ).toBe(hash);
+
+    const leaf = await (
+      await fetch(`${baseUrl}/v3/registrations/flashcap/1.10.0.json`)
+    ).json();
+    expect(leaf.packageHash).toBe(hash);
+    expect(leaf.packageHashAlgorithm).toBe('SHA512');
+
+    const catalogEntry = await (
+      await fetch(`${baseUrl}/v3/catalog/entries/flashcap/1.10.0.json`)
+    ).json();
+    expect(catalogEntry.packageHash).toBe(hash);
+    expect(catalogEntry.packageHashAlgorithm).toBe('SHA512');
+
+    const download = await fetch(
+      `${baseUrl}/v3/package/flashcap/1.10.0/flashcap.1.10.0.nupkg`
+    );
+    expect(download.status).toBe(200);
+    expect(download.headers.get('repr-digest')).toBe(`sha-512=:${hash}:`);
+    await download.arrayBuffer();
+  });
+
+  test('should keep the publish date stable across restarts', async (fn) => {
+    const testDir = await createTestDirectory('publish-record', fn.task.name);
+    let { baseUrl } = await startServer(testDir, 'none');
+
+    const packageBuffer = await fs.readFile(testPackagePath);
+    const response = await fetch(`${baseUrl}/api/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(packageBuffer),
+    });
+    expect(response.status).toBe(201);
+    const publishedBefore = await getPublished(baseUrl);
+
+    await server!.close();
+    server = null;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    ({ baseUrl } = await startServer(testDir, 'none'));
+
+    expect(await getPublished(baseUrl)).toBe(publishedBefore);
+  });
+
+  test('should fall back to the nupkg timestamp without a publish record', async (fn) => {
+    const testDir = await createTestDirectory('publish-record', fn.task.name);
+    const versionDir = path.join(testDir, 'packages', 'FlashCap', '1.10.0');
+    await fs.mkdir(versionDir, { recursive: true });
+    await fs.writeFile(
+      path.join(versionDir, 'FlashCap.nuspec'),
+      `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://schemas.microsoft.com/packaging/2013/05/nuspec.xsd">
+  <metadata>
+    <id>FlashCap</id>
+    <version>1.10.0</version>
+    <authors>test</authors>
+    <description>Legacy package</description>
+  </metadata>
+</package>`
+    );
+    const nupkgPath = path.join(versionDir, 'FlashCap.1.10.0.nupkg');
+    await fs.copyFile(testPackagePath, nupkgPath);
+    const legacyDate = new Date('2020-01-02T03:04:05.000Z');
+    await fs.utimes(nupkgPath, legacyDate, legacyDate);
+
+    const { baseUrl } = await startServer(testDir, 'none');
+
+    expect(await getPublished(baseUrl)).toBe(legacyDate.toISOString());
+  });
+});
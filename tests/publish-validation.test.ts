@@ -0,0 +1,185 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { PublishValidationRules, ServerConfig } from '../src/types';
+import {
+  PublishValidationTarget,
+  validatePublishRules,
+} from '../src/utils/publishValidation';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Publish Validation Tests
+ *
+ * Tests the publish validation rules configured in config.json:
+ * - Every violated rule reported at once
+ * - Rejected pushes leave nothing stored
+ * - Dry-run validation endpoint
+ */
+describe('Publish validation', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('publish-validation', testGlobalLogLevel);
+
+  const getFixturePath = (fileName: string) =>
+    path.resolve(import.meta.dirname, './fixtures/packages', fileName);
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(10700);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Publish Validation Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+      publishValidation: {
+        allowedIdPrefixes: ['GitReader'],
+        forbiddenDependencies: ['Rx-Main'],
+        requiredTargetFrameworks: ['netstandard2.0', 'net9.0'],
+      },
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const postPackage = async (url: string, fileName: string) => {
+    const packageBuffer = await fs.readFile(getFixturePath(fileName));
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(packageBuffer),
+    });
+  };
+
+  const getRegistrationStatus = async (baseUrl: string, packageId: string) =>
+    (await fetch(`${baseUrl}/v3/registrations/${packageId}/index.json`)).status;
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should report every violated rule', () => {
+    const target: PublishValidationTarget = {
+      id: 'FlashCap',
+      version: '1.0.0',
+      licenseExpression: 'MIT',
+      size: 2 * 1024 * 1024,
+      entryNames: ['lib/netstandard2.0/FlashCap.dll'],
+      username: 'ci-bot',
+    };
+    const rules: PublishValidationRules = {
+      requiredMetadata: ['license', 'repository', 'projectUrl'],
+      maxPackageSizeMb: 1,
+      prereleaseOnlyUsers: ['ci-bot'],
+      requiredTargetFrameworks: ['.NETStandard2.0'],
+    };
+
+    expect(
+      validatePublishRules(rules, target).map((violation) => violation.message)
+    ).toEqual([
+      'Package must declare repository metadata',
+      'Package must declare projectUrl metadata',
+      `Package size ${2 * 1024 * 1024} bytes exceeds 1MB`,
+      'User ci-bot can publish prerelease versions only',
+    ]);
+
+    // Prerelease versions and other users are not restricted
+    expect(
+      validatePublishRules(
+        { prereleaseOnlyUsers: ['ci-bot'] },
+        { ...target, version: '1.0.0-beta.1' }
+      )
+    ).toEqual([]);
+    expect(
+      validatePublishRules(
+        { prereleaseOnlyUsers: ['ci-bot'] },
+        { ...target, username: 'release-manager' }
+      )
+    ).toEqual([]);
+  });
+
+  test('should reject pushes violating the rules', async (fn) => {
+    const testDir = await createTestDirectory(
+      'publish-validation',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+
+    const rejected = await postPackage(
+      `${baseUrl}/api/publish`,
+      'FlashCap.Core.1.10.0.nupkg'
+    );
+    expect(rejected.status).toBe(400);
+    const body = await rejected.json();
+    expect(body.error).toContain('Package violates publish validation rules');
+    expect(body.violations).toEqual([
+      {
+        rule: 'allowedIdPrefixes',
+        message: 'Package ID FlashCap.Core must start with one of: GitReader',
+      },
+      {
+        rule: 'forbiddenDependencies',
+        message: 'Package must not depend on Rx-Main',
+      },
+      {
+        rule: 'requiredTargetFrameworks',
+        message: 'Package must target net9.0',
+      },
+    ]);
+    expect(await getRegistrationStatus(baseUrl, 'flashcap.core')).toBe(404);
+
+    const accepted = await postPackage(
+      `${baseUrl}/api/publish`,
+      'GitReader.1.15.0.nupkg'
+    );
+    expect(accepted.status).toBe(201);
+    expect(await getRegistrationStatus(baseUrl, 'gitreader')).toBe(200);
+  });
+
+  test('should validate packages without publishing them', async (fn) => {
+    const testDir = await createTestDirectory(
+      'publish-validation',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+
+    const rejected = await postPackage(
+      `${baseUrl}/api/publish/validate`,
+      'FlashCap.1.10.0.nupkg'
+    );
+    expect(rejected.status).toBe(400);
+    expect(
+      (await rejected.json()).violations.map(
+        (violation: { rule: string }) => violation.rule
+      )
+    ).toEqual(['allowedIdPrefixes', 'requiredTargetFrameworks']);
+
+    const accepted = await postPackage(
+      `${baseUrl}/api/publish/validate`,
+      'GitReader.1.15.0.nupkg'
+    );
+    expect(accepted.status).toBe(200);
+    expect(await accepted.json()).toEqual({
+      message: 'Package passed validation',
+      id: 'GitReader',
+      version: '1.15.0',
+    });
+    expect(await getRegistrationStatus(baseUrl, 'gitreader')).toBe(404);
+  });
+});
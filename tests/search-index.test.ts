@@ -0,0 +1,288 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect } from 'vitest';
+import { createConsoleLogger } from '../src/logger';
+import { PackageMetadata } from '../src/services/metadataService';
+import {
+  createSearchIndex,
+  SearchFilterOptions,
+} from '../src/services/searchIndex';
+import {
+  parseSearchQuery,
+  prepareSearchTarget,
+  scoreSearchTarget,
+} from '../src/utils/searchQuery';
+import { testGlobalLogLevel } from './helpers/test-helper.js';
+
+/**
+ * Search Index Tests
+ *
+ * Tests the in-memory inverted index behind `/v3/query`:
+ * - Incremental updates and removals
+ * - Precomputed visibility and package ID completion
+ * - Filtering and ranking equivalent to a linear scan
+ * - Query performance with a synthetic feed of tens of thousands of versions
+ */
+describe('Search index', () => {
+  const logger = createConsoleLogger('search-index', testGlobalLogLevel);
+
+  const allVersions: SearchFilterOptions = { prerelease: true, semVer2: true };
+
+  const createMetadata = (
+    id: string,
+    version: string,
+    overrides: Partial<PackageMetadata> = {}
+  ): PackageMetadata => ({
+    id,
+    version,
+    authors: 'test',
+    description: `${id} package`,
+    tags: [],
+    published: new Date(0),
+    listed: true,
+    packageContentUrl: '',
+    ...overrides,
+  });
+
+  const searchIds = (
+    index: ReturnType<typeof createSearchIndex>,
+    q: string,
+    filter: SearchFilterOptions = allVersions
+  ) =>
+    index
+      .search({ terms: parseSearchQuery(q), filter, skip: 0, take: 100 })
+      .hits.map((hit) => hit.packageId);
+
+  test('should reflect package updates and removals', () => {
+    const index = createSearchIndex();
+    index.updatePackage('Logging', [
+      createMetadata('Logging', '1.0.0', { tags: ['log'] }),
+    ]);
+    index.updatePackage('Json', [createMetadata('Json', '1.0.0')]);
+
+    expect(searchIds(index, '')).toEqual(['Json', 'Logging']);
+    expect(searchIds(index, 'tags:log')).toEqual(['Logging']);
+
+    // Replacing versions drops the tokens of the previous versions
+    index.updatePackage('Logging', [
+      createMetadata('Logging', '2.0.0', { tags: ['diagnostics'] }),
+    ]);
+    expect(searchIds(index, 'tags:log')).toEqual([]);
+    expect(searchIds(index, 'diagnostics')).toEqual(['Logging']);
+    expect(searchIds(index, 'version:1.0.0')).toEqual(['Json']);
+
+    index.removePackage('json');
+    expect(searchIds(index, '')).toEqual(['Logging']);
+    expect(searchIds(index, 'json')).toEqual([]);
+
+    index.clear();
+    expect(searchIds(index, '')).toEqual([]);
+  });
+
+  test('should use the latest visible version and paginate', () => {
+    const index = createSearchIndex();
+    index.updatePackage('Sample', [
+      createMetadata('Sample', '2.0.0-beta', { description: 'Preview' }),
+      createMetadata('Sample', '1.0.0', { description: 'Stable' }),
+    ]);
+    for (let i = 0; i < 5; i++) {
+      index.updatePackage(`Other${i}`, [createMetadata(`Other${i}`, '1.0.0')]);
+    }
+
+    const stable = index.search({
+      terms: parseSearchQuery('packageid:sample'),
+      filter: { prerelease: false, semVer2: true },
+      skip: 0,
+      take: 10,
+    });
+    expect(stable.hits[0]!.versions.map((v) => v.version)).toEqual(['1.0.0']);
+    expect(
+      searchIds(index, 'stable', { prerelease: false, semVer2: true })
+    ).toEqual(['Sample']);
+    expect(searchIds(index, 'stable')).toEqual([]);
+
+    const page = index.search({
+      terms: [],
+      filter: allVersions,
+      skip: 2,
+      take: 2,
+    });
+    expect(page.totalHits).toBe(6);
+    expect(page.hits.map((hit) => hit.packageId)).toEqual(['Other2', 'Other3']);
+  });
+
+  test('should refresh precomputed visibility and complete package IDs', () => {
+    const index = createSearchIndex();
+    const versions = [
+      createMetadata('Newtonsoft.Json', '2.0.0'),
+      createMetadata('Newtonsoft.Json', '1.0.0'),
+    ];
+    index.updatePackage('Newtonsoft.Json', versions);
+    index.updatePackage('JsonPath', [createMetadata('JsonPath', '1.0.0')]);
+
+    // Listed state changes are applied by updating the package again
+    versions[0]!.listed = false;
+    index.updatePackage('Newtonsoft.Json', versions);
+    expect(
+      index
+        .getVisibleVersions('newtonsoft.json', allVersions)
+        .map((v) => v.version)
+    ).toEqual(['1.0.0']);
+
+    versions[1]!.listed = false;
+    index.updatePackage('Newtonsoft.Json', versions);
+    expect(searchIds(index, '')).toEqual(['JsonPath']);
+    expect(searchIds(index, 'son')).toEqual(['JsonPath']);
+
+    versions[1]!.listed = true;
+    index.updatePackage('Newtonsoft.Json', versions);
+    expect(searchIds(index, 'son')).toEqual(['JsonPath', 'Newtonsoft.Json']);
+    expect(
+      index.autocompletePackageIds({
+        prefix: 'json',
+        filter: allVersions,
+        skip: 0,
+        take: 10,
+      })
+    ).toEqual({ totalHits: 2, packageIds: ['JsonPath', 'Newtonsoft.Json'] });
+  });
+
+  test('should answer queries of a large feed quickly', () => {
+    const packageCount = 8000;
+    const versionsPerPackage = 5;
+    const words = [
+      'json',
+      'logging',
+      'http',
+      'camera',
+      'database',
+      'testing',
+      'parser',
+      'crypto',
+    ];
+
+    // Synthetic feed: 40,000 versions
+    const feed = new Map<string, PackageMetadata[]>();
+    for (let p = 0; p < packageCount; p++) {
+      const id = `Vendor${p % 97}.${words[p % words.length]}.Package${p}`;
+      const versions: PackageMetadata[] = [];
+      for (let v = versionsPerPackage - 1; v >= 0; v--) {
+        versions.push(
+          createMetadata(
+            id,
+            v === 0 ? `${v}.9.0-beta.${p % 3}` : `${v}.0.${p % 10}`,
+            {
+              description: `A ${words[(p + v) % words.length]} library for ${words[(p * 7) % words.length]} scenarios number ${p}`,
+              tags: [words[(p * 3) % words.length]!, `category${p % 13}`],
+              authors: `Author${p % 31}`,
+            }
+          )
+        );
+      }
+      feed.set(id, versions);
+    }
+
+    const buildStart = performance.now();
+    const index = createSearchIndex();
+    for (const [id, versions] of feed) {
+      index.updatePackage(id, versions);
+    }
+    const buildTime = performance.now() - buildStart;
+
+    const queries = [
+      '',
+      'json',
+      'camera library',
+      'id:vendor42',
+      'packageid:Vendor5.logging.Package5',
+      'tags:category7 http',
+      'author:author3 version:3.0.4',
+      'description:"database library"',
+      // Infix matches within tokens
+      'son',
+      'amera lib',
+      'id:ackage12',
+    ];
+    const filters: SearchFilterOptions[] = [
+      { prerelease: false, semVer2: false },
+      { prerelease: true, semVer2: true },
+    ];
+
+    // Reference implementation: linear scan over all packages
+    const linearSearch = (q: string, filter: SearchFilterOptions) => {
+      const terms = parseSearchQuery(q);
+      const results: { id: string; score: number }[] = [];
+      for (const versions of feed.values()) {
+        const visible = versions.filter(
+          (v) => filter.prerelease || !v.version.includes('-')
+        );
+        if (visible.length === 0) continue;
+        const latest = visible[0]!;
+        const score = scoreSearchTarget(
+          prepareSearchTarget({
+            id: latest.id,
+            title: latest.id,
+            description: latest.description,
+            summary: latest.description,
+            tags: latest.tags!,
+            authors: [latest.authors!],
+            versions: visible.map((v) => v.version),
+          }),
+          terms
+        );
+        if (score !== undefined) {
+          results.push({ id: latest.id, score });
+        }
+      }
+      return results
+        .sort(
+          (a, b) =>
+            b.score - a.score ||
+            a.id.localeCompare(b.id, undefined, { sensitivity: 'base' })
+        )
+        .map((r) => r.id);
+    };
+
+    let queryCount = 0;
+    const queryStart = performance.now();
+    for (let round = 0; round < 5; round++) {
+      for (const q of queries) {
+        for (const filter of filters) {
+          index.search({
+            terms: parseSearchQuery(q),
+            filter,
+            skip: round * 20,
+            take: 20,
+          });
+          queryCount++;
+        }
+      }
+    }
+    const averageQueryTime = (performance.now() - queryStart) / queryCount;
+
+    logger.info(
+      `Search index benchmark: ${packageCount * versionsPerPackage} versions, build ${buildTime.toFixed(1)}ms, ${averageQueryTime.toFixed(2)}ms/query`
+    );
+
+    // Results match the linear scan
+    for (const q of queries) {
+      for (const filter of filters) {
+        const result = index.search({
+          terms: parseSearchQuery(q),
+          filter,
+          skip: 0,
+          take: packageCount,
+        });
+        expect(result.hits.map((hit) => hit.packageId)).toEqual(
+          linearSearch(q, filter)
+        );
+      }
+    }
+
+    // Generous bounds, so that slow CI machines do not fail
+    expect(buildTime).toBeLessThan(20000);
+    expect(averageQueryTime).toBeLessThan(200);
+  }, 120000);
+});
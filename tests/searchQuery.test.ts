@@ -0,0 +1,143 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseSearchQuery,
+  prepareSearchTarget,
+  PreparedSearchTarget,
+  scoreSearchTarget,
+  SearchTarget,
+  tokenizeSearchText,
+} from '../src/utils/searchQuery';
+
+const createTarget = (overrides: Partial<SearchTarget>): PreparedSearchTarget =>
+  prepareSearchTarget({
+    id: 'Sample',
+    tags: [],
+    authors: [],
+    versions: ['1.0.0'],
+    ...overrides,
+  });
+
+describe('Search Query Utilities', () => {
+  describe('parseSearchQuery', () => {
+    it('should parse free text and field terms', () => {
+      expect(
+        parseSearchQuery('Json  id:Newtonsoft TAGS:serialization')
+      ).toEqual([
+        { field: undefined, value: 'json' },
+        { field: 'id', value: 'newtonsoft' },
+        { field: 'tags', value: 'serialization' },
+      ]);
+    });
+
+    it('should parse quoted values', () => {
+      expect(
+        parseSearchQuery('description:"camera capture" "two words"')
+      ).toEqual([
+        { field: 'description', value: 'camera capture' },
+        { field: undefined, value: 'two words' },
+      ]);
+    });
+
+    it('should treat unknown fields as free text and ignore empty values', () => {
+      expect(parseSearchQuery('owner:kekyo id: packageid:""')).toEqual([
+        { field: undefined, value: 'owner:kekyo' },
+      ]);
+      expect(parseSearchQuery('   ')).toEqual([]);
+    });
+  });
+
+  describe('tokenizeSearchText', () => {
+    it('should split text into lower-cased alphanumeric tokens', () => {
+      expect(
+        tokenizeSearchText('FlashCap.Core - Camera_capture, v1.0')
+      ).toEqual(['flashcap', 'core', 'camera', 'capture', 'v1', '0']);
+      expect(tokenizeSearchText(' .,; ')).toEqual([]);
+    });
+  });
+
+  describe('scoreSearchTarget', () => {
+    it('should match every target without terms', () => {
+      expect(scoreSearchTarget(createTarget({}), [])).toBe(0);
+    });
+
+    it('should require all terms to match', () => {
+      const target = createTarget({
+        id: 'FlashCap',
+        description: 'Camera capture library',
+      });
+
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('flash camera'))
+      ).toBeDefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('flash audio'))
+      ).toBeUndefined();
+    });
+
+    it('should rank exact ID, prefix, tag and description matches in order', () => {
+      const terms = parseSearchQuery('capture');
+      const exact = scoreSearchTarget(createTarget({ id: 'Capture' }), terms)!;
+      const prefix = scoreSearchTarget(
+        createTarget({ id: 'CaptureKit' }),
+        terms
+      )!;
+      const tag = scoreSearchTarget(
+        createTarget({ id: 'Other', tags: ['capture'] }),
+        terms
+      )!;
+      const description = scoreSearchTarget(
+        createTarget({ id: 'Other', description: 'Screen capture' }),
+        terms
+      )!;
+
+      expect(exact).toBeGreaterThan(prefix);
+      expect(prefix).toBeGreaterThan(tag);
+      expect(tag).toBeGreaterThan(description);
+    });
+
+    it('should restrict field terms to their field', () => {
+      const target = createTarget({
+        id: 'FlashCap.Core',
+        description: 'Independent camera capture library',
+        tags: ['camera', 'video'],
+        authors: ['Kouji Matsui'],
+        versions: ['1.10.0', '1.11.0'],
+      });
+
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('id:core'))
+      ).toBeDefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('id:camera'))
+      ).toBeUndefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('packageid:flashcap'))
+      ).toBeUndefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('packageid:FlashCap.Core'))
+      ).toBeDefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('tags:video'))
+      ).toBeDefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('tags:library'))
+      ).toBeUndefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('author:matsui'))
+      ).toBeDefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('description:flashcap'))
+      ).toBeUndefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('version:1.11'))
+      ).toBeDefined();
+      expect(
+        scoreSearchTarget(target, parseSearchQuery('version:1.12.0'))
+      ).toBeUndefined();
+    });
+  });
+});
@@ -7,6 +7,12 @@ import {
   compareVersions,
   sortVersions,
   getLatestVersion,
+  normalizeVersion,
+  isSameVersion,
+  parseNuGetVersion,
+  parseVersionRange,
+  satisfiesVersionRange,
+  findBestVersionMatch,
 } from '../src/utils/semver';
 
 describe('Semantic Version Utilities', () => {
@@ -42,6 +48,45 @@ describe('Semantic Version Utilities', () => {
       expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
       expect(compareVersions('1.9.0', '1.10.0')).toBeLessThan(0);
     });
+
+    it('should follow SemVer 2.0 prerelease precedence', () => {
+      expect(compareVersions('1.0.0-beta.10', '1.0.0-beta.2')).toBeGreaterThan(
+        0
+      );
+      expect(compareVersions('1.0.0-alpha', '1.0.0-alpha.1')).toBeLessThan(0);
+      expect(compareVersions('1.0.0-alpha.1', '1.0.0-alpha.beta')).toBeLessThan(
+        0
+      ); // numeric < alphanumeric
+      expect(compareVersions('1.0.0-rc.1', '1.0.0-beta.11')).toBeGreaterThan(0);
+    });
+
+    it('should ignore case and build metadata', () => {
+      expect(compareVersions('1.0.0-Beta', '1.0.0-beta')).toBe(0);
+      expect(compareVersions('1.0.0+build.1', '1.0.0+build.2')).toBe(0);
+      expect(compareVersions('01.002.0', '1.2.0')).toBe(0);
+    });
+  });
+
+  describe('normalizeVersion', () => {
+    it('should normalize versions the way NuGet does', () => {
+      expect(normalizeVersion('1.0')).toBe('1.0.0');
+      expect(normalizeVersion('1')).toBe('1.0.0');
+      expect(normalizeVersion('1.0.0.0')).toBe('1.0.0');
+      expect(normalizeVersion('1.0.0.4')).toBe('1.0.0.4');
+      expect(normalizeVersion('01.002.03')).toBe('1.2.3');
+      expect(normalizeVersion('1.0.0-Beta.1+sha.abc')).toBe('1.0.0-Beta.1');
+    });
+
+    it('should return invalid versions unchanged', () => {
+      expect(parseNuGetVersion('not-a-version')).toBeUndefined();
+      expect(normalizeVersion('not-a-version')).toBe('not-a-version');
+    });
+
+    it('should detect equivalent versions', () => {
+      expect(isSameVersion('1.0', '1.0.0.0')).toBe(true);
+      expect(isSameVersion('1.0.0-RC', '1.0.0-rc+meta')).toBe(true);
+      expect(isSameVersion('1.0.0', '1.0.1')).toBe(false);
+    });
   });
 
   describe('sortVersions', () => {
@@ -81,6 +126,15 @@ describe('Semantic Version Utilities', () => {
       ]);
     });
 
+    it('should sort numeric prerelease labels numerically', () => {
+      const versions = ['1.0.0-beta.10', '1.0.0-beta.2', '1.0.0-beta.1'];
+      expect(sortVersions(versions, 'asc')).toEqual([
+        '1.0.0-beta.1',
+        '1.0.0-beta.2',
+        '1.0.0-beta.10',
+      ]);
+    });
+
     it('should not mutate the original array', () => {
       const versions = ['1.0.0', '2.0.0', '1.5.0'];
       const originalVersions = [...versions];
@@ -108,4 +162,66 @@ describe('Semantic Version Utilities', () => {
       expect(getLatestVersion(['1.0.0'])).toBe('1.0.0');
     });
   });
+
+  describe('version ranges', () => {
+    it('should parse interval notation', () => {
+      const range = parseVersionRange('[1.0,2.0)');
+      expect(range?.minVersion?.major).toBe(1);
+      expect(range?.isMinInclusive).toBe(true);
+      expect(range?.maxVersion?.major).toBe(2);
+      expect(range?.isMaxInclusive).toBe(false);
+    });
+
+    it('should reject invalid ranges', () => {
+      expect(parseVersionRange('')).toBeUndefined();
+      expect(parseVersionRange('[1.0')).toBeUndefined();
+      expect(parseVersionRange('(1.0)')).toBeUndefined();
+      expect(parseVersionRange('[2.0,1.0]')).toBeUndefined();
+      expect(parseVersionRange('[,]')).toBeUndefined();
+      expect(parseVersionRange('abc')).toBeUndefined();
+    });
+
+    it('should evaluate bounded ranges', () => {
+      expect(satisfiesVersionRange('1.0.0', '[1.0,2.0)')).toBe(true);
+      expect(satisfiesVersionRange('1.9.9', '[1.0,2.0)')).toBe(true);
+      expect(satisfiesVersionRange('2.0.0', '[1.0,2.0)')).toBe(false);
+      expect(satisfiesVersionRange('1.0.0', '(1.0,2.0]')).toBe(false);
+      expect(satisfiesVersionRange('2.0', '(1.0,2.0]')).toBe(true);
+      expect(satisfiesVersionRange('0.1.0', '(,1.0]')).toBe(true);
+      expect(satisfiesVersionRange('5.0.0', '[1.0,)')).toBe(true);
+    });
+
+    it('should treat a plain version as minimum inclusive', () => {
+      expect(satisfiesVersionRange('1.0.0', '1.0')).toBe(true);
+      expect(satisfiesVersionRange('3.0.0', '1.0')).toBe(true);
+      expect(satisfiesVersionRange('0.9.0', '1.0')).toBe(false);
+    });
+
+    it('should evaluate exact ranges', () => {
+      expect(satisfiesVersionRange('1.2.0', '[1.2]')).toBe(true);
+      expect(satisfiesVersionRange('1.2.1', '[1.2]')).toBe(false);
+    });
+
+    it('should evaluate floating ranges', () => {
+      expect(satisfiesVersionRange('1.0.0', '1.*')).toBe(true);
+      expect(satisfiesVersionRange('1.9.3', '1.*')).toBe(true);
+      expect(satisfiesVersionRange('2.0.0', '1.*')).toBe(false);
+      expect(satisfiesVersionRange('1.5.0-beta', '1.*')).toBe(false);
+      expect(satisfiesVersionRange('1.2.7', '1.2.*')).toBe(true);
+      expect(satisfiesVersionRange('1.3.0', '1.2.*')).toBe(false);
+      expect(satisfiesVersionRange('1.0.0-beta.3', '1.0.0-beta*')).toBe(true);
+      expect(satisfiesVersionRange('1.0.0-alpha', '1.0.0-beta*')).toBe(false);
+      expect(satisfiesVersionRange('1.4.0-rc.1', '1.*-*')).toBe(true);
+      expect(satisfiesVersionRange('7.0.0', '*')).toBe(true);
+    });
+
+    it('should find the best match the way NuGet resolves ranges', () => {
+      const versions = ['1.0.0', '1.2.0', '1.10.0', '2.0.0', '2.1.0-beta'];
+      expect(findBestVersionMatch(versions, '[1.1,)')).toBe('1.2.0');
+      expect(findBestVersionMatch(versions, '1.*')).toBe('1.10.0');
+      expect(findBestVersionMatch(versions, '*')).toBe('2.0.0');
+      expect(findBestVersionMatch(versions, '*-*')).toBe('2.1.0-beta');
+      expect(findBestVersionMatch(versions, '[3.0,)')).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,245 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import { openZipArchive } from '../src/utils/zipArchive';
+import {
+  createTestDirectory,
+  forgeCentralDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Symbol Package Tests
+ *
+ * Tests symbol package (.snupkg) publishing and the symbol server:
+ * - SymbolPackagePublish/4.9.0 resource in the service index
+ * - PDB validation against the DLLs of the primary package
+ * - Simple Symbol Query Protocol endpoint (/symbols/{file}/{signature-age}/{file})
+ */
+describe('Symbol package', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('symbol-package', testGlobalLogLevel);
+
+  const fixturesDir = path.resolve(import.meta.dirname, './fixtures');
+  const packagePath = path.join(fixturesDir, 'symbols/SymLib.1.0.0.nupkg');
+  const symbolPackagePath = path.join(
+    fixturesDir,
+    'symbols/SymLib.1.0.0.snupkg'
+  );
+
+  // Identifier of lib/net8.0/SymLib.pdb in the fixture symbol package
+  const symbolPath =
+    'symlib.pdb/876B9CC6383540D29BFE7A4A0BCC904CFFFFFFFF/SymLib.pdb';
+
+  const startServer = async (testDir: string) => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(9850);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Symbol Package Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+    };
+    server = await startFastifyServer(config, logger);
+    return { baseUrl: `http://localhost:${port}`, packagesDir };
+  };
+
+  const push = (baseUrl: string, endpoint: string, data: Buffer) =>
+    fetch(`${baseUrl}${endpoint}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(data),
+    });
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should publish symbols and serve PDBs', async (fn) => {
+    const testDir = await createTestDirectory('symbol-package', fn.task.name);
+    const { baseUrl, packagesDir } = await startServer(testDir);
+
+    const serviceIndex = await (await fetch(`${baseUrl}/v3/index.json`)).json();
+    const symbolResource = serviceIndex.resources.find(
+      (r: any) => r['@type'] === 'SymbolPackagePublish/4.9.0'
+    );
+    expect(symbolResource['@id']).toBe(`${baseUrl}/api/v2/symbolpackage`);
+
+    expect(
+      (await push(baseUrl, '/api/v2/package', await fs.readFile(packagePath)))
+        .status
+    ).toBe(201);
+    const symbolResponse = await push(
+      baseUrl,
+      '/api/v2/symbolpackage',
+      await fs.readFile(symbolPackagePath)
+    );
+    expect(symbolResponse.status).toBe(201);
+
+    // Stored next to the package version
+    const versionDir = path.join(packagesDir, 'SymLib', '1.0.0');
+    await fs.access(path.join(versionDir, 'SymLib.1.0.0.snupkg'));
+    await fs.access(path.join(versionDir, 'symbols.json'));
+
+    // The symbol package is not taken as the package content
+    const download = await fetch(
+      `${baseUrl}/v3/package/symlib/1.0.0/symlib.1.0.0.nupkg`
+    );
+    expect(Buffer.from(await download.arrayBuffer())).toEqual(
+      await fs.readFile(packagePath)
+    );
+
+    const expectedPdb = new AdmZip(symbolPackagePath).readFile(
+      'lib/net8.0/SymLib.pdb'
+    );
+    const pdbResponse = await fetch(`${baseUrl}/symbols/${symbolPath}`);
+    expect(pdbResponse.status).toBe(200);
+    expect(Buffer.from(await pdbResponse.arrayBuffer())).toEqual(expectedPdb);
+
+    // Symbols are served after a restart
+    await server!.close();
+    server = null;
+    const restarted = await startServer(testDir);
+    const afterRestart = await fetch(
+      `${restarted.baseUrl}/symbols/${symbolPath}`
+    );
+    expect(afterRestart.status).toBe(200);
+    expect(Buffer.from(await afterRestart.arrayBuffer())).toEqual(expectedPdb);
+  });
+
+  test('should accept symbol packages through the publish endpoint', async (fn) => {
+    const testDir = await createTestDirectory('symbol-package', fn.task.name);
+    const { baseUrl } = await startServer(testDir);
+
+    const publish = (data: Buffer) =>
+      fetch(`${baseUrl}/api/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: new Uint8Array(data),
+      });
+    expect((await publish(await fs.readFile(packagePath))).status).toBe(201);
+    expect((await publish(await fs.readFile(symbolPackagePath))).status).toBe(
+      201
+    );
+
+    const pdbResponse = await fetch(`${baseUrl}/symbols/${symbolPath}`);
+    expect(pdbResponse.status).toBe(200);
+  });
+
+  test('should reject invalid symbol packages', async (fn) => {
+    const testDir = await createTestDirectory('symbol-package', fn.task.name);
+    const { baseUrl } = await startServer(testDir);
+    const symbolPackage = await fs.readFile(symbolPackagePath);
+
+    // The package must be pushed first
+    const beforePackage = await push(
+      baseUrl,
+      '/api/v2/symbolpackage',
+      symbolPackage
+    );
+    expect(beforePackage.status).toBe(404);
+
+    // Only symbol packages are accepted by the symbol endpoint
+    const notSymbols = await push(
+      baseUrl,
+      '/api/v2/symbolpackage',
+      await fs.readFile(packagePath)
+    );
+    expect(notSymbols.status).toBe(400);
+
+    // Primary package with a DLL built from other sources
+    const mismatchedPackage = new AdmZip(packagePath);
+    const otherDll = new AdmZip(
+      path.join(fixturesDir, 'packages/FlashCap.1.10.0.nupkg')
+    ).readFile('lib/net8.0/FlashCap.dll')!;
+    mismatchedPackage.updateFile('lib/net8.0/SymLib.dll', otherDll);
+    expect(
+      (await push(baseUrl, '/api/v2/package', mismatchedPackage.toBuffer()))
+        .status
+    ).toBe(201);
+
+    const mismatched = await push(
+      baseUrl,
+      '/api/v2/symbolpackage',
+      symbolPackage
+    );
+    expect(mismatched.status).toBe(400);
+    expect((await mismatched.json()).error).toContain('does not match');
+
+    // PDB without a matching DLL path
+    const movedSymbols = new AdmZip(symbolPackagePath);
+    movedSymbols.addFile(
+      'lib/net8.0/Other.pdb',
+      movedSymbols.readFile('lib/net8.0/SymLib.pdb')!
+    );
+    movedSymbols.deleteFile('lib/net8.0/SymLib.pdb');
+    const moved = await push(
+      baseUrl,
+      '/api/v2/symbolpackage',
+      movedSymbols.toBuffer()
+    );
+    expect(moved.status).toBe(400);
+
+    const missing = await fetch(`${baseUrl}/symbols/${symbolPath}`);
+    expect(missing.status).toBe(404);
+  });
+
+  test('should reject symbol packages with oversized PDBs', async (fn) => {
+    const testDir = await createTestDirectory('symbol-package', fn.task.name);
+    const { baseUrl } = await startServer(testDir);
+    const pdbPath = 'lib/net8.0/SymLib.pdb';
+
+    // Only the beginning of a PDB is inflated to find its identifier
+    const archive = await openZipArchive(symbolPackagePath);
+    try {
+      const pdbEntry = archive.entries.find(
+        (entry) => entry.entryName === pdbPath
+      )!;
+      expect(await archive.readEntryHead(pdbEntry, 64)).toEqual(
+        new AdmZip(symbolPackagePath).readFile(pdbPath)!.subarray(0, 64)
+      );
+    } finally {
+      await archive.close();
+    }
+
+    expect(
+      (await push(baseUrl, '/api/v2/package', await fs.readFile(packagePath)))
+        .status
+    ).toBe(201);
+
+    // Declared size above the upload size limit
+    const oversized = await push(
+      baseUrl,
+      '/api/v2/symbolpackage',
+      forgeCentralDirectory(
+        await fs.readFile(symbolPackagePath),
+        pdbPath,
+        24,
+        0xfffffff0
+      )
+    );
+    expect(oversized.status).toBe(400);
+    expect((await oversized.json()).error).toContain(
+      `PDB exceeds the maximum size of 104857600 bytes: ${pdbPath}`
+    );
+
+    const missing = await fetch(`${baseUrl}/symbols/${symbolPath}`);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -33,8 +33,8 @@ describe('userService', () => {
     await userService.initialize();
   });
 
-  afterEach(() => {
-    userService.destroy();
+  afterEach(async () => {
+    await userService.destroy();
   });
 
   it('should rollback user creation when users.json cannot be persisted', async () => {
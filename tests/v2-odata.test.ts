@@ -0,0 +1,311 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import xml2js from 'xml2js';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { AuthMode, ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * NuGet V2 OData Feed Tests
+ *
+ * Tests the legacy /api/v2 feed:
+ * - Service document and $metadata
+ * - Packages(), Packages(Id=,Version=), FindPackagesById(), Search() and GetUpdates()
+ * - $filter, $orderby, $skip, $top and $count
+ * - Authentication follows the V3 routes
+ */
+describe('NuGet V2 OData feed', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('v2-odata', testGlobalLogLevel);
+
+  interface SeedPackage {
+    id: string;
+    version: string;
+    unlisted?: boolean;
+  }
+
+  // Writes version directories directly into the package storage
+  const seedPackages = async (packagesDir: string, packages: SeedPackage[]) => {
+    for (const { id, version, unlisted } of packages) {
+      const versionDir = path.join(packagesDir, id, version);
+      await fs.mkdir(versionDir, { recursive: true });
+      await fs.writeFile(
+        path.join(versionDir, `${id}.nuspec`),
+        `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://schemas.microsoft.com/packaging/2013/05/nuspec.xsd">
+  <metadata>
+    <id>${id}</id>
+    <version>${version}</version>
+    <authors>test</authors>
+    <description>Feed test package ${id}</description>
+    <tags>feed ${id.toLowerCase()}</tags>
+  </metadata>
+</package>`
+      );
+      await fs.writeFile(path.join(versionDir, `${id}.${version}.nupkg`), '');
+      if (unlisted) {
+        await fs.writeFile(path.join(versionDir, '.unlisted'), '');
+      }
+    }
+  };
+
+  const defaultPackages: SeedPackage[] = [
+    { id: 'Alpha', version: '1.0.0' },
+    { id: 'Alpha', version: '1.1.0' },
+    { id: 'Alpha', version: '2.0.0-beta' },
+    { id: 'Alpha', version: '0.9.0', unlisted: true },
+    { id: 'Beta.Tools', version: '3.0.0' },
+    { id: 'Gamma', version: '1.0.0+build.5' },
+  ];
+
+  const startServer = async (
+    testName: string,
+    authMode: AuthMode = 'none',
+    extraPackages: SeedPackage[] = []
+  ) => {
+    const testDir = await createTestDirectory('v2-odata', testName);
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+    await seedPackages(packagesDir, [...defaultPackages, ...extraPackages]);
+
+    const port = await getTestPort(9900);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test V2 OData Server',
+      logLevel: testGlobalLogLevel,
+      authMode,
+      trustedProxies: ['10.0.0.1'],
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}/api/v2`;
+  };
+
+  const parseXml = (xml: string) =>
+    xml2js.parseStringPromise(xml, { explicitArray: false });
+
+  // Fetches a feed and returns its entries as property records
+  const fetchFeed = async (url: string) => {
+    const response = await fetch(url);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain(
+      'application/atom+xml'
+    );
+    const { feed } = await parseXml(await response.text());
+    const entries = feed.entry
+      ? Array.isArray(feed.entry)
+        ? feed.entry
+        : [feed.entry]
+      : [];
+    return {
+      feed,
+      entries: entries.map((entry: any) => entry['m:properties']),
+    };
+  };
+
+  const getText = (value: any) =>
+    typeof value === 'string' ? value : value?._;
+
+  const describeEntries = (entries: any[]) =>
+    entries.map((p) => `${getText(p['d:Id'])} ${getText(p['d:Version'])}`);
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should serve the service document and metadata', async (fn) => {
+    const feedUrl = await startServer(fn.task.name);
+
+    const serviceResponse = await fetch(feedUrl);
+    expect(serviceResponse.status).toBe(200);
+    const { service } = await parseXml(await serviceResponse.text());
+    expect(service.workspace.collection.$.href).toBe('Packages');
+
+    const metadataResponse = await fetch(`${feedUrl}/$metadata`);
+    expect(metadataResponse.status).toBe(200);
+    const metadata = await metadataResponse.text();
+    expect(metadata).toContain('<EntityType Name="V2FeedPackage"');
+    expect(metadata).toContain('<FunctionImport Name="FindPackagesById"');
+    expect(metadata).toContain('<FunctionImport Name="GetUpdates"');
+  });
+
+  test('should list and find packages', async (fn) => {
+    const feedUrl = await startServer(fn.task.name);
+
+    const all = await fetchFeed(`${feedUrl}/Packages()`);
+    expect(describeEntries(all.entries)).toEqual([
+      'Alpha 0.9.0',
+      'Alpha 1.0.0',
+      'Alpha 1.1.0',
+      'Alpha 2.0.0-beta',
+      'Beta.Tools 3.0.0',
+    ]);
+    const allSemVer2 = await fetchFeed(
+      `${feedUrl}/Packages()?semVerLevel=2.0.0`
+    );
+    expect(allSemVer2.entries).toHaveLength(6);
+
+    const entryResponse = await fetch(
+      `${feedUrl}/Packages(Id='alpha',Version='1.1.0')`
+    );
+    expect(entryResponse.status).toBe(200);
+    const { entry } = await parseXml(await entryResponse.text());
+    expect(entry.content.$.src).toBe(
+      `${feedUrl.replace(/\/api\/v2$/, '')}/v3/package/alpha/1.1.0/alpha.1.1.0.nupkg`
+    );
+
+    // Download links follow the host the client used through a reverse proxy
+    const otherHost = await fetch(
+      `${feedUrl}/FindPackagesById()?id='Beta.Tools'`,
+      {
+        headers: {
+          'X-Forwarded-For': '10.0.0.1',
+          'X-Forwarded-Proto': 'https',
+          'X-Forwarded-Host': 'nuget.example.com',
+        },
+      }
+    );
+    const { feed: otherHostFeed } = await parseXml(await otherHost.text());
+    expect(otherHostFeed.entry.content.$.src).toBe(
+      'https://nuget.example.com/v3/package/beta.tools/3.0.0/beta.tools.3.0.0.nupkg'
+    );
+    const properties = entry['m:properties'];
+    expect(getText(properties['d:IsLatestVersion'])).toBe('true');
+    expect(getText(properties['d:IsAbsoluteLatestVersion'])).toBe('false');
+    expect(properties['d:IsLatestVersion'].$['m:type']).toBe('Edm.Boolean');
+
+    const missing = await fetch(
+      `${feedUrl}/Packages(Id='Alpha',Version='9.9.9')`
+    );
+    expect(missing.status).toBe(404);
+
+    // Unlisted versions are found, SemVer 2.0 versions only for new clients
+    const byId = await fetchFeed(`${feedUrl}/FindPackagesById()?id='Alpha'`);
+    expect(describeEntries(byId.entries)).toEqual([
+      'Alpha 0.9.0',
+      'Alpha 1.0.0',
+      'Alpha 1.1.0',
+      'Alpha 2.0.0-beta',
+    ]);
+    const unlisted = byId.entries[0];
+    expect(getText(unlisted['d:Listed'])).toBe('false');
+    expect(getText(unlisted['d:Published'])).toMatch(/^1900-01-01T/);
+
+    const semVer1 = await fetchFeed(`${feedUrl}/FindPackagesById()?id='Gamma'`);
+    expect(semVer1.entries).toHaveLength(0);
+    const semVer2 = await fetchFeed(
+      `${feedUrl}/FindPackagesById()?id='Gamma'&semVerLevel=2.0.0`
+    );
+    expect(describeEntries(semVer2.entries)).toEqual(['Gamma 1.0.0+build.5']);
+  });
+
+  test('should apply query options', async (fn) => {
+    const feedUrl = await startServer(fn.task.name);
+
+    const filtered = await fetchFeed(
+      `${feedUrl}/Packages()?$filter=${encodeURIComponent(
+        "tolower(Id) eq 'alpha' and IsPrerelease eq false and Listed"
+      )}&$orderby=${encodeURIComponent('Version desc')}`
+    );
+    expect(describeEntries(filtered.entries)).toEqual([
+      'Alpha 1.1.0',
+      'Alpha 1.0.0',
+    ]);
+
+    const latest = await fetchFeed(
+      `${feedUrl}/Packages()?$filter=IsLatestVersion&$orderby=Id&$skip=1&$top=1&$inlinecount=allpages`
+    );
+    expect(describeEntries(latest.entries)).toEqual(['Beta.Tools 3.0.0']);
+    expect(latest.feed['m:count']).toBe('2');
+
+    const count = await fetch(
+      `${feedUrl}/Packages()/$count?$filter=${encodeURIComponent(
+        "startswith(Id, 'Alpha')"
+      )}`
+    );
+    expect(count.status).toBe(200);
+    expect(await count.text()).toBe('4');
+
+    const invalid = await fetch(
+      `${feedUrl}/Packages()?$filter=${encodeURIComponent('Unknown eq 1')}`
+    );
+    expect(invalid.status).toBe(400);
+  });
+
+  test('should search packages and find updates', async (fn) => {
+    const feedUrl = await startServer(fn.task.name);
+
+    const stable = await fetchFeed(
+      `${feedUrl}/Search()?searchTerm='alpha'&includePrerelease=false&$filter=IsLatestVersion`
+    );
+    expect(describeEntries(stable.entries)).toEqual(['Alpha 1.1.0']);
+
+    const prerelease = await fetchFeed(
+      `${feedUrl}/Search()?searchTerm='alpha'&includePrerelease=true&$filter=IsAbsoluteLatestVersion`
+    );
+    expect(describeEntries(prerelease.entries)).toEqual(['Alpha 2.0.0-beta']);
+
+    const updates = await fetchFeed(
+      `${feedUrl}/GetUpdates()?packageIds='Alpha|Beta.Tools'&versions='1.0.0|3.0.0'&includePrerelease=false&includeAllVersions=false`
+    );
+    expect(describeEntries(updates.entries)).toEqual(['Alpha 1.1.0']);
+
+    const allUpdates = await fetchFeed(
+      `${feedUrl}/GetUpdates()?packageIds='Alpha'&versions='0.1.0'&includePrerelease=true&includeAllVersions=true&versionConstraints='(,2.0.0]'`
+    );
+    expect(describeEntries(allUpdates.entries)).toEqual([
+      'Alpha 1.0.0',
+      'Alpha 1.1.0',
+      'Alpha 2.0.0-beta',
+    ]);
+  });
+
+  test('should compute latest flags over versions visible to legacy clients', async (fn) => {
+    const feedUrl = await startServer(fn.task.name, 'none', [
+      { id: 'Delta', version: '1.0.0' },
+      { id: 'Delta', version: '1.1.0+build.2' },
+    ]);
+
+    const search = await fetchFeed(
+      `${feedUrl}/Search()?searchTerm='delta'&includePrerelease=false&$filter=IsLatestVersion`
+    );
+    expect(describeEntries(search.entries)).toEqual(['Delta 1.0.0']);
+
+    const absoluteLatest = await fetchFeed(
+      `${feedUrl}/Search()?searchTerm='delta'&includePrerelease=true&$filter=IsAbsoluteLatestVersion`
+    );
+    expect(describeEntries(absoluteLatest.entries)).toEqual(['Delta 1.0.0']);
+
+    const semVer2 = await fetchFeed(
+      `${feedUrl}/Search()?searchTerm='delta'&includePrerelease=false&$filter=IsLatestVersion&semVerLevel=2.0.0`
+    );
+    expect(describeEntries(semVer2.entries)).toEqual(['Delta 1.1.0+build.2']);
+
+    const updates = await fetchFeed(
+      `${feedUrl}/GetUpdates()?packageIds='Delta'&versions='0.1.0'&includePrerelease=false&includeAllVersions=false`
+    );
+    expect(describeEntries(updates.entries)).toEqual(['Delta 1.0.0']);
+    expect(getText(updates.entries[0]['d:IsLatestVersion'])).toBe('true');
+  });
+
+  test('should require authentication in full auth mode', async (fn) => {
+    const feedUrl = await startServer(fn.task.name, 'full');
+
+    expect((await fetch(`${feedUrl}/Packages()`)).status).toBe(401);
+    expect((await fetch(`${feedUrl}/$metadata`)).status).toBe(401);
+  });
+});
@@ -0,0 +1,344 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * NuGet V3 Registrations Tests
+ *
+ * Tests the registration documents linked from the search results and registration index:
+ * - Registration leaf (/v3/registrations/{id}/{version}.json)
+ * - Catalog entry (/v3/catalog/entries/{id}/{version}.json)
+ * - Paged registration index (/v3/registrations/{id}/page/{lower}/{upper}.json)
+ */
+describe('NuGet V3 registrations', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('v3-registrations', testGlobalLogLevel);
+
+  const fixturesDir = path.resolve(import.meta.dirname, './fixtures/packages');
+
+  const startServer = async (
+    testName: string,
+    packageFiles: string[],
+    seedPackages?: (packagesDir: string) => Promise<void>
+  ) => {
+    const testDir = await createTestDirectory('v3-registrations', testName);
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+    await seedPackages?.(packagesDir);
+
+    const port = await getTestPort(9700);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test V3 Registrations Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+    };
+    server = await startFastifyServer(config, logger);
+    const baseUrl = `http://localhost:${port}`;
+
+    for (const packageFile of packageFiles) {
+      const packageBuffer = await fs.readFile(
+        path.join(fixturesDir, packageFile)
+      );
+      const response = await fetch(`${baseUrl}/api/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: new Uint8Array(packageBuffer),
+      });
+      expect(response.status).toBe(201);
+    }
+
+    return baseUrl;
+  };
+
+  // Writes version directories directly into the package storage
+  const seedVersions = async (
+    packagesDir: string,
+    packageId: string,
+    versions: string[]
+  ) => {
+    for (const version of versions) {
+      const versionDir = path.join(packagesDir, packageId, version);
+      await fs.mkdir(versionDir, { recursive: true });
+      await fs.writeFile(
+        path.join(versionDir, `${packageId}.nuspec`),
+        `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://schemas.microsoft.com/packaging/2013/05/nuspec.xsd">
+  <metadata>
+    <id>${packageId}</id>
+    <version>${version}</version>
+    <authors>test</authors>
+    <description>Paged package</description>
+  </metadata>
+</package>`
+      );
+      await fs.writeFile(
+        path.join(versionDir, `${packageId}.${version}.nupkg`),
+        ''
+      );
+    }
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should serve the registration leaf linked from the registration index', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, ['FlashCap.1.10.0.nupkg']);
+
+    const indexResponse = await fetch(
+      `${baseUrl}/v3/registrations/flashcap/index.json`
+    );
+    const index = await indexResponse.json();
+    const leafUrl = index.items[0].items[0]['@id'];
+    expect(leafUrl).toBe(`${baseUrl}/v3/registrations/flashcap/1.10.0.json`);
+
+    const leafResponse = await fetch(leafUrl);
+    expect(leafResponse.status).toBe(200);
+    const leaf = await leafResponse.json();
+
+    expect(leaf['@id']).toBe(leafUrl);
+    expect(leaf['@type']).toContain('Package');
+    expect(leaf.catalogEntry).toBe(
+      `${baseUrl}/v3/catalog/entries/flashcap/1.10.0.json`
+    );
+    expect(leaf.listed).toBe(true);
+    expect(leaf.packageContent).toBe(
+      `${baseUrl}/v3/package/flashcap/1.10.0/flashcap.1.10.0.nupkg`
+    );
+    expect(leaf.registration).toBe(
+      `${baseUrl}/v3/registrations/flashcap/index.json`
+    );
+    expect(Number.isNaN(Date.parse(leaf.published))).toBe(false);
+  });
+
+  test('should serve the registration leaf linked from search results', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, ['FlashCap.1.10.0.nupkg']);
+
+    const searchResponse = await fetch(`${baseUrl}/v3/query?q=flashcap`);
+    const search = await searchResponse.json();
+    const leafUrl = search.data[0].versions[0]['@id'];
+
+    const leafResponse = await fetch(leafUrl);
+    expect(leafResponse.status).toBe(200);
+  });
+
+  test('should serve the catalog entry document', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, ['FlashCap.1.10.0.nupkg']);
+
+    const leafResponse = await fetch(
+      `${baseUrl}/v3/registrations/FlashCap/1.10.0.json`
+    );
+    const leaf = await leafResponse.json();
+
+    const catalogResponse = await fetch(leaf.catalogEntry);
+    expect(catalogResponse.status).toBe(200);
+    const catalogEntry = await catalogResponse.json();
+
+    expect(catalogEntry['@id']).toBe(leaf.catalogEntry);
+    expect(catalogEntry['@type']).toBe('PackageDetails');
+    expect(catalogEntry.id).toBe('FlashCap');
+    expect(catalogEntry.version).toBe('1.10.0');
+    expect(catalogEntry.packageContent).toBe(leaf.packageContent);
+  });
+
+  test('should include dependency groups and nuspec metadata in catalog entries', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, ['FlashCap.1.10.0.nupkg']);
+
+    const indexResponse = await fetch(
+      `${baseUrl}/v3/registrations/flashcap/index.json`
+    );
+    const index = await indexResponse.json();
+    const catalogEntry = index.items[0].items[0].catalogEntry;
+
+    expect(catalogEntry.title).toBe('FlashCap');
+    expect(catalogEntry.copyright).toBe('Copyright (c) Kouji Matsui');
+    expect(catalogEntry.requireLicenseAcceptance).toBe(false);
+    expect(catalogEntry.repository).toEqual({
+      type: 'git',
+      url: 'https://github.com/kekyo/FlashCap.git',
+      branch: 'main',
+      commit: '93c85ce0c6f706412faede4551024eb7a7651b2a',
+    });
+
+    expect(catalogEntry.dependencyGroups).toHaveLength(17);
+    const netStandardGroup = catalogEntry.dependencyGroups.find(
+      (g: any) => g.targetFramework === '.NETStandard1.3'
+    );
+    expect(netStandardGroup['@type']).toBe('PackageDependencyGroup');
+    expect(netStandardGroup.dependencies).toEqual([
+      {
+        '@id': `${catalogEntry['@id']}#dependencygroup/.netstandard1.3/flashcap.core`,
+        '@type': 'PackageDependency',
+        id: 'FlashCap.Core',
+        range: '[1.10.0, )',
+        registration: `${baseUrl}/v3/registrations/flashcap.core/index.json`,
+      },
+      {
+        '@id': `${catalogEntry['@id']}#dependencygroup/.netstandard1.3/netstandard.library`,
+        '@type': 'PackageDependency',
+        id: 'NETStandard.Library',
+        range: '[1.6.1, )',
+        registration: `${baseUrl}/v3/registrations/netstandard.library/index.json`,
+      },
+    ]);
+  });
+
+  test('should report unlisted versions in the registration leaf', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, ['FlashCap.1.10.0.nupkg']);
+
+    await fetch(`${baseUrl}/api/v2/package/FlashCap/1.10.0`, {
+      method: 'DELETE',
+    });
+
+    const leafResponse = await fetch(
+      `${baseUrl}/v3/registrations/flashcap/1.10.0.json`
+    );
+    expect(leafResponse.status).toBe(200);
+    const leaf = await leafResponse.json();
+    expect(leaf.listed).toBe(false);
+  });
+
+  test('should return 404 for unknown leaf and catalog entry documents', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, ['FlashCap.1.10.0.nupkg']);
+
+    for (const url of [
+      `${baseUrl}/v3/registrations/flashcap/9.9.9.json`,
+      `${baseUrl}/v3/registrations/flashcap/1.10.0`,
+      `${baseUrl}/v3/registrations/unknown/1.0.0.json`,
+      `${baseUrl}/v3/catalog/entries/flashcap/9.9.9.json`,
+    ]) {
+      const response = await fetch(url);
+      expect(response.status).toBe(404);
+    }
+  });
+
+  test('should inline pages into the index for small packages', async (fn) => {
+    const versions = Array.from({ length: 100 }, (_, i) => `1.0.${i}`);
+    const baseUrl = await startServer(fn.task.name, [], (packagesDir) =>
+      seedVersions(packagesDir, 'Small', versions)
+    );
+
+    const response = await fetch(
+      `${baseUrl}/v3/registrations/small/index.json`
+    );
+    const index = await response.json();
+
+    expect(index.count).toBe(2);
+    expect(index.items[0].count).toBe(64);
+    expect(index.items[0].lower).toBe('1.0.0');
+    expect(index.items[0].upper).toBe('1.0.63');
+    expect(index.items[0].items).toHaveLength(64);
+    expect(index.items[1].lower).toBe('1.0.64');
+    expect(index.items[1].upper).toBe('1.0.99');
+    expect(index.items[1].items).toHaveLength(36);
+  });
+
+  test('should serve non-inlined pages for packages with many versions', async (fn) => {
+    const versions = Array.from({ length: 150 }, (_, i) => `2.${i}.0`);
+    const baseUrl = await startServer(fn.task.name, [], (packagesDir) =>
+      seedVersions(packagesDir, 'Large', versions)
+    );
+
+    const response = await fetch(
+      `${baseUrl}/v3/registrations/large/index.json`
+    );
+    const index = await response.json();
+
+    expect(index.count).toBe(3);
+    expect(index.items.map((p: any) => p.count)).toEqual([64, 64, 22]);
+    // Bounds follow version order, not string order
+    expect(index.items[0].lower).toBe('2.0.0');
+    expect(index.items[0].upper).toBe('2.63.0');
+    expect(index.items[2].lower).toBe('2.128.0');
+    expect(index.items[2].upper).toBe('2.149.0');
+    for (const page of index.items) {
+      expect(page.items).toBeUndefined();
+    }
+
+    const pageUrl = index.items[1]['@id'];
+    expect(pageUrl).toBe(
+      `${baseUrl}/v3/registrations/large/page/2.64.0/2.127.0.json`
+    );
+    const pageResponse = await fetch(pageUrl);
+    expect(pageResponse.status).toBe(200);
+    const page = await pageResponse.json();
+
+    expect(page['@id']).toBe(pageUrl);
+    expect(page.parent).toBe(`${baseUrl}/v3/registrations/large/index.json`);
+    expect(page.count).toBe(64);
+    expect(page.items).toHaveLength(64);
+    expect(page.items[0].catalogEntry.version).toBe('2.64.0');
+    expect(page.items[63].catalogEntry.version).toBe('2.127.0');
+
+    const missingResponse = await fetch(
+      `${baseUrl}/v3/registrations/large/page/2.0.0/2.64.0.json`
+    );
+    expect(missingResponse.status).toBe(404);
+  });
+
+  test('should resolve normalized versions case-insensitively', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, [], (packagesDir) =>
+      seedVersions(packagesDir, 'Mixed', [
+        '1.0.0-Beta.2',
+        '1.0.0-Beta.10',
+        '1.0.0.0',
+      ])
+    );
+
+    const response = await fetch(
+      `${baseUrl}/v3/registrations/mixed/index.json`
+    );
+    const index = await response.json();
+    // SemVer 2.0 precedence: numeric labels are compared numerically
+    expect(
+      index.items[0].items.map((leaf: any) => leaf.catalogEntry.version)
+    ).toEqual(['1.0.0-Beta.2', '1.0.0-Beta.10', '1.0.0.0']);
+    expect(index.items[0].lower).toBe('1.0.0-Beta.2');
+    expect(index.items[0].upper).toBe('1.0.0');
+    expect(index.items[0].items[1]['@id']).toBe(
+      `${baseUrl}/v3/registrations/mixed/1.0.0-beta.10.json`
+    );
+    expect(index.items[0].items[2].packageContent).toBe(
+      `${baseUrl}/v3/package/mixed/1.0.0/mixed.1.0.0.nupkg`
+    );
+
+    const versionsResponse = await fetch(
+      `${baseUrl}/v3/package/mixed/index.json`
+    );
+    const versions = await versionsResponse.json();
+    expect([...versions.versions].sort()).toEqual([
+      '1.0.0',
+      '1.0.0-beta.10',
+      '1.0.0-beta.2',
+    ]);
+
+    for (const url of [
+      `${baseUrl}/v3/registrations/mixed/1.0.0-beta.10.json`,
+      `${baseUrl}/v3/registrations/mixed/1.0.json`,
+      `${baseUrl}/v3/catalog/entries/mixed/1.0.0.json`,
+      `${baseUrl}/v3/package/mixed/1.0.0/mixed.1.0.0.nupkg`,
+      `${baseUrl}/v3/package/mixed/1.0.0-beta.2/mixed.1.0.0-beta.2.nupkg`,
+    ]) {
+      const documentResponse = await fetch(url);
+      expect(documentResponse.status).toBe(200);
+    }
+  });
+});
@@ -0,0 +1,319 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * NuGet V3 Search Tests
+ *
+ * Tests the SearchQueryService (/v3/query) parameters:
+ * - prerelease: Prerelease versions are hidden unless `prerelease=true`
+ * - semVerLevel: SemVer 2.0 versions are hidden unless `semVerLevel=2.0.0`
+ * - packageType: Filters by the package types declared in the nuspec
+ * - q: Field-scoped query syntax and relevance ranking
+ *
+ * Also tests the SearchAutocompleteService (/v3/autocomplete):
+ * - q: Package ID prefix completion
+ * - id: Version listing of a package
+ */
+describe('NuGet V3 search', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('v3-search', testGlobalLogLevel);
+
+  interface SeedPackage {
+    id: string;
+    version: string;
+    extraMetadata?: string;
+  }
+
+  // Writes version directories directly into the package storage
+  const seedPackages = async (packagesDir: string, packages: SeedPackage[]) => {
+    for (const { id, version, extraMetadata } of packages) {
+      const versionDir = path.join(packagesDir, id, version);
+      await fs.mkdir(versionDir, { recursive: true });
+      await fs.writeFile(
+        path.join(versionDir, `${id}.nuspec`),
+        `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://schemas.microsoft.com/packaging/2013/05/nuspec.xsd">
+  <metadata>
+    <id>${id}</id>
+    <version>${version}</version>
+    <authors>test</authors>
+    <description>Search test package</description>
+    ${extraMetadata ?? ''}
+  </metadata>
+</package>`
+      );
+      await fs.writeFile(path.join(versionDir, `${id}.${version}.nupkg`), '');
+    }
+  };
+
+  const startServer = async (testName: string, packages: SeedPackage[]) => {
+    const testDir = await createTestDirectory('v3-search', testName);
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+    await seedPackages(packagesDir, packages);
+
+    const port = await getTestPort(9800);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test V3 Search Server',
+      logLevel: testGlobalLogLevel,
+      authMode: 'none',
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const search = async (baseUrl: string, parameters: string) => {
+    const response = await fetch(`${baseUrl}/v3/query?${parameters}`);
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should hide prerelease versions unless requested', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, [
+      { id: 'Mixed', version: '1.0.0' },
+      { id: 'Mixed', version: '1.1.0-beta' },
+      { id: 'PreviewOnly', version: '0.1.0-alpha' },
+    ]);
+
+    const stable = await search(baseUrl, 'semVerLevel=2.0.0');
+    expect(stable.totalHits).toBe(1);
+    expect(stable.data[0].id).toBe('Mixed');
+    expect(stable.data[0].version).toBe('1.0.0');
+    expect(stable.data[0].versions.map((v: any) => v.version)).toEqual([
+      '1.0.0',
+    ]);
+
+    const prerelease = await search(
+      baseUrl,
+      'prerelease=true&semVerLevel=2.0.0'
+    );
+    expect(prerelease.totalHits).toBe(2);
+    const mixed = prerelease.data.find((r: any) => r.id === 'Mixed');
+    expect(mixed.version).toBe('1.1.0-beta');
+    expect(mixed.versions).toHaveLength(2);
+  });
+
+  test('should hide SemVer 2.0 versions from old clients', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, [
+      { id: 'Dotted', version: '1.0.0-beta.1' },
+      { id: 'Dotted', version: '1.0.0-beta' },
+      { id: 'WithMetadata', version: '2.0.0+build.7' },
+      {
+        id: 'Dependent',
+        version: '1.0.0',
+        extraMetadata: `<dependencies><dependency id="Dotted" version="1.0.0-beta.1" /></dependencies>`,
+      },
+    ]);
+
+    const legacy = await search(baseUrl, 'prerelease=true');
+    expect(legacy.data.map((r: any) => r.id)).toEqual(['Dotted']);
+    expect(legacy.data[0].version).toBe('1.0.0-beta');
+
+    const semVer2 = await search(baseUrl, 'prerelease=true&semVerLevel=2.0.0');
+    expect(semVer2.data.map((r: any) => r.id).sort()).toEqual([
+      'Dependent',
+      'Dotted',
+      'WithMetadata',
+    ]);
+    const dotted = semVer2.data.find((r: any) => r.id === 'Dotted');
+    expect(dotted.version).toBe('1.0.0-beta.1');
+  });
+
+  test('should filter by package type', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, [
+      { id: 'Library', version: '1.0.0' },
+      {
+        id: 'Tool',
+        version: '1.0.0',
+        extraMetadata: `<packageTypes><packageType name="DotnetTool" /></packageTypes>`,
+      },
+    ]);
+
+    const all = await search(baseUrl, 'semVerLevel=2.0.0');
+    expect(all.totalHits).toBe(2);
+    expect(all.data.find((r: any) => r.id === 'Library').packageTypes).toEqual([
+      { name: 'Dependency' },
+    ]);
+    expect(all.data.find((r: any) => r.id === 'Tool').packageTypes).toEqual([
+      { name: 'DotnetTool' },
+    ]);
+
+    const tools = await search(baseUrl, 'packageType=dotnettool');
+    expect(tools.data.map((r: any) => r.id)).toEqual(['Tool']);
+
+    const dependencies = await search(baseUrl, 'packageType=Dependency');
+    expect(dependencies.data.map((r: any) => r.id)).toEqual(['Library']);
+  });
+
+  test('should rank results by relevance', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, [
+      {
+        id: 'Alpha.Described',
+        version: '1.0.0',
+        extraMetadata: '<summary>Works with json documents</summary>',
+      },
+      {
+        id: 'Beta.Tagged',
+        version: '1.0.0',
+        extraMetadata: '<tags>json parser</tags>',
+      },
+      { id: 'Json', version: '1.0.0' },
+      { id: 'JsonKit', version: '1.0.0' },
+      { id: 'Unrelated', version: '1.0.0' },
+    ]);
+
+    const result = await search(baseUrl, 'q=json');
+    expect(result.totalHits).toBe(4);
+    expect(result.data.map((r: any) => r.id)).toEqual([
+      'Json',
+      'JsonKit',
+      'Beta.Tagged',
+      'Alpha.Described',
+    ]);
+  });
+
+  test('should support field-scoped query syntax', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, [
+      {
+        id: 'FlashCap',
+        version: '1.10.0',
+        extraMetadata: '<tags>camera capture</tags>',
+      },
+      { id: 'FlashCap', version: '1.11.0' },
+      {
+        id: 'FlashCap.Core',
+        version: '1.11.0',
+        extraMetadata: '<tags>camera</tags>',
+      },
+      {
+        id: 'CameraTools',
+        version: '2.0.0',
+        extraMetadata: '<tags>camera</tags>',
+      },
+    ]);
+
+    const byId = await search(baseUrl, 'q=id:flashcap');
+    expect(byId.data.map((r: any) => r.id)).toEqual([
+      'FlashCap',
+      'FlashCap.Core',
+    ]);
+
+    const byPackageId = await search(baseUrl, 'q=packageid:flashcap');
+    expect(byPackageId.data.map((r: any) => r.id)).toEqual(['FlashCap']);
+
+    const byTagAndVersion = await search(
+      baseUrl,
+      `q=${encodeURIComponent('tags:camera version:1.11.0')}`
+    );
+    expect(byTagAndVersion.data.map((r: any) => r.id)).toEqual([
+      'FlashCap.Core',
+    ]);
+
+    const byAuthorAndDescription = await search(
+      baseUrl,
+      `q=${encodeURIComponent('author:test description:"search test" camera')}`
+    );
+    expect(byAuthorAndDescription.totalHits).toBe(2);
+  });
+
+  const autocomplete = async (baseUrl: string, parameters: string) => {
+    const response = await fetch(`${baseUrl}/v3/autocomplete?${parameters}`);
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+
+  test('should complete package IDs', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, [
+      { id: 'FlashCap', version: '1.0.0' },
+      { id: 'FlashCap.Core', version: '1.0.0' },
+      { id: 'Newtonsoft.Flash', version: '1.0.0' },
+      { id: 'Preview.Flash', version: '1.0.0-beta' },
+      { id: 'Unrelated', version: '1.0.0' },
+    ]);
+
+    const serviceIndex = await (await fetch(`${baseUrl}/v3/index.json`)).json();
+    expect(
+      serviceIndex.resources.find(
+        (r: any) =>
+          Array.isArray(r['@type']) &&
+          r['@type'].includes('SearchAutocompleteService')
+      )?.['@id']
+    ).toBe(`${baseUrl}/v3/autocomplete`);
+
+    // Prefix matches come first, then segment prefix matches
+    const result = await autocomplete(baseUrl, 'q=flash');
+    expect(result.totalHits).toBe(3);
+    expect(result.data).toEqual([
+      'FlashCap',
+      'FlashCap.Core',
+      'Newtonsoft.Flash',
+    ]);
+
+    const withPrerelease = await autocomplete(
+      baseUrl,
+      'q=flash&prerelease=true'
+    );
+    expect(withPrerelease.data).toContain('Preview.Flash');
+
+    const paged = await autocomplete(baseUrl, 'q=flash&skip=1&take=1');
+    expect(paged.totalHits).toBe(3);
+    expect(paged.data).toEqual(['FlashCap.Core']);
+
+    const all = await autocomplete(baseUrl, '');
+    expect(all.data).toEqual([
+      'FlashCap',
+      'FlashCap.Core',
+      'Newtonsoft.Flash',
+      'Unrelated',
+    ]);
+  });
+
+  test('should list versions of a package', async (fn) => {
+    const baseUrl = await startServer(fn.task.name, [
+      { id: 'Sample', version: '1.10.0' },
+      { id: 'Sample', version: '1.2.0' },
+      { id: 'Sample', version: '2.0.0-beta' },
+      { id: 'Sample', version: '2.0.0-beta.1' },
+    ]);
+
+    const stable = await autocomplete(baseUrl, 'id=sample');
+    expect(stable.data).toEqual(['1.2.0', '1.10.0']);
+
+    const prerelease = await autocomplete(
+      baseUrl,
+      'id=SAMPLE&prerelease=true&semVerLevel=2.0.0'
+    );
+    expect(prerelease.data).toEqual([
+      '1.2.0',
+      '1.10.0',
+      '2.0.0-beta',
+      '2.0.0-beta.1',
+    ]);
+
+    const missing = await autocomplete(baseUrl, 'id=missing');
+    expect(missing.data).toEqual([]);
+  });
+});
@@ -0,0 +1,206 @@
+// nuget-server - NuGet server on Node.js
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// License under MIT.
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { startFastifyServer, FastifyServerInstance } from '../src/server';
+import { createConsoleLogger } from '../src/logger';
+import { AuthMode, ServerConfig } from '../src/types';
+import {
+  createTestDirectory,
+  getTestPort,
+  testGlobalLogLevel,
+} from './helpers/test-helper.js';
+
+/**
+ * Vulnerability Information Tests
+ *
+ * Tests the VulnerabilityInfo/6.7.0 resource used by NuGet audit:
+ * - Service index advertisement
+ * - Vulnerability index and page documents built from advisories
+ * - Advisory management API (/api/ui/advisories) and persistence to advisories.json
+ */
+describe('Vulnerability information', () => {
+  let server: FastifyServerInstance | null = null;
+  const logger = createConsoleLogger('vulnerability-info', testGlobalLogLevel);
+
+  const startServer = async (testDir: string, authMode: AuthMode = 'none') => {
+    const packagesDir = path.join(testDir, 'packages');
+    await fs.mkdir(packagesDir, { recursive: true });
+
+    const port = await getTestPort(9990);
+    const config: ServerConfig = {
+      port,
+      packageDir: packagesDir,
+      configDir: testDir,
+      realm: 'Test Vulnerability Info Server',
+      logLevel: testGlobalLogLevel,
+      authMode,
+    };
+    server = await startFastifyServer(config, logger);
+    return `http://localhost:${port}`;
+  };
+
+  const manageAdvisories = (baseUrl: string, body: object) =>
+    fetch(`${baseUrl}/api/ui/advisories`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  const getVulnerabilities = async (baseUrl: string) => {
+    const index = await (
+      await fetch(`${baseUrl}/v3/vulnerabilities/index.json`)
+    ).json();
+    const page = await (await fetch(index[0]['@id'])).json();
+    return { index, page };
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  test('should serve advisories as vulnerability documents', async (fn) => {
+    const testDir = await createTestDirectory(
+      'vulnerability-info',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+
+    const serviceIndex = await (await fetch(`${baseUrl}/v3/index.json`)).json();
+    const resource = serviceIndex.resources.find(
+      (r: any) => r['@type'] === 'VulnerabilityInfo/6.7.0'
+    );
+    expect(resource['@id']).toBe(`${baseUrl}/v3/vulnerabilities/index.json`);
+
+    const empty = await getVulnerabilities(baseUrl);
+    expect(empty.index).toHaveLength(1);
+    expect(empty.index[0]['@name']).toBe('base');
+    expect(empty.page).toEqual({});
+
+    const created = await manageAdvisories(baseUrl, {
+      action: 'create',
+      packageId: 'Contoso.Utils',
+      versionRange: '[1.0.0, 1.2.3)',
+      severity: 'High',
+      url: 'https://security.example.com/advisories/1',
+    });
+    expect(created.status).toBe(201);
+    const { advisory } = await created.json();
+    expect(advisory.versionRange).toBe('[1.0.0,1.2.3)');
+    expect(advisory.severity).toBe('high');
+
+    await manageAdvisories(baseUrl, {
+      action: 'create',
+      packageId: 'contoso.utils',
+      versionRange: '(,0.9.0]',
+      severity: 'critical',
+      url: 'https://security.example.com/advisories/2',
+    });
+
+    const { index, page } = await getVulnerabilities(baseUrl);
+    expect(Date.parse(index[0]['@updated'])).toBeGreaterThanOrEqual(
+      Date.parse(empty.index[0]['@updated'])
+    );
+    expect(page).toEqual({
+      'contoso.utils': [
+        {
+          severity: 2,
+          url: 'https://security.example.com/advisories/1',
+          versions: '[1.0.0,1.2.3)',
+        },
+        {
+          severity: 3,
+          url: 'https://security.example.com/advisories/2',
+          versions: '(,0.9.0]',
+        },
+      ],
+    });
+
+    const updated = await manageAdvisories(baseUrl, {
+      action: 'update',
+      id: advisory.id,
+      packageId: 'Contoso.Utils',
+      versionRange: '[1.0.0,1.2.4)',
+      severity: 'moderate',
+      url: 'https://security.example.com/advisories/1',
+    });
+    expect(updated.status).toBe(200);
+
+    // Advisories are restored from advisories.json on restart
+    await server!.close();
+    server = null;
+    const restartedUrl = await startServer(testDir);
+    const list = await (
+      await manageAdvisories(restartedUrl, { action: 'list' })
+    ).json();
+    expect(
+      list.advisories.map((a: any) => `${a.versionRange} ${a.severity}`)
+    ).toEqual(['[1.0.0,1.2.4) moderate', '(,0.9.0] critical']);
+
+    const deleted = await manageAdvisories(restartedUrl, {
+      action: 'delete',
+      id: advisory.id,
+    });
+    expect(deleted.status).toBe(200);
+    const afterDelete = await getVulnerabilities(restartedUrl);
+    expect(afterDelete.page['contoso.utils']).toHaveLength(1);
+  });
+
+  test('should validate advisories', async (fn) => {
+    const testDir = await createTestDirectory(
+      'vulnerability-info',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir);
+
+    const advisory = {
+      action: 'create',
+      packageId: 'Contoso.Utils',
+      versionRange: '[1.0.0,2.0.0)',
+      severity: 'low',
+      url: 'https://security.example.com/advisories/1',
+    };
+    for (const invalid of [
+      { packageId: 'Contoso Utils' },
+      { versionRange: '[1.0.0' },
+      { severity: 'urgent' },
+      { url: 'javascript:alert(1)' },
+    ]) {
+      expect(
+        (await manageAdvisories(baseUrl, { ...advisory, ...invalid })).status
+      ).toBe(400);
+    }
+    expect(
+      (
+        await manageAdvisories(baseUrl, {
+          ...advisory,
+          action: 'update',
+          id: 'missing',
+        })
+      ).status
+    ).toBe(404);
+    expect((await getVulnerabilities(baseUrl)).page).toEqual({});
+  });
+
+  test('should require an admin session when authentication is enabled', async (fn) => {
+    const testDir = await createTestDirectory(
+      'vulnerability-info',
+      fn.task.name
+    );
+    const baseUrl = await startServer(testDir, 'publish');
+
+    expect((await manageAdvisories(baseUrl, { action: 'list' })).status).toBe(
+      401
+    );
+    // Vulnerability documents follow the V3 read authentication
+    expect(
+      (await fetch(`${baseUrl}/v3/vulnerabilities/index.json`)).status
+    ).toBe(200);
+  });
+});